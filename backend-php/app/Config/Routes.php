@@ -18,6 +18,11 @@ $routes->get('/', 'Home::index');
  * - POST /api/cart/add
  * - PUT /api/cart/update/{id}  (id = MD5 hash of product_id)
  * - DELETE /api/cart/remove/{id}
+ *
+ * Wishlist endpoints:
+ * - GET /api/wishlist
+ * - POST /api/wishlist/add
+ * - DELETE /api/wishlist/remove/{product_id}
  */
 $routes->group('api', ['namespace' => 'App\Controllers'], function ($routes) {
     // Cart endpoints
@@ -31,4 +36,13 @@ $routes->group('api', ['namespace' => 'App\Controllers'], function ($routes) {
     $routes->options('cart/add', 'CartController::options');
     $routes->options('cart/update/(:any)', 'CartController::options');
     $routes->options('cart/remove/(:any)', 'CartController::options');
+
+    // Wishlist endpoints (same session as the cart)
+    $routes->get('wishlist', 'WishlistController::index');
+    $routes->post('wishlist/add', 'WishlistController::add');
+    $routes->delete('wishlist/remove/(:num)', 'WishlistController::remove/$1');
+
+    $routes->options('wishlist', 'WishlistController::options');
+    $routes->options('wishlist/add', 'WishlistController::options');
+    $routes->options('wishlist/remove/(:num)', 'WishlistController::options');
 });
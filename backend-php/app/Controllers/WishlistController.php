@@ -0,0 +1,173 @@
+<?php
+
+namespace App\Controllers;
+
+use CodeIgniter\RESTful\ResourceController;
+use CodeIgniter\API\ResponseTrait;
+
+/**
+ * Wishlist API Controller
+ * Saved-for-later products stored in the same session as the cart
+ *
+ * Endpoints:
+ * - GET /api/wishlist
+ * - POST /api/wishlist/add
+ * - DELETE /api/wishlist/remove/{product_id}
+ *
+ * Items are a snapshot of the product when it was saved; the frontend
+ * refreshes price and stock from the catalog when it displays them.
+ */
+class WishlistController extends ResourceController
+{
+    use ResponseTrait;
+
+    protected $format = 'json';
+
+    /**
+     * GET /api/wishlist
+     * Retrieve the current wishlist from session
+     *
+     * Returns: Wishlist object with items (newest first)
+     */
+    public function index()
+    {
+        return $this->respond($this->getWishlistFromSession());
+    }
+
+    /**
+     * POST /api/wishlist/add
+     * Save a product to the wishlist (no-op if already saved)
+     *
+     * Request body:
+     * {
+     *   "product_id": 1,
+     *   "title": "Product Name",
+     *   "price": 9.99,
+     *   "image": "https://..."
+     * }
+     *
+     * Returns: Full updated wishlist object
+     */
+    public function add()
+    {
+        $request = $this->request->getJSON();
+
+        if (!$request || !isset($request->product_id)) {
+            return $this->fail([
+                'status' => 400,
+                'message' => 'Wishlist Error',
+                'description' => 'Missing required field: product_id'
+            ], 400);
+        }
+
+        $wishlist = $this->getWishlistFromSession();
+
+        if ($this->findItemIndex($wishlist['items'], (int) $request->product_id) === false) {
+            // Newest first, matching how the wishlist page lists items
+            array_unshift($wishlist['items'], $this->buildWishlistItem($request));
+            $wishlist['count'] = count($wishlist['items']);
+            $this->saveWishlistToSession($wishlist);
+        }
+
+        return $this->respond($wishlist);
+    }
+
+    /**
+     * DELETE /api/wishlist/remove/{product_id}
+     * Remove a product from the wishlist
+     *
+     * Returns: Full updated wishlist object
+     */
+    public function remove($productId = null)
+    {
+        if ($productId === null || !ctype_digit((string) $productId)) {
+            return $this->fail([
+                'status' => 400,
+                'message' => 'Wishlist Error',
+                'description' => 'Product ID is required'
+            ], 400);
+        }
+
+        $wishlist = $this->getWishlistFromSession();
+        $itemIndex = $this->findItemIndex($wishlist['items'], (int) $productId);
+
+        if ($itemIndex === false) {
+            return $this->fail([
+                'status' => 404,
+                'message' => 'Wishlist Error',
+                'description' => 'Product not found in wishlist'
+            ], 404);
+        }
+
+        array_splice($wishlist['items'], $itemIndex, 1);
+        $wishlist['count'] = count($wishlist['items']);
+
+        $this->saveWishlistToSession($wishlist);
+
+        return $this->respond($wishlist);
+    }
+
+    /**
+     * Get wishlist from session or initialize empty wishlist
+     */
+    private function getWishlistFromSession(): array
+    {
+        $wishlist = session()->get('wishlist');
+
+        if (!$wishlist) {
+            $wishlist = [
+                'items' => [],
+                'count' => 0
+            ];
+        }
+
+        return $wishlist;
+    }
+
+    /**
+     * Save wishlist to session
+     */
+    private function saveWishlistToSession(array $wishlist): void
+    {
+        session()->set('wishlist', $wishlist);
+    }
+
+    /**
+     * Build wishlist item from request data
+     * Converts price from dollars to cents, like cart lines
+     */
+    private function buildWishlistItem(object $request): array
+    {
+        return [
+            'product_id' => (int) $request->product_id,
+            'title' => $request->title ?? 'Product',
+            'price' => (int) round(($request->price ?? 0) * 100), // Price in cents
+            'image' => $request->image ?? $request->thumbnail ?? '',
+            'brand' => $request->brand ?? null,
+            'category' => $request->category ?? null,
+            'added_at' => date('c')
+        ];
+    }
+
+    /**
+     * Find item index in wishlist by product ID
+     */
+    private function findItemIndex(array $items, int $productId): int|false
+    {
+        foreach ($items as $index => $item) {
+            if ($item['product_id'] === $productId) {
+                return $index;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * OPTIONS handler for CORS preflight requests
+     * The CORS filter will handle adding the actual headers
+     */
+    public function options()
+    {
+        return $this->response->setStatusCode(200);
+    }
+}
@@ -0,0 +1,146 @@
+<?php
+
+namespace Tests\Feature;
+
+use CodeIgniter\Test\FeatureTestTrait;
+use CodeIgniter\Test\CIUnitTestCase;
+
+/**
+ * Integration tests for Wishlist API Controller
+ *
+ * Tests the wishlist endpoints:
+ * - GET /api/wishlist
+ * - POST /api/wishlist/add
+ * - DELETE /api/wishlist/remove/{product_id}
+ */
+class WishlistControllerTest extends CIUnitTestCase
+{
+    use FeatureTestTrait;
+
+    protected function setUp(): void
+    {
+        parent::setUp();
+        // Clear session before each test
+        $_SESSION = [];
+    }
+
+    /**
+     * Test 1: GET /api/wishlist returns empty wishlist initially
+     */
+    public function testGetEmptyWishlist()
+    {
+        $result = $this->get('/api/wishlist');
+
+        $result->assertStatus(200);
+        $result->assertJSONFragment([
+            'items' => [],
+            'count' => 0
+        ]);
+    }
+
+    /**
+     * Test 2: POST /api/wishlist/add saves a product with price in cents
+     */
+    public function testAddItemToWishlist()
+    {
+        $product = [
+            'product_id' => 1,
+            'title' => 'Test Product',
+            'price' => 9.99,
+            'image' => 'https://example.com/image.jpg',
+            'brand' => 'Test Brand'
+        ];
+
+        $result = $this->withBodyFormat('json')->post('/api/wishlist/add', $product);
+
+        $result->assertStatus(200);
+
+        $json = json_decode($result->getJSON());
+        $this->assertEquals(1, $json->count);
+        $this->assertEquals(1, $json->items[0]->product_id);
+        $this->assertEquals('Test Product', $json->items[0]->title);
+        $this->assertEquals(999, $json->items[0]->price); // Price in cents
+        $this->assertObjectHasProperty('added_at', $json->items[0]);
+    }
+
+    /**
+     * Test 3: Adding the same product twice keeps a single item
+     */
+    public function testAddSameProductIsIdempotent()
+    {
+        $product = ['product_id' => 1, 'title' => 'Product', 'price' => 10.00];
+
+        $this->withBodyFormat('json')->post('/api/wishlist/add', $product);
+        $result = $this->withBodyFormat('json')->post('/api/wishlist/add', $product);
+
+        $json = json_decode($result->getJSON());
+        $this->assertEquals(1, $json->count);
+        $this->assertCount(1, $json->items);
+    }
+
+    /**
+     * Test 4: Newest items are listed first
+     */
+    public function testNewestItemsFirst()
+    {
+        $this->withBodyFormat('json')->post('/api/wishlist/add', ['product_id' => 1, 'title' => 'First', 'price' => 5]);
+        $result = $this->withBodyFormat('json')->post('/api/wishlist/add', ['product_id' => 2, 'title' => 'Second', 'price' => 5]);
+
+        $json = json_decode($result->getJSON());
+        $this->assertEquals([2, 1], array_map(fn ($item) => $item->product_id, $json->items));
+    }
+
+    /**
+     * Test 5: DELETE /api/wishlist/remove/{product_id} removes item
+     */
+    public function testRemoveItem()
+    {
+        $this->withBodyFormat('json')->post('/api/wishlist/add', ['product_id' => 1, 'title' => 'Product', 'price' => 10.00]);
+
+        $result = $this->withSession(null)->delete('/api/wishlist/remove/1');
+
+        $result->assertStatus(200);
+
+        $json = json_decode($result->getJSON());
+        $this->assertCount(0, $json->items);
+        $this->assertEquals(0, $json->count);
+    }
+
+    /**
+     * Test 6: Remove non-existent item returns 404
+     */
+    public function testRemoveNonExistentItemReturns404()
+    {
+        $result = $this->delete('/api/wishlist/remove/999');
+
+        $result->assertStatus(404);
+        $json = json_decode($result->getJSON());
+        $this->assertEquals(404, $json->status);
+    }
+
+    /**
+     * Test 7: Add without product_id returns 400
+     */
+    public function testAddWithoutProductIdReturns400()
+    {
+        $result = $this->withBodyFormat('json')->post('/api/wishlist/add', ['title' => 'Product']);
+
+        $result->assertStatus(400);
+        $json = json_decode($result->getJSON());
+        $this->assertEquals(400, $json->status);
+    }
+
+    /**
+     * Test 8: Wishlist and cart share the session without clobbering each other
+     */
+    public function testWishlistDoesNotAffectCart()
+    {
+        $this->withBodyFormat('json')->post('/api/wishlist/add', ['product_id' => 1, 'title' => 'Product', 'price' => 10.00]);
+
+        $result = $this->get('/api/cart');
+
+        $result->assertStatus(200);
+        $json = json_decode($result->getJSON());
+        $this->assertCount(0, $json->items);
+    }
+}
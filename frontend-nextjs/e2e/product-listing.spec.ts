@@ -4,7 +4,7 @@
  * Technical Requirement #1: Product Listing & Detail Views
  */
 
-import { test, expect } from '@playwright/test';
+import { test, expect, type Page } from '@playwright/test';
 
 test.describe('Product Listing Page', () => {
   test.beforeEach(async ({ page }) => {
@@ -168,3 +168,85 @@ test.describe('Product Listing Page', () => {
     expect(hasOptimization).toBeTruthy();
   });
 });
+
+test.describe('Product Listing URL State', () => {
+  // Read the displayed prices of all product cards in order
+  const getPrices = async (page: Page) => {
+    const texts = await page.locator('[data-testid="product-card"]').allTextContents();
+    return texts.map((text) => Number(text.match(/\$(\d+(?:\.\d+)?)/)?.[1]));
+  };
+
+  test('should write selected tags and sort to the URL', async ({ page }) => {
+    await page.setViewportSize({ width: 1280, height: 900 });
+    await page.goto('/products');
+    await page.waitForSelector('[data-testid="product-card"]', { timeout: 20000 });
+
+    // Select the first tag in the desktop sidebar
+    const firstTag = page.locator('input[name="tags[]"]').first();
+    await firstTag.check();
+    await page.waitForURL(/[?&]tags=/, { timeout: 5000 });
+
+    // Choose a sort order
+    await page.getByRole('button', { name: 'Featured' }).click();
+    await page.getByRole('menuitem', { name: 'Price: Low to High' }).click();
+    await page.waitForURL(/[?&]sort=price-low/, { timeout: 5000 });
+
+    expect(page.url()).toMatch(/tags=.+/);
+    await expect(firstTag).toBeChecked();
+  });
+
+  test('should restore filters and sort from a shared URL', async ({ page }) => {
+    await page.setViewportSize({ width: 1280, height: 900 });
+    await page.goto('/collections/beauty?sort=price-high&maxPrice=20');
+    await page.waitForSelector('[data-testid="product-card"]', { timeout: 20000 });
+
+    // Sort menu reflects the URL
+    await expect(page.getByRole('button', { name: 'Price: High to Low' })).toBeVisible();
+
+    // Price badge is shown and every product is within range, most expensive first
+    await expect(page.getByText('Under $20')).toBeVisible();
+    const prices = await getPrices(page);
+    expect(prices.length).toBeGreaterThan(0);
+    expect(prices.every((price) => price <= 20)).toBe(true);
+    expect(prices).toEqual([...prices].sort((a, b) => b - a));
+  });
+
+  test('should clear URL filters with "Clear all"', async ({ page }) => {
+    await page.goto('/collections/beauty?maxPrice=20&sort=price-low');
+    await page.waitForSelector('[data-testid="product-card"]', { timeout: 20000 });
+
+    await page.getByRole('button', { name: 'Clear all' }).click();
+    await page.waitForURL((url) => url.search === '', { timeout: 5000 });
+
+    await expect(page.getByText('Under $20')).toHaveCount(0);
+  });
+
+  test('should page through results and keep the page in the URL', async ({ page }) => {
+    await page.goto('/products');
+    await page.waitForSelector('[data-testid="product-card"]', { timeout: 20000 });
+    const firstPageTitles = await page.locator('[data-testid="product-card"] h3').allTextContents();
+
+    await page.getByRole('button', { name: 'Next' }).click();
+    await page.waitForURL(/[?&]page=2/, { timeout: 5000 });
+
+    await expect(page.getByRole('button', { name: 'Page 2' })).toHaveAttribute('aria-current', 'page');
+    const secondPageTitles = await page.locator('[data-testid="product-card"] h3').allTextContents();
+    expect(secondPageTitles).not.toEqual(firstPageTitles);
+  });
+
+  test('should restore the filtered view with the back button', async ({ page }) => {
+    await page.goto('/products?sort=price-low&maxPrice=50');
+    await page.waitForSelector('[data-testid="product-card"]', { timeout: 20000 });
+    const pricesBefore = await getPrices(page);
+
+    // Open a product, then go back
+    await page.locator('[data-testid="product-card"] a').first().click({ force: true });
+    await page.waitForURL(/\/products\/[\w-]+/, { timeout: 5000 });
+    await page.goBack();
+
+    await page.waitForURL(/sort=price-low/, { timeout: 5000 });
+    expect(page.url()).toContain('maxPrice=50');
+    await page.waitForSelector('[data-testid="product-card"]', { timeout: 20000 });
+    expect(await getPrices(page)).toEqual(pricesBefore);
+  });
+});
@@ -1,5 +0,0 @@
-import { redirect } from 'next/navigation'
-
-export default function HomePage() {
-  redirect('/products')
-}
@@ -0,0 +1,430 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { Link, useRouter } from '@/lib/i18n/navigation'
+import { useQueryClient } from '@tanstack/react-query'
+import { CheckoutHeader } from '@/components/checkout/checkout-header'
+import { CheckoutOrderSummary } from '@/components/checkout/checkout-order-summary'
+import { CheckoutReview } from '@/components/checkout/checkout-review'
+import { ContactSection } from '@/components/checkout/contact-section'
+import { PaymentSection } from '@/components/checkout/payment-section'
+import { ShippingSection } from '@/components/checkout/shipping-section'
+import { ShippingMethodSection } from '@/components/checkout/shipping-method-section'
+import { BillingSection } from '@/components/checkout/billing-section'
+import { ThreeDSecureDialog } from '@/components/checkout/three-d-secure-dialog'
+import { useCart } from '@/hooks/useCart'
+import { useCheckoutAddresses } from '@/hooks/useCheckoutAddresses'
+import { useCheckoutFlow } from '@/hooks/useCheckoutFlow'
+import { useCheckoutForm } from '@/hooks/useCheckoutForm'
+import { useShippingRates } from '@/hooks/useShippingRates'
+import { useTranslations } from '@/hooks/useTranslations'
+import { orderQueryKey } from '@/hooks/useOrder'
+import { CHECKOUT_STEPS, isStepField } from '@/lib/services/checkout-flow'
+import { calculateTax } from '@/lib/services/tax'
+import type { CardFieldPath, CheckoutFieldPath } from '@/lib/services/checkout-schema'
+import type { CheckoutErrorBody, CheckoutRequest } from '@/lib/types/checkout'
+import type { Order } from '@/lib/types/orders'
+import type { ThreeDSecureChallenge } from '@/lib/types/payments'
+import type { TaxAddress } from '@/lib/types/tax'
+
+// Checkout inputs by name, for marking fields as visited
+const INPUT_FIELDS: Record<string, CheckoutFieldPath | CardFieldPath> = {
+  'email-address': 'email',
+  'name-on-card': 'payment.nameOnCard',
+  'card-number': 'payment.cardNumber',
+  'expiration-date': 'payment.expirationDate',
+  cvc: 'payment.cvc',
+}
+
+const ADDRESS_INPUTS: Record<string, string> = {
+  address: 'address',
+  country: 'country',
+  city: 'city',
+  region: 'region',
+  'postal-code': 'postalCode',
+}
+
+/**
+ * Schema path of a checkout input (billing inputs are prefixed "billing-")
+ */
+function fieldPathForInput(name: string): CheckoutFieldPath | CardFieldPath | null {
+  if (INPUT_FIELDS[name]) return INPUT_FIELDS[name]
+
+  const isBilling = name.startsWith('billing-')
+  const field = ADDRESS_INPUTS[isBilling ? name.slice('billing-'.length) : name]
+
+  return field ? (`${isBilling ? 'billing' : 'shipping'}.${field}` as CheckoutFieldPath) : null
+}
+
+export default function CheckoutPage() {
+  const router = useRouter()
+  const queryClient = useQueryClient()
+  const {
+    items,
+    subtotal,
+    discount,
+    promoCode,
+    promotions,
+    currency,
+    itemCount,
+    isLoading: isCartLoading,
+    fetchCart,
+    applyPromoCode,
+    removePromoCode,
+  } = useCart()
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [formError, setFormError] = useState<string | null>(null)
+  const [shippingMethodId, setShippingMethodId] = useState<string | null>(null)
+  // Order awaiting 3-D Secure, resubmitted once the challenge is completed
+  const [pendingChallenge, setPendingChallenge] = useState<{
+    challenge: ThreeDSecureChallenge
+    request: CheckoutRequest
+  } | null>(null)
+  const addresses = useCheckoutAddresses()
+  const { t } = useTranslations()
+
+  // Shipping rates and taxes follow the shipping address as it's picked or typed
+  const { country, region, postalCode } = addresses.shipping.address
+  const destination = useMemo<TaxAddress>(
+    () => ({ country, region: region.trim(), postalCode }),
+    [country, region, postalCode]
+  )
+
+  // Shipping methods and tax wait for a state/province, which picks the
+  // shipping zone and tax jurisdiction
+  const hasDestination = destination.region !== ''
+  const shippingRates = useShippingRates({ items, subtotal, destination, enabled: hasDestination })
+  const selectedRate = hasDestination
+    ? shippingRates.rates.find((rate) => rate.id === shippingMethodId) ?? shippingRates.rates[0] ?? null
+    : null
+  const shipping = selectedRate?.amount ?? null
+
+  const form = useCheckoutForm({ addresses, shippingMethod: selectedRate?.id ?? null })
+
+  // The cart has loaded once its fetch on mount has finished
+  const [hasCartFetched, setHasCartFetched] = useState(false)
+  if (isCartLoading && !hasCartFetched) setHasCartFetched(true)
+  const isCartLoaded = hasCartFetched && !isCartLoading
+
+  // Ready once saved progress, the cart and shipping rates are in; the
+  // step guards are only trusted from then on
+  const [isRestored, setIsRestored] = useState(false)
+  const [isReady, setIsReady] = useState(false)
+  const flow = useCheckoutFlow({ itemCount, errors: form.schemaErrors, isReady })
+
+  // Pick up the details from an earlier visit before anything is shown
+  if (flow.isHydrated && !isRestored) {
+    setIsRestored(true)
+    if (flow.draft) {
+      addresses.restore(flow.draft.addresses)
+      form.restore(flow.draft)
+      setShippingMethodId(flow.draft.shippingMethodId)
+    }
+  }
+
+  if (!isReady && isRestored && isCartLoaded && !(hasDestination && shippingRates.isLoading)) {
+    setIsReady(true)
+  }
+
+  // Keep progress so a reload resumes here; a placed order clears it
+  const { saveDraft } = flow
+  useEffect(() => {
+    if (!isRestored || flow.step === 'confirmation') return
+
+    saveDraft({
+      email: form.email,
+      nameOnCard: form.nameOnCard,
+      cardToken: form.cardToken,
+      addresses: {
+        shipping: addresses.shipping,
+        billing: addresses.billing,
+        billingSameAsShipping: addresses.billingSameAsShipping,
+      },
+      shippingMethodId,
+    })
+  }, [
+    isRestored,
+    flow.step,
+    saveDraft,
+    form.email,
+    form.nameOnCard,
+    form.cardToken,
+    addresses.shipping,
+    addresses.billing,
+    addresses.billingSameAsShipping,
+    shippingMethodId,
+  ])
+
+  // Nothing to check out: the guards send an empty cart back to the cart page
+  const { send } = flow
+  useEffect(() => {
+    if (isReady && isCartLoaded && itemCount === 0) send({ type: 'goTo', step: 'cart' })
+  }, [isReady, isCartLoaded, itemCount, send])
+
+  useEffect(() => {
+    if (isReady && flow.step === 'cart') router.replace('/cart')
+  }, [isReady, flow.step, router])
+
+  // Each step starts at the top of the form
+  useEffect(() => {
+    window.scrollTo({ top: 0 })
+  }, [flow.step])
+
+  // Tax applies after the promo discount
+  const taxBreakdown = useMemo(
+    () => (shipping !== null ? calculateTax(items, { address: destination, shipping, discount }) : null),
+    [items, destination, shipping, discount]
+  )
+  const tax = taxBreakdown?.total ?? null
+
+  // Calculate total
+  const total = subtotal - discount + (shipping ?? 0) + (tax ?? 0)
+
+  // Errors show once a field has been left
+  const handleBlur = (e: React.FocusEvent<HTMLFormElement>) => {
+    const path = 'name' in e.target ? fieldPathForInput(String(e.target.name)) : null
+    if (path) form.touch(path)
+  }
+
+  const submitOrder = async (request: CheckoutRequest) => {
+    setIsSubmitting(true)
+
+    try {
+      const response = await fetch('/api/checkout', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+      })
+
+      if (!response.ok) {
+        const result: { error?: CheckoutErrorBody } = await response.json()
+
+        // The card needs 3-D Secure; the same token is retried once it's completed
+        if (result.error?.code === 'requires_action' && result.error.challenge) {
+          setPendingChallenge({ challenge: result.error.challenge, request })
+          return
+        }
+
+        // Back to the first step with a rejected field (payment, for a declined card)
+        const fields = result.error?.fields ?? {}
+        const step = CHECKOUT_STEPS.find((id) => Object.keys(fields).some((path) => isStepField(id, path)))
+        form.setServerErrors(fields)
+        setFormError(result.error?.message ?? t('checkout.failed'))
+        if (step) send({ type: 'goTo', step })
+        return
+      }
+
+      const order: Order = await response.json()
+      send({ type: 'orderPlaced', orderId: order.id })
+
+      // Seed the order cache so the confirmation page renders immediately
+      queryClient.setQueryData(orderQueryKey(order.id), order)
+      router.push(`/orders/${order.id}`)
+
+      // Keep new addresses the shopper ticked "save" on; the order is placed either way
+      addresses.saveNewAddresses().catch((error) => console.error('Failed to save addresses:', error))
+
+      // Cart was emptied server-side; sync the client store
+      await fetchCart()
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : t('checkout.failed'))
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setFormError(null)
+
+    // A step is left only once its own fields pass the checkout schema
+    const { step } = flow
+    if (!form.validate((path) => isStepField(step, path))) {
+      const formElement = e.currentTarget
+      requestAnimationFrame(() => formElement.querySelector<HTMLElement>('[aria-invalid="true"]')?.focus())
+      return
+    }
+
+    if (step === 'review') {
+      await submitOrder(form.request)
+      return
+    }
+
+    // Card details are swapped for a token on leaving payment; only the token is posted
+    if (step === 'payment') {
+      try {
+        await form.tokenizeCard()
+      } catch (error) {
+        setFormError(error instanceof Error ? error.message : t('checkout.failed'))
+        return
+      }
+    }
+
+    send({ type: 'next' })
+  }
+
+  const handleBack = () => {
+    setFormError(null)
+    send({ type: 'back' })
+  }
+
+  const handleChallengeComplete = (challenge: ThreeDSecureChallenge) => {
+    const request = pendingChallenge?.request
+    setPendingChallenge(null)
+
+    if (request) {
+      submitOrder({ ...request, payment: { ...request.payment, threeDSecureId: challenge.id } })
+    }
+  }
+
+  const handleChallengeCancel = () => {
+    setPendingChallenge(null)
+    setFormError(t('checkout.threeDSecure.cancelled'))
+  }
+
+  return (
+    <div className="bg-white">
+      {/* Background color split screen for large screens */}
+      <div aria-hidden="true" className="fixed top-0 left-0 hidden h-full w-1/2 bg-white lg:block" />
+      <div aria-hidden="true" className="fixed top-0 right-0 hidden h-full w-1/2 bg-gray-50 lg:block" />
+
+      <CheckoutHeader steps={flow.steps} />
+
+      <main className="relative mx-auto grid max-w-7xl grid-cols-1 gap-x-16 lg:grid-cols-2 lg:px-8 xl:gap-x-48">
+        <h1 className="sr-only">{t('checkout.heading')}</h1>
+
+        {/* Order summary - Right side on desktop */}
+        <CheckoutOrderSummary
+          items={items}
+          subtotal={subtotal}
+          shipping={shipping}
+          shippingMethod={selectedRate}
+          tax={tax}
+          taxLines={taxBreakdown?.lines}
+          promoCode={promoCode}
+          promotions={promotions}
+          total={total}
+          currency={currency}
+          onApplyPromoCode={applyPromoCode}
+          onRemovePromoCode={removePromoCode}
+        />
+
+        {/* Checkout form - Left side on desktop */}
+        <form onSubmit={handleSubmit} onBlur={handleBlur} noValidate className="px-4 pt-16 pb-36 sm:px-6 lg:col-start-1 lg:row-start-1 lg:px-0 lg:pb-16">
+          <div className="mx-auto max-w-lg lg:max-w-none">
+            {!isReady || flow.step === 'cart' || flow.step === 'confirmation' ? (
+              <p role="status" className="text-sm text-gray-500">
+                {t('checkout.loading')}
+              </p>
+            ) : (
+              <>
+                {flow.step === 'information' && (
+                  <>
+                    {/* Contact information */}
+                    <ContactSection email={form.email} onEmailChange={form.setEmail} errors={form.errors} />
+
+                    {/* Shipping address */}
+                    <ShippingSection addresses={addresses} errors={form.errors} />
+                  </>
+                )}
+
+                {/* Shipping method */}
+                {flow.step === 'shippingMethod' && (
+                  <ShippingMethodSection
+                    rates={hasDestination ? shippingRates.rates : []}
+                    selectedId={selectedRate?.id ?? null}
+                    onChange={setShippingMethodId}
+                    currency={currency}
+                    awaitingAddress={!hasDestination}
+                    isLoading={shippingRates.isLoading}
+                    loadError={hasDestination ? shippingRates.error : null}
+                    errors={form.errors}
+                  />
+                )}
+
+                {flow.step === 'payment' && (
+                  <>
+                    {/* Payment details */}
+                    <PaymentSection
+                      nameOnCard={form.nameOnCard}
+                      onNameOnCardChange={form.setNameOnCard}
+                      card={form.card}
+                      onCardChange={form.setCardField}
+                      cardToken={form.cardToken}
+                      onClearCard={form.clearCard}
+                      errors={form.errors}
+                    />
+
+                    {/* Billing information */}
+                    <BillingSection addresses={addresses} errors={form.errors} />
+                  </>
+                )}
+
+                {flow.step === 'review' && (
+                  <CheckoutReview
+                    email={form.request.email}
+                    shippingAddress={addresses.shipping.address}
+                    shippingMethod={selectedRate}
+                    billingAddress={addresses.billingAddress}
+                    billingSameAsShipping={addresses.billingSameAsShipping}
+                    nameOnCard={form.nameOnCard}
+                    cardToken={form.cardToken}
+                    currency={currency}
+                    onEdit={(step) => send({ type: 'goTo', step })}
+                  />
+                )}
+
+                {formError && (
+                  <div role="alert" className="mt-10 rounded-md bg-red-50 p-4">
+                    <p className="text-sm text-red-800">{formError}</p>
+                  </div>
+                )}
+
+                {/* Continue / place order */}
+                <div className="mt-10 border-t border-gray-200 pt-6 sm:flex sm:items-center sm:justify-between">
+                  <button
+                    type="submit"
+                    disabled={isSubmitting || form.isBlocked}
+                    className="w-full rounded-md border border-transparent bg-indigo-600 px-4 py-2 text-sm font-medium text-white shadow-xs hover:bg-indigo-700 focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 focus:ring-offset-gray-50 focus:outline-hidden sm:order-last sm:ml-6 sm:w-auto disabled:opacity-50"
+                  >
+                    {isSubmitting
+                      ? t('common.processing')
+                      : flow.step === 'review'
+                        ? t('checkout.placeOrder')
+                        : t('checkout.continue')}
+                  </button>
+                  <div className="mt-4 text-center text-sm sm:mt-0 sm:text-left">
+                    {flow.step === 'information' ? (
+                      <Link href="/cart" className="font-medium text-indigo-600 hover:text-indigo-500">
+                        {t('checkout.returnToCart')}
+                      </Link>
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={handleBack}
+                        disabled={isSubmitting}
+                        className="font-medium text-indigo-600 hover:text-indigo-500 cursor-pointer disabled:opacity-50"
+                      >
+                        {t('checkout.back')}
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {flow.step === 'review' && (
+                  <p className="mt-4 text-sm text-gray-500">{t('checkout.confirmationNotice')}</p>
+                )}
+              </>
+            )}
+          </div>
+        </form>
+      </main>
+
+      <ThreeDSecureDialog
+        challenge={pendingChallenge?.challenge ?? null}
+        onComplete={handleChallengeComplete}
+        onCancel={handleChallengeCancel}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,95 @@
+/**
+ * Order Confirmation Page Client Component
+ * Shows the frozen totals and details of a placed order
+ */
+
+'use client'
+
+import { Link } from '@/lib/i18n/navigation'
+import { CheckoutHeader } from '@/components/checkout/checkout-header'
+import { CheckoutOrderSummary } from '@/components/checkout/checkout-order-summary'
+import { OrderConfirmation } from '@/components/checkout/order-confirmation'
+import { useCheckoutSteps } from '@/hooks/useCheckoutFlow'
+import { useOrder } from '@/hooks/useOrder'
+import { useDelayedLoading } from '@/hooks/useDelayedLoading'
+import { getStepStatuses } from '@/lib/services/checkout-flow'
+
+interface OrderPageClientProps {
+  orderId: string
+}
+
+export function OrderPageClient({ orderId }: OrderPageClientProps) {
+  const { order, isLoading, error } = useOrder(orderId)
+
+  // Delay showing loading state to prevent flicker for fast loads
+  const shouldShowLoading = useDelayedLoading(isLoading)
+
+  // Every step before confirmation is done and no longer reopens
+  const steps = useCheckoutSteps(getStepStatuses({ step: 'confirmation', orderId }, { itemCount: 0, errors: {} }))
+
+  if (error || (!order && !isLoading)) {
+    return (
+      <div className="bg-white">
+        <div className="mx-auto max-w-7xl px-4 py-16 sm:px-6 sm:py-24 lg:px-8">
+          <div className="text-center">
+            <h1 className="text-2xl font-bold tracking-tight text-gray-900">Order not found</h1>
+            <p className="mt-2 text-base text-gray-500">
+              {error ?? 'We couldn’t find this order. Orders can only be viewed from the browser that placed them.'}
+            </p>
+            <Link href="/products" className="mt-6 inline-block text-sm font-medium text-indigo-600 hover:text-indigo-500">
+              Continue Shopping
+              <span aria-hidden="true"> &rarr;</span>
+            </Link>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  if (!order) {
+    return (
+      <div className="bg-white">
+        <div className="mx-auto max-w-7xl px-4 py-16 sm:px-6 sm:py-24 lg:px-8">
+          <div className="text-center">
+            {shouldShowLoading && <p className="text-gray-500">Loading order...</p>}
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-white">
+      {/* Background color split screen for large screens */}
+      <div aria-hidden="true" className="fixed top-0 left-0 hidden h-full w-1/2 bg-white lg:block" />
+      <div aria-hidden="true" className="fixed top-0 right-0 hidden h-full w-1/2 bg-gray-50 lg:block" />
+
+      <CheckoutHeader steps={steps} />
+
+      <main className="relative mx-auto grid max-w-7xl grid-cols-1 gap-x-16 lg:grid-cols-2 lg:px-8 xl:gap-x-48">
+        <h1 className="sr-only">Order confirmation</h1>
+
+        {/* Order summary - Right side on desktop */}
+        <CheckoutOrderSummary
+          items={order.items}
+          subtotal={order.subtotal}
+          shipping={order.shipping}
+          shippingMethod={order.shippingMethod}
+          tax={order.tax}
+          taxLines={order.taxLines}
+          promoCode={order.promoCode}
+          promotions={order.promotions}
+          total={order.total}
+          currency={order.currency}
+        />
+
+        {/* Confirmation details - Left side on desktop */}
+        <div className="px-4 pt-16 pb-36 sm:px-6 lg:col-start-1 lg:row-start-1 lg:px-0 lg:pb-16">
+          <div className="mx-auto max-w-lg lg:max-w-none">
+            <OrderConfirmation order={order} />
+          </div>
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,31 @@
+/**
+ * Order Confirmation Page (Server Component)
+ * Handles metadata for order confirmation pages
+ */
+
+import type { Metadata } from 'next'
+import { brand } from '@/lib/cms'
+import { OrderPageClient } from './page.client'
+
+interface OrderPageProps {
+  params: Promise<{
+    orderId: string
+  }>
+}
+
+export const metadata: Metadata = {
+  title: `Order Confirmation | ${brand.name}`,
+  // Orders are private to the session that placed them
+  robots: {
+    index: false,
+    follow: false,
+  },
+}
+
+/**
+ * Order page - wraps client component
+ */
+export default async function OrderPage(props: OrderPageProps) {
+  const params = await props.params
+  return <OrderPageClient orderId={params.orderId} />
+}
@@ -0,0 +1,225 @@
+/**
+ * Account Addresses Page Client Component
+ * Saved shipping and billing addresses with add, edit, default and remove actions
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { toast } from 'react-hot-toast'
+import { AddressFields } from '@/components/checkout/address-fields'
+import { AddressSummary } from '@/components/checkout/address-summary'
+import { AccountRequestError } from '@/hooks/useAccount'
+import { useAddressBook } from '@/hooks/useAddressBook'
+import { useTranslations } from '@/hooks/useTranslations'
+import { taxConfig } from '@/lib/config/tax'
+import { emptyAddress, toCheckoutAddress } from '@/utils/addresses'
+import type { AccountFieldErrors, AddressKind, SaveAddressRequest, SavedAddress } from '@/lib/types/account'
+
+const ID_PREFIX = 'address-'
+const KINDS: AddressKind[] = ['shipping', 'billing']
+
+interface AddressFormState {
+  addressId: string | null // null when adding
+  values: SaveAddressRequest
+}
+
+function newAddressForm(kind: AddressKind): AddressFormState {
+  return { addressId: null, values: { ...emptyAddress(taxConfig.defaultCountry), kind, isDefault: false } }
+}
+
+function editAddressForm(address: SavedAddress): AddressFormState {
+  return {
+    addressId: address.id,
+    values: { ...toCheckoutAddress(address), kind: address.kind, isDefault: address.isDefault },
+  }
+}
+
+export function AddressesPageClient() {
+  const { shippingAddresses, billingAddresses, addAddress, updateAddress, setDefaultAddress, removeAddress } = useAddressBook()
+  const { t } = useTranslations()
+  const [form, setForm] = useState<AddressFormState | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [fieldErrors, setFieldErrors] = useState<AccountFieldErrors>({})
+
+  const addressesByKind: Record<AddressKind, SavedAddress[]> = { shipping: shippingAddresses, billing: billingAddresses }
+
+  const openForm = (next: AddressFormState | null) => {
+    setForm(next)
+    setFieldErrors({})
+  }
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    if (!form) return
+
+    setIsSaving(true)
+    setFieldErrors({})
+
+    try {
+      if (form.addressId) {
+        await updateAddress(form.addressId, form.values)
+      } else {
+        await addAddress(form.values)
+      }
+      setForm(null)
+    } catch (error) {
+      if (error instanceof AccountRequestError && Object.keys(error.fields).length > 0) {
+        setFieldErrors(error.fields)
+      } else {
+        toast.error(error instanceof Error ? error.message : 'Failed to save address')
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleSetDefault = async (addressId: string) => {
+    try {
+      await setDefaultAddress(addressId)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update address')
+    }
+  }
+
+  const handleRemove = async (addressId: string) => {
+    try {
+      await removeAddress(addressId)
+      if (form?.addressId === addressId) openForm(null)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove address')
+    }
+  }
+
+  return (
+    <section aria-labelledby="addresses-heading">
+      <div className="flex items-center justify-between">
+        <h2 id="addresses-heading" className="text-lg font-medium text-gray-900">
+          {t('account.addresses.heading')}
+        </h2>
+        {!form && (
+          <button
+            type="button"
+            onClick={() => openForm(newAddressForm('shipping'))}
+            className="text-sm font-medium text-indigo-600 hover:text-indigo-500 cursor-pointer"
+          >
+            {t('account.addresses.add')}
+          </button>
+        )}
+      </div>
+
+      {KINDS.map((kind) => (
+        <div key={kind} className="mt-8">
+          <h3 className="text-sm font-medium text-gray-900">{t(`account.addresses.kinds.${kind}`)}</h3>
+
+          {addressesByKind[kind].length === 0 ? (
+            <p className="mt-4 text-sm text-gray-500">{t('account.addresses.empty')}</p>
+          ) : (
+            <ul role="list" className="mt-4 grid grid-cols-1 gap-4 sm:grid-cols-2">
+              {addressesByKind[kind].map((address) => (
+                <li key={address.id} className="rounded-lg border border-gray-200 p-4 text-sm text-gray-600">
+                  {address.isDefault && (
+                    <span className="mb-2 inline-block rounded-full bg-gray-100 px-2 py-0.5 text-xs font-medium text-gray-700">
+                      {t('account.addresses.default')}
+                    </span>
+                  )}
+                  <AddressSummary address={address} />
+                  <div className="mt-4 flex flex-wrap gap-x-4 gap-y-2">
+                    <button
+                      type="button"
+                      onClick={() => openForm(editAddressForm(address))}
+                      className="text-sm font-medium text-indigo-600 hover:text-indigo-500 cursor-pointer"
+                    >
+                      {t('account.addresses.edit')}
+                    </button>
+                    {!address.isDefault && (
+                      <button
+                        type="button"
+                        onClick={() => handleSetDefault(address.id)}
+                        className="text-sm font-medium text-indigo-600 hover:text-indigo-500 cursor-pointer"
+                      >
+                        {t('account.addresses.makeDefault')}
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => handleRemove(address.id)}
+                      className="text-sm font-medium text-indigo-600 hover:text-indigo-500 cursor-pointer"
+                    >
+                      {t('account.addresses.remove')}
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ))}
+
+      {form && (
+        <form onSubmit={handleSubmit} className="mt-10 border-t border-gray-200 pt-6">
+          <h3 className="text-sm font-medium text-gray-900">
+            {form.addressId ? t('account.addresses.editHeading') : t('account.addresses.add')}
+          </h3>
+
+          <fieldset className="mt-6">
+            <legend className="block text-sm/6 font-medium text-gray-700">{t('account.addresses.kindLabel')}</legend>
+            <div className="mt-2 flex gap-x-6">
+              {KINDS.map((kind) => (
+                <label key={kind} className="flex items-center gap-x-2 text-sm text-gray-900">
+                  <input
+                    type="radio"
+                    name={`${ID_PREFIX}kind`}
+                    value={kind}
+                    checked={form.values.kind === kind}
+                    onChange={() => setForm({ ...form, values: { ...form.values, kind } })}
+                    className="size-4 border-gray-300 text-indigo-600 focus:ring-indigo-600"
+                  />
+                  {t(`account.addresses.kinds.${kind}`)}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <AddressFields
+            idPrefix={ID_PREFIX}
+            errorPrefix="address"
+            errors={fieldErrors}
+            value={form.values}
+            onChange={(address) => setForm({ ...form, values: { ...form.values, ...address } })}
+          />
+
+          <div className="mt-6 flex items-center gap-3">
+            <input
+              id={`${ID_PREFIX}default`}
+              type="checkbox"
+              checked={form.values.isDefault ?? false}
+              onChange={(e) => setForm({ ...form, values: { ...form.values, isDefault: e.target.checked } })}
+              className="size-4 rounded-sm border-gray-300 text-indigo-600 focus:ring-indigo-600"
+            />
+            <label htmlFor={`${ID_PREFIX}default`} className="text-sm text-gray-700">
+              {t('account.addresses.useAsDefault')}
+            </label>
+          </div>
+
+          <div className="mt-6 flex gap-x-3">
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="rounded-md bg-indigo-600 px-4 py-2 text-sm font-medium text-white shadow-xs hover:bg-indigo-700 disabled:opacity-50 cursor-pointer"
+            >
+              {isSaving ? t('common.processing') : t('account.addresses.save')}
+            </button>
+            <button
+              type="button"
+              onClick={() => openForm(null)}
+              className="rounded-md bg-white px-4 py-2 text-sm font-medium text-gray-900 shadow-xs ring-1 ring-gray-300 ring-inset hover:bg-gray-50 cursor-pointer"
+            >
+              {t('account.addresses.cancel')}
+            </button>
+          </div>
+        </form>
+      )}
+    </section>
+  )
+}
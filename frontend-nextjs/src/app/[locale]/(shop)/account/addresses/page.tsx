@@ -0,0 +1,19 @@
+/**
+ * Account Addresses Page (Server Component)
+ * Wraps the saved address list
+ */
+
+import type { Metadata } from 'next'
+import { brand } from '@/lib/cms'
+import { AddressesPageClient } from './page.client'
+
+export const metadata: Metadata = {
+  title: `Addresses | ${brand.name}`,
+}
+
+/**
+ * Addresses page - wraps client component
+ */
+export default function AddressesPage() {
+  return <AddressesPageClient />
+}
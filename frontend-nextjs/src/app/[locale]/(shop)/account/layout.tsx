@@ -0,0 +1,26 @@
+import type { Metadata } from 'next'
+import { brand } from '@/lib/cms'
+import { AccountShell } from '@/components/account/account-shell'
+
+export const metadata: Metadata = {
+  title: `Your account | ${brand.name}`,
+  // Account pages are private to the signed-in shopper
+  robots: {
+    index: false,
+    follow: false,
+  },
+}
+
+/**
+ * Account Layout
+ *
+ * Shared heading and section tabs for the account pages.
+ * Signed-out shoppers are redirected to sign in by the proxy.
+ */
+export default function AccountLayout({
+  children,
+}: {
+  children: React.ReactNode
+}) {
+  return <AccountShell>{children}</AccountShell>
+}
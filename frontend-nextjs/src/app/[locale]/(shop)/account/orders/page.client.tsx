@@ -0,0 +1,66 @@
+/**
+ * Account Orders Page Client Component
+ * Orders placed while signed in, newest first
+ */
+
+'use client'
+
+import { Link } from '@/lib/i18n/navigation'
+import { useAccountOrders } from '@/hooks/useAccountOrders'
+import { useDelayedLoading } from '@/hooks/useDelayedLoading'
+import { useTranslations } from '@/hooks/useTranslations'
+import { formatPrice } from '@/utils/format'
+
+export function OrdersPageClient() {
+  const { orders, isLoading, error } = useAccountOrders()
+  const { t, formatDate } = useTranslations()
+
+  // Delay showing loading state to prevent flicker for fast loads
+  const shouldShowLoading = useDelayedLoading(isLoading)
+
+  return (
+    <section aria-labelledby="orders-heading">
+      <h2 id="orders-heading" className="text-lg font-medium text-gray-900">
+        {t('account.orders.heading')}
+      </h2>
+
+      {error ? (
+        <p role="alert" className="mt-6 text-sm text-red-600">{error}</p>
+      ) : isLoading ? (
+        shouldShowLoading && <p className="mt-6 text-gray-500">{t('account.loading')}</p>
+      ) : orders.length === 0 ? (
+        <p className="mt-6 text-sm text-gray-500">{t('account.orders.empty')}</p>
+      ) : (
+        <ul role="list" className="mt-6 divide-y divide-gray-200 border-t border-b border-gray-200">
+          {orders.map((order) => {
+            const itemCount = order.items.reduce((sum, item) => sum + item.quantity, 0)
+
+            return (
+              <li key={order.id} className="flex items-center justify-between gap-x-6 py-5">
+                <div className="min-w-0">
+                  <p className="truncate text-sm font-medium text-gray-900">{order.id}</p>
+                  <p className="mt-1 text-sm text-gray-500">
+                    {t('account.orders.placedOn', { date: formatDate(order.createdAt, { dateStyle: 'medium' }) })}
+                    {' · '}
+                    {t('account.orders.itemCount', { count: itemCount })}
+                  </p>
+                </div>
+                <div className="flex shrink-0 items-center gap-x-6">
+                  {/* Charged amount, in the currency the order was placed in */}
+                  <p className="text-sm font-medium text-gray-900">{formatPrice(order.total, order.currency)}</p>
+                  <Link
+                    href={`/orders/${order.id}`}
+                    className="text-sm font-medium text-indigo-600 hover:text-indigo-500"
+                  >
+                    {t('account.orders.view')}
+                    <span className="sr-only">, {order.id}</span>
+                  </Link>
+                </div>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,19 @@
+/**
+ * Account Orders Page (Server Component)
+ * Wraps the order history list
+ */
+
+import type { Metadata } from 'next'
+import { brand } from '@/lib/cms'
+import { OrdersPageClient } from './page.client'
+
+export const metadata: Metadata = {
+  title: `Order history | ${brand.name}`,
+}
+
+/**
+ * Orders page - wraps client component
+ */
+export default function OrdersPage() {
+  return <OrdersPageClient />
+}
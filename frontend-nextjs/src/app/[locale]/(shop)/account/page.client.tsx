@@ -0,0 +1,85 @@
+/**
+ * Account Profile Page Client Component
+ * Shows the account's email and lets the shopper update their name
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { toast } from 'react-hot-toast'
+import { TextField } from '@/components/account/text-field'
+import { AccountRequestError, useAccount } from '@/hooks/useAccount'
+import { useTranslations } from '@/hooks/useTranslations'
+import type { AccountFieldErrors } from '@/lib/types/account'
+
+export function ProfilePageClient() {
+  const { account, updateProfile } = useAccount()
+  const { t, formatDate } = useTranslations()
+  const [isSaving, setIsSaving] = useState(false)
+  const [fieldErrors, setFieldErrors] = useState<AccountFieldErrors>({})
+
+  // Rendered inside AccountShell, which waits for the account
+  if (!account) {
+    return null
+  }
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    const formData = new FormData(e.currentTarget)
+
+    setIsSaving(true)
+    setFieldErrors({})
+
+    try {
+      await updateProfile({ name: String(formData.get('name') ?? '') })
+      toast.success(t('account.profile.saved'))
+    } catch (error) {
+      if (error instanceof AccountRequestError) {
+        setFieldErrors(error.fields)
+      }
+      if (!(error instanceof AccountRequestError) || Object.keys(error.fields).length === 0) {
+        toast.error(error instanceof Error ? error.message : 'Failed to update account')
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <section aria-labelledby="profile-heading">
+      <h2 id="profile-heading" className="text-lg font-medium text-gray-900">
+        {t('account.profile.heading')}
+      </h2>
+      <p className="mt-1 text-sm text-gray-500">
+        {t('account.profile.memberSince', { date: formatDate(account.createdAt, { dateStyle: 'long' }) })}
+      </p>
+
+      <form onSubmit={handleSubmit} className="mt-6 max-w-md space-y-6">
+        <TextField
+          id="email"
+          type="email"
+          label={t('auth.email')}
+          value={account.email}
+          readOnly
+          disabled
+        />
+        <TextField
+          id="name"
+          autoComplete="name"
+          required
+          label={t('auth.name')}
+          defaultValue={account.name}
+          error={fieldErrors.name}
+        />
+
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="rounded-md bg-indigo-600 px-4 py-2 text-sm font-medium text-white shadow-xs hover:bg-indigo-700 focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 focus:outline-hidden disabled:opacity-50 cursor-pointer"
+        >
+          {isSaving ? t('common.processing') : t('account.profile.save')}
+        </button>
+      </form>
+    </section>
+  )
+}
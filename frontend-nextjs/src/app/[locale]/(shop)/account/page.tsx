@@ -0,0 +1,13 @@
+/**
+ * Account Profile Page (Server Component)
+ * Wraps the profile form
+ */
+
+import { ProfilePageClient } from './page.client'
+
+/**
+ * Profile page - wraps client component
+ */
+export default function ProfilePage() {
+  return <ProfilePageClient />
+}
@@ -7,22 +7,37 @@ import { CartLineItem } from '@/components/cart/cart-line-item'
 import { OrderSummary } from '@/components/cart/order-summary'
 import { EmptyCart } from '@/components/cart/empty-cart'
 import { useCart } from '@/hooks/useCart'
-import { calculateShipping, calculateTax } from '@/lib/config/cart'
+import { useSaveForLater } from '@/hooks/useSaveForLater'
+import { qualifiesForFreeShipping } from '@/lib/config/shipping'
 import type { Product } from '@/lib/types/products'
 
 export default function CartPage() {
-  const { items, subtotal, currency, isItemLoading, incrementItem, decrementItem, removeItem, addItem } = useCart()
+  const {
+    items,
+    subtotal,
+    discount,
+    promoCode,
+    promotions,
+    currency,
+    isItemLoading,
+    incrementItem,
+    decrementItem,
+    removeItem,
+    addItem,
+    applyPromoCode,
+    removePromoCode,
+  } = useCart()
+  const { moveToWishlist } = useSaveForLater()
 
-  // Calculate shipping and tax
-  const shipping = calculateShipping(subtotal)
-  const tax = calculateTax(subtotal, shipping)
+  // Shipping and tax depend on the address, so only free shipping is known before checkout
+  const shipping = qualifiesForFreeShipping(subtotal) ? 0 : null
 
   const isEmpty = items.length === 0
 
-  // Get category from last item in cart for related products
-  const lastItemCategory = items.length > 0 ? items[items.length - 1].category : undefined
+  // Recommend products bought together with the last item added (and the rest of the cart)
+  const lastItem = items.length > 0 ? items[items.length - 1] : undefined
 
-  // Get product IDs in cart to exclude from related products
+  // Get product IDs in cart (recommendations never repeat them)
   // Memoize to prevent array recreation on every render
   const cartProductIds = useMemo(() => items.map(item => item.product_id), [items])
 
@@ -45,7 +60,7 @@ export default function CartPage() {
         <h1 className="text-3xl font-bold tracking-tight text-gray-900 sm:text-4xl">Shopping Cart</h1>
 
         {isEmpty ? (
-          <EmptyCart variant="full" />
+          <EmptyCart variant="full" onAddToCart={handleAddToCart} />
         ) : (
           <div className="mt-12 lg:grid lg:grid-cols-12 lg:items-start lg:gap-x-12 xl:gap-x-16">
             <section aria-labelledby="cart-heading" className="lg:col-span-7">
@@ -64,6 +79,7 @@ export default function CartPage() {
                     onIncrement={incrementItem}
                     onDecrement={decrementItem}
                     onRemove={removeItem}
+                    onMoveToWishlist={moveToWishlist}
                   />
                 ))}
               </ul>
@@ -73,20 +89,26 @@ export default function CartPage() {
             <OrderSummary
               subtotal={subtotal}
               shipping={shipping}
-              tax={tax}
+              discount={discount}
+              promoCode={promoCode}
+              promotions={promotions}
               currency={currency}
               variant="full"
+              onApplyPromoCode={applyPromoCode}
+              onRemovePromoCode={removePromoCode}
             />
           </div>
         )}
 
-        {/* Related products based on last item in cart */}
-        {!isEmpty && lastItemCategory && (
+        {/* Frequently bought together with the cart */}
+        {!isEmpty && lastItem && (
           <RelatedProducts
-            category={lastItemCategory}
-            excludeProductIds={cartProductIds}
+            productId={lastItem.product_id}
+            category={lastItem.category}
+            mode="bought-together"
+            cartProductIds={cartProductIds}
             limit={4}
-            title="You may also like"
+            title="Frequently bought together"
             showBackground={false}
             showAddToCart={true}
             onAddToCart={handleAddToCart}
@@ -0,0 +1,67 @@
+/**
+ * Category Page Client Component
+ * Collection listing for a single category
+ */
+
+'use client'
+
+import { ProductListing } from '@/components/sections/product-listing'
+import { useBreadcrumbs } from '@/hooks/useBreadcrumbs'
+import { categoryDisplayNames, categoryDescriptions, navigation } from '@/lib/cms'
+import { kebabToTitleCase } from '@/utils/format'
+
+interface CategoryPageClientProps {
+  params: {
+    slug: string
+  }
+}
+
+export function CategoryPageClient({ params }: CategoryPageClientProps) {
+  const { slug } = params
+
+  // Get categories from the same section as current category
+  const getSectionCategories = () => {
+    const categories: Array<{ slug: string; name: string; href: string }> = []
+
+    for (const menu of navigation.megaMenus) {
+      for (const section of menu.sections) {
+        // Check if this section contains the current category
+        const hasCurrentCategory = section.items.some((item) => item.href.split('/').pop() === slug)
+
+        if (hasCurrentCategory) {
+          // Return all categories from this section
+          section.items.forEach((item) => {
+            const itemSlug = item.href.split('/').pop() || ''
+            categories.push({
+              slug: itemSlug,
+              name: categoryDisplayNames[itemSlug] || item.name,
+              href: item.href,
+            })
+          })
+          break
+        }
+      }
+      if (categories.length > 0) break
+    }
+
+    return categories
+  }
+
+  const sectionCategories = getSectionCategories()
+
+  // Use CMS display name if available, otherwise format the slug
+  const categoryName = categoryDisplayNames[slug] || kebabToTitleCase(slug)
+  const categoryDescription = categoryDescriptions[slug]
+  const breadcrumbs = useBreadcrumbs({ categorySlug: slug })
+
+  return (
+    <ProductListing
+      source={{ type: 'collection', slug }}
+      title={categoryName}
+      description={categoryDescription}
+      breadcrumbs={breadcrumbs}
+      categories={sectionCategories}
+      currentCategory={slug}
+    />
+  )
+}
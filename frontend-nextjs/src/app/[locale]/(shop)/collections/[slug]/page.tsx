@@ -3,13 +3,16 @@
  * Handles static generation and metadata for collection pages
  */
 
+import { Suspense } from 'react'
 import type { Metadata } from 'next'
 import { getAllCollectionSlugs, getCollectionInfo } from '@/lib/server/collections'
 import { generateCollectionMetadata } from '@/utils/metadata'
+import { isLocale } from '@/lib/i18n/config'
 import { CategoryPageClient } from './page.client'
 
 interface CategoryPageProps {
   params: Promise<{
+    locale: string
     slug: string
   }>
 }
@@ -26,20 +29,26 @@ export async function generateStaticParams() {
  * Generate metadata for SEO
  */
 export async function generateMetadata({ params }: CategoryPageProps): Promise<Metadata> {
-  const { slug } = await params
+  const { locale, slug } = await params
   const info = getCollectionInfo(slug)
 
   return generateCollectionMetadata({
     title: info.title,
     description: info.description,
     slug: info.slug,
+    locale: isLocale(locale) ? locale : undefined,
   })
 }
 
 /**
  * Collection page - wraps client component
+ * Suspense is required because filter state is read from search params
  */
 export default async function CategoryPage(props: CategoryPageProps) {
   const params = await props.params
-  return <CategoryPageClient params={params} />
+  return (
+    <Suspense>
+      <CategoryPageClient params={params} />
+    </Suspense>
+  )
 }
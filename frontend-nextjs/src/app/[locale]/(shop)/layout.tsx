@@ -1,25 +1,30 @@
 import { Header } from '@/components/header'
 import { Footer } from '@/components/footer'
 import { CartDrawer } from '@/components/cart/cart-drawer'
+import { isLocale } from '@/lib/i18n/config'
 
 /**
  * Shop Layout
  *
- * Standard layout for product browsing pages (products, collections, cart).
+ * Standard layout for product browsing pages (products, collections, cart, wishlist).
  * Includes Header, Footer, and CartDrawer for complete shopping experience.
  */
-export default function ShopLayout({
+export default async function ShopLayout({
   children,
+  params,
 }: {
   children: React.ReactNode
+  params: Promise<{ locale: string }>
 }) {
+  const { locale } = await params
+
   return (
     <>
       <Header />
       <main className="min-h-screen">
         {children}
       </main>
-      <Footer />
+      <Footer locale={isLocale(locale) ? locale : undefined} />
       <CartDrawer />
     </>
   )
@@ -0,0 +1,9 @@
+import { redirect } from 'next/navigation'
+import { isLocale } from '@/lib/i18n/config'
+import { localizePath } from '@/lib/i18n/paths'
+
+export default async function HomePage({ params }: { params: Promise<{ locale: string }> }) {
+  const { locale } = await params
+
+  redirect(isLocale(locale) ? localizePath('/products', locale) : '/products')
+}
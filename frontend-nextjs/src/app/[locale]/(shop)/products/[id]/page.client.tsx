@@ -11,15 +11,18 @@ import dynamic from 'next/dynamic'
 import { StarIcon, CheckIcon } from '@heroicons/react/20/solid'
 import { TruckIcon, ShieldCheckIcon, MinusIcon, PlusIcon } from '@heroicons/react/24/outline'
 import { Disclosure, DisclosureButton, DisclosurePanel } from '@headlessui/react'
-import { useProduct, useRelatedProducts } from '@/hooks/useProducts'
+import { useProduct, useRecommendations } from '@/hooks/useProducts'
 import { useCart } from '@/hooks/useCart'
+import { useRecordProductView } from '@/hooks/useRecentlyViewed'
 import { useDelayedLoading } from '@/hooks/useDelayedLoading'
 import { Breadcrumbs } from '@/components/ui/breadcrumbs'
 import { DiscountStarburst } from '@/components/ui/discount-starburst'
+import { WishlistButton } from '@/components/ui/wishlist-button'
 import { ProductIncentives } from '@/components/sections/product-incentives'
 import { useBreadcrumbs } from '@/hooks/useBreadcrumbs'
 import { extractIdFromSlug } from '@/utils/slugify'
 import { calculateReviewStats } from '@/lib/services/reviews'
+import { useCurrency } from '@/hooks/useCurrency'
 
 // Lazy load below-the-fold components with loading states for better above-the-fold performance
 const RelatedProducts = dynamic(
@@ -60,6 +63,13 @@ const ProductReviews = dynamic(
   }
 )
 
+const RecentlyViewed = dynamic(
+  () => import('@/components/sections/recently-viewed').then((mod) => ({ default: mod.RecentlyViewed })),
+  {
+    ssr: false, // History lives in localStorage
+  }
+)
+
 function classNames(...classes: string[]) {
   return classes.filter(Boolean).join(' ')
 }
@@ -75,8 +85,12 @@ export function ProductPageClient({ params }: ProductPageClientProps) {
   const productId = extractIdFromSlug(params.id) || 0
   const { product, isLoading, error } = useProduct(productId)
   const { addItem } = useCart()
+  const { formatDollars } = useCurrency()
   const [isAdding, setIsAdding] = useState(false)
 
+  // Remember this product for the "Recently viewed" rail
+  useRecordProductView(product?.id)
+
   // Cache previous product category to prevent breadcrumb flicker during navigation
   const previousCategoryRef = useRef<string | undefined>(product?.category)
   useEffect(() => {
@@ -89,8 +103,8 @@ export function ProductPageClient({ params }: ProductPageClientProps) {
   const stableCategory = product?.category || previousCategoryRef.current
   const breadcrumbs = useBreadcrumbs({ productCategory: stableCategory })
 
-  // Prefetch related products data (used by lazy-loaded RelatedProducts component below)
-  useRelatedProducts(product?.category, productId, 20)
+  // Prefetch recommendations (used by lazy-loaded RelatedProducts component below)
+  useRecommendations(product?.id)
 
   // Delay showing loading state to prevent flicker for fast loads
   const shouldShowLoading = useDelayedLoading(isLoading)
@@ -192,7 +206,7 @@ export function ProductPageClient({ params }: ProductPageClientProps) {
             </h2>
 
             <div className="flex items-center">
-              <p className="text-lg text-gray-900 sm:text-xl">${product.price.toFixed(2)}</p>
+              <p className="text-lg text-gray-900 sm:text-xl">{formatDollars(product.price)}</p>
 
               <div className="ml-4 border-l border-gray-300 pl-4">
                 <h2 className="sr-only">Reviews</h2>
@@ -234,15 +248,16 @@ export function ProductPageClient({ params }: ProductPageClientProps) {
               Product options
             </h2>
 
-            <div className="mt-10">
+            <div className="mt-10 flex gap-3">
               <button
                 type="button"
                 onClick={handleAddToCart}
                 disabled={isAdding || product.stock === 0}
-                className="flex w-full items-center justify-center rounded-md border border-transparent bg-indigo-600 px-8 py-3 text-base font-semibold text-white hover:bg-indigo-700 focus:outline-hidden focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 focus:ring-offset-gray-50 cursor-pointer disabled:cursor-not-allowed disabled:bg-gray-400"
+                className="flex flex-1 items-center justify-center rounded-md border border-transparent bg-indigo-600 px-8 py-3 text-base font-semibold text-white hover:bg-indigo-700 focus:outline-hidden focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 focus:ring-offset-gray-50 cursor-pointer disabled:cursor-not-allowed disabled:bg-gray-400"
               >
                 {isAdding ? 'Adding...' : product.stock === 0 ? 'Out of Stock' : 'Add to cart'}
               </button>
+              <WishlistButton product={product} variant="full" />
             </div>
 
             {/* Shipping and Warranty - inline and centered */}
@@ -340,10 +355,13 @@ export function ProductPageClient({ params }: ProductPageClientProps) {
       <ProductIncentives shippingInformation={product.shippingInformation} warrantyInformation={product.warrantyInformation} />
 
       {/* Related Products - Lazy loaded to prioritize above-the-fold content */}
-      <RelatedProducts category={product?.category} currentProductId={product?.id} />
+      <RelatedProducts productId={product.id} category={product.category} />
 
       {/* Product Reviews - Lazy loaded to prioritize above-the-fold content */}
       {reviewsData && reviewsData.totalCount > 0 && <ProductReviews reviews={reviewsData} />}
+
+      {/* Recently Viewed - excludes the product being viewed */}
+      <RecentlyViewed excludeProductId={product.id} />
     </div>
   )
 }
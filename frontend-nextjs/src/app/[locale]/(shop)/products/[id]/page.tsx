@@ -7,11 +7,13 @@ import type { Metadata } from 'next'
 import { generateProductStaticParams } from '@/lib/server/static-params'
 import { getProduct } from '@/lib/server/products'
 import { generateProductMetadata } from '@/utils/metadata'
+import { isLocale } from '@/lib/i18n/config'
 import { generateProductSlug } from '@/utils/slugify'
 import { ProductPageClient } from './page.client'
 
 interface ProductPageProps {
   params: Promise<{
+    locale: string
     id: string
   }>
 }
@@ -27,7 +29,7 @@ export async function generateStaticParams() {
  * Generate metadata for SEO
  */
 export async function generateMetadata({ params }: ProductPageProps): Promise<Metadata> {
-  const { id } = await params
+  const { locale, id } = await params
   const product = await getProduct(id)
 
   if (!product) {
@@ -39,7 +41,7 @@ export async function generateMetadata({ params }: ProductPageProps): Promise<Me
   const slug = generateProductSlug(product)
   const url = `${process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000'}/products/${slug}`
 
-  return generateProductMetadata({ product, url })
+  return generateProductMetadata({ product, url, locale: isLocale(locale) ? locale : undefined })
 }
 
 /**
@@ -0,0 +1,24 @@
+/**
+ * Products Listing Page Client Component
+ * Shop All listing over the full catalog
+ */
+
+'use client'
+
+import { ProductListing } from '@/components/sections/product-listing'
+import { useBreadcrumbs } from '@/hooks/useBreadcrumbs'
+import { extractAllCategories } from '@/utils/categories'
+
+export function ProductsPageClient() {
+  const breadcrumbs = useBreadcrumbs()
+
+  return (
+    <ProductListing
+      source={{ type: 'catalog' }}
+      title="Shop All"
+      description="Discover our complete collection of carefully curated treasures"
+      breadcrumbs={breadcrumbs}
+      categories={extractAllCategories()}
+    />
+  )
+}
@@ -3,18 +3,24 @@
  * Handles static generation and metadata for the shop all page
  */
 
+import { Suspense } from 'react'
 import type { Metadata } from 'next'
 import { brand } from '@/lib/cms'
 import { siteConfig } from '@/lib/config/site'
+import { isLocale, i18nConfig } from '@/lib/i18n/config'
+import { localizePath } from '@/lib/i18n/paths'
+import { generateAlternates } from '@/utils/metadata'
 import { ProductsPageClient } from './page.client'
 
 /**
  * Generate metadata for SEO
  */
-export async function generateMetadata(): Promise<Metadata> {
+export async function generateMetadata({ params }: { params: Promise<{ locale: string }> }): Promise<Metadata> {
+  const { locale: localeParam } = await params
+  const locale = isLocale(localeParam) ? localeParam : i18nConfig.defaultLocale
   const pageTitle = `Shop All | ${brand.name}`
   const pageDescription = `Discover our complete collection of carefully curated treasures. ${brand.tagline}`
-  const pageUrl = `${siteConfig.url}/products`
+  const pageUrl = `${siteConfig.url}${localizePath('/products', locale)}`
 
   return {
     title: pageTitle,
@@ -31,15 +37,18 @@ export async function generateMetadata(): Promise<Metadata> {
       title: pageTitle,
       description: pageDescription,
     },
-    alternates: {
-      canonical: pageUrl,
-    },
+    alternates: generateAlternates('/products', locale),
   }
 }
 
 /**
  * Products page - wraps client component
+ * Suspense is required because filter state is read from search params
  */
 export default function ProductsPage() {
-  return <ProductsPageClient />
+  return (
+    <Suspense>
+      <ProductsPageClient />
+    </Suspense>
+  )
 }
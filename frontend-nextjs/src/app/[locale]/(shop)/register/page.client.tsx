@@ -0,0 +1,110 @@
+/**
+ * Register Page Client Component
+ * Creates an account with email and password, then signs it in
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { Link, useRouter } from '@/lib/i18n/navigation'
+import { TextField } from '@/components/account/text-field'
+import { AccountRequestError, useAccount } from '@/hooks/useAccount'
+import { useTranslations } from '@/hooks/useTranslations'
+import { authConfig, safeRedirectPath } from '@/lib/config/auth'
+import type { AccountFieldErrors } from '@/lib/types/account'
+
+interface RegisterPageClientProps {
+  next?: string
+}
+
+export function RegisterPageClient({ next }: RegisterPageClientProps) {
+  const router = useRouter()
+  const { register } = useAccount()
+  const { t } = useTranslations()
+  const redirectTo = safeRedirectPath(next)
+
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [fieldErrors, setFieldErrors] = useState<AccountFieldErrors>({})
+  const [formError, setFormError] = useState<string | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    const formData = new FormData(e.currentTarget)
+
+    setIsSubmitting(true)
+    setFieldErrors({})
+    setFormError(null)
+
+    try {
+      await register({
+        name: String(formData.get('name') ?? ''),
+        email: String(formData.get('email') ?? ''),
+        password: String(formData.get('password') ?? ''),
+      })
+      router.push(redirectTo)
+    } catch (error) {
+      setFieldErrors(error instanceof AccountRequestError ? error.fields : {})
+      setFormError(error instanceof Error ? error.message : null)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="mx-auto max-w-md px-4 pt-16 pb-24 sm:px-6">
+      <h1 className="text-3xl font-bold tracking-tight text-gray-900">{t('auth.registerHeading')}</h1>
+
+      <form onSubmit={handleSubmit} className="mt-8 space-y-6">
+        <TextField
+          id="name"
+          autoComplete="name"
+          required
+          label={t('auth.name')}
+          error={fieldErrors.name}
+        />
+        <TextField
+          id="email"
+          type="email"
+          autoComplete="email"
+          required
+          label={t('auth.email')}
+          error={fieldErrors.email}
+        />
+        <TextField
+          id="password"
+          type="password"
+          autoComplete="new-password"
+          required
+          minLength={authConfig.passwordMinLength}
+          label={t('auth.password')}
+          hint={t('auth.passwordHint', { count: authConfig.passwordMinLength })}
+          error={fieldErrors.password}
+        />
+
+        {formError && Object.keys(fieldErrors).length === 0 && (
+          <div role="alert" className="rounded-md bg-red-50 p-4">
+            <p className="text-sm text-red-800">{formError}</p>
+          </div>
+        )}
+
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="w-full rounded-md bg-indigo-600 px-4 py-2 text-sm font-medium text-white shadow-xs hover:bg-indigo-700 focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 focus:outline-hidden disabled:opacity-50 cursor-pointer"
+        >
+          {isSubmitting ? t('common.processing') : t('auth.register')}
+        </button>
+      </form>
+
+      <p className="mt-10 text-center text-sm text-gray-500">
+        {t('auth.haveAccount')}{' '}
+        <Link
+          href={`${authConfig.signInPath}?next=${encodeURIComponent(redirectTo)}`}
+          className="font-medium text-indigo-600 hover:text-indigo-500"
+        >
+          {t('auth.signIn')}
+        </Link>
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,31 @@
+/**
+ * Register Page (Server Component)
+ * Handles metadata and reads the redirect target for account creation
+ */
+
+import type { Metadata } from 'next'
+import { brand } from '@/lib/cms'
+import { RegisterPageClient } from './page.client'
+
+interface RegisterPageProps {
+  searchParams: Promise<{
+    next?: string | string[]
+  }>
+}
+
+export const metadata: Metadata = {
+  title: `Create an account | ${brand.name}`,
+  robots: {
+    index: false,
+    follow: false,
+  },
+}
+
+/**
+ * Register page - wraps client component
+ */
+export default async function RegisterPage({ searchParams }: RegisterPageProps) {
+  const { next } = await searchParams
+
+  return <RegisterPageClient next={Array.isArray(next) ? next[0] : next} />
+}
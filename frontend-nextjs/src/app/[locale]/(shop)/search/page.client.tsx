@@ -0,0 +1,236 @@
+/**
+ * Search Results Page Client Component
+ * Search form, category filtering, and sorting for search results
+ */
+
+'use client'
+
+import { useState, useMemo, type FormEvent } from 'react'
+import { useRouter } from '@/lib/i18n/navigation'
+import { FunnelIcon, MagnifyingGlassIcon } from '@heroicons/react/20/solid'
+import { useSearch } from '@/hooks/useSearch'
+import { useCart } from '@/hooks/useCart'
+import { useDelayedLoading } from '@/hooks/useDelayedLoading'
+import { useBreadcrumbs } from '@/hooks/useBreadcrumbs'
+import { ProductCard } from '@/components/cards/product-card'
+import { FilterGroup } from '@/components/ui/filter-group'
+import { SortOptions, type SortOption } from '@/components/ui/sort-options'
+import { CollectionHeader } from '@/components/headers/collection-header'
+import { Breadcrumbs } from '@/components/ui/breadcrumbs'
+import { MobileFilterDialog } from '@/components/ui/mobile-filter-dialog'
+import { categoryDisplayNames } from '@/lib/cms'
+import { kebabToTitleCase } from '@/utils/format'
+import { sortProducts } from '@/utils/sort-products'
+
+interface SearchPageClientProps {
+  query: string
+}
+
+export function SearchPageClient({ query }: SearchPageClientProps) {
+  const router = useRouter()
+  const { products, isLoading, error } = useSearch(query)
+  const { addItem } = useCart()
+  const breadcrumbs = useBreadcrumbs()
+  const [searchInput, setSearchInput] = useState(query)
+  const [mobileFiltersOpen, setMobileFiltersOpen] = useState(false)
+  const [selectedCategories, setSelectedCategories] = useState<Set<string>>(new Set())
+  const [sortBy, setSortBy] = useState<SortOption>('default')
+
+  // Delay showing loading state to prevent flicker for fast loads
+  const shouldShowLoading = useDelayedLoading(isLoading)
+
+  // Count results per category so only categories with matches are offered
+  const categoryCounts = useMemo(() => {
+    const counts = new Map<string, number>()
+    products.forEach((product) => {
+      counts.set(product.category, (counts.get(product.category) || 0) + 1)
+    })
+    return counts
+  }, [products])
+
+  const availableCategories = useMemo(() => {
+    return Array.from(categoryCounts.keys()).sort((a, b) =>
+      getCategoryName(a).localeCompare(getCategoryName(b))
+    )
+  }, [categoryCounts])
+
+  // Filter results by selected categories and apply sorting
+  const filteredProducts = useMemo(() => {
+    // Step 1: Filter by categories
+    const filtered = selectedCategories.size === 0
+      ? products
+      : products.filter((product) => selectedCategories.has(product.category))
+
+    // Step 2: Sort (featured keeps relevance order)
+    return sortProducts(filtered, sortBy)
+  }, [products, selectedCategories, sortBy])
+
+  const handleCategoryToggle = (category: string) => {
+    setSelectedCategories((prev) => {
+      const newSet = new Set(prev)
+      if (newSet.has(category)) {
+        newSet.delete(category)
+      } else {
+        newSet.add(category)
+      }
+      return newSet
+    })
+  }
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    const nextQuery = searchInput.trim()
+    if (!nextQuery) return
+    router.push(`/search?q=${encodeURIComponent(nextQuery)}`)
+  }
+
+  // Mobile dialog shares the same category options as the sidebar
+  const mobileFilterSections = availableCategories.length > 1 ? [
+    {
+      id: 'category',
+      name: 'Category',
+      options: availableCategories.map((category) => ({
+        value: category,
+        label: getCategoryName(category),
+        count: categoryCounts.get(category),
+      })),
+      selectedValues: selectedCategories,
+      onToggle: handleCategoryToggle,
+    },
+  ] : []
+
+  const resultLabel = `${filteredProducts.length} ${filteredProducts.length === 1 ? 'result' : 'results'}`
+
+  return (
+    <div className="bg-white">
+      {/* Breadcrumbs */}
+      <Breadcrumbs items={breadcrumbs} />
+
+      {/* Mobile filter dialog */}
+      <MobileFilterDialog
+        open={mobileFiltersOpen}
+        onClose={setMobileFiltersOpen}
+        sections={mobileFilterSections}
+      />
+
+      {/* Search Header */}
+      <CollectionHeader
+        title={query ? `Results for “${query}”` : 'Search'}
+        description={query ? undefined : 'Find your next treasure across the whole shop'}
+      />
+
+      <main className="mx-auto max-w-2xl px-4 lg:max-w-7xl lg:px-8">
+        {/* Search form - plain GET form so it still works before hydration */}
+        <form role="search" action="/search" onSubmit={handleSubmit} className="pt-6">
+          <label htmlFor="search-query" className="sr-only">
+            Search products
+          </label>
+          <div className="relative max-w-xl">
+            <MagnifyingGlassIcon
+              aria-hidden="true"
+              className="pointer-events-none absolute top-1/2 left-3 size-5 -translate-y-1/2 text-gray-400"
+            />
+            <input
+              id="search-query"
+              name="q"
+              type="search"
+              value={searchInput}
+              onChange={(event) => setSearchInput(event.target.value)}
+              placeholder="Search dresses, fragrances, sunglasses..."
+              autoComplete="off"
+              className="block w-full rounded-md bg-white py-2 pr-3 pl-10 text-base text-gray-900 outline-1 -outline-offset-1 outline-gray-300 placeholder:text-gray-400 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-600 sm:text-sm"
+            />
+          </div>
+        </form>
+
+        <div className="pt-6 pb-24 lg:pt-12 lg:grid lg:grid-cols-4 lg:gap-x-8">
+          {/* Sidebar with category filters */}
+          <aside>
+            {availableCategories.length > 1 && (
+              <div className="hidden lg:block">
+                <FilterGroup
+                  id="category"
+                  name="Category"
+                  options={availableCategories.map((category) => ({
+                    value: category,
+                    label: getCategoryName(category),
+                    checked: selectedCategories.has(category),
+                    count: categoryCounts.get(category) || 0,
+                  }))}
+                  onChange={handleCategoryToggle}
+                />
+              </div>
+            )}
+          </aside>
+
+          {/* Main content */}
+          <div className="lg:col-span-3">
+            {!query ? (
+              <div className="flex items-center justify-center py-12">
+                <p className="text-gray-500">Enter a search term to find products.</p>
+              </div>
+            ) : error ? (
+              <div className="flex items-center justify-center py-12">
+                <p className="text-red-600">Error searching products: {error}</p>
+              </div>
+            ) : shouldShowLoading ? (
+              <div className="flex items-center justify-center py-12">
+                <p className="text-gray-500">Searching...</p>
+              </div>
+            ) : isLoading ? null : filteredProducts.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-12">
+                <p className="text-gray-500">
+                  {products.length === 0
+                    ? `No products found for “${query}”.`
+                    : 'No products found with selected filters.'}
+                </p>
+                {selectedCategories.size > 0 && (
+                  <button
+                    onClick={() => setSelectedCategories(new Set())}
+                    className="mt-4 text-indigo-600 hover:text-indigo-500"
+                  >
+                    Clear filters
+                  </button>
+                )}
+              </div>
+            ) : (
+              <>
+                {/* Result count and sort menu */}
+                <div className="flex items-center justify-between pb-4">
+                  <div className="text-sm text-gray-500" aria-live="polite">
+                    {resultLabel}
+                  </div>
+                  <div className="flex items-center gap-4">
+                    {mobileFilterSections.length > 0 && (
+                      <button
+                        type="button"
+                        onClick={() => setMobileFiltersOpen(true)}
+                        className="inline-flex items-center text-sm font-medium text-gray-700 hover:text-gray-900 lg:hidden"
+                      >
+                        <FunnelIcon className="mr-2 size-5" aria-hidden="true" />
+                        Filters
+                      </button>
+                    )}
+                    <SortOptions currentSort={sortBy} onSortChange={setSortBy} />
+                  </div>
+                </div>
+                <div className="grid grid-cols-1 gap-x-6 gap-y-10 sm:grid-cols-2 lg:grid-cols-3 lg:gap-x-8">
+                  {filteredProducts.map((product, index) => (
+                    <ProductCard key={product.id} product={product} onAddToCart={addItem} priority={index < 3} />
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  )
+}
+
+/**
+ * Display name for a category slug
+ */
+function getCategoryName(slug: string): string {
+  return categoryDisplayNames[slug] || kebabToTitleCase(slug)
+}
@@ -0,0 +1,42 @@
+/**
+ * Search Results Page (Server Component)
+ * Handles metadata for product search results
+ */
+
+import type { Metadata } from 'next'
+import { brand } from '@/lib/cms'
+import { SearchPageClient } from './page.client'
+
+interface SearchPageProps {
+  searchParams: Promise<{
+    q?: string | string[]
+  }>
+}
+
+/**
+ * Generate metadata for SEO
+ */
+export async function generateMetadata({ searchParams }: SearchPageProps): Promise<Metadata> {
+  const { q } = await searchParams
+  const query = (Array.isArray(q) ? q[0] : q)?.trim()
+
+  return {
+    title: query ? `Search: ${query} | ${brand.name}` : `Search | ${brand.name}`,
+    // Result pages are thin duplicates of collections; keep them out of the index
+    robots: {
+      index: false,
+      follow: true,
+    },
+  }
+}
+
+/**
+ * Search page - wraps client component
+ */
+export default async function SearchPage({ searchParams }: SearchPageProps) {
+  const { q } = await searchParams
+  const query = (Array.isArray(q) ? q[0] : q)?.trim() ?? ''
+
+  // Keyed by query so filters and sort reset for each new search
+  return <SearchPageClient key={query} query={query} />
+}
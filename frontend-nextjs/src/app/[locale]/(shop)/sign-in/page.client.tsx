@@ -0,0 +1,177 @@
+/**
+ * Sign-In Page Client Component
+ * Email + password sign-in, with a magic link as the passwordless option
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { Link, useRouter } from '@/lib/i18n/navigation'
+import { TextField } from '@/components/account/text-field'
+import { AccountRequestError, useAccount } from '@/hooks/useAccount'
+import { useTranslations } from '@/hooks/useTranslations'
+import { useLocale } from '@/lib/providers/locale-provider'
+import { localizePath } from '@/lib/i18n/paths'
+import { authConfig, safeRedirectPath } from '@/lib/config/auth'
+import type { AccountFieldErrors } from '@/lib/types/account'
+
+interface SignInPageClientProps {
+  next?: string
+  linkExpired?: boolean
+}
+
+export function SignInPageClient({ next, linkExpired = false }: SignInPageClientProps) {
+  const router = useRouter()
+  const locale = useLocale()
+  const { signIn, requestMagicLink } = useAccount()
+  const { t } = useTranslations()
+  const redirectTo = safeRedirectPath(next)
+
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [fieldErrors, setFieldErrors] = useState<AccountFieldErrors>({})
+  const [formError, setFormError] = useState<string | null>(null)
+
+  const [isSendingLink, setIsSendingLink] = useState(false)
+  const [linkError, setLinkError] = useState<string | null>(null)
+  const [linkSentTo, setLinkSentTo] = useState<string | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    const formData = new FormData(e.currentTarget)
+
+    setIsSubmitting(true)
+    setFieldErrors({})
+    setFormError(null)
+
+    try {
+      await signIn({
+        email: String(formData.get('email') ?? ''),
+        password: String(formData.get('password') ?? ''),
+      })
+      router.push(redirectTo)
+    } catch (error) {
+      setFieldErrors(error instanceof AccountRequestError ? error.fields : {})
+      setFormError(error instanceof Error ? error.message : null)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleMagicLink = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    const email = String(new FormData(e.currentTarget).get('magic-email') ?? '')
+
+    setIsSendingLink(true)
+    setLinkError(null)
+
+    try {
+      // The link lands on the redirect target in the current language
+      await requestMagicLink({ email, next: localizePath(redirectTo, locale) })
+      setLinkSentTo(email)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : null
+      setLinkError(error instanceof AccountRequestError ? error.fields.email ?? message : message)
+    } finally {
+      setIsSendingLink(false)
+    }
+  }
+
+  return (
+    <div className="mx-auto max-w-md px-4 pt-16 pb-24 sm:px-6">
+      <h1 className="text-3xl font-bold tracking-tight text-gray-900">{t('auth.signInHeading')}</h1>
+
+      {linkExpired && (
+        <div role="alert" className="mt-6 rounded-md bg-yellow-50 p-4">
+          <p className="text-sm text-yellow-800">{t('auth.linkExpired')}</p>
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="mt-8 space-y-6">
+        <TextField
+          id="email"
+          type="email"
+          autoComplete="email"
+          required
+          label={t('auth.email')}
+          error={fieldErrors.email}
+        />
+        <TextField
+          id="password"
+          type="password"
+          autoComplete="current-password"
+          required
+          label={t('auth.password')}
+          error={fieldErrors.password}
+        />
+
+        {formError && Object.keys(fieldErrors).length === 0 && (
+          <div role="alert" className="rounded-md bg-red-50 p-4">
+            <p className="text-sm text-red-800">{formError}</p>
+          </div>
+        )}
+
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="w-full rounded-md bg-indigo-600 px-4 py-2 text-sm font-medium text-white shadow-xs hover:bg-indigo-700 focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 focus:outline-hidden disabled:opacity-50 cursor-pointer"
+        >
+          {isSubmitting ? t('common.processing') : t('auth.signIn')}
+        </button>
+      </form>
+
+      <div className="relative mt-10">
+        <div aria-hidden="true" className="absolute inset-0 flex items-center">
+          <div className="w-full border-t border-gray-200" />
+        </div>
+        <div className="relative flex justify-center text-sm">
+          <span className="bg-white px-4 text-gray-500">{t('auth.orDivider')}</span>
+        </div>
+      </div>
+
+      <section aria-labelledby="magic-link-heading" className="mt-10">
+        <h2 id="magic-link-heading" className="text-lg font-medium text-gray-900">
+          {t('auth.magicLinkHeading')}
+        </h2>
+        <p className="mt-1 text-sm text-gray-500">
+          {t('auth.magicLinkHint', { minutes: authConfig.magicLinkMaxAge / 60 })}
+        </p>
+
+        {linkSentTo ? (
+          <p role="status" className="mt-6 rounded-md bg-green-50 p-4 text-sm text-green-800">
+            {t('auth.linkSent', { email: linkSentTo })}
+          </p>
+        ) : (
+          <form onSubmit={handleMagicLink} className="mt-6 flex items-start gap-3">
+            <div className="flex-1">
+              <TextField
+                id="magic-email"
+                type="email"
+                autoComplete="email"
+                required
+                label={t('auth.email')}
+                error={linkError ?? undefined}
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={isSendingLink}
+              className="mt-8 rounded-md bg-white px-4 py-2 text-sm font-medium text-gray-900 shadow-xs ring-1 ring-gray-300 ring-inset hover:bg-gray-50 disabled:opacity-50 cursor-pointer"
+            >
+              {isSendingLink ? t('common.processing') : t('auth.sendLink')}
+            </button>
+          </form>
+        )}
+      </section>
+
+      <p className="mt-10 text-center text-sm text-gray-500">
+        {t('auth.noAccount')}{' '}
+        <Link
+          href={`/register?next=${encodeURIComponent(redirectTo)}`}
+          className="font-medium text-indigo-600 hover:text-indigo-500"
+        >
+          {t('auth.register')}
+        </Link>
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,37 @@
+/**
+ * Sign-In Page (Server Component)
+ * Handles metadata and reads the redirect target for sign-in
+ */
+
+import type { Metadata } from 'next'
+import { brand } from '@/lib/cms'
+import { SignInPageClient } from './page.client'
+
+interface SignInPageProps {
+  searchParams: Promise<{
+    next?: string | string[]
+    error?: string | string[]
+  }>
+}
+
+export const metadata: Metadata = {
+  title: `Sign in | ${brand.name}`,
+  robots: {
+    index: false,
+    follow: false,
+  },
+}
+
+/**
+ * Sign-in page - wraps client component
+ */
+export default async function SignInPage({ searchParams }: SignInPageProps) {
+  const { next, error } = await searchParams
+
+  return (
+    <SignInPageClient
+      next={Array.isArray(next) ? next[0] : next}
+      linkExpired={error === 'link'}
+    />
+  )
+}
@@ -0,0 +1,124 @@
+/**
+ * Wishlist Page Client Component
+ * Saved products with move-to-cart and remove actions
+ */
+
+'use client'
+
+import { Link } from '@/lib/i18n/navigation'
+import Image from 'next/image'
+import { HeartIcon } from '@heroicons/react/24/outline'
+import { useWishlist } from '@/hooks/useWishlist'
+import { useSaveForLater } from '@/hooks/useSaveForLater'
+import { useBreadcrumbs } from '@/hooks/useBreadcrumbs'
+import { useDelayedLoading } from '@/hooks/useDelayedLoading'
+import { Breadcrumbs } from '@/components/ui/breadcrumbs'
+import { kebabToTitleCase } from '@/utils/format'
+import { getProductUrlFromIdAndTitle } from '@/utils/slugify'
+import { useCurrency } from '@/hooks/useCurrency'
+
+export function WishlistPageClient() {
+  const { items, isLoading, isPending, removeItem } = useWishlist()
+  const { moveToCart } = useSaveForLater()
+  const { formatPrice } = useCurrency()
+  const breadcrumbs = useBreadcrumbs()
+
+  // Delay showing loading state to prevent flicker for fast loads
+  const shouldShowLoading = useDelayedLoading(isLoading && items.length === 0)
+
+  return (
+    <>
+      <Breadcrumbs items={breadcrumbs} />
+
+      <div className="mx-auto max-w-2xl px-4 pt-16 pb-24 sm:px-6 lg:max-w-7xl lg:px-8">
+        <h1 className="text-3xl font-bold tracking-tight text-gray-900 sm:text-4xl">Wishlist</h1>
+
+        {shouldShowLoading ? (
+          <p className="mt-12 text-center text-gray-500">Loading wishlist...</p>
+        ) : items.length === 0 ? (
+          <div className="mt-12 text-center">
+            <HeartIcon aria-hidden="true" className="mx-auto size-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-semibold text-gray-900">Your wishlist is empty</h3>
+            <p className="mt-1 text-sm text-gray-500">Tap the heart on any product to save it for later.</p>
+            <div className="mt-6">
+              <Link
+                href="/products"
+                className="inline-flex items-center justify-center rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-xs hover:bg-indigo-500 focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-indigo-600"
+              >
+                Browse Products
+              </Link>
+            </div>
+          </div>
+        ) : (
+          <section aria-labelledby="wishlist-heading" className="mt-12">
+            <h2 id="wishlist-heading" className="sr-only">
+              Saved items
+            </h2>
+
+            <ul role="list" className="divide-y divide-gray-200 border-t border-b border-gray-200">
+              {items.map((item) => {
+                const productUrl = getProductUrlFromIdAndTitle(item.product_id, item.title)
+                const isItemPending = isPending(item.product_id)
+
+                return (
+                  <li key={item.product_id} data-testid="wishlist-item" className="flex py-6">
+                    <Link
+                      href={productUrl}
+                      className="size-24 sm:size-32 shrink-0 overflow-hidden rounded-md border border-gray-200"
+                    >
+                      {item.image ? (
+                        <Image
+                          alt={item.title}
+                          src={item.image}
+                          width={128}
+                          height={128}
+                          className="size-full object-cover"
+                        />
+                      ) : (
+                        <div className="size-full bg-gray-100" />
+                      )}
+                    </Link>
+
+                    <div className="ml-4 flex flex-1 flex-col">
+                      <div>
+                        <div className="flex justify-between text-sm font-medium text-gray-900 sm:text-base">
+                          <h3>
+                            <Link href={productUrl} className="hover:text-gray-700">
+                              {item.title}
+                            </Link>
+                          </h3>
+                          <p className="ml-4">{formatPrice(item.price)}</p>
+                        </div>
+                        <p className="mt-1 text-xs text-gray-500 sm:text-sm">
+                          {item.brand || (item.category ? kebabToTitleCase(item.category) : '')}
+                        </p>
+                      </div>
+                      <div className="mt-4 flex flex-1 items-end gap-4 text-sm">
+                        <button
+                          type="button"
+                          onClick={() => moveToCart(item)}
+                          disabled={isItemPending}
+                          className="rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white hover:bg-indigo-700 cursor-pointer disabled:cursor-not-allowed disabled:bg-gray-400"
+                        >
+                          Move to cart
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => removeItem(item.product_id)}
+                          disabled={isItemPending}
+                          className="py-2 font-medium text-gray-600 hover:text-gray-800 cursor-pointer disabled:opacity-50"
+                        >
+                          Remove
+                        </button>
+                      </div>
+                    </div>
+                  </li>
+                )
+              })}
+            </ul>
+          </section>
+        )}
+      </div>
+    </>
+  )
+}
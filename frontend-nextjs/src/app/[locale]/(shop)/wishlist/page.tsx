@@ -0,0 +1,24 @@
+/**
+ * Wishlist Page (Server Component)
+ * Handles metadata for the saved-for-later wishlist
+ */
+
+import type { Metadata } from 'next'
+import { brand } from '@/lib/cms'
+import { WishlistPageClient } from './page.client'
+
+export const metadata: Metadata = {
+  title: `Wishlist | ${brand.name}`,
+  // Wishlists are private to the session that saved them
+  robots: {
+    index: false,
+    follow: true,
+  },
+}
+
+/**
+ * Wishlist page - wraps client component
+ */
+export default function WishlistPage() {
+  return <WishlistPageClient />
+}
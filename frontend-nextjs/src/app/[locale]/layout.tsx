@@ -0,0 +1,73 @@
+import type { Metadata } from "next";
+import { Geist, Geist_Mono } from "next/font/google";
+import "../globals.css";
+import { generateDefaultMetadata } from "@/utils/metadata";
+import { Toaster } from 'react-hot-toast';
+import { QueryProvider } from '@/lib/providers/query-provider';
+import { LocaleProvider } from '@/lib/providers/locale-provider';
+import { notFound } from 'next/navigation';
+import { i18nConfig, isLocale } from '@/lib/i18n/config';
+
+const geistSans = Geist({
+  variable: "--font-geist-sans",
+  subsets: ["latin"],
+});
+
+const geistMono = Geist_Mono({
+  variable: "--font-geist-mono",
+  subsets: ["latin"],
+});
+
+interface RootLayoutProps {
+  children: React.ReactNode;
+  params: Promise<{ locale: string }>;
+}
+
+// Pre-render every locale; unknown locales 404 below
+export function generateStaticParams() {
+  return i18nConfig.locales.map((locale) => ({ locale }));
+}
+
+export async function generateMetadata({ params }: Pick<RootLayoutProps, 'params'>): Promise<Metadata> {
+  const { locale } = await params;
+  return generateDefaultMetadata({ locale: isLocale(locale) ? locale : i18nConfig.defaultLocale });
+}
+
+export default async function RootLayout({ children, params }: Readonly<RootLayoutProps>) {
+  const { locale } = await params;
+
+  if (!isLocale(locale)) {
+    notFound();
+  }
+
+  return (
+    <html lang={locale}>
+      <body
+        className={`${geistSans.variable} ${geistMono.variable} antialiased`}
+      >
+        <LocaleProvider locale={locale}>
+          <QueryProvider>
+            <Toaster
+              position="top-center"
+              toastOptions={{
+                duration: 3000,
+                style: {
+                  background: '#363636',
+                  color: '#fff',
+                },
+                error: {
+                  duration: 4000,
+                  iconTheme: {
+                    primary: '#ef4444',
+                    secondary: '#fff',
+                  },
+                },
+              }}
+            />
+            {children}
+          </QueryProvider>
+        </LocaleProvider>
+      </body>
+    </html>
+  );
+}
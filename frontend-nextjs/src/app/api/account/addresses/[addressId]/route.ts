@@ -0,0 +1,106 @@
+/**
+ * Account Address API Route (BFF Layer)
+ * PATCH /api/account/addresses/[addressId] - Edit a saved address or make it the default
+ * DELETE /api/account/addresses/[addressId] - Remove a saved address
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { removeAddress, updateAddress, AccountError } from '@/lib/services/accounts';
+import { getSignedInAccount } from '@/lib/server/auth';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ addressId: string }> }
+) {
+  try {
+    const account = await getSignedInAccount(request);
+
+    if (!account) {
+      return NextResponse.json(
+        {
+          error: {
+            message: 'Sign in to continue',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const { addressId } = await params;
+    const body = await request.json().catch(() => null);
+    const address = await updateAddress(account.id, addressId, body);
+
+    return NextResponse.json(address);
+  } catch (error) {
+    if (error instanceof AccountError) {
+      return NextResponse.json(
+        {
+          error: {
+            message: error.message,
+            fields: error.fields,
+          },
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error updating address:', error);
+
+    return NextResponse.json(
+      {
+        error: {
+          message: error instanceof Error ? error.message : 'Failed to update address',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ addressId: string }> }
+) {
+  try {
+    const account = await getSignedInAccount(request);
+
+    if (!account) {
+      return NextResponse.json(
+        {
+          error: {
+            message: 'Sign in to continue',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const { addressId } = await params;
+
+    await removeAddress(account.id, addressId);
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    if (error instanceof AccountError) {
+      return NextResponse.json(
+        {
+          error: {
+            message: error.message,
+          },
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error removing address:', error);
+
+    return NextResponse.json(
+      {
+        error: {
+          message: error instanceof Error ? error.message : 'Failed to remove address',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
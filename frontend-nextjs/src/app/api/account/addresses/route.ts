@@ -0,0 +1,53 @@
+/**
+ * Account Addresses API Route (BFF Layer)
+ * POST /api/account/addresses - Save an address to the signed-in account
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { addAddress, AccountError } from '@/lib/services/accounts';
+import { getSignedInAccount } from '@/lib/server/auth';
+
+export async function POST(request: NextRequest) {
+  try {
+    const account = await getSignedInAccount(request);
+
+    if (!account) {
+      return NextResponse.json(
+        {
+          error: {
+            message: 'Sign in to continue',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const address = await addAddress(account.id, body);
+
+    return NextResponse.json(address, { status: 201 });
+  } catch (error) {
+    if (error instanceof AccountError) {
+      return NextResponse.json(
+        {
+          error: {
+            message: error.message,
+            fields: error.fields,
+          },
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error saving address:', error);
+
+    return NextResponse.json(
+      {
+        error: {
+          message: error instanceof Error ? error.message : 'Failed to save address',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Account Orders API Route (BFF Layer)
+ * GET /api/account/orders - Order history for the signed-in account
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { listOrdersForAccount } from '@/lib/services/orders';
+import { getSignedInAccount } from '@/lib/server/auth';
+
+export async function GET(request: NextRequest) {
+  try {
+    const account = await getSignedInAccount(request);
+
+    if (!account) {
+      return NextResponse.json(
+        {
+          error: {
+            message: 'Sign in to continue',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const orders = await listOrdersForAccount(account.id);
+
+    return NextResponse.json(orders, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching order history:', error);
+
+    return NextResponse.json(
+      {
+        error: {
+          message: error instanceof Error ? error.message : 'Failed to fetch order history',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Account API Route (BFF Layer)
+ * GET /api/account - Fetch the signed-in account
+ * PATCH /api/account - Update profile details
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { updateProfile, AccountError } from '@/lib/services/accounts';
+import { getSignedInAccount } from '@/lib/server/auth';
+
+function unauthorized() {
+  return NextResponse.json(
+    {
+      error: {
+        message: 'Sign in to continue',
+      },
+    },
+    { status: 401 }
+  );
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const account = await getSignedInAccount(request);
+
+    if (!account) {
+      return unauthorized();
+    }
+
+    return NextResponse.json(account, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching account:', error);
+
+    return NextResponse.json(
+      {
+        error: {
+          message: error instanceof Error ? error.message : 'Failed to fetch account',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const account = await getSignedInAccount(request);
+
+    if (!account) {
+      return unauthorized();
+    }
+
+    const body = await request.json().catch(() => null);
+    const updated = await updateProfile(account.id, body);
+
+    return NextResponse.json(updated, { status: 200 });
+  } catch (error) {
+    if (error instanceof AccountError) {
+      return NextResponse.json(
+        {
+          error: {
+            message: error.message,
+            fields: error.fields,
+          },
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error updating account:', error);
+
+    return NextResponse.json(
+      {
+        error: {
+          message: error instanceof Error ? error.message : 'Failed to update account',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
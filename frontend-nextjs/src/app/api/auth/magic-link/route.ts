@@ -0,0 +1,71 @@
+/**
+ * Magic Link API Route (BFF Layer)
+ * POST /api/auth/magic-link - Email a single-use sign-in link
+ * GET /api/auth/magic-link?token=...&next=... - Follow the link: sign in and redirect
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requestMagicLink, redeemMagicLink, AccountError } from '@/lib/services/accounts';
+import { completeSignIn } from '@/lib/server/auth';
+import { authConfig, safeRedirectPath, siteConfig } from '@/lib/config';
+import { localizePath, splitLocale } from '@/lib/i18n/paths';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+
+    await requestMagicLink(body, siteConfig.url);
+
+    // Same response whether or not the email has an account
+    return NextResponse.json({ sent: true }, { status: 202 });
+  } catch (error) {
+    if (error instanceof AccountError) {
+      return NextResponse.json(
+        {
+          error: {
+            message: error.message,
+            fields: error.fields,
+          },
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error sending sign-in link:', error);
+
+    return NextResponse.json(
+      {
+        error: {
+          message: error instanceof Error ? error.message : 'Failed to send sign-in link',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const next = safeRedirectPath(searchParams.get('next'));
+
+  try {
+    const account = await redeemMagicLink(searchParams.get('token') ?? '');
+
+    const response = NextResponse.redirect(new URL(next, request.url));
+
+    // Starts the session and merges the guest cart into the account's cart
+    await completeSignIn(request, response, account);
+
+    return response;
+  } catch (error) {
+    if (!(error instanceof AccountError)) {
+      console.error('Error redeeming sign-in link:', error);
+    }
+
+    // Back to the sign-in page (in the link's locale) to request a new link
+    const signIn = new URL(localizePath(authConfig.signInPath, splitLocale(next).locale), request.url);
+    signIn.searchParams.set('error', 'link');
+
+    return NextResponse.redirect(signIn);
+  }
+}
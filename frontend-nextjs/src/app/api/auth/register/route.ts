@@ -0,0 +1,45 @@
+/**
+ * Register API Route (BFF Layer)
+ * POST /api/auth/register - Create an account with email and password, and sign in
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { registerAccount, AccountError } from '@/lib/services/accounts';
+import { completeSignIn } from '@/lib/server/auth';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const account = await registerAccount(body);
+
+    const response = NextResponse.json(account, { status: 201 });
+
+    // Starts the session and merges the guest cart into the new account
+    await completeSignIn(request, response, account);
+
+    return response;
+  } catch (error) {
+    if (error instanceof AccountError) {
+      return NextResponse.json(
+        {
+          error: {
+            message: error.message,
+            fields: error.fields,
+          },
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error registering account:', error);
+
+    return NextResponse.json(
+      {
+        error: {
+          message: error instanceof Error ? error.message : 'Failed to create account',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Sign-In API Route (BFF Layer)
+ * POST /api/auth/sign-in - Sign in with email and password
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { signInWithPassword, AccountError } from '@/lib/services/accounts';
+import { completeSignIn } from '@/lib/server/auth';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const account = await signInWithPassword(body);
+
+    const response = NextResponse.json(account, { status: 200 });
+
+    // Starts the session and merges the guest cart into the account's cart
+    await completeSignIn(request, response, account);
+
+    return response;
+  } catch (error) {
+    if (error instanceof AccountError) {
+      return NextResponse.json(
+        {
+          error: {
+            message: error.message,
+            fields: error.fields,
+          },
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error signing in:', error);
+
+    return NextResponse.json(
+      {
+        error: {
+          message: error instanceof Error ? error.message : 'Failed to sign in',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Sign-Out API Route (BFF Layer)
+ * POST /api/auth/sign-out - End the sign-in session
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { endSession } from '@/lib/services/accounts';
+import { fetchCart, clearCart } from '@/lib/services/cart';
+import { clearAuthCookie, getAuthToken } from '@/lib/server/auth';
+
+export async function POST(request: NextRequest) {
+  try {
+    // Forward cookies from browser to backend
+    const cookieHeader = request.headers.get('cookie');
+
+    await endSession(getAuthToken(request));
+
+    // The account keeps its saved cart; empty the browser's backend cart so
+    // the next shopper on this device doesn't see it
+    const { data: cart } = await fetchCart(cookieHeader || undefined);
+    const { headers } = await clearCart(cart, cookieHeader || undefined);
+
+    const response = new NextResponse(null, { status: 204 });
+    clearAuthCookie(response);
+
+    // Forward all Set-Cookie headers from backend to browser
+    headers.getSetCookie().forEach((cookie) => {
+      response.headers.append('Set-Cookie', cookie);
+    });
+
+    return response;
+  } catch (error) {
+    console.error('Error signing out:', error);
+
+    return NextResponse.json(
+      {
+        error: {
+          message: error instanceof Error ? error.message : 'Failed to sign out',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
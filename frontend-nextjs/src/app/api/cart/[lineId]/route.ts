@@ -6,6 +6,8 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { updateCartItemQuantity, removeCartItem } from '@/lib/services/cart';
+import { getCartOwner } from '@/lib/server/cart';
+import { setSessionCookie } from '@/lib/server/session';
 
 export async function PUT(
   request: NextRequest,
@@ -15,6 +17,9 @@ export async function PUT(
     // Forward cookies from browser to backend
     const cookieHeader = request.headers.get('cookie');
 
+    // Saved copy of the cart belongs to the account, or the guest's BFF session
+    const { owner, sessionId, isNewSession } = await getCartOwner(request);
+
     const { lineId } = await params;
 
     if (!lineId) {
@@ -42,11 +47,15 @@ export async function PUT(
       );
     }
 
-    const { data: cart, headers } = await updateCartItemQuantity(lineId, quantity, cookieHeader || undefined);
+    const { data: cart, headers } = await updateCartItemQuantity(lineId, quantity, cookieHeader || undefined, owner);
 
     // Create response and forward Set-Cookie headers from backend
     const response = NextResponse.json(cart, { status: 200 });
 
+    if (isNewSession) {
+      setSessionCookie(response, sessionId);
+    }
+
     // Forward all Set-Cookie headers from backend to browser
     // Use getSetCookie() to get all Set-Cookie headers (there can be multiple)
     const setCookieHeaders = headers.getSetCookie();
@@ -77,6 +86,9 @@ export async function DELETE(
     // Forward cookies from browser to backend
     const cookieHeader = request.headers.get('cookie');
 
+    // Saved copy of the cart belongs to the account, or the guest's BFF session
+    const { owner, sessionId, isNewSession } = await getCartOwner(request);
+
     const { lineId } = await params;
 
     if (!lineId) {
@@ -90,11 +102,15 @@ export async function DELETE(
       );
     }
 
-    const { data: cart, headers } = await removeCartItem(lineId, cookieHeader || undefined);
+    const { data: cart, headers } = await removeCartItem(lineId, cookieHeader || undefined, owner);
 
     // Create response and forward Set-Cookie headers from backend
     const response = NextResponse.json(cart, { status: 200 });
 
+    if (isNewSession) {
+      setSessionCookie(response, sessionId);
+    }
+
     // Forward all Set-Cookie headers from backend to browser
     // Use getSetCookie() to get all Set-Cookie headers (there can be multiple)
     const setCookieHeaders = headers.getSetCookie();
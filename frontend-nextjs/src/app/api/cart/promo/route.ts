@@ -0,0 +1,116 @@
+/**
+ * Cart Promo Code API Route (BFF Layer)
+ * POST /api/cart/promo - Apply a promo code to the cart
+ * DELETE /api/cart/promo - Remove the applied promo code
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { applyPromoCode, removePromoCode } from '@/lib/services/cart';
+import { PromoCodeError } from '@/lib/services/promotions';
+import { setPromoCookie, clearPromoCookie } from '@/lib/server/promo';
+import { getCartOwner } from '@/lib/server/cart';
+import { setSessionCookie } from '@/lib/server/session';
+
+export async function POST(request: NextRequest) {
+  try {
+    // Forward cookies from browser to backend
+    const cookieHeader = request.headers.get('cookie');
+
+    const body = await request.json().catch(() => null);
+    const code = typeof body?.code === 'string' ? body.code : '';
+
+    if (!code.trim()) {
+      return NextResponse.json(
+        {
+          error: {
+            message: 'Promo code is required',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    // Saved copy of the cart belongs to the account, or the guest's BFF session
+    const { owner, sessionId, isNewSession } = await getCartOwner(request);
+
+    const { data: cart, headers } = await applyPromoCode(code, cookieHeader || undefined, owner);
+
+    const response = NextResponse.json(cart, { status: 200 });
+
+    if (isNewSession) {
+      setSessionCookie(response, sessionId);
+    }
+
+    // Forward all Set-Cookie headers from backend to browser
+    const setCookieHeaders = headers.getSetCookie();
+    setCookieHeaders.forEach((cookie) => {
+      response.headers.append('Set-Cookie', cookie);
+    });
+
+    setPromoCookie(response, cart.promo_code!);
+
+    return response;
+  } catch (error) {
+    if (error instanceof PromoCodeError) {
+      return NextResponse.json(
+        {
+          error: {
+            message: error.message,
+            code: 'INVALID_PROMO_CODE',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error applying promo code:', error);
+
+    return NextResponse.json(
+      {
+        error: {
+          message: error instanceof Error ? error.message : 'Failed to apply promo code',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    // Forward cookies from browser to backend
+    const cookieHeader = request.headers.get('cookie');
+
+    // Saved copy of the cart belongs to the account, or the guest's BFF session
+    const { owner, sessionId, isNewSession } = await getCartOwner(request);
+
+    const { data: cart, headers } = await removePromoCode(cookieHeader || undefined, owner);
+
+    const response = NextResponse.json(cart, { status: 200 });
+
+    if (isNewSession) {
+      setSessionCookie(response, sessionId);
+    }
+
+    // Forward all Set-Cookie headers from backend to browser
+    const setCookieHeaders = headers.getSetCookie();
+    setCookieHeaders.forEach((cookie) => {
+      response.headers.append('Set-Cookie', cookie);
+    });
+
+    clearPromoCookie(response);
+
+    return response;
+  } catch (error) {
+    console.error('Error removing promo code:', error);
+
+    return NextResponse.json(
+      {
+        error: {
+          message: error instanceof Error ? error.message : 'Failed to remove promo code',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
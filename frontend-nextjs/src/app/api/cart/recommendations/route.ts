@@ -0,0 +1,64 @@
+/**
+ * Cart Recommendations API Route (BFF Layer)
+ * GET /api/cart/recommendations?cart=1,2&subtotal=4599&limit=3
+ *
+ * Suggestions for the whole cart: matches the cart's categories and tags,
+ * skips items already in it and favours products that close the gap to
+ * free shipping. Takes the client's cart so optimistic changes are reflected.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { fetchCartSuggestions } from '@/lib/services/recommendations';
+import { catalogCacheControl } from '@/lib/config';
+
+// Upper bound on suggestions per request
+const MAX_LIMIT = 12;
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+
+    const subtotal = Number(searchParams.get('subtotal') ?? 0);
+
+    if (!Number.isFinite(subtotal) || subtotal < 0) {
+      return NextResponse.json(
+        {
+          error: {
+            message: 'Invalid subtotal. Expected a non-negative amount in cents',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const limitParam = Number(searchParams.get('limit'));
+    const limit = Number.isInteger(limitParam) && limitParam > 0 ? Math.min(limitParam, MAX_LIMIT) : 3;
+    const cartProductIds = (searchParams.get('cart') ?? '')
+      .split(',')
+      .map(Number)
+      .filter((cartId) => Number.isInteger(cartId) && cartId > 0);
+
+    const products = await fetchCartSuggestions({ cartProductIds, subtotal, limit });
+
+    return NextResponse.json(
+      { products },
+      {
+        status: 200,
+        headers: {
+          'Cache-Control': catalogCacheControl,
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Error fetching cart recommendations:', error);
+
+    return NextResponse.json(
+      {
+        error: {
+          message: error instanceof Error ? error.message : 'Failed to fetch cart recommendations',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -6,6 +6,8 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { fetchCart, addProductToCart } from '@/lib/services/cart';
+import { getCartOwner } from '@/lib/server/cart';
+import { setSessionCookie } from '@/lib/server/session';
 import type { Product } from '@/lib/types/products';
 
 export async function GET(request: NextRequest) {
@@ -13,11 +15,18 @@ export async function GET(request: NextRequest) {
     // Forward cookies from browser to backend
     const cookieHeader = request.headers.get('cookie');
 
-    const { data: cart, headers } = await fetchCart(cookieHeader || undefined);
+    // Saved copy of the cart belongs to the account, or the guest's BFF session
+    const { owner, sessionId, isNewSession } = await getCartOwner(request);
+
+    const { data: cart, headers } = await fetchCart(cookieHeader || undefined, owner);
 
     // Create response and forward Set-Cookie headers from backend
     const response = NextResponse.json(cart, { status: 200 });
 
+    if (isNewSession) {
+      setSessionCookie(response, sessionId);
+    }
+
     // Forward all Set-Cookie headers from backend to browser
     // Use getSetCookie() to get all Set-Cookie headers (there can be multiple)
     const setCookieHeaders = headers.getSetCookie();
@@ -45,6 +54,9 @@ export async function POST(request: NextRequest) {
     // Forward cookies from browser to backend
     const cookieHeader = request.headers.get('cookie');
 
+    // Saved copy of the cart belongs to the account, or the guest's BFF session
+    const { owner, sessionId, isNewSession } = await getCartOwner(request);
+
     const body = await request.json();
 
     // Validate required fields
@@ -73,11 +85,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { data: cart, headers } = await addProductToCart(product, quantity, cookieHeader || undefined);
+    const { data: cart, headers } = await addProductToCart(product, quantity, cookieHeader || undefined, owner);
 
     // Create response and forward Set-Cookie headers from backend
     const response = NextResponse.json(cart, { status: 200 });
 
+    if (isNewSession) {
+      setSessionCookie(response, sessionId);
+    }
+
     // Forward all Set-Cookie headers from backend to browser
     // Use getSetCookie() to get all Set-Cookie headers (there can be multiple)
     const setCookieHeaders = headers.getSetCookie();
@@ -0,0 +1,73 @@
+/**
+ * Checkout API Route (BFF Layer)
+ * POST /api/checkout - Validate checkout details and place an order
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { validateCheckoutRequest, placeOrder, CheckoutError } from '@/lib/services/checkout';
+import { ensureSessionId, setSessionCookie } from '@/lib/server/session';
+import { getSignedInAccount } from '@/lib/server/auth';
+import { clearPromoCookie } from '@/lib/server/promo';
+
+export async function POST(request: NextRequest) {
+  try {
+    // Forward cookies from browser to backend
+    const cookieHeader = request.headers.get('cookie');
+
+    const body = await request.json().catch(() => null);
+    const checkoutRequest = validateCheckoutRequest(body);
+
+    // Orders belong to the BFF session that placed them, and the account if signed in
+    const { sessionId, isNew } = ensureSessionId(request);
+    const account = await getSignedInAccount(request);
+
+    const { data: order, headers } = await placeOrder(
+      checkoutRequest,
+      sessionId,
+      cookieHeader || undefined,
+      account?.id ?? null
+    );
+
+    const response = NextResponse.json(order, { status: 201 });
+
+    if (isNew) {
+      setSessionCookie(response, sessionId);
+    }
+
+    // Promo codes apply to a single order
+    clearPromoCookie(response);
+
+    // Forward all Set-Cookie headers from backend to browser
+    const setCookieHeaders = headers.getSetCookie();
+    setCookieHeaders.forEach((cookie) => {
+      response.headers.append('Set-Cookie', cookie);
+    });
+
+    return response;
+  } catch (error) {
+    if (error instanceof CheckoutError) {
+      return NextResponse.json(
+        {
+          error: {
+            message: error.message,
+            code: error.code,
+            fields: error.fields,
+            challenge: error.challenge,
+          },
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error placing order:', error);
+
+    return NextResponse.json(
+      {
+        error: {
+          message: error instanceof Error ? error.message : 'Failed to place order',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
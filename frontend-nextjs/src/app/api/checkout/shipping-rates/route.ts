@@ -0,0 +1,96 @@
+/**
+ * Shipping Rates API Route (BFF Layer)
+ * GET /api/checkout/shipping-rates?items=1:2,5:1&subtotal=4599&country=CA&region=ON
+ *
+ * Prices each shipping method for the cart and destination. Items are
+ * productId:quantity pairs; weights come from the product catalog. Takes the
+ * client's cart so optimistic changes are reflected.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { fetchShippingWeight, quoteShipping } from '@/lib/services/shipping';
+import { catalogCacheControl } from '@/lib/config';
+import type { ShippingItem } from '@/lib/types/shipping';
+
+// Upper bound on cart lines in one quote; each product's weight is looked up upstream
+const MAX_ITEMS = 50;
+
+/**
+ * Parse "1:2,5:1" into shipping items, skipping malformed pairs
+ */
+function parseItems(value: string | null): ShippingItem[] {
+  return (value ?? '')
+    .split(',')
+    .map((pair) => pair.split(':').map(Number))
+    .filter(([productId, quantity]) => Number.isInteger(productId) && productId > 0 && Number.isInteger(quantity) && quantity > 0)
+    .map(([productId, quantity]) => ({ productId, quantity }));
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+
+    const subtotal = Number(searchParams.get('subtotal') ?? 0);
+
+    if (!Number.isFinite(subtotal) || subtotal < 0) {
+      return NextResponse.json(
+        {
+          error: {
+            message: 'Invalid subtotal. Expected a non-negative amount in cents',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const destination = {
+      country: searchParams.get('country') ?? '',
+      region: searchParams.get('region') ?? '',
+    };
+
+    const items = parseItems(searchParams.get('items'));
+
+    if (items.length > MAX_ITEMS) {
+      return NextResponse.json(
+        {
+          error: {
+            message: `Too many items. Expected at most ${MAX_ITEMS}`,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const weight = await fetchShippingWeight(items);
+    const quote = quoteShipping({ destination, weight, subtotal });
+
+    if (!quote) {
+      return NextResponse.json(
+        {
+          error: {
+            message: "We don't ship to this country",
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(quote, {
+      status: 200,
+      headers: {
+        'Cache-Control': catalogCacheControl,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching shipping rates:', error);
+
+    return NextResponse.json(
+      {
+        error: {
+          message: error instanceof Error ? error.message : 'Failed to fetch shipping rates',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
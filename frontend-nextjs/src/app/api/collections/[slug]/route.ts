@@ -1,14 +1,20 @@
 /**
  * Collections API Route (BFF Layer)
  * GET /api/collections/[slug]
+ * GET /api/collections/[slug]?limit=12&skip=0&tags=...&sort=...
  *
- * Fetches products from a specific category/collection from DummyJSON
- * Example: /api/collections/womens-dresses
+ * Without limit: every product in the category/collection (related
+ * products). With limit: one filtered, sorted page plus facets.
+ * Example: /api/collections/womens-dresses?limit=12&skip=12
+ *
+ * Slugs outside the configured categories return 404.
  */
 
-import { NextResponse } from 'next/server';
-import { fetchProductsByCategory } from '@/lib/services/products';
-import { cacheConfig } from '@/lib/config';
+import { NextRequest, NextResponse } from 'next/server';
+import { isConfiguredCategory } from '@/lib/cms';
+import { fetchCollectionProducts } from '@/lib/services/products';
+import { fetchListingPage } from '@/lib/services/listing';
+import { catalogCacheControl } from '@/lib/config';
 
 // ISR caching: revalidate every 1 minute (60 seconds)
 // Note: Must be a literal number for Next.js static analysis
@@ -20,7 +26,7 @@ interface RouteContext {
   }>;
 }
 
-export async function GET(request: Request, context: RouteContext) {
+export async function GET(request: NextRequest, context: RouteContext) {
   try {
     const { slug } = await context.params;
 
@@ -31,9 +37,24 @@ export async function GET(request: Request, context: RouteContext) {
       );
     }
 
-    const result = await fetchProductsByCategory(slug);
+    // Only storefront categories are fetched (and cached) upstream
+    if (!isConfiguredCategory(slug)) {
+      return NextResponse.json(
+        { error: { message: 'Collection not found' } },
+        { status: 404 }
+      );
+    }
+
+    const result = request.nextUrl.searchParams.has('limit')
+      ? await fetchListingPage({ type: 'collection', slug }, request.nextUrl.searchParams)
+      : await fetchCollectionProducts(slug);
 
-    return NextResponse.json(result, { status: 200 });
+    return NextResponse.json(result, {
+      status: 200,
+      headers: {
+        'Cache-Control': catalogCacheControl,
+      },
+    });
   } catch (error) {
     console.error('Error fetching collection:', error);
 
@@ -0,0 +1,46 @@
+/**
+ * Order API Route (BFF Layer)
+ * GET /api/orders/[orderId] - Fetch an order placed by the current session or account
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrderForSession } from '@/lib/services/orders';
+import { getSessionId } from '@/lib/server/session';
+import { getSignedInAccount } from '@/lib/server/auth';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  try {
+    const { orderId } = await params;
+
+    const account = await getSignedInAccount(request);
+    const order = await getOrderForSession(orderId, getSessionId(request), account?.id ?? null);
+
+    // Orders from other sessions are reported as missing so IDs can't be probed
+    if (!order) {
+      return NextResponse.json(
+        {
+          error: {
+            message: 'Order not found',
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(order, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching order:', error);
+
+    return NextResponse.json(
+      {
+        error: {
+          message: error instanceof Error ? error.message : 'Failed to fetch order',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
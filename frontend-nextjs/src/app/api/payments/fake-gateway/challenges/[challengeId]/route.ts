@@ -0,0 +1,58 @@
+/**
+ * Fake 3-D Secure API Route (BFF Layer)
+ * POST /api/payments/fake-gateway/challenges/[challengeId] - Approve or fail a 3-D Secure challenge
+ *
+ * Stands in for the bank's authentication page while the fake gateway is
+ * the payment provider. Body: { approve: boolean }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getPaymentProviderId, PaymentError } from '@/lib/payments';
+import { createFakeGateway } from '@/lib/payments/fake-gateway';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ challengeId: string }> }
+) {
+  try {
+    if (getPaymentProviderId() !== 'fake') {
+      return NextResponse.json(
+        {
+          error: {
+            message: 'Not found',
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    const { challengeId } = await params;
+    const body = await request.json().catch(() => null);
+    const challenge = await createFakeGateway().completeChallenge(challengeId, body?.approve === true);
+
+    return NextResponse.json(challenge);
+  } catch (error) {
+    if (error instanceof PaymentError) {
+      return NextResponse.json(
+        {
+          error: {
+            message: error.message,
+            code: error.code,
+          },
+        },
+        { status: error.code === 'not_found' ? 404 : 409 }
+      );
+    }
+
+    console.error('Error completing 3-D Secure challenge:', error);
+
+    return NextResponse.json(
+      {
+        error: {
+          message: error instanceof Error ? error.message : 'Failed to complete challenge',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Product Recommendations API Route (BFF Layer)
+ * GET /api/products/[id]/recommendations?limit=4
+ * GET /api/products/[id]/recommendations?mode=bought-together&cart=1,2&limit=4
+ *
+ * similar (default): products like this one (tags, brand, price, rating)
+ * bought-together: products to buy with this one and the cart items
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { fetchRecommendations, recommendationModes } from '@/lib/services/recommendations';
+import type { RecommendationMode } from '@/lib/types/products';
+import { isNotFoundError } from '@/lib/clients/upstream';
+import { extractIdFromSlug } from '@/utils/slugify';
+import { catalogCacheControl } from '@/lib/config';
+
+// Upper bound on recommendations per request
+const MAX_LIMIT = 20;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { searchParams } = request.nextUrl;
+
+    const productId = extractIdFromSlug(id);
+
+    if (!productId || productId <= 0) {
+      return NextResponse.json(
+        {
+          error: {
+            message: 'Invalid product ID or slug',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const modeParam = searchParams.get('mode') ?? 'similar';
+
+    if (!recommendationModes.includes(modeParam as RecommendationMode)) {
+      return NextResponse.json(
+        {
+          error: {
+            message: `Invalid mode. Expected one of: ${recommendationModes.join(', ')}`,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const mode = modeParam as RecommendationMode;
+    const limitParam = Number(searchParams.get('limit'));
+    const limit = Number.isInteger(limitParam) && limitParam > 0 ? Math.min(limitParam, MAX_LIMIT) : 4;
+    const cartProductIds = (searchParams.get('cart') ?? '')
+      .split(',')
+      .map(Number)
+      .filter((cartId) => Number.isInteger(cartId) && cartId > 0);
+
+    const products = await fetchRecommendations(productId, { mode, cartProductIds, limit });
+
+    return NextResponse.json(
+      { products },
+      {
+        status: 200,
+        headers: {
+          // Similar products only change with the catalog; bought-together follows new orders
+          'Cache-Control': mode === 'similar'
+            ? catalogCacheControl
+            : 'private, max-age=60',
+        },
+      }
+    );
+  } catch (error) {
+    if (isNotFoundError(error)) {
+      return NextResponse.json(
+        {
+          error: {
+            message: 'Product not found',
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    console.error('Error fetching recommendations:', error);
+
+    return NextResponse.json(
+      {
+        error: {
+          message: error instanceof Error ? error.message : 'Failed to fetch recommendations',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,23 +1,61 @@
 /**
  * Products API Route (BFF Layer)
  * GET /api/products
+ * GET /api/products?limit=12&skip=0&tags=...&sort=...
+ * GET /api/products?ids=3,1,2
  *
- * Fetches all products from configured categories (no pagination needed)
+ * Without limit: all products from configured categories (search index,
+ * search palette). With limit: one filtered, sorted page plus facets.
+ * With ids: those products in order, plus the IDs that no longer exist.
  * Categories: tops, womens-dresses, womens-shoes, womens-jewellery,
  *            womens-bags, sunglasses, fragrances, beauty
  */
 
-import { NextResponse } from 'next/server';
-import { fetchAllCategoryProducts } from '@/lib/services/products';
-import { cacheConfig } from '@/lib/config';
+import { NextRequest, NextResponse } from 'next/server';
+import { fetchAllCategoryProducts, fetchProductsByIds } from '@/lib/services/products';
+import { fetchListingPage } from '@/lib/services/listing';
+import { catalogCacheControl } from '@/lib/config';
 
 // ISR caching: revalidate every 1 minute (60 seconds)
 // All ~40 products from 8 categories are fetched in parallel and cached
 // Note: Must be a literal number for Next.js static analysis
 export const revalidate = 60;
 
-export async function GET() {
+// Upper bound on products looked up by ID in one request
+const MAX_IDS = 24;
+
+export async function GET(request: NextRequest) {
   try {
+    const { searchParams } = request.nextUrl;
+
+    if (searchParams.has('ids')) {
+      const ids = (searchParams.get('ids') ?? '')
+        .split(',')
+        .map(Number)
+        .filter((id) => Number.isInteger(id) && id > 0)
+        .slice(0, MAX_IDS);
+
+      const result = await fetchProductsByIds(ids);
+
+      return NextResponse.json(result, {
+        status: 200,
+        headers: {
+          'Cache-Control': catalogCacheControl,
+        },
+      });
+    }
+
+    if (searchParams.has('limit')) {
+      const page = await fetchListingPage({ type: 'catalog' }, searchParams);
+
+      return NextResponse.json(page, {
+        status: 200,
+        headers: {
+          'Cache-Control': catalogCacheControl,
+        },
+      });
+    }
+
     const result = await fetchAllCategoryProducts();
     return NextResponse.json(result, { status: 200 });
   } catch (error) {
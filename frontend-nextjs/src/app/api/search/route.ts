@@ -0,0 +1,47 @@
+/**
+ * Search API Route (BFF Layer)
+ * GET /api/search?q=
+ *
+ * Searches the configured-category catalog via the local search index
+ * Example: /api/search?q=perfume
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { searchProductsByQuery } from '@/lib/services/products';
+import { catalogCacheControl } from '@/lib/config';
+
+export async function GET(request: NextRequest) {
+  try {
+    const query = request.nextUrl.searchParams.get('q')?.trim();
+
+    if (!query) {
+      return NextResponse.json(
+        { error: { message: 'Search query is required' } },
+        { status: 400 }
+      );
+    }
+
+    const result = await searchProductsByQuery(query);
+
+    return NextResponse.json(
+      { query, ...result },
+      {
+        status: 200,
+        headers: {
+          'Cache-Control': catalogCacheControl,
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Error searching products:', error);
+
+    return NextResponse.json(
+      {
+        error: {
+          message: error instanceof Error ? error.message : 'Failed to search products',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
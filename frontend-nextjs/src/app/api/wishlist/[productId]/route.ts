@@ -0,0 +1,53 @@
+/**
+ * Wishlist Item API Route (BFF Layer)
+ * DELETE /api/wishlist/[productId] - Remove product from wishlist
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { removeWishlistItem } from '@/lib/services/wishlist';
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ productId: string }> }
+) {
+  try {
+    // Forward cookies from browser to backend
+    const cookieHeader = request.headers.get('cookie');
+
+    const { productId } = await params;
+    const id = Number(productId);
+
+    if (!Number.isInteger(id) || id <= 0) {
+      return NextResponse.json(
+        {
+          error: {
+            message: 'Valid product ID is required',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { data: wishlist, headers } = await removeWishlistItem(id, cookieHeader || undefined);
+
+    // Create response and forward Set-Cookie headers from backend
+    const response = NextResponse.json(wishlist, { status: 200 });
+
+    headers.getSetCookie().forEach((cookie) => {
+      response.headers.append('Set-Cookie', cookie);
+    });
+
+    return response;
+  } catch (error) {
+    console.error('Error removing wishlist item:', error);
+
+    return NextResponse.json(
+      {
+        error: {
+          message: error instanceof Error ? error.message : 'Failed to remove wishlist item',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
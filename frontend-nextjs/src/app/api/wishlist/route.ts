@@ -0,0 +1,83 @@
+/**
+ * Wishlist API Route (BFF Layer)
+ * GET /api/wishlist - Fetch wishlist
+ * POST /api/wishlist - Save product to wishlist
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { fetchWishlist, addProductToWishlist } from '@/lib/services/wishlist';
+import type { WishlistProduct } from '@/lib/types/wishlist';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Forward cookies from browser to backend (wishlist shares the cart session)
+    const cookieHeader = request.headers.get('cookie');
+
+    const { data: wishlist, headers } = await fetchWishlist(cookieHeader || undefined);
+
+    // Create response and forward Set-Cookie headers from backend
+    const response = NextResponse.json(wishlist, { status: 200 });
+
+    headers.getSetCookie().forEach((cookie) => {
+      response.headers.append('Set-Cookie', cookie);
+    });
+
+    return response;
+  } catch (error) {
+    console.error('Error fetching wishlist:', error);
+
+    return NextResponse.json(
+      {
+        error: {
+          message: error instanceof Error ? error.message : 'Failed to fetch wishlist',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Forward cookies from browser to backend
+    const cookieHeader = request.headers.get('cookie');
+
+    const body = await request.json();
+
+    // Validate required fields
+    if (!body.product || !body.product.id) {
+      return NextResponse.json(
+        {
+          error: {
+            message: 'Product data is required',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const product: WishlistProduct = body.product;
+
+    const { data: wishlist, headers } = await addProductToWishlist(product, cookieHeader || undefined);
+
+    // Create response and forward Set-Cookie headers from backend
+    const response = NextResponse.json(wishlist, { status: 200 });
+
+    headers.getSetCookie().forEach((cookie) => {
+      response.headers.append('Set-Cookie', cookie);
+    });
+
+    return response;
+  } catch (error) {
+    console.error('Error adding to wishlist:', error);
+
+    return NextResponse.json(
+      {
+        error: {
+          message: error instanceof Error ? error.message : 'Failed to add item to wishlist',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
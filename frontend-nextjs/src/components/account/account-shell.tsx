@@ -0,0 +1,72 @@
+/**
+ * Account Shell Component
+ * Heading and section tabs around the account pages
+ *
+ * The proxy only lets requests with a sign-in cookie through; if the session
+ * behind it has expired, the shopper is sent back to sign in.
+ */
+
+'use client'
+
+import { useEffect } from 'react'
+import { Link, usePathname, useRouter } from '@/lib/i18n/navigation'
+import { useAccount } from '@/hooks/useAccount'
+import { useTranslations } from '@/hooks/useTranslations'
+import { authConfig } from '@/lib/config/auth'
+
+interface AccountShellProps {
+  children: React.ReactNode
+}
+
+export function AccountShell({ children }: AccountShellProps) {
+  const { account, isLoading } = useAccount()
+  const { t } = useTranslations()
+  const pathname = usePathname()
+  const router = useRouter()
+
+  useEffect(() => {
+    if (!isLoading && !account) {
+      router.replace(`${authConfig.signInPath}?next=${encodeURIComponent(pathname)}`)
+    }
+  }, [account, isLoading, pathname, router])
+
+  const tabs = [
+    { href: '/account', label: t('account.nav.profile') },
+    { href: '/account/addresses', label: t('account.nav.addresses') },
+    { href: '/account/orders', label: t('account.nav.orders') },
+  ]
+
+  return (
+    <div className="mx-auto max-w-3xl px-4 pt-16 pb-24 sm:px-6 lg:px-8">
+      <h1 className="text-3xl font-bold tracking-tight text-gray-900">{t('account.heading')}</h1>
+
+      <nav aria-label={t('account.menuLabel')} className="mt-8 border-b border-gray-200">
+        <ul role="list" className="-mb-px flex space-x-8">
+          {tabs.map((tab) => {
+            const isCurrent = pathname === tab.href
+
+            return (
+              <li key={tab.href}>
+                <Link
+                  href={tab.href}
+                  aria-current={isCurrent ? 'page' : undefined}
+                  className={`block border-b-2 py-4 text-sm font-medium whitespace-nowrap ${
+                    isCurrent
+                      ? 'border-indigo-600 text-indigo-600'
+                      : 'border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700'
+                  }`}
+                >
+                  {tab.label}
+                </Link>
+              </li>
+            )
+          })}
+        </ul>
+      </nav>
+
+      <div className="mt-10">
+        {account ? children : <p className="text-gray-500">{t('account.loading')}</p>}
+      </div>
+    </div>
+  )
+}
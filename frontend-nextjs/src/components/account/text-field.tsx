@@ -0,0 +1,42 @@
+/**
+ * Text Field Component
+ * Labelled input with an inline error, used by the sign-in and account forms
+ */
+
+import type { InputHTMLAttributes } from 'react'
+import { FieldError } from '@/components/checkout/field-error'
+
+interface TextFieldProps extends InputHTMLAttributes<HTMLInputElement> {
+  id: string
+  label: string
+  error?: string
+  hint?: string
+}
+
+export function TextField({ id, label, error, hint, ...inputProps }: TextFieldProps) {
+  const describedBy = error ? `${id}-error` : hint ? `${id}-hint` : undefined
+
+  return (
+    <div>
+      <label htmlFor={id} className="block text-sm/6 font-medium text-gray-700">
+        {label}
+      </label>
+      <div className="mt-2">
+        <input
+          id={id}
+          name={id}
+          aria-invalid={error ? true : undefined}
+          aria-describedby={describedBy}
+          className="block w-full rounded-md bg-white px-3 py-2 text-base text-gray-900 outline-1 -outline-offset-1 outline-gray-300 placeholder:text-gray-400 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-600 aria-[invalid=true]:outline-red-500 sm:text-sm/6"
+          {...inputProps}
+        />
+      </div>
+      {hint && !error && (
+        <p id={`${id}-hint`} className="mt-2 text-sm text-gray-500">
+          {hint}
+        </p>
+      )}
+      <FieldError id={`${id}-error`} message={error} />
+    </div>
+  )
+}
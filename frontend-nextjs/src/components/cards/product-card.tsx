@@ -5,13 +5,15 @@
 
 'use client'
 
-import Link from 'next/link'
+import { Link } from '@/lib/i18n/navigation'
 import Image from 'next/image'
 import { useState } from 'react'
 import type { Product } from '@/lib/types/products'
 import { Z_INDEX } from '@/lib/config/z-index'
 import { StarRating } from '../ui/star-rating'
+import { WishlistButton } from '../ui/wishlist-button'
 import { getProductUrl } from '@/utils/slugify'
+import { useCurrency } from '@/hooks/useCurrency'
 
 interface ProductCardProps {
   product: Product
@@ -21,6 +23,7 @@ interface ProductCardProps {
 
 export function ProductCard({ product, onAddToCart, priority = false }: ProductCardProps) {
   const [isAdding, setIsAdding] = useState(false)
+  const { formatDollars } = useCurrency()
 
   const handleAddToCart = async (e: React.MouseEvent) => {
     e.preventDefault()
@@ -52,6 +55,12 @@ export function ProductCard({ product, onAddToCart, priority = false }: ProductC
         <span aria-hidden="true" className="absolute inset-0" style={{ zIndex: Z_INDEX.PRODUCT_OVERLAY }} />
       </Link>
 
+      <WishlistButton
+        product={product}
+        className="absolute top-3 right-3"
+        style={{ zIndex: Z_INDEX.ADD_TO_CART_BUTTON }}
+      />
+
       <h3 className="mt-4 font-medium text-gray-900">
         <Link href={productUrl}>
           {product.title}
@@ -64,7 +73,7 @@ export function ProductCard({ product, onAddToCart, priority = false }: ProductC
 
       <div className="mt-2 flex items-center justify-between">
         <StarRating rating={rating} size="sm" />
-        <p className="font-medium text-gray-900">${product.price.toFixed(2)}</p>
+        <p className="font-medium text-gray-900">{formatDollars(product.price)}</p>
       </div>
 
       <button
@@ -6,10 +6,11 @@
 'use client'
 
 import { useState } from 'react'
-import Link from 'next/link'
+import { Link } from '@/lib/i18n/navigation'
 import Image from 'next/image'
 import type { Product } from '@/lib/types/products'
 import { getProductUrl } from '@/utils/slugify'
+import { useCurrency } from '@/hooks/useCurrency'
 
 interface RelatedProductCardProps {
   product: Product
@@ -18,6 +19,8 @@ interface RelatedProductCardProps {
 }
 
 export function RelatedProductCard({ product, showAddToCart = false, onAddToCart }: RelatedProductCardProps) {
+  const { formatDollars } = useCurrency()
+
   const productUrl = getProductUrl(product)
   const [isAdding, setIsAdding] = useState(false)
 
@@ -55,7 +58,7 @@ export function RelatedProductCard({ product, showAddToCart = false, onAddToCart
               <p className="mt-1 text-sm text-gray-500">{product.brand}</p>
             )}
           </div>
-          <p className="text-sm font-medium text-gray-900">${product.price.toFixed(2)}</p>
+          <p className="text-sm font-medium text-gray-900">{formatDollars(product.price)}</p>
         </div>
       </Link>
 
@@ -11,14 +11,20 @@ import { CartLineItem } from './cart-line-item'
 import { OrderSummary } from './order-summary'
 import { FreeShippingProgress } from './free-shipping-progress'
 import { EmptyCart } from './empty-cart'
+import { CartSuggestions } from './cart-suggestions'
 import { useCart } from '@/hooks/useCart'
+import { useSaveForLater } from '@/hooks/useSaveForLater'
+import { useTranslations } from '@/hooks/useTranslations'
 import { Z_INDEX } from '@/lib/config/z-index'
-import { calculateShipping } from '@/lib/config/cart'
+import { qualifiesForFreeShipping } from '@/lib/config/shipping'
+import type { Product } from '@/lib/types/products'
 
 export function CartDrawer() {
   const {
     items,
     subtotal,
+    discount,
+    promoCode,
     currency,
     itemCount,
     isCartOpen,
@@ -28,21 +34,27 @@ export function CartDrawer() {
     incrementItem,
     decrementItem,
     removeItem,
+    addItem,
   } = useCart()
+  const { moveToWishlist } = useSaveForLater()
+  const { t } = useTranslations()
 
-  // Shipping calculation
-  const shipping = calculateShipping(subtotal)
+  // Shipping depends on the address, so only free shipping is known before checkout
+  const shipping = qualifiesForFreeShipping(subtotal) ? 0 : null
+
+  // Suggestions are added without reopening the drawer
+  const handleAddSuggestion = (product: Product) => addItem(product, 1, false)
 
   return (
     <>
       {/* Screen reader announcements for cart updates */}
       <div aria-live="polite" aria-atomic="true" className="sr-only">
         {items.length === 0 ? (
-          'Shopping cart is empty'
+          t('cart.announceEmpty')
         ) : items.length === 1 ? (
-          `Shopping cart has 1 item`
+          t('cart.announceOne')
         ) : (
-          `Shopping cart has ${itemCount} items`
+          t('cart.announceMany', { count: itemCount })
         )}
       </div>
 
@@ -62,7 +74,7 @@ export function CartDrawer() {
               <div className="flex h-full flex-col overflow-y-auto bg-white shadow-xl">
                 <div className="flex-1 overflow-y-auto px-4 py-6 sm:px-6">
                   <div className="flex items-start justify-between">
-                    <DialogTitle className="text-lg font-medium text-gray-900">Shopping cart</DialogTitle>
+                    <DialogTitle className="text-lg font-medium text-gray-900">{t('cart.title')}</DialogTitle>
                     <div className="ml-3 flex h-7 items-center">
                       <button
                         type="button"
@@ -70,7 +82,7 @@ export function CartDrawer() {
                         className="relative -m-2 p-2 text-gray-400 hover:text-gray-500 cursor-pointer"
                       >
                         <span className="absolute -inset-0.5" />
-                        <span className="sr-only">Close panel</span>
+                        <span className="sr-only">{t('cart.closePanel')}</span>
                         <XMarkIcon aria-hidden="true" className="size-6" />
                       </button>
                     </div>
@@ -89,7 +101,7 @@ export function CartDrawer() {
 
                   <div className="mt-8">
                     {items.length === 0 ? (
-                      <EmptyCart variant="compact" onClose={closeCart} />
+                      <EmptyCart variant="compact" onClose={closeCart} onAddToCart={handleAddSuggestion} />
                     ) : (
                       <div className="flow-root">
                         <ul role="list" className="-my-6 divide-y divide-gray-200">
@@ -103,10 +115,18 @@ export function CartDrawer() {
                               onIncrement={incrementItem}
                               onDecrement={decrementItem}
                               onRemove={removeItem}
+                              onMoveToWishlist={moveToWishlist}
                               onNavigate={closeCart}
                             />
                           ))}
                         </ul>
+
+                        <CartSuggestions
+                          cartProductIds={items.map((item) => item.product_id)}
+                          subtotal={subtotal}
+                          onAddToCart={handleAddSuggestion}
+                          onNavigate={closeCart}
+                        />
                       </div>
                     )}
                   </div>
@@ -116,6 +136,8 @@ export function CartDrawer() {
                   <OrderSummary
                     subtotal={subtotal}
                     shipping={shipping}
+                    discount={discount}
+                    promoCode={promoCode}
                     currency={currency}
                     variant="compact"
                     onCheckout={closeCart}
@@ -4,12 +4,15 @@
  * Supports multiple variants: full, compact, summary
  */
 
-import Link from 'next/link'
+'use client'
+
+import { Link } from '@/lib/i18n/navigation'
 import Image from 'next/image'
-import { XMarkIcon as XMarkIconMini } from '@heroicons/react/20/solid'
-import { formatPrice, kebabToTitleCase } from '@/utils/format'
+import { XMarkIcon as XMarkIconMini, HeartIcon as HeartIconMini } from '@heroicons/react/20/solid'
+import { kebabToTitleCase } from '@/utils/format'
 import type { CartLineItem } from '@/lib/types/cart'
 import { getProductUrlFromIdAndTitle } from '@/utils/slugify'
+import { useCurrency } from '@/hooks/useCurrency'
 
 type Variant = 'full' | 'compact' | 'summary'
 
@@ -21,6 +24,7 @@ interface CartLineItemProps {
   onIncrement?: (lineId: string) => void
   onDecrement?: (lineId: string) => void
   onRemove?: (lineId: string) => void
+  onMoveToWishlist?: (lineId: string) => void
   onNavigate?: () => void
 }
 
@@ -32,8 +36,11 @@ export function CartLineItem({
   onIncrement,
   onDecrement,
   onRemove,
+  onMoveToWishlist,
   onNavigate,
 }: CartLineItemProps) {
+  const { formatPrice } = useCurrency()
+
   // Compact variant - cart drawer and cart page with +/- buttons
   if (variant === 'compact') {
     const productUrl = getProductUrlFromIdAndTitle(item.product_id, item.title)
@@ -94,7 +101,19 @@ export function CartLineItem({
               </button>
             </div>
 
-            <div className="flex">
+            <div className="flex gap-2 lg:gap-4">
+              {onMoveToWishlist && (
+                <button
+                  type="button"
+                  onClick={() => onMoveToWishlist(item.line_id)}
+                  disabled={isLoading}
+                  className="flex size-6 items-center justify-center cursor-pointer sm:size-7 lg:size-auto lg:gap-1"
+                  aria-label="Move to wishlist"
+                >
+                  <HeartIconMini aria-hidden="true" className="size-5 text-gray-400 hover:text-gray-500 sm:size-6 lg:size-4" />
+                  <span className="hidden text-sm text-gray-600 hover:text-gray-800 lg:inline">Move to wishlist</span>
+                </button>
+              )}
               <button
                 type="button"
                 onClick={() => onRemove?.(item.line_id)}
@@ -0,0 +1,113 @@
+/**
+ * Cart Suggestions Component
+ * Compact upsell panel for the cart drawer with one-click add
+ * Matches the cart's categories and tags and favours products that close
+ * the gap to free shipping
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { Link } from '@/lib/i18n/navigation'
+import Image from 'next/image'
+import { PlusIcon } from '@heroicons/react/20/solid'
+import { useCartSuggestions } from '@/hooks/useProducts'
+import { useCurrency } from '@/hooks/useCurrency'
+import { cartConfig } from '@/lib/config/cart'
+import { getProductUrl } from '@/utils/slugify'
+import type { Product } from '@/lib/types/products'
+
+interface CartSuggestionsProps {
+  cartProductIds: number[]
+  subtotal: number // In cents, pre-discount
+  limit?: number
+  title?: string
+  onAddToCart: (product: Product) => Promise<void>
+  onNavigate?: () => void
+}
+
+export function CartSuggestions({
+  cartProductIds,
+  subtotal,
+  limit = 3,
+  title = 'You might also like',
+  onAddToCart,
+  onNavigate,
+}: CartSuggestionsProps) {
+  const { products } = useCartSuggestions({ cartProductIds, subtotal, limit })
+  const [addingId, setAddingId] = useState<number | null>(null)
+  const { formatDollars } = useCurrency()
+
+  const { enabled, threshold } = cartConfig.freeShippingPromo
+  const gap = enabled ? threshold - subtotal : 0
+
+  if (products.length === 0) {
+    return null
+  }
+
+  const handleAdd = async (product: Product) => {
+    setAddingId(product.id)
+    try {
+      await onAddToCart(product)
+    } finally {
+      setAddingId(null)
+    }
+  }
+
+  return (
+    <section aria-labelledby="cart-suggestions-heading" className="mt-8 border-t border-gray-200 pt-6 w-full text-left">
+      <h3 id="cart-suggestions-heading" className="text-sm font-medium text-gray-900">
+        {title}
+      </h3>
+
+      <ul role="list" className="mt-4 space-y-4">
+        {products.map((product) => {
+          const closesGap = gap > 0 && Math.round(product.price * 100) >= gap
+
+          return (
+            <li key={product.id} className="flex items-center gap-3" data-testid="cart-suggestion">
+              <Link
+                href={getProductUrl(product)}
+                onClick={onNavigate}
+                className="size-16 shrink-0 overflow-hidden rounded-md border border-gray-200"
+              >
+                <Image
+                  alt={product.title}
+                  src={product.thumbnail}
+                  width={64}
+                  height={64}
+                  className="size-full object-cover"
+                />
+              </Link>
+
+              <div className="min-w-0 flex-1">
+                <Link
+                  href={getProductUrl(product)}
+                  onClick={onNavigate}
+                  className="block truncate text-sm text-gray-700 hover:text-gray-900"
+                >
+                  {product.title}
+                </Link>
+                <p className="text-sm font-medium text-gray-900">{formatDollars(product.price)}</p>
+                {closesGap && (
+                  <p className="text-xs font-medium text-emerald-600">Unlocks FREE shipping</p>
+                )}
+              </div>
+
+              <button
+                type="button"
+                onClick={() => handleAdd(product)}
+                disabled={addingId === product.id}
+                className="inline-flex shrink-0 items-center gap-1 rounded-md border border-gray-300 bg-white px-2.5 py-1.5 text-xs font-semibold text-gray-900 shadow-xs hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50 cursor-pointer"
+              >
+                <PlusIcon aria-hidden="true" className="size-4" />
+                {addingId === product.id ? 'Adding...' : 'Add'}
+                <span className="sr-only"> {product.title} to cart</span>
+              </button>
+            </li>
+          )
+        })}
+      </ul>
+    </section>
+  )
+}
@@ -1,17 +1,23 @@
 /**
  * Empty Cart Component
  * Displays empty state message for cart
+ * The full variant also shows the "Recently viewed" rail; the compact
+ * variant shows cart suggestions when it can add to cart
  */
 
-import Link from 'next/link'
+import { Link } from '@/lib/i18n/navigation'
 import { ApparateButton } from '@/components/ui/apparate-button'
+import { RecentlyViewed } from '@/components/sections/recently-viewed'
+import { CartSuggestions } from './cart-suggestions'
+import type { Product } from '@/lib/types/products'
 
 interface EmptyCartProps {
   variant?: 'full' | 'compact'
   onClose?: () => void
+  onAddToCart?: (product: Product) => Promise<void>
 }
 
-export function EmptyCart({ variant = 'full', onClose }: EmptyCartProps) {
+export function EmptyCart({ variant = 'full', onClose, onAddToCart }: EmptyCartProps) {
   // Compact variant - for cart drawer
   if (variant === 'compact') {
     return (
@@ -42,38 +48,55 @@ export function EmptyCart({ variant = 'full', onClose }: EmptyCartProps) {
           </Link>
           <ApparateButton onNavigate={onClose} label="Apparate Me" />
         </div>
+        {onAddToCart && (
+          <CartSuggestions
+            cartProductIds={[]}
+            subtotal={0}
+            title="Popular picks"
+            onAddToCart={onAddToCart}
+            onNavigate={onClose}
+          />
+        )}
       </div>
     )
   }
 
   // Full variant - for cart page with CTA and Apparate button
   return (
-    <div className="mt-12 text-center">
-      <svg
-        fill="none"
-        stroke="currentColor"
-        viewBox="0 0 24 24"
-        aria-hidden="true"
-        className="mx-auto size-12 text-gray-400"
-      >
-        <path
-          strokeLinecap="round"
-          strokeLinejoin="round"
-          strokeWidth={2}
-          d="M16 11V7a4 4 0 00-8 0v4M5 9h14l1 12H4L5 9z"
-        />
-      </svg>
-      <h3 className="mt-2 text-sm font-semibold text-gray-900">Your cart is empty</h3>
-      <p className="mt-1 text-sm text-gray-500">Start adding items to your cart or try something random!</p>
-      <div className="mt-6 flex items-center justify-center gap-3">
-        <Link
-          href="/products"
-          className="inline-flex items-center justify-center rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-xs hover:bg-indigo-500 focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-indigo-600"
+    <>
+      <div className="mt-12 text-center">
+        <svg
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+          aria-hidden="true"
+          className="mx-auto size-12 text-gray-400"
         >
-          Browse Products
-        </Link>
-        <ApparateButton label="Apparate Me" />
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M16 11V7a4 4 0 00-8 0v4M5 9h14l1 12H4L5 9z"
+          />
+        </svg>
+        <h3 className="mt-2 text-sm font-semibold text-gray-900">Your cart is empty</h3>
+        <p className="mt-1 text-sm text-gray-500">Start adding items to your cart or try something random!</p>
+        <div className="mt-6 flex items-center justify-center gap-3">
+          <Link
+            href="/products"
+            className="inline-flex items-center justify-center rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-xs hover:bg-indigo-500 focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-indigo-600"
+          >
+            Browse Products
+          </Link>
+          <ApparateButton label="Apparate Me" />
+        </div>
       </div>
-    </div>
+
+      <RecentlyViewed
+        showBackground={false}
+        showAddToCart={!!onAddToCart}
+        onAddToCart={onAddToCart}
+      />
+    </>
   )
 }
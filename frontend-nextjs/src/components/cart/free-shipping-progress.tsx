@@ -3,8 +3,11 @@
  * Shows progress bar toward free shipping threshold
  */
 
-import { formatPrice } from '@/utils/format'
+'use client'
+
 import { cartConfig } from '@/lib/config/cart'
+import { useCurrency } from '@/hooks/useCurrency'
+import { useTranslations } from '@/hooks/useTranslations'
 
 interface FreeShippingProgressProps {
   subtotal: number
@@ -12,6 +15,8 @@ interface FreeShippingProgressProps {
 }
 
 export function FreeShippingProgress({ subtotal, currency }: FreeShippingProgressProps) {
+  const { formatPrice } = useCurrency()
+  const { t, rich, formatDate, formatNumber } = useTranslations()
   const progressPercent = Math.min((subtotal / cartConfig.freeShippingPromo.threshold) * 100, 100)
   const hasReachedFreeShipping = subtotal >= cartConfig.freeShippingPromo.threshold
   const amountUntilFreeShipping = cartConfig.freeShippingPromo.threshold - subtotal
@@ -19,7 +24,7 @@ export function FreeShippingProgress({ subtotal, currency }: FreeShippingProgres
   // Calculate 5 days from now
   const expiryDate = new Date()
   expiryDate.setDate(expiryDate.getDate() + 5)
-  const formattedDate = expiryDate.toLocaleDateString('en-US', { month: 'numeric', day: 'numeric' })
+  const formattedDate = formatDate(expiryDate, { month: 'numeric', day: 'numeric' })
 
   if (!cartConfig.freeShippingPromo.enabled) {
     return null
@@ -30,11 +35,13 @@ export function FreeShippingProgress({ subtotal, currency }: FreeShippingProgres
       <div className="mb-2">
         {hasReachedFreeShipping ? (
           <p className="text-sm font-semibold text-emerald-600">
-            🎉 You&apos;ve unlocked FREE shipping!
+            {t('freeShipping.unlocked')}
           </p>
         ) : (
           <p className="text-sm font-medium text-gray-900">
-            Add <span className="font-bold text-emerald-600">{formatPrice(amountUntilFreeShipping, currency)}</span> more to get <span className="font-semibold">FREE shipping!</span>
+            {rich('freeShipping.addMore', {
+              amount: <span className="font-bold text-emerald-600">{formatPrice(amountUntilFreeShipping, currency)}</span>,
+            })}
           </p>
         )}
       </div>
@@ -48,11 +55,11 @@ export function FreeShippingProgress({ subtotal, currency }: FreeShippingProgres
       </div>
       {hasReachedFreeShipping ? (
         <p className="mt-1.5 text-xs text-gray-500">
-          Your order qualifies if placed before {formattedDate}
+          {t('freeShipping.qualifiesBefore', { date: formattedDate })}
         </p>
       ) : (
         <p className="mt-1.5 text-xs text-gray-500">
-          {progressPercent.toFixed(0)}% of the way there
+          {t('freeShipping.progress', { percent: formatNumber(progressPercent / 100, { style: 'percent', maximumFractionDigits: 0 }) })}
         </p>
       )}
     </div>
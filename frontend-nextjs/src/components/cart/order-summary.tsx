@@ -1,44 +1,73 @@
 /**
  * Order Summary Component
  * Reusable pricing summary for cart and drawer
- * Shows subtotal, shipping, tax (optional), and total
+ * Shows subtotal, discount and shipping (when known); taxes are calculated at checkout
  */
 
-import Link from 'next/link'
-import { formatPrice } from '@/utils/format'
+'use client'
+
+import { Link } from '@/lib/i18n/navigation'
+import { PromoCodeForm } from './promo-code-form'
+import { PromotionRows } from './promotion-rows'
+import type { AppliedPromotion } from '@/lib/types/promotions'
+import { useCurrency } from '@/hooks/useCurrency'
+import { useTranslations } from '@/hooks/useTranslations'
 
 interface OrderSummaryProps {
   subtotal: number
-  shipping: number
-  tax?: number
+  shipping: number | null // null until the address is known at checkout
+  discount?: number
+  promoCode?: string | null
+  promotions?: AppliedPromotion[]
   currency: string
   variant?: 'full' | 'compact'
   showCheckoutButton?: boolean
   onCheckout?: () => void
+  // Provide both to show the promo code field (full variant only)
+  onApplyPromoCode?: (code: string) => Promise<boolean>
+  onRemovePromoCode?: () => Promise<void>
 }
 
 export function OrderSummary({
   subtotal,
   shipping,
+  discount = 0,
+  promoCode = null,
+  promotions = [],
   currency,
   variant = 'full',
   showCheckoutButton = true,
   onCheckout,
+  onApplyPromoCode,
+  onRemovePromoCode,
 }: OrderSummaryProps) {
+  const { formatPrice } = useCurrency()
+  const { t } = useTranslations()
+
+  const formatShipping = (amount: number | null) => {
+    if (amount === null) return t('orderSummary.shippingAtCheckout')
+    return amount === 0 ? t('common.free') : formatPrice(amount, currency)
+  }
 
-  // Compact variant - for cart drawer (no tax, simpler layout)
+  // Compact variant - for cart drawer (simpler layout)
   if (variant === 'compact') {
     return (
       <div className="border-t border-gray-200 px-4 py-4 sm:px-6 sm:py-5">
         <div className="flex justify-between text-sm font-medium text-gray-900 sm:text-base">
-          <p>Subtotal</p>
+          <p>{t('orderSummary.subtotal')}</p>
           <p>{formatPrice(subtotal, currency)}</p>
         </div>
+        {discount > 0 && (
+          <div className="flex justify-between text-sm font-medium text-gray-900 mt-2 sm:mt-3 sm:text-base">
+            <p>{promoCode ? t('orderSummary.discountWithCode', { code: promoCode }) : t('orderSummary.discount')}</p>
+            <p>-{formatPrice(discount, currency)}</p>
+          </div>
+        )}
         <div className="flex justify-between text-sm font-medium text-gray-900 mt-2 sm:mt-3 sm:text-base">
-          <p>Shipping</p>
-          <p>{shipping === 0 ? '✨ FREE' : formatPrice(shipping, currency)}</p>
+          <p>{t('orderSummary.shipping')}</p>
+          <p>{formatShipping(shipping)}</p>
         </div>
-        <p className="mt-0.5 text-xs text-gray-500 sm:text-sm">Taxes calculated at checkout.</p>
+        <p className="mt-0.5 text-xs text-gray-500 sm:text-sm">{t('orderSummary.taxesAtCheckout')}</p>
         {showCheckoutButton && (
           <div className="mt-4 sm:mt-5">
             <Link
@@ -46,7 +75,7 @@ export function OrderSummary({
               onClick={onCheckout}
               className="flex items-center justify-center rounded-md border border-transparent bg-indigo-600 px-6 py-3 text-base font-semibold text-white shadow-xs hover:bg-indigo-700"
             >
-              Checkout
+              {t('orderSummary.checkout')}
             </Link>
           </div>
         )}
@@ -54,29 +83,41 @@ export function OrderSummary({
     )
   }
 
-  // Full variant - for cart page (includes tax, detailed layout)
+  // Full variant - for cart page (promotion breakdown, detailed layout)
   return (
     <section
       aria-labelledby="summary-heading"
       className="mt-16 rounded-lg bg-gray-50 px-4 py-6 sm:p-6 lg:col-span-5 lg:mt-0 lg:p-8"
     >
       <h2 id="summary-heading" className="text-lg font-medium text-gray-900">
-        Order summary
+        {t('orderSummary.heading')}
       </h2>
 
       <dl className="mt-6 space-y-4">
         <div className="flex items-center justify-between">
-          <dt className="text-sm text-gray-600">Subtotal</dt>
+          <dt className="text-sm text-gray-600">{t('orderSummary.subtotal')}</dt>
           <dd className="text-sm font-medium text-gray-900">{formatPrice(subtotal, currency)}</dd>
         </div>
+        <PromotionRows
+          promotions={promotions}
+          currency={currency}
+          className="flex items-center justify-between text-sm font-medium text-gray-900"
+          termClassName="font-normal text-gray-600"
+        />
         <div className="flex items-center justify-between">
-          <dt className="text-sm text-gray-600">Shipping</dt>
+          <dt className="text-sm text-gray-600">{t('orderSummary.shipping')}</dt>
           <dd className="text-sm font-medium text-gray-900">
-            {shipping === 0 ? '✨ FREE' : formatPrice(shipping, currency)}
+            {formatShipping(shipping)}
           </dd>
         </div>
       </dl>
 
+      {onApplyPromoCode && onRemovePromoCode && (
+        <div className="mt-6 border-t border-gray-200 pt-6">
+          <PromoCodeForm promoCode={promoCode} onApply={onApplyPromoCode} onRemove={onRemovePromoCode} />
+        </div>
+      )}
+
       {showCheckoutButton && (
         <>
           <div className="mt-6">
@@ -84,10 +125,10 @@ export function OrderSummary({
               href="/checkout"
               className="w-full block text-center rounded-md border border-transparent bg-indigo-600 px-4 py-3 text-base font-semibold text-white shadow-xs hover:bg-indigo-700 focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 focus:ring-offset-gray-50 focus:outline-hidden"
             >
-              Checkout
+              {t('orderSummary.checkout')}
             </Link>
           </div>
-          <p className="mt-3 text-center text-sm text-gray-500">Taxes calculated at checkout.</p>
+          <p className="mt-3 text-center text-sm text-gray-500">{t('orderSummary.taxesAtCheckout')}</p>
         </>
       )}
     </section>
@@ -0,0 +1,88 @@
+/**
+ * Promo Code Form Component
+ * Entry field for applying a promo code, or the applied code with a remove action
+ * Pre-fills with a code revealed through the Revelio modal
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { XMarkIcon } from '@heroicons/react/20/solid'
+import { usePromoStore } from '@/lib/store/promo'
+
+interface PromoCodeFormProps {
+  promoCode: string | null
+  onApply: (code: string) => Promise<boolean>
+  onRemove: () => Promise<void>
+}
+
+export function PromoCodeForm({ promoCode, onApply, onRemove }: PromoCodeFormProps) {
+  const revealedCode = usePromoStore((state) => state.activePromoCode)
+  const [code, setCode] = useState(revealedCode ?? '')
+  const [isApplying, setIsApplying] = useState(false)
+
+  if (promoCode) {
+    return (
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-gray-600">Promo code</span>
+        <span className="inline-flex items-center gap-x-1 rounded-md bg-indigo-50 px-2 py-1 text-xs font-medium text-indigo-700">
+          {promoCode}
+          <button
+            type="button"
+            onClick={onRemove}
+            className="-mr-0.5 rounded-sm hover:bg-indigo-100"
+          >
+            <span className="sr-only">Remove promo code</span>
+            <XMarkIcon aria-hidden="true" className="size-3.5" />
+          </button>
+        </span>
+      </div>
+    )
+  }
+
+  const handleApply = async () => {
+    if (!code.trim()) return
+
+    setIsApplying(true)
+    try {
+      const applied = await onApply(code)
+      if (applied) {
+        setCode('')
+      }
+    } finally {
+      setIsApplying(false)
+    }
+  }
+
+  // Not a <form>: this renders inside the checkout form
+  return (
+    <div>
+      <label htmlFor="promo-code" className="block text-sm font-medium text-gray-700">
+        Promo code
+      </label>
+      <div className="mt-1 flex gap-x-4">
+        <input
+          id="promo-code"
+          type="text"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault()
+              handleApply()
+            }
+          }}
+          className="block w-full rounded-md bg-white px-3 py-2 text-base text-gray-900 outline-1 -outline-offset-1 outline-gray-300 placeholder:text-gray-400 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-600 sm:text-sm/6"
+        />
+        <button
+          type="button"
+          onClick={handleApply}
+          disabled={isApplying || !code.trim()}
+          className="rounded-md bg-gray-200 px-4 text-sm font-medium text-gray-600 hover:bg-gray-300 focus:outline-2 focus:outline-offset-2 focus:outline-indigo-600 disabled:opacity-50"
+        >
+          {isApplying ? 'Applying...' : 'Apply'}
+        </button>
+      </div>
+    </div>
+  )
+}
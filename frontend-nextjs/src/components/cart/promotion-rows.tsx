@@ -0,0 +1,34 @@
+/**
+ * Promotion Rows Component
+ * Discount lines for a pricing <dl>, one per applied promotion with its explanation
+ */
+
+'use client'
+
+import type { AppliedPromotion } from '@/lib/types/promotions'
+import { useCurrency } from '@/hooks/useCurrency'
+
+interface PromotionRowsProps {
+  promotions: AppliedPromotion[]
+  currency: string
+  className?: string
+  termClassName?: string
+}
+
+export function PromotionRows({ promotions, currency, className, termClassName }: PromotionRowsProps) {
+  const { formatPrice } = useCurrency()
+
+  return (
+    <>
+      {promotions.map((promotion) => (
+        <div key={promotion.id} className={className}>
+          <dt className={termClassName}>
+            {promotion.code ? `${promotion.label} (${promotion.code})` : promotion.label}
+            <span className="block text-xs font-normal text-gray-500">{promotion.explanation}</span>
+          </dt>
+          <dd>-{formatPrice(promotion.amount, currency)}</dd>
+        </div>
+      ))}
+    </>
+  )
+}
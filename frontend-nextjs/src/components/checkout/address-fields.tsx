@@ -0,0 +1,102 @@
+/**
+ * Address Fields Component
+ * Shared address inputs used by the shipping and billing sections
+ */
+
+import { ChevronDownIcon } from '@heroicons/react/16/solid'
+import { FieldError } from './field-error'
+import { taxConfig } from '@/lib/config/tax'
+import type { CheckoutAddress, CheckoutFieldErrors } from '@/lib/types/checkout'
+
+interface AddressFieldsProps {
+  // Prefix for input ids/names (e.g. "billing-"); empty for shipping
+  idPrefix?: string
+  // Key prefix for field errors (e.g. "shipping" matches "shipping.city"; "address" for saved addresses)
+  errorPrefix: 'shipping' | 'billing' | 'address'
+  errors?: CheckoutFieldErrors
+  value: CheckoutAddress
+  onChange: (address: CheckoutAddress) => void
+}
+
+const inputClassName =
+  'block w-full rounded-md bg-white px-3 py-2 text-base text-gray-900 outline-1 -outline-offset-1 outline-gray-300 placeholder:text-gray-400 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-600 aria-[invalid=true]:outline-red-500 sm:text-sm/6'
+
+const selectClassName =
+  'col-start-1 row-start-1 w-full appearance-none rounded-md bg-white py-2 pr-8 pl-3 text-base text-gray-900 outline-1 -outline-offset-1 outline-gray-300 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-600 aria-[invalid=true]:outline-red-500 sm:text-sm/6'
+
+export function AddressFields({ idPrefix = '', errorPrefix, errors = {}, value, onChange }: AddressFieldsProps) {
+  const fields: {
+    name: string
+    label: string
+    key: keyof CheckoutAddress
+    autoComplete: string | undefined
+    required: boolean
+    span: string
+  }[] = [
+    { name: 'company', label: 'Company', key: 'company', autoComplete: undefined, required: false, span: 'sm:col-span-3' },
+    { name: 'address', label: 'Address', key: 'address', autoComplete: 'street-address', required: true, span: 'sm:col-span-3' },
+    { name: 'apartment', label: 'Apartment, suite, etc.', key: 'apartment', autoComplete: undefined, required: false, span: 'sm:col-span-3' },
+    { name: 'country', label: 'Country', key: 'country', autoComplete: 'country', required: true, span: 'sm:col-span-3' },
+    { name: 'city', label: 'City', key: 'city', autoComplete: 'address-level2', required: true, span: '' },
+    { name: 'region', label: 'State / Province', key: 'region', autoComplete: 'address-level1', required: true, span: '' },
+    { name: 'postal-code', label: 'Postal code', key: 'postalCode', autoComplete: 'postal-code', required: true, span: '' },
+  ]
+
+  return (
+    <div className="mt-6 grid grid-cols-1 gap-x-4 gap-y-6 sm:grid-cols-3">
+      {fields.map((field) => {
+        const id = `${idPrefix}${field.name}`
+        const error = errors[`${errorPrefix}.${field.key}`]
+
+        return (
+          <div key={field.name} className={field.span || undefined}>
+            <label htmlFor={id} className="block text-sm/6 font-medium text-gray-700">
+              {field.label}
+            </label>
+            {field.key === 'country' ? (
+              <div className="mt-2 grid grid-cols-1">
+                <select
+                  id={id}
+                  name={id}
+                  autoComplete={field.autoComplete}
+                  required={field.required}
+                  value={value.country}
+                  onChange={(e) => onChange({ ...value, country: e.target.value })}
+                  aria-invalid={error ? true : undefined}
+                  aria-describedby={error ? `${id}-error` : undefined}
+                  className={selectClassName}
+                >
+                  {taxConfig.countries.map((country) => (
+                    <option key={country.code} value={country.code}>
+                      {country.name}
+                    </option>
+                  ))}
+                </select>
+                <ChevronDownIcon
+                  aria-hidden="true"
+                  className="pointer-events-none col-start-1 row-start-1 mr-2 size-5 self-center justify-self-end text-gray-500 sm:size-4"
+                />
+              </div>
+            ) : (
+              <div className="mt-2">
+                <input
+                  id={id}
+                  name={id}
+                  type="text"
+                  autoComplete={field.autoComplete}
+                  required={field.required}
+                  value={value[field.key] ?? ''}
+                  onChange={(e) => onChange({ ...value, [field.key]: e.target.value })}
+                  aria-invalid={error ? true : undefined}
+                  aria-describedby={error ? `${id}-error` : undefined}
+                  className={inputClassName}
+                />
+              </div>
+            )}
+            <FieldError id={`${id}-error`} message={error} />
+          </div>
+        )
+      })}
+    </div>
+  )
+}
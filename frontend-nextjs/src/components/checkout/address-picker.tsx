@@ -0,0 +1,184 @@
+/**
+ * Address Picker Component
+ * Chooses the shipping or billing address at checkout: a saved address
+ * (editable inline) or a new one, with an option to keep it
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { CheckCircleIcon } from '@heroicons/react/20/solid'
+import { toast } from 'react-hot-toast'
+import { AddressFields } from './address-fields'
+import { AddressSummary } from './address-summary'
+import { AccountRequestError } from '@/hooks/useAccount'
+import { useTranslations } from '@/hooks/useTranslations'
+import type { UseCheckoutAddressesReturn } from '@/hooks/useCheckoutAddresses'
+import type { AddressKind } from '@/lib/types/account'
+import type { CheckoutFieldErrors } from '@/lib/types/checkout'
+
+interface AddressPickerProps {
+  kind: AddressKind
+  addresses: UseCheckoutAddressesReturn
+  // Prefix for input ids/names (e.g. "billing-"); empty for shipping
+  idPrefix?: string
+  errors?: CheckoutFieldErrors
+}
+
+const linkButtonClassName = 'text-sm font-medium text-indigo-600 hover:text-indigo-500 cursor-pointer disabled:opacity-50'
+
+/**
+ * Show address book errors ("address.city") on the checkout fields ("shipping.city")
+ */
+function toCheckoutErrors(fields: Record<string, string>, kind: AddressKind): CheckoutFieldErrors {
+  return Object.fromEntries(
+    Object.entries(fields).map(([key, message]) => [key.replace(/^address\./, `${kind}.`), message])
+  )
+}
+
+export function AddressPicker({ kind, addresses, idPrefix = '', errors = {} }: AddressPickerProps) {
+  const { t } = useTranslations()
+  const [isSaving, setIsSaving] = useState(false)
+  const [editErrors, setEditErrors] = useState<CheckoutFieldErrors>({})
+  const [revealedId, setRevealedId] = useState<string | null>(null)
+
+  const entry = addresses[kind]
+  const saved = addresses.savedAddresses[kind]
+  const selected = saved.find((address) => address.id === entry.savedId) ?? null
+
+  // A saved address that fails validation opens up (and stays open) so it can be fixed
+  const hasErrors = Object.keys(errors).some((key) => key.startsWith(`${kind}.`))
+  if (selected && hasErrors && revealedId !== selected.id) {
+    setRevealedId(selected.id)
+  }
+  const showFields = selected === null || entry.isEditing || revealedId === selected.id
+
+  const handleSaveEdits = async () => {
+    setIsSaving(true)
+    setEditErrors({})
+
+    try {
+      await addresses.saveEdits(kind)
+    } catch (error) {
+      if (error instanceof AccountRequestError && Object.keys(error.fields).length > 0) {
+        setEditErrors(toCheckoutErrors(error.fields, kind))
+      } else {
+        toast.error(error instanceof Error ? error.message : 'Failed to save address')
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleSetDefault = async () => {
+    try {
+      await addresses.setAsDefault(kind)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update address')
+    }
+  }
+
+  return (
+    <>
+      {saved.length > 0 && (
+        <fieldset className="mt-6">
+          <legend className="sr-only">{t('checkout.addresses.savedLegend')}</legend>
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            {saved.map((address) => (
+              <label
+                key={address.id}
+                className="group relative flex cursor-pointer rounded-lg border border-gray-300 bg-white p-4 has-checked:outline-2 has-checked:-outline-offset-2 has-checked:outline-indigo-600 has-focus-visible:outline-3 has-focus-visible:-outline-offset-1"
+              >
+                <input
+                  type="radio"
+                  name={`${idPrefix}saved-address`}
+                  value={address.id}
+                  checked={address.id === entry.savedId}
+                  onChange={() => addresses.selectAddress(kind, address.id)}
+                  className="absolute inset-0 appearance-none focus:outline-none"
+                />
+                <div className="flex-1 text-sm text-gray-600">
+                  {address.isDefault && (
+                    <span className="mb-2 inline-block rounded-full bg-gray-100 px-2 py-0.5 text-xs font-medium text-gray-700">
+                      {t('checkout.addresses.default')}
+                    </span>
+                  )}
+                  <AddressSummary address={address} />
+                </div>
+                <CheckCircleIcon aria-hidden="true" className="invisible size-5 text-indigo-600 group-has-checked:visible" />
+              </label>
+            ))}
+            <label className="group relative flex cursor-pointer items-center rounded-lg border border-gray-300 bg-white p-4 has-checked:outline-2 has-checked:-outline-offset-2 has-checked:outline-indigo-600 has-focus-visible:outline-3 has-focus-visible:-outline-offset-1">
+              <input
+                type="radio"
+                name={`${idPrefix}saved-address`}
+                value=""
+                checked={entry.savedId === null}
+                onChange={() => addresses.selectAddress(kind, null)}
+                className="absolute inset-0 appearance-none focus:outline-none"
+              />
+              <span className="flex-1 text-sm font-medium text-gray-900">{t('checkout.addresses.useNew')}</span>
+              <CheckCircleIcon aria-hidden="true" className="invisible size-5 text-indigo-600 group-has-checked:visible" />
+            </label>
+          </div>
+
+          {selected && !entry.isEditing && (
+            <div className="mt-4 flex gap-x-6">
+              <button type="button" onClick={() => addresses.startEditing(kind)} className={linkButtonClassName}>
+                {t('checkout.addresses.edit')}
+              </button>
+              {!selected.isDefault && (
+                <button type="button" onClick={handleSetDefault} className={linkButtonClassName}>
+                  {t('checkout.addresses.makeDefault')}
+                </button>
+              )}
+            </div>
+          )}
+        </fieldset>
+      )}
+
+      {showFields && (
+        <AddressFields
+          idPrefix={idPrefix}
+          errorPrefix={kind}
+          errors={entry.isEditing ? { ...errors, ...editErrors } : errors}
+          value={entry.address}
+          onChange={(address) => addresses.changeAddress(kind, address)}
+        />
+      )}
+
+      {entry.isEditing && (
+        <div className="mt-6 flex gap-x-6">
+          <button type="button" onClick={handleSaveEdits} disabled={isSaving} className={linkButtonClassName}>
+            {isSaving ? t('common.processing') : t('checkout.addresses.saveChanges')}
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              addresses.cancelEditing(kind)
+              setEditErrors({})
+            }}
+            className="text-sm font-medium text-gray-700 hover:text-gray-500 cursor-pointer"
+          >
+            {t('checkout.addresses.cancel')}
+          </button>
+        </div>
+      )}
+
+      {selected === null && addresses.canSave && (
+        <div className="mt-6 flex items-center gap-3">
+          <input
+            id={`${idPrefix}save-address`}
+            type="checkbox"
+            checked={entry.saveToBook}
+            onChange={(e) => addresses.setSaveToBook(kind, e.target.checked)}
+            className="size-4 rounded-sm border-gray-300 text-indigo-600 focus:ring-indigo-600"
+          />
+          <label htmlFor={`${idPrefix}save-address`} className="text-sm text-gray-700">
+            {t('checkout.addresses.saveToBook')}
+          </label>
+        </div>
+      )}
+    </>
+  )
+}
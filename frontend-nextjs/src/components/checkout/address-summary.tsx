@@ -0,0 +1,25 @@
+/**
+ * Address Summary Component
+ * Postal address block for saved-address cards
+ */
+
+import type { CheckoutAddress } from '@/lib/types/checkout'
+
+interface AddressSummaryProps {
+  address: CheckoutAddress
+  className?: string
+}
+
+export function AddressSummary({ address, className = '' }: AddressSummaryProps) {
+  return (
+    <address className={`not-italic ${className}`}>
+      {address.company && <span className="block">{address.company}</span>}
+      <span className="block">{address.address}</span>
+      {address.apartment && <span className="block">{address.apartment}</span>}
+      <span className="block">
+        {address.city}, {address.region} {address.postalCode}
+      </span>
+      <span className="block">{address.country}</span>
+    </address>
+  )
+}
@@ -1,9 +1,21 @@
 /**
  * Billing Section Component
- * Billing information checkbox for checkout
+ * Billing information for checkout; picks a separate address when it
+ * differs from shipping
  */
 
-export function BillingSection() {
+import { AddressPicker } from './address-picker'
+import type { UseCheckoutAddressesReturn } from '@/hooks/useCheckoutAddresses'
+import type { CheckoutFieldErrors } from '@/lib/types/checkout'
+
+interface BillingSectionProps {
+  addresses: UseCheckoutAddressesReturn
+  errors?: CheckoutFieldErrors
+}
+
+export function BillingSection({ addresses, errors }: BillingSectionProps) {
+  const sameAsShipping = addresses.billingSameAsShipping
+
   return (
     <section aria-labelledby="billing-heading" className="mt-10">
       <h2 id="billing-heading" className="text-lg font-medium text-gray-900">
@@ -14,7 +26,8 @@ export function BillingSection() {
         <div className="flex h-5 shrink-0 items-center">
           <div className="group grid size-4 grid-cols-1">
             <input
-              defaultChecked
+              checked={sameAsShipping}
+              onChange={(e) => addresses.setBillingSameAsShipping(e.target.checked)}
               id="same-as-shipping"
               name="same-as-shipping"
               type="checkbox"
@@ -46,6 +59,8 @@ export function BillingSection() {
           Same as shipping information
         </label>
       </div>
+
+      {!sameAsShipping && <AddressPicker kind="billing" addresses={addresses} idPrefix="billing-" errors={errors} />}
     </section>
   )
 }
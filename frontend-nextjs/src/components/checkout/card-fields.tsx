@@ -0,0 +1,93 @@
+/**
+ * Card Fields Component
+ * Card number, expiry and CVC inputs for checkout
+ *
+ * These values never leave the browser: the checkout form exchanges them
+ * for a payment provider token (lib/payments/tokenizer) before posting.
+ */
+
+import { FieldError } from './field-error'
+import type { CheckoutFieldErrors } from '@/lib/types/checkout'
+import type { CardDetails } from '@/lib/types/payments'
+
+interface CardFieldsProps {
+  value: CardDetails
+  onChange: (field: keyof CardDetails, value: string) => void
+  errors?: CheckoutFieldErrors
+}
+
+export function CardFields({ value, onChange, errors }: CardFieldsProps) {
+  // Declines are reported against the token; show them on the card number
+  const cardNumberError = errors?.['payment.cardNumber'] ?? errors?.['payment.token']
+
+  return (
+    <>
+      <div className="col-span-3 sm:col-span-4">
+        <label htmlFor="card-number" className="block text-sm/6 font-medium text-gray-700">
+          Card number
+        </label>
+        <div className="mt-2">
+          <input
+            id="card-number"
+            name="card-number"
+            type="text"
+            inputMode="numeric"
+            value={value.cardNumber}
+            onChange={(e) => onChange('cardNumber', e.target.value)}
+            autoComplete="cc-number"
+            required
+            aria-invalid={cardNumberError ? true : undefined}
+            aria-describedby={cardNumberError ? 'card-number-error' : undefined}
+            className="block w-full rounded-md bg-white px-3 py-2 text-base text-gray-900 outline-1 -outline-offset-1 outline-gray-300 placeholder:text-gray-400 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-600 aria-[invalid=true]:outline-red-500 sm:text-sm/6"
+          />
+        </div>
+        <FieldError id="card-number-error" message={cardNumberError} />
+      </div>
+
+      <div className="col-span-2 sm:col-span-3">
+        <label htmlFor="expiration-date" className="block text-sm/6 font-medium text-gray-700">
+          Expiration date (MM/YY)
+        </label>
+        <div className="mt-2">
+          <input
+            id="expiration-date"
+            name="expiration-date"
+            type="text"
+            inputMode="numeric"
+            value={value.expirationDate}
+            onChange={(e) => onChange('expirationDate', e.target.value)}
+            autoComplete="cc-exp"
+            placeholder="MM/YY"
+            required
+            aria-invalid={errors?.['payment.expirationDate'] ? true : undefined}
+            aria-describedby={errors?.['payment.expirationDate'] ? 'expiration-date-error' : undefined}
+            className="block w-full rounded-md bg-white px-3 py-2 text-base text-gray-900 outline-1 -outline-offset-1 outline-gray-300 placeholder:text-gray-400 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-600 aria-[invalid=true]:outline-red-500 sm:text-sm/6"
+          />
+        </div>
+        <FieldError id="expiration-date-error" message={errors?.['payment.expirationDate']} />
+      </div>
+
+      <div>
+        <label htmlFor="cvc" className="block text-sm/6 font-medium text-gray-700">
+          CVC
+        </label>
+        <div className="mt-2">
+          <input
+            id="cvc"
+            name="cvc"
+            type="text"
+            inputMode="numeric"
+            value={value.cvc}
+            onChange={(e) => onChange('cvc', e.target.value)}
+            autoComplete="csc"
+            required
+            aria-invalid={errors?.['payment.cvc'] ? true : undefined}
+            aria-describedby={errors?.['payment.cvc'] ? 'cvc-error' : undefined}
+            className="block w-full rounded-md bg-white px-3 py-2 text-base text-gray-900 outline-1 -outline-offset-1 outline-gray-300 placeholder:text-gray-400 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-600 aria-[invalid=true]:outline-red-500 sm:text-sm/6"
+          />
+        </div>
+        <FieldError id="cvc-error" message={errors?.['payment.cvc']} />
+      </div>
+    </>
+  )
+}
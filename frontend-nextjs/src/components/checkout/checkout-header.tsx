@@ -0,0 +1,36 @@
+/**
+ * Checkout Header Component
+ * Brand link and progress steps shown above every checkout step
+ */
+
+import { Link } from '@/lib/i18n/navigation'
+import { CheckoutProgressSteps } from './checkout-progress-steps'
+import type { CheckoutStep } from './checkout-progress-steps'
+import { brand } from '@/lib/cms'
+
+interface CheckoutHeaderProps {
+  steps: CheckoutStep[]
+}
+
+export function CheckoutHeader({ steps }: CheckoutHeaderProps) {
+  const currentStep = steps.findIndex((step) => step.status === 'current') + 1
+
+  return (
+    <header className="relative border-b border-gray-200 bg-white text-sm font-medium text-gray-700">
+      <div className="mx-auto max-w-7xl px-4 py-8 sm:px-6 lg:px-8">
+        <div className="relative flex justify-end sm:justify-center">
+          <Link href="/" className="absolute top-1/2 left-0 -mt-4">
+            <span className="sr-only">{brand.name}</span>
+            <span className="font-brand font-semibold text-3xl text-gray-900">
+              {brand.name}
+            </span>
+          </Link>
+          <CheckoutProgressSteps steps={steps} />
+          <p className="sm:hidden">
+            Step {currentStep} of {steps.length}
+          </p>
+        </div>
+      </div>
+    </header>
+  )
+}
@@ -4,29 +4,126 @@
  * Includes mobile popover for pricing breakdown
  */
 
+'use client'
+
 import Image from 'next/image'
 import { ChevronUpIcon } from '@heroicons/react/20/solid'
 import { Popover, PopoverBackdrop, PopoverButton, PopoverPanel } from '@headlessui/react'
-import { formatPrice, kebabToTitleCase } from '@/utils/format'
+import { PromoCodeForm } from '@/components/cart/promo-code-form'
+import { PromotionRows } from '@/components/cart/promotion-rows'
+import { formatPrice as formatInCurrency, kebabToTitleCase } from '@/utils/format'
 import type { CartLineItem } from '@/lib/types/cart'
+import type { AppliedPromotion } from '@/lib/types/promotions'
+import type { ShippingRate } from '@/lib/types/shipping'
+import type { TaxLine } from '@/lib/types/tax'
+import { useCurrency } from '@/hooks/useCurrency'
+import { useTranslations } from '@/hooks/useTranslations'
 
 interface CheckoutOrderSummaryProps {
   items: CartLineItem[]
   subtotal: number
-  shipping: number
-  tax: number
+  shipping: number | null // null until a shipping method can be priced
+  shippingMethod?: ShippingRate | null
+  tax: number | null // null until a shipping address is entered
+  taxLines?: TaxLine[]
+  promoCode?: string | null
+  promotions?: AppliedPromotion[]
   total: number
   currency: string
+  // Provide both to show the promo code field
+  onApplyPromoCode?: (code: string) => Promise<boolean>
+  onRemovePromoCode?: () => Promise<void>
+}
+
+interface ShippingRowProps {
+  shipping: number | null
+  shippingMethod: ShippingRate | null
+  currency: string
+}
+
+function ShippingRow({ shipping, shippingMethod, currency }: ShippingRowProps) {
+  const { formatPrice } = useCurrency()
+  const { t } = useTranslations()
+
+  return (
+    <div className="flex items-center justify-between">
+      <dt className="text-gray-600">
+        {shippingMethod
+          ? t('orderSummary.shippingWithMethod', { method: shippingMethod.label })
+          : t('orderSummary.shipping')}
+      </dt>
+      <dd className={shipping === null ? 'text-right font-normal text-gray-500' : undefined}>
+        {shipping === null
+          ? t('orderSummary.pendingAddress')
+          : shipping === 0 ? t('common.free') : formatPrice(shipping, currency)}
+      </dd>
+    </div>
+  )
+}
+
+interface TaxRowsProps {
+  tax: number | null
+  taxLines: TaxLine[]
+  currency: string
+}
+
+/**
+ * One row per tax (e.g. GST and QST), or a single row if not itemised
+ */
+function TaxRows({ tax, taxLines, currency }: TaxRowsProps) {
+  const { formatPrice } = useCurrency()
+  const { t, formatNumber } = useTranslations()
+
+  if (tax === null || taxLines.length === 0) {
+    return (
+      <div className="flex items-center justify-between">
+        <dt className="text-gray-600">{t('orderSummary.taxes')}</dt>
+        <dd className={tax === null ? 'text-right font-normal text-gray-500' : undefined}>
+          {tax === null ? t('orderSummary.pendingAddress') : formatPrice(tax, currency)}
+        </dd>
+      </div>
+    )
+  }
+
+  return (
+    <>
+      {taxLines.map((line) => (
+        <div key={line.id} className="flex items-center justify-between">
+          <dt className="text-gray-600">
+            {t('orderSummary.taxLine', {
+              label: line.label,
+              rate: formatNumber(line.rate, { style: 'percent', maximumFractionDigits: 3 }),
+            })}
+          </dt>
+          <dd>{formatPrice(line.amount, currency)}</dd>
+        </div>
+      ))}
+    </>
+  )
 }
 
 export function CheckoutOrderSummary({
   items,
   subtotal,
   shipping,
+  shippingMethod = null,
   tax,
+  taxLines = [],
+  promoCode = null,
+  promotions = [],
   total,
   currency,
+  onApplyPromoCode,
+  onRemovePromoCode,
 }: CheckoutOrderSummaryProps) {
+  const { formatPrice, currency: displayCurrency } = useCurrency()
+  const { t } = useTranslations()
+
+  // Orders are charged in the cart's currency; other currencies are estimates
+  const chargedNote = displayCurrency !== currency
+    ? t('orderSummary.chargedNote', { amount: formatInCurrency(total, currency), currency, displayCurrency })
+    : null
+
   return (
     <section
       aria-labelledby="summary-heading"
@@ -34,7 +131,7 @@ export function CheckoutOrderSummary({
     >
       <div className="mx-auto max-w-lg lg:max-w-none">
         <h2 id="summary-heading" className="text-lg font-medium text-gray-900">
-          Order summary
+          {t('orderSummary.heading')}
         </h2>
 
         <ul role="list" className="divide-y divide-gray-200 text-sm font-medium text-gray-900">
@@ -55,33 +152,42 @@ export function CheckoutOrderSummary({
                 <h3>{item.title}</h3>
                 {item.brand && <p className="text-gray-500">{item.brand}</p>}
                 {item.category && <p className="text-gray-500">{kebabToTitleCase(item.category)}</p>}
-                <p className="text-gray-500">Qty: {item.quantity}</p>
+                <p className="text-gray-500">{t('orderSummary.quantity', { count: item.quantity })}</p>
               </div>
               <p className="flex-none text-base font-medium">{formatPrice(item.line_total, currency)}</p>
             </li>
           ))}
         </ul>
 
+        {onApplyPromoCode && onRemovePromoCode && (
+          <div className="border-t border-gray-200 py-6">
+            <PromoCodeForm promoCode={promoCode} onApply={onApplyPromoCode} onRemove={onRemovePromoCode} />
+          </div>
+        )}
+
         <dl className="hidden space-y-6 border-t border-gray-200 pt-6 text-sm font-medium text-gray-900 lg:block">
           <div className="flex items-center justify-between">
-            <dt className="text-gray-600">Subtotal</dt>
+            <dt className="text-gray-600">{t('orderSummary.subtotal')}</dt>
             <dd>{formatPrice(subtotal, currency)}</dd>
           </div>
 
-          <div className="flex items-center justify-between">
-            <dt className="text-gray-600">Shipping</dt>
-            <dd>{shipping === 0 ? '✨ FREE' : formatPrice(shipping, currency)}</dd>
-          </div>
+          <PromotionRows
+            promotions={promotions}
+            currency={currency}
+            className="flex items-center justify-between"
+            termClassName="text-gray-600"
+          />
 
-          <div className="flex items-center justify-between">
-            <dt className="text-gray-600">Taxes</dt>
-            <dd>{formatPrice(tax, currency)}</dd>
-          </div>
+          <ShippingRow shipping={shipping} shippingMethod={shippingMethod} currency={currency} />
+
+          <TaxRows tax={tax} taxLines={taxLines} currency={currency} />
 
           <div className="flex items-center justify-between border-t border-gray-200 pt-6">
-            <dt className="text-base">Total</dt>
+            <dt className="text-base">{t('orderSummary.total')}</dt>
             <dd className="text-base">{formatPrice(total, currency)}</dd>
           </div>
+
+          {chargedNote && <p className="text-xs font-normal text-gray-500">{chargedNote}</p>}
         </dl>
 
         {/* Mobile order summary popover */}
@@ -89,7 +195,7 @@ export function CheckoutOrderSummary({
           <div className="relative z-10 border-t border-gray-200 bg-white px-4 sm:px-6">
             <div className="mx-auto max-w-lg">
               <PopoverButton className="flex w-full items-center py-6 font-medium">
-                <span className="mr-auto text-base">Total</span>
+                <span className="mr-auto text-base">{t('orderSummary.total')}</span>
                 <span className="mr-2 text-base">{formatPrice(total, currency)}</span>
                 <ChevronUpIcon aria-hidden="true" className="size-5 text-gray-500" />
               </PopoverButton>
@@ -106,19 +212,22 @@ export function CheckoutOrderSummary({
           >
             <dl className="mx-auto max-w-lg space-y-6">
               <div className="flex items-center justify-between">
-                <dt className="text-gray-600">Subtotal</dt>
+                <dt className="text-gray-600">{t('orderSummary.subtotal')}</dt>
                 <dd>{formatPrice(subtotal, currency)}</dd>
               </div>
 
-              <div className="flex items-center justify-between">
-                <dt className="text-gray-600">Shipping</dt>
-                <dd>{shipping === 0 ? '✨ FREE' : formatPrice(shipping, currency)}</dd>
-              </div>
+              <PromotionRows
+                promotions={promotions}
+                currency={currency}
+                className="flex items-center justify-between"
+                termClassName="text-gray-600"
+              />
 
-              <div className="flex items-center justify-between">
-                <dt className="text-gray-600">Taxes</dt>
-                <dd>{formatPrice(tax, currency)}</dd>
-              </div>
+              <ShippingRow shipping={shipping} shippingMethod={shippingMethod} currency={currency} />
+
+              <TaxRows tax={tax} taxLines={taxLines} currency={currency} />
+
+              {chargedNote && <p className="text-xs font-normal text-gray-500">{chargedNote}</p>}
             </dl>
           </PopoverPanel>
         </Popover>
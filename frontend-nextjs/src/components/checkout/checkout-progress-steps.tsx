@@ -3,13 +3,15 @@
  * Displays step indicator for checkout flow
  */
 
-import Link from 'next/link'
+import { Link } from '@/lib/i18n/navigation'
 import { ChevronRightIcon } from '@heroicons/react/20/solid'
 
 export interface CheckoutStep {
   name: string
-  href: string
   status: 'complete' | 'current' | 'upcoming'
+  // Where a complete step leads: another page, or a step of the checkout page
+  href?: string
+  onSelect?: () => void
 }
 
 interface CheckoutProgressStepsProps {
@@ -23,13 +25,19 @@ export function CheckoutProgressSteps({ steps }: CheckoutProgressStepsProps) {
         {steps.map((step, stepIdx) => (
           <li key={step.name} className="flex items-center">
             {step.status === 'current' ? (
-              <a href={step.href} aria-current="page" className="text-indigo-600">
+              <span aria-current="step" className="text-indigo-600">
                 {step.name}
-              </a>
-            ) : step.status === 'complete' ? (
+              </span>
+            ) : step.status === 'complete' && step.onSelect ? (
+              <button type="button" onClick={step.onSelect} className="hover:text-gray-900 cursor-pointer">
+                {step.name}
+              </button>
+            ) : step.status === 'complete' && step.href ? (
               <Link href={step.href} className="hover:text-gray-900">
                 {step.name}
               </Link>
+            ) : step.status === 'complete' ? (
+              <span>{step.name}</span>
             ) : (
               <span className="text-gray-500">{step.name}</span>
             )}
@@ -0,0 +1,102 @@
+/**
+ * Checkout Review Component
+ * Everything the order will be placed with, each part linking back to the
+ * step that collected it
+ */
+
+'use client'
+
+import { AddressSummary } from './address-summary'
+import { useCurrency } from '@/hooks/useCurrency'
+import { useTranslations } from '@/hooks/useTranslations'
+import { formatCardBrand } from '@/utils/format'
+import type { CheckoutStepId } from '@/lib/services/checkout-flow'
+import type { CheckoutAddress } from '@/lib/types/checkout'
+import type { CardToken } from '@/lib/types/payments'
+import type { ShippingRate } from '@/lib/types/shipping'
+
+interface CheckoutReviewProps {
+  email: string
+  shippingAddress: CheckoutAddress
+  shippingMethod: ShippingRate | null
+  billingAddress: CheckoutAddress
+  billingSameAsShipping: boolean
+  nameOnCard: string
+  cardToken: CardToken | null
+  currency: string
+  onEdit: (step: CheckoutStepId) => void
+}
+
+export function CheckoutReview({
+  email,
+  shippingAddress,
+  shippingMethod,
+  billingAddress,
+  billingSameAsShipping,
+  nameOnCard,
+  cardToken,
+  currency,
+  onEdit,
+}: CheckoutReviewProps) {
+  const { formatPrice } = useCurrency()
+  const { t } = useTranslations()
+
+  const rows: { label: string; step: CheckoutStepId; content: React.ReactNode }[] = [
+    { label: t('checkout.review.contact'), step: 'information', content: <p>{email}</p> },
+    { label: t('checkout.review.shipTo'), step: 'information', content: <AddressSummary address={shippingAddress} /> },
+    {
+      label: t('checkout.review.method'),
+      step: 'shippingMethod',
+      content: shippingMethod && (
+        <p>
+          {shippingMethod.label} ·{' '}
+          {shippingMethod.amount === 0 ? t('common.free') : formatPrice(shippingMethod.amount, currency)}
+        </p>
+      ),
+    },
+    {
+      label: t('checkout.review.payment'),
+      step: 'payment',
+      content: (
+        <>
+          <p>{nameOnCard}</p>
+          {cardToken && (
+            <p>{t('checkout.card.ending', { brand: formatCardBrand(cardToken.brand), last4: cardToken.last4 })}</p>
+          )}
+        </>
+      ),
+    },
+    {
+      label: t('checkout.review.billTo'),
+      step: 'payment',
+      content: billingSameAsShipping ? <p>{t('checkout.review.sameAsShipping')}</p> : <AddressSummary address={billingAddress} />,
+    },
+  ]
+
+  return (
+    <section aria-labelledby="review-heading">
+      <h2 id="review-heading" className="text-lg font-medium text-gray-900">
+        {t('checkout.review.heading')}
+      </h2>
+
+      <dl className="mt-6 divide-y divide-gray-200 rounded-md border border-gray-200 text-sm">
+        {rows.map((row) => (
+          <div key={row.label} className="flex gap-x-4 px-4 py-4">
+            <dt className="w-32 shrink-0 font-medium text-gray-900">{row.label}</dt>
+            <dd className="flex-1 text-gray-600">{row.content}</dd>
+            <dd>
+              <button
+                type="button"
+                onClick={() => onEdit(row.step)}
+                className="font-medium text-indigo-600 hover:text-indigo-500 cursor-pointer"
+              >
+                {t('checkout.review.change')}
+                <span className="sr-only"> {row.label}</span>
+              </button>
+            </dd>
+          </div>
+        ))}
+      </dl>
+    </section>
+  )
+}
@@ -3,7 +3,16 @@
  * Email collection for checkout
  */
 
-export function ContactSection() {
+import { FieldError } from './field-error'
+import type { CheckoutFieldErrors } from '@/lib/types/checkout'
+
+interface ContactSectionProps {
+  email: string
+  onEmailChange: (email: string) => void
+  errors?: CheckoutFieldErrors
+}
+
+export function ContactSection({ email, onEmailChange, errors }: ContactSectionProps) {
   return (
     <section aria-labelledby="contact-info-heading">
       <h2 id="contact-info-heading" className="text-lg font-medium text-gray-900">
@@ -21,9 +30,14 @@ export function ContactSection() {
             type="email"
             autoComplete="email"
             required
-            className="block w-full rounded-md bg-white px-3 py-2 text-base text-gray-900 outline-1 -outline-offset-1 outline-gray-300 placeholder:text-gray-400 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-600 sm:text-sm/6"
+            value={email}
+            onChange={(e) => onEmailChange(e.target.value)}
+            aria-invalid={errors?.email ? true : undefined}
+            aria-describedby={errors?.email ? 'email-address-error' : undefined}
+            className="block w-full rounded-md bg-white px-3 py-2 text-base text-gray-900 outline-1 -outline-offset-1 outline-gray-300 placeholder:text-gray-400 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-600 aria-[invalid=true]:outline-red-500 sm:text-sm/6"
           />
         </div>
+        <FieldError id="email-address-error" message={errors?.email} />
       </div>
     </section>
   )
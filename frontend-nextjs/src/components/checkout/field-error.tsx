@@ -0,0 +1,21 @@
+/**
+ * Field Error Component
+ * Inline validation message shown beneath a checkout input
+ */
+
+interface FieldErrorProps {
+  id: string
+  message?: string
+}
+
+export function FieldError({ id, message }: FieldErrorProps) {
+  if (!message) {
+    return null
+  }
+
+  return (
+    <p id={id} className="mt-2 text-sm text-red-600">
+      {message}
+    </p>
+  )
+}
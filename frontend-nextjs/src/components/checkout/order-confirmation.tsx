@@ -0,0 +1,78 @@
+/**
+ * Order Confirmation Component
+ * Thank-you panel shown once an order has been placed
+ */
+
+import { Link } from '@/lib/i18n/navigation'
+import { formatCardBrand } from '@/utils/format'
+import type { Order } from '@/lib/types/orders'
+
+interface OrderConfirmationProps {
+  order: Order
+}
+
+export function OrderConfirmation({ order }: OrderConfirmationProps) {
+  const address = order.shippingAddress
+
+  return (
+    <section aria-labelledby="confirmation-heading">
+      <p className="text-sm font-medium text-indigo-600">Payment successful</p>
+      <h2 id="confirmation-heading" className="mt-2 text-3xl font-bold tracking-tight text-gray-900">
+        Thanks for ordering
+      </h2>
+      <p className="mt-2 text-base text-gray-500">
+        We&apos;ve received your order and sent a confirmation to {order.email}.
+      </p>
+
+      <dl className="mt-10 text-sm font-medium">
+        <dt className="text-gray-900">Order number</dt>
+        <dd className="mt-2 text-indigo-600">{order.id}</dd>
+      </dl>
+
+      <dl className="mt-10 grid grid-cols-2 gap-x-4 gap-y-10 text-sm text-gray-600">
+        <div>
+          <dt className="font-medium text-gray-900">Shipping address</dt>
+          <dd className="mt-2">
+            <address className="not-italic">
+              {address.company && <span className="block">{address.company}</span>}
+              <span className="block">{address.address}</span>
+              {address.apartment && <span className="block">{address.apartment}</span>}
+              <span className="block">
+                {address.city}, {address.region} {address.postalCode}
+              </span>
+            </address>
+          </dd>
+        </div>
+        <div>
+          <dt className="font-medium text-gray-900">Payment information</dt>
+          <dd className="mt-2">
+            <p>{order.payment.nameOnCard}</p>
+            <p>
+              {formatCardBrand(order.payment.brand)} ending with {order.payment.cardLast4}
+            </p>
+          </dd>
+        </div>
+        {order.shippingMethod && (
+          <div>
+            <dt className="font-medium text-gray-900">Shipping method</dt>
+            <dd className="mt-2">
+              <p>{order.shippingMethod.label}</p>
+              <p>
+                {order.shippingMethod.maxDays === 1
+                  ? 'Next business day'
+                  : `${order.shippingMethod.minDays}–${order.shippingMethod.maxDays} business days`}
+              </p>
+            </dd>
+          </div>
+        )}
+      </dl>
+
+      <div className="mt-16 border-t border-gray-200 pt-6 text-right">
+        <Link href="/products" className="text-sm font-medium text-indigo-600 hover:text-indigo-500">
+          Continue Shopping
+          <span aria-hidden="true"> &rarr;</span>
+        </Link>
+      </div>
+    </section>
+  )
+}
@@ -1,9 +1,39 @@
 /**
  * Payment Section Component
- * Payment details form for checkout
+ * Payment details form for checkout; once the card has been tokenized it's
+ * shown as brand and last four digits until the shopper swaps it
  */
 
-export function PaymentSection() {
+'use client'
+
+import { CardFields } from './card-fields'
+import { FieldError } from './field-error'
+import { useTranslations } from '@/hooks/useTranslations'
+import { formatCardBrand } from '@/utils/format'
+import type { CheckoutFieldErrors } from '@/lib/types/checkout'
+import type { CardDetails, CardToken } from '@/lib/types/payments'
+
+interface PaymentSectionProps {
+  nameOnCard: string
+  onNameOnCardChange: (nameOnCard: string) => void
+  card: CardDetails
+  onCardChange: (field: keyof CardDetails, value: string) => void
+  cardToken?: CardToken | null
+  onClearCard?: () => void
+  errors?: CheckoutFieldErrors
+}
+
+export function PaymentSection({
+  nameOnCard,
+  onNameOnCardChange,
+  card,
+  onCardChange,
+  cardToken = null,
+  onClearCard,
+  errors,
+}: PaymentSectionProps) {
+  const { t } = useTranslations()
+
   return (
     <section aria-labelledby="payment-heading" className="mt-10">
       <h2 id="payment-heading" className="text-lg font-medium text-gray-900">
@@ -20,61 +50,34 @@ export function PaymentSection() {
               id="name-on-card"
               name="name-on-card"
               type="text"
+              value={nameOnCard}
+              onChange={(e) => onNameOnCardChange(e.target.value)}
               autoComplete="cc-name"
               required
-              className="block w-full rounded-md bg-white px-3 py-2 text-base text-gray-900 outline-1 -outline-offset-1 outline-gray-300 placeholder:text-gray-400 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-600 sm:text-sm/6"
+              aria-invalid={errors?.['payment.nameOnCard'] ? true : undefined}
+              aria-describedby={errors?.['payment.nameOnCard'] ? 'name-on-card-error' : undefined}
+              className="block w-full rounded-md bg-white px-3 py-2 text-base text-gray-900 outline-1 -outline-offset-1 outline-gray-300 placeholder:text-gray-400 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-600 aria-[invalid=true]:outline-red-500 sm:text-sm/6"
             />
           </div>
+          <FieldError id="name-on-card-error" message={errors?.['payment.nameOnCard']} />
         </div>
 
-        <div className="col-span-3 sm:col-span-4">
-          <label htmlFor="card-number" className="block text-sm/6 font-medium text-gray-700">
-            Card number
-          </label>
-          <div className="mt-2">
-            <input
-              id="card-number"
-              name="card-number"
-              type="text"
-              autoComplete="cc-number"
-              required
-              className="block w-full rounded-md bg-white px-3 py-2 text-base text-gray-900 outline-1 -outline-offset-1 outline-gray-300 placeholder:text-gray-400 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-600 sm:text-sm/6"
-            />
+        {cardToken ? (
+          <div className="col-span-3 flex items-center justify-between rounded-md border border-gray-200 px-4 py-3 text-sm sm:col-span-4">
+            <span className="text-gray-900">
+              {t('checkout.card.ending', { brand: formatCardBrand(cardToken.brand), last4: cardToken.last4 })}
+            </span>
+            <button
+              type="button"
+              onClick={onClearCard}
+              className="font-medium text-indigo-600 hover:text-indigo-500 cursor-pointer"
+            >
+              {t('checkout.card.useDifferent')}
+            </button>
           </div>
-        </div>
-
-        <div className="col-span-2 sm:col-span-3">
-          <label htmlFor="expiration-date" className="block text-sm/6 font-medium text-gray-700">
-            Expiration date (MM/YY)
-          </label>
-          <div className="mt-2">
-            <input
-              id="expiration-date"
-              name="expiration-date"
-              type="text"
-              autoComplete="cc-exp"
-              placeholder="MM/YY"
-              required
-              className="block w-full rounded-md bg-white px-3 py-2 text-base text-gray-900 outline-1 -outline-offset-1 outline-gray-300 placeholder:text-gray-400 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-600 sm:text-sm/6"
-            />
-          </div>
-        </div>
-
-        <div>
-          <label htmlFor="cvc" className="block text-sm/6 font-medium text-gray-700">
-            CVC
-          </label>
-          <div className="mt-2">
-            <input
-              id="cvc"
-              name="cvc"
-              type="text"
-              autoComplete="csc"
-              required
-              className="block w-full rounded-md bg-white px-3 py-2 text-base text-gray-900 outline-1 -outline-offset-1 outline-gray-300 placeholder:text-gray-400 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-600 sm:text-sm/6"
-            />
-          </div>
-        </div>
+        ) : (
+          <CardFields value={card} onChange={onCardChange} errors={errors} />
+        )}
       </div>
     </section>
   )
@@ -0,0 +1,87 @@
+/**
+ * Shipping Method Section Component
+ * Picks how the order ships; methods are priced for the cart and address
+ */
+
+'use client'
+
+import { CheckCircleIcon } from '@heroicons/react/20/solid'
+import { FieldError } from './field-error'
+import { useCurrency } from '@/hooks/useCurrency'
+import { useTranslations } from '@/hooks/useTranslations'
+import type { CheckoutFieldErrors } from '@/lib/types/checkout'
+import type { ShippingRate } from '@/lib/types/shipping'
+
+interface ShippingMethodSectionProps {
+  rates: ShippingRate[]
+  selectedId: string | null
+  onChange: (methodId: string) => void
+  currency: string
+  // No state/province yet, so there's nothing to price
+  awaitingAddress?: boolean
+  isLoading?: boolean
+  // Rates couldn't be fetched (e.g. we don't ship to the address)
+  loadError?: string | null
+  errors?: CheckoutFieldErrors
+}
+
+export function ShippingMethodSection({
+  rates,
+  selectedId,
+  onChange,
+  currency,
+  awaitingAddress = false,
+  isLoading = false,
+  loadError = null,
+  errors = {},
+}: ShippingMethodSectionProps) {
+  const { formatPrice } = useCurrency()
+  const { t } = useTranslations()
+  const error = loadError ?? errors.shippingMethod
+
+  return (
+    <fieldset className="mt-10" aria-describedby={error ? 'shipping-method-error' : undefined}>
+      <legend className="text-lg font-medium text-gray-900">{t('checkout.shippingMethod.heading')}</legend>
+
+      {awaitingAddress ? (
+        <p className="mt-4 text-sm text-gray-500">{t('checkout.shippingMethod.enterAddress')}</p>
+      ) : (
+        isLoading && rates.length === 0 && (
+          <p className="mt-4 text-sm text-gray-500">{t('checkout.shippingMethod.loading')}</p>
+        )
+      )}
+
+      <div className="mt-4 grid grid-cols-1 gap-y-6 sm:grid-cols-3 sm:gap-x-4">
+        {rates.map((rate) => (
+          <label
+            key={rate.id}
+            className="group relative flex cursor-pointer rounded-lg border border-gray-300 bg-white p-4 has-checked:outline-2 has-checked:-outline-offset-2 has-checked:outline-indigo-600 has-focus-visible:outline-3 has-focus-visible:-outline-offset-1"
+          >
+            <input
+              type="radio"
+              name="shipping-method"
+              value={rate.id}
+              checked={rate.id === selectedId}
+              onChange={() => onChange(rate.id)}
+              className="absolute inset-0 appearance-none focus:outline-none"
+            />
+            <div className="flex-1">
+              <span className="block text-sm font-medium text-gray-900">{rate.label}</span>
+              <span className="mt-1 block text-sm text-gray-500">
+                {rate.maxDays === 1
+                  ? t('checkout.shippingMethod.nextDay')
+                  : t('checkout.shippingMethod.days', { min: rate.minDays, max: rate.maxDays })}
+              </span>
+              <span className="mt-6 block text-sm font-medium text-gray-900">
+                {rate.amount === 0 ? t('common.free') : formatPrice(rate.amount, currency)}
+              </span>
+            </div>
+            <CheckCircleIcon aria-hidden="true" className="invisible size-5 text-indigo-600 group-has-checked:visible" />
+          </label>
+        ))}
+      </div>
+
+      <FieldError id="shipping-method-error" message={error} />
+    </fieldset>
+  )
+}
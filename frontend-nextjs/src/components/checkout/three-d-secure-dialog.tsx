@@ -0,0 +1,107 @@
+/**
+ * 3-D Secure Dialog Component
+ * Stand-in for the bank's authentication page while the fake gateway is
+ * the payment provider: the shopper approves or fails the challenge
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { Dialog, DialogBackdrop, DialogPanel, DialogTitle } from '@headlessui/react'
+import { ShieldCheckIcon } from '@heroicons/react/24/outline'
+import { useTranslations } from '@/hooks/useTranslations'
+import type { ThreeDSecureChallenge } from '@/lib/types/payments'
+
+interface ThreeDSecureDialogProps {
+  challenge: ThreeDSecureChallenge | null
+  // Called once the challenge is completed (approved or failed)
+  onComplete: (challenge: ThreeDSecureChallenge) => void
+  onCancel: () => void
+}
+
+export function ThreeDSecureDialog({ challenge, onComplete, onCancel }: ThreeDSecureDialogProps) {
+  const { t } = useTranslations()
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const complete = async (approve: boolean) => {
+    if (!challenge) return
+
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/payments/fake-gateway/challenges/${challenge.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ approve }),
+      })
+
+      if (!response.ok) {
+        const result = await response.json().catch(() => null)
+        throw new Error(result?.error?.message ?? t('checkout.threeDSecure.failed'))
+      }
+
+      onComplete(challenge)
+    } catch (caught) {
+      setError(caught instanceof Error ? caught.message : t('checkout.threeDSecure.failed'))
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={challenge !== null} onClose={() => !isSubmitting && onCancel()} className="relative z-50">
+      <DialogBackdrop
+        transition
+        className="fixed inset-0 bg-gray-500/75 transition-opacity data-closed:opacity-0 data-enter:duration-300 data-enter:ease-out data-leave:duration-200 data-leave:ease-in"
+      />
+
+      <div className="fixed inset-0 z-10 w-screen overflow-y-auto">
+        <div className="flex min-h-full items-end justify-center p-4 text-center sm:items-center sm:p-0">
+          <DialogPanel
+            transition
+            className="relative transform overflow-hidden rounded-lg bg-white px-4 pt-5 pb-4 text-left shadow-xl transition-all data-closed:translate-y-4 data-closed:opacity-0 data-enter:duration-300 data-enter:ease-out data-leave:duration-200 data-leave:ease-in sm:my-8 sm:w-full sm:max-w-sm sm:p-6 data-closed:sm:translate-y-0 data-closed:sm:scale-95"
+          >
+            <div className="mx-auto flex size-12 items-center justify-center rounded-full bg-indigo-100">
+              <ShieldCheckIcon aria-hidden="true" className="size-6 text-indigo-600" />
+            </div>
+            <div className="mt-3 text-center sm:mt-5">
+              <DialogTitle as="h3" className="text-base font-semibold text-gray-900">
+                {t('checkout.threeDSecure.heading')}
+              </DialogTitle>
+              <p className="mt-2 text-sm text-gray-500">
+                {t('checkout.threeDSecure.description', { last4: challenge?.last4 ?? '' })}
+              </p>
+            </div>
+
+            {error && (
+              <p role="alert" className="mt-4 text-center text-sm text-red-600">
+                {error}
+              </p>
+            )}
+
+            <div className="mt-5 grid grid-cols-2 gap-3 sm:mt-6">
+              <button
+                type="button"
+                onClick={() => complete(false)}
+                disabled={isSubmitting}
+                className="rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-xs ring-1 ring-gray-300 ring-inset hover:bg-gray-50 cursor-pointer disabled:opacity-50"
+              >
+                {t('checkout.threeDSecure.fail')}
+              </button>
+              <button
+                type="button"
+                onClick={() => complete(true)}
+                disabled={isSubmitting}
+                className="rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-xs hover:bg-indigo-500 cursor-pointer disabled:opacity-50"
+              >
+                {t('checkout.threeDSecure.approve')}
+              </button>
+            </div>
+          </DialogPanel>
+        </div>
+      </div>
+    </Dialog>
+  )
+}
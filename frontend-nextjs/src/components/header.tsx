@@ -6,10 +6,10 @@
 
 'use client'
 
-import { Fragment, useState } from 'react'
-import Link from 'next/link'
+import { Fragment, useEffect, useMemo, useState } from 'react'
+import { Link } from '@/lib/i18n/navigation'
 import Image from 'next/image'
-import { usePathname } from 'next/navigation'
+import { usePathname } from '@/lib/i18n/navigation'
 import {
   Dialog,
   DialogBackdrop,
@@ -19,20 +19,31 @@ import {
   PopoverGroup,
   PopoverPanel,
 } from '@headlessui/react'
-import { Bars3Icon, ShoppingBagIcon, XMarkIcon } from '@heroicons/react/24/outline'
+import { Bars3Icon, HeartIcon, MagnifyingGlassIcon, ShoppingBagIcon, XMarkIcon } from '@heroicons/react/24/outline'
 import { useCart } from '@/hooks/useCart'
-import { brand, navigation, promoBar as promoBarMessage } from '@/lib/cms'
+import { useWishlist } from '@/hooks/useWishlist'
+import { brand, getNavigation, getPromoBar } from '@/lib/cms'
 import { RevelioModal } from '@/components/modals/revelio-modal'
+import { SearchPalette } from '@/components/modals/search-palette'
 import { PromoBar } from '@/components/ui/promo-bar'
+import { CurrencySelector } from '@/components/ui/currency-selector'
+import { LocaleSwitcher } from '@/components/ui/locale-switcher'
+import { AccountMenu } from '@/components/ui/account-menu'
 import { usePromoStore } from '@/lib/store/promo'
 import { features, Z_INDEX } from '@/lib/config'
 import { getProductUrlFromIdAndTitle } from '@/utils/slugify'
+import { useTranslations } from '@/hooks/useTranslations'
 
 export function Header() {
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false)
+  const [searchOpen, setSearchOpen] = useState(false)
   const { itemCount, toggleCart } = useCart()
+  const { count: wishlistCount } = useWishlist()
   const { openRevelio } = usePromoStore()
   const pathname = usePathname()
+  const { locale, t } = useTranslations()
+  const navigation = useMemo(() => getNavigation(locale), [locale])
+  const promoBarMessage = useMemo(() => getPromoBar(locale), [locale])
 
   // Don't open cart drawer if we're already on the cart page
   const handleCartClick = () => {
@@ -41,6 +52,25 @@ export function Header() {
     }
   }
 
+  // ⌘K / Ctrl+K toggles search anywhere; "/" opens it unless the user is typing
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault()
+        setSearchOpen((open) => !open)
+        return
+      }
+
+      if (event.key === '/' && !isEditableTarget(event.target)) {
+        event.preventDefault()
+        setSearchOpen(true)
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [])
+
   const { name } = brand
 
   return (
@@ -48,6 +78,9 @@ export function Header() {
       {/* Revelio Modal */}
       {features.revelio.enabled && <RevelioModal />}
 
+      {/* Search Palette */}
+      <SearchPalette open={searchOpen} onClose={() => setSearchOpen(false)} />
+
       {/* Mobile menu */}
       <Dialog open={mobileMenuOpen} onClose={setMobileMenuOpen} className="relative lg:hidden" style={{ zIndex: Z_INDEX.MOBILE_MENU }}>
         <DialogBackdrop
@@ -66,7 +99,7 @@ export function Header() {
                 className="relative -m-2 inline-flex items-center justify-center rounded-md p-2 text-gray-400"
               >
                 <span className="absolute -inset-0.5" />
-                <span className="sr-only">Close menu</span>
+                <span className="sr-only">{t('header.closeMenu')}</span>
                 <XMarkIcon aria-hidden="true" className="size-6" />
               </button>
             </div>
@@ -109,7 +142,7 @@ export function Header() {
               {/* Featured Products - Last */}
               {navigation.megaMenus[0]?.featured && (
                 <div className="mt-12">
-                  <p className="font-semibold text-gray-900">Featured Products</p>
+                  <p className="font-semibold text-gray-900">{t('cms.navigation.featuredProducts')}</p>
                   <div className="mt-6 grid grid-cols-2 gap-x-4">
                     {navigation.megaMenus[0].featured.map((item) => (
                       <div key={item.name} className="group relative text-sm">
@@ -129,7 +162,7 @@ export function Header() {
                           {item.name}
                         </Link>
                         <p aria-hidden="true" className="mt-1">
-                          Shop now
+                          {t('cms.navigation.shopNow')}
                         </p>
                       </div>
                     ))}
@@ -137,6 +170,12 @@ export function Header() {
                 </div>
               )}
             </div>
+
+            {/* Language and currency */}
+            <div className="flex gap-3 border-t border-gray-200 px-4 py-6">
+              <LocaleSwitcher id="mobile-locale" className="w-32" />
+              <CurrencySelector id="mobile-currency" className="w-24" />
+            </div>
           </DialogPanel>
         </div>
       </Dialog>
@@ -153,7 +192,7 @@ export function Header() {
                 className="relative rounded-md bg-white p-2 text-gray-400 lg:hidden"
               >
                 <span className="absolute -inset-0.5" />
-                <span className="sr-only">Open menu</span>
+                <span className="sr-only">{t('header.openMenu')}</span>
                 <Bars3Icon aria-hidden="true" className="size-6" />
               </button>
 
@@ -210,7 +249,7 @@ export function Header() {
                                       {item.name}
                                     </Link>
                                     <p aria-hidden="true" className="mt-1">
-                                      Shop now
+                                      {t('cms.navigation.shopNow')}
                                     </p>
                                   </div>
                                 ))}
@@ -268,20 +307,58 @@ export function Header() {
               </PopoverGroup>
 
               <div className="ml-auto flex items-center">
+                {/* Language and currency */}
+                <div className="hidden gap-3 lg:flex">
+                  <LocaleSwitcher id="desktop-locale" />
+                  <CurrencySelector id="desktop-currency" />
+                </div>
+
                 {/* Revelio */}
                 {features.revelio.enabled && (
                   <div className="flex lg:ml-6">
                     <button
                       onClick={openRevelio}
                       className="p-2 text-2xl hover:opacity-80 cursor-pointer"
-                      title="Reveal a secret offer"
-                      aria-label="Reveal a secret offer"
+                      title={t('header.revealOffer')}
+                      aria-label={t('header.revealOffer')}
                     >
                       🪄
                     </button>
                   </div>
                 )}
 
+                {/* Search */}
+                <div className="flex lg:ml-6">
+                  <button
+                    type="button"
+                    onClick={() => setSearchOpen(true)}
+                    className="p-2 text-gray-400 hover:text-gray-500 cursor-pointer"
+                    title={t('header.searchShortcut')}
+                  >
+                    <span className="sr-only">{t('header.search')}</span>
+                    <MagnifyingGlassIcon aria-hidden="true" className="size-6" />
+                  </button>
+                </div>
+
+                {/* Wishlist */}
+                <div className="ml-4 flow-root lg:ml-6">
+                  <Link href="/wishlist" className="group -m-2 flex items-center p-2">
+                    <HeartIcon
+                      aria-hidden="true"
+                      className="size-6 shrink-0 text-gray-400 group-hover:text-gray-500"
+                    />
+                    <span className="ml-2 text-sm font-medium text-gray-700 group-hover:text-gray-800">
+                      {wishlistCount}
+                    </span>
+                    <span className="sr-only">{t('header.wishlistItems')}</span>
+                  </Link>
+                </div>
+
+                {/* Account */}
+                <div className="ml-4 flow-root lg:ml-6">
+                  <AccountMenu />
+                </div>
+
                 {/* Cart */}
                 <div className="ml-4 flow-root lg:ml-6">
                   <button onClick={handleCartClick} className="group -m-2 flex items-center p-2 cursor-pointer">
@@ -292,7 +369,7 @@ export function Header() {
                     <span className="ml-2 text-sm font-medium text-gray-700 group-hover:text-gray-800">
                       {itemCount}
                     </span>
-                    <span className="sr-only">items in cart, view bag</span>
+                    <span className="sr-only">{t('header.cartItems')}</span>
                   </button>
                 </div>
               </div>
@@ -303,3 +380,11 @@ export function Header() {
     </div>
   )
 }
+
+/**
+ * Whether a keyboard event target accepts text input
+ */
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)
+}
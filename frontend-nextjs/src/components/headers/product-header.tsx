@@ -6,6 +6,7 @@
 'use client'
 
 import { StarIcon, CheckIcon } from '@heroicons/react/20/solid'
+import { useCurrency } from '@/hooks/useCurrency'
 
 interface ProductHeaderProps {
   brand?: string
@@ -28,6 +29,8 @@ export function ProductHeader({
   description,
   stock,
 }: ProductHeaderProps) {
+  const { formatDollars } = useCurrency()
+
   return (
     <div className="lg:max-w-lg lg:self-end">
       {brand && (
@@ -44,7 +47,7 @@ export function ProductHeader({
         </h2>
 
         <div className="flex items-center">
-          <p className="text-lg text-gray-900 sm:text-xl">${price.toFixed(2)}</p>
+          <p className="text-lg text-gray-900 sm:text-xl">{formatDollars(price)}</p>
 
           <div className="ml-4 border-l border-gray-300 pl-4">
             <h2 className="sr-only">Reviews</h2>
@@ -0,0 +1,216 @@
+/**
+ * Search Palette Component
+ * ⌘K command palette that autocompletes collections and products
+ * Based on Tailwind UI command palette (with Headless UI Combobox for keyboard navigation)
+ */
+
+'use client'
+
+import { useMemo, useState } from 'react'
+import Image from 'next/image'
+import { useRouter } from '@/lib/i18n/navigation'
+import {
+  Combobox,
+  ComboboxInput,
+  ComboboxOption,
+  ComboboxOptions,
+  Dialog,
+  DialogBackdrop,
+  DialogPanel,
+} from '@headlessui/react'
+import { MagnifyingGlassIcon } from '@heroicons/react/20/solid'
+import { RectangleStackIcon } from '@heroicons/react/24/outline'
+import { useSearch } from '@/hooks/useSearch'
+import { useDebouncedValue } from '@/hooks/useDebouncedValue'
+import { Z_INDEX } from '@/lib/config'
+import { extractAllCategories, type Category } from '@/utils/categories'
+import { getProductUrl } from '@/utils/slugify'
+import type { Product } from '@/lib/types/products'
+import { useCurrency } from '@/hooks/useCurrency'
+import { useTranslations } from '@/hooks/useTranslations'
+
+// Wait for a pause in typing before re-ranking products
+const SEARCH_DEBOUNCE_MS = 250
+
+// Single characters match nearly everything; wait for something meaningful
+const MIN_QUERY_LENGTH = 2
+
+const MAX_PRODUCT_RESULTS = 6
+
+type PaletteItem =
+  | { type: 'collection'; collection: Category }
+  | { type: 'product'; product: Product }
+  | { type: 'search'; query: string }
+
+/**
+ * Stable identity for an option, so the active option survives re-renders
+ */
+function getItemKey(item: PaletteItem | null): string {
+  if (!item) return ''
+  if (item.type === 'collection') return `collection:${item.collection.slug}`
+  if (item.type === 'product') return `product:${item.product.id}`
+  return `search:${item.query}`
+}
+
+interface SearchPaletteProps {
+  open: boolean
+  onClose: () => void
+}
+
+export function SearchPalette({ open, onClose }: SearchPaletteProps) {
+  const router = useRouter()
+  const [query, setQuery] = useState('')
+  const trimmedQuery = query.trim()
+  const debouncedQuery = useDebouncedValue(trimmedQuery, SEARCH_DEBOUNCE_MS)
+
+  // Collections come from config, so they can match on every keystroke
+  const allCollections = useMemo(() => extractAllCategories(), [])
+  const collections = useMemo(() => {
+    if (!trimmedQuery) return []
+    const needle = trimmedQuery.toLowerCase()
+    return allCollections.filter((collection) => collection.name.toLowerCase().includes(needle))
+  }, [allCollections, trimmedQuery])
+
+  // Products are searched locally over the React Query catalog cache
+  const productQuery = debouncedQuery.length >= MIN_QUERY_LENGTH ? debouncedQuery : ''
+  const { products, isLoading } = useSearch(productQuery)
+  const { formatDollars } = useCurrency()
+  const { t, rich } = useTranslations()
+  const productResults = trimmedQuery ? products.slice(0, MAX_PRODUCT_RESULTS) : []
+  const isSearching = trimmedQuery.length >= MIN_QUERY_LENGTH && (isLoading || debouncedQuery !== trimmedQuery)
+
+  const handleClose = () => {
+    onClose()
+    // Reset after the leave transition so the panel doesn't flash empty
+    setTimeout(() => setQuery(''), 200)
+  }
+
+  const handleSelect = (item: PaletteItem | null) => {
+    if (!item) return
+
+    if (item.type === 'collection') {
+      router.push(item.collection.href)
+    } else if (item.type === 'product') {
+      router.push(getProductUrl(item.product))
+    } else {
+      router.push(`/search?q=${encodeURIComponent(item.query)}`)
+    }
+
+    handleClose()
+  }
+
+  return (
+    <Dialog open={open} onClose={handleClose} className="relative" style={{ zIndex: Z_INDEX.SEARCH_MODAL }}>
+      <DialogBackdrop
+        transition
+        className="fixed inset-0 bg-gray-500/25 transition-opacity data-closed:opacity-0 data-enter:duration-300 data-enter:ease-out data-leave:duration-200 data-leave:ease-in"
+      />
+
+      <div
+        className="fixed inset-0 w-screen overflow-y-auto p-4 sm:p-6 md:p-20"
+        style={{ zIndex: Z_INDEX.SEARCH_MODAL_INNER }}
+      >
+        <DialogPanel
+          transition
+          className="mx-auto max-w-xl transform divide-y divide-gray-100 overflow-hidden rounded-xl bg-white shadow-2xl ring-1 ring-black/5 transition-all data-closed:scale-95 data-closed:opacity-0 data-enter:duration-300 data-enter:ease-out data-leave:duration-200 data-leave:ease-in"
+        >
+          <Combobox<PaletteItem | null>
+            onChange={handleSelect}
+            by={(a, b) => getItemKey(a) === getItemKey(b)}
+          >
+            <div className="grid grid-cols-1">
+              <ComboboxInput
+                autoFocus
+                aria-label={t('searchPalette.label')}
+                placeholder={t('searchPalette.placeholder')}
+                className="col-start-1 row-start-1 h-12 w-full pr-4 pl-11 text-base text-gray-900 outline-hidden placeholder:text-gray-400 sm:text-sm"
+                onChange={(event) => setQuery(event.target.value)}
+              />
+              <MagnifyingGlassIcon
+                aria-hidden="true"
+                className="pointer-events-none col-start-1 row-start-1 ml-4 size-5 self-center text-gray-400"
+              />
+            </div>
+
+            {trimmedQuery && (
+              <ComboboxOptions static as="ul" className="max-h-96 scroll-py-2 overflow-y-auto p-2 text-sm text-gray-800">
+                {collections.length > 0 && (
+                  <li>
+                    <h2 className="px-3 pt-2 pb-1 text-xs font-semibold text-gray-500">{t('searchPalette.collections')}</h2>
+                    <ul>
+                      {collections.map((collection) => (
+                        <ComboboxOption
+                          key={collection.slug}
+                          value={{ type: 'collection', collection }}
+                          className="flex cursor-default items-center rounded-md px-3 py-2 select-none data-focus:bg-indigo-600 data-focus:text-white data-focus:outline-hidden"
+                        >
+                          <RectangleStackIcon aria-hidden="true" className="size-5 flex-none opacity-60" />
+                          <span className="ml-3 flex-auto truncate">{collection.name}</span>
+                        </ComboboxOption>
+                      ))}
+                    </ul>
+                  </li>
+                )}
+
+                {productResults.length > 0 && (
+                  <li>
+                    <h2 className="px-3 pt-2 pb-1 text-xs font-semibold text-gray-500">{t('searchPalette.products')}</h2>
+                    <ul>
+                      {productResults.map((product) => (
+                        <ComboboxOption
+                          key={product.id}
+                          value={{ type: 'product', product }}
+                          className="group flex cursor-default items-center rounded-md px-3 py-2 select-none data-focus:bg-indigo-600 data-focus:text-white data-focus:outline-hidden"
+                        >
+                          <Image
+                            alt=""
+                            src={product.thumbnail}
+                            width={40}
+                            height={40}
+                            className="size-8 flex-none rounded-sm bg-gray-100 object-cover"
+                          />
+                          <span className="ml-3 flex-auto truncate">{product.title}</span>
+                          <span className="ml-3 flex-none text-gray-500 group-data-focus:text-indigo-100">
+                            {formatDollars(product.price)}
+                          </span>
+                        </ComboboxOption>
+                      ))}
+                    </ul>
+                  </li>
+                )}
+
+                {/* Always offer the full results page */}
+                <ComboboxOption
+                  value={{ type: 'search', query: trimmedQuery }}
+                  className="flex cursor-default items-center rounded-md px-3 py-2 select-none data-focus:bg-indigo-600 data-focus:text-white data-focus:outline-hidden"
+                >
+                  <MagnifyingGlassIcon aria-hidden="true" className="size-5 flex-none opacity-60" />
+                  <span className="ml-3 flex-auto truncate">
+                    {t('searchPalette.seeAll', { query: trimmedQuery })}
+                  </span>
+                </ComboboxOption>
+              </ComboboxOptions>
+            )}
+
+            {isSearching && productResults.length === 0 && (
+              <p className="p-4 text-sm text-gray-500">{t('searchPalette.searching')}</p>
+            )}
+
+            <div className="flex flex-wrap items-center bg-gray-50 px-4 py-2.5 text-xs text-gray-700">
+              {rich('searchPalette.hint', {
+                arrows: (
+                  <>
+                    <kbd className="mx-1 font-semibold">↑</kbd>
+                    <kbd className="mr-1 font-semibold">↓</kbd>
+                  </>
+                ),
+                enter: <kbd className="mx-1 font-semibold">Enter</kbd>,
+                esc: <kbd className="mx-1 font-semibold">Esc</kbd>,
+              })}
+            </div>
+          </Combobox>
+        </DialogPanel>
+      </div>
+    </Dialog>
+  )
+}
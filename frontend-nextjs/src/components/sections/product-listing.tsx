@@ -0,0 +1,213 @@
+/**
+ * Product Listing Component
+ * Shared layout for the Shop All and collection pages: header, active
+ * filters, facet sidebar, mobile filter dialog, sort menu, grid and
+ * pagination (numbered or infinite scroll, per siteConfig.paginationMode),
+ * followed by the "Recently viewed" rail
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { Link } from '@/lib/i18n/navigation'
+import { FunnelIcon } from '@heroicons/react/20/solid'
+import { useListing, type ListingSource } from '@/hooks/useListing'
+import { useCart } from '@/hooks/useCart'
+import { useDelayedLoading } from '@/hooks/useDelayedLoading'
+import { ProductCard } from '@/components/cards/product-card'
+import { CategoryList } from '@/components/ui/category-list'
+import { FilterGroup } from '@/components/ui/filter-group'
+import { SortOptions } from '@/components/ui/sort-options'
+import { ActiveFilters } from '@/components/ui/active-filters'
+import { CollectionHeader } from '@/components/headers/collection-header'
+import { Breadcrumbs, type Breadcrumb } from '@/components/ui/breadcrumbs'
+import { MobileFilterDialog } from '@/components/ui/mobile-filter-dialog'
+import { Pagination } from '@/components/ui/pagination'
+import { LoadMore } from '@/components/ui/load-more'
+import { RecentlyViewed } from '@/components/sections/recently-viewed'
+import { getActiveFilterBadges } from '@/utils/facets'
+
+interface ListingCategory {
+  slug: string
+  name: string
+  href: string
+}
+
+interface ProductListingProps {
+  source: ListingSource
+  title: string
+  description?: string
+  breadcrumbs: Breadcrumb[]
+  categories: ListingCategory[]
+  currentCategory?: string
+}
+
+export function ProductListing({
+  source,
+  title,
+  description,
+  breadcrumbs,
+  categories,
+  currentCategory,
+}: ProductListingProps) {
+  const {
+    params: listing,
+    mode,
+    facets,
+    products,
+    totalResults,
+    page,
+    totalPages,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+    isLoading,
+    error,
+  } = useListing({ source })
+  const { filters, sort: sortBy } = listing
+  const { addItem } = useCart()
+  const [mobileFiltersOpen, setMobileFiltersOpen] = useState(false)
+
+  // Delay showing loading state to prevent flicker for fast loads
+  const shouldShowLoading = useDelayedLoading(isLoading)
+
+  // Prepare filter sections for mobile dialog
+  const mobileFilterSections = facets.map((facet) => ({
+    id: facet.id,
+    name: facet.name,
+    options: facet.options.map(({ value, label, count }) => ({ value, label, count })),
+    selectedValues: new Set(facet.options.filter((option) => option.checked).map((option) => option.value)),
+    onToggle: (value: string) => listing.toggleFacet(facet.id, value),
+    matchMode: facet.matchMode,
+    onMatchModeChange: facet.matchMode ? listing.setTagMode : undefined,
+  }))
+
+  if (error) {
+    return (
+      <div className="bg-white">
+        <div className="mx-auto max-w-7xl px-4 py-16 sm:px-6 sm:py-24 lg:px-8">
+          <div className="text-center">
+            <p className="text-red-600">Error loading products: {error}</p>
+            {source.type === 'collection' && (
+              <Link href="/products" className="mt-4 inline-block text-indigo-600 hover:text-indigo-500">
+                Browse all products
+              </Link>
+            )}
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-white">
+      {/* Breadcrumbs */}
+      <Breadcrumbs items={breadcrumbs} />
+
+      {/* Mobile filter dialog */}
+      <MobileFilterDialog
+        open={mobileFiltersOpen}
+        onClose={setMobileFiltersOpen}
+        sections={mobileFilterSections}
+      />
+
+      {/* Collection Header */}
+      <CollectionHeader title={title} description={description} />
+
+      {/* Active Filters Bar */}
+      <ActiveFilters
+        selectedTags={filters.tags}
+        currentSort={sortBy}
+        priceRange={{ min: filters.minPrice, max: filters.maxPrice }}
+        badges={getActiveFilterBadges(filters).map((badge) => ({
+          key: `${badge.facet}:${badge.value}`,
+          label: badge.label,
+          onRemove: () => listing.toggleFacet(badge.facet, badge.value),
+        }))}
+        onRemoveTag={listing.removeTag}
+        onClearSort={() => listing.setSort('default')}
+        onClearPrice={listing.clearPriceRange}
+        onClearAll={listing.clearFilters}
+      />
+
+      {/* Products Grid */}
+      <main className="mx-auto max-w-2xl px-4 lg:max-w-7xl lg:px-8">
+        <div className="pt-6 pb-24 lg:pt-12 lg:grid lg:grid-cols-4 lg:gap-x-8">
+          {/* Desktop Filters Sidebar */}
+          <aside>
+            <form className="hidden lg:block">
+              <CategoryList categories={categories} currentCategory={currentCategory} />
+              {facets.map((facet) => (
+                <FilterGroup
+                  key={facet.id}
+                  id={facet.id}
+                  name={facet.name}
+                  options={facet.options}
+                  onChange={(value) => listing.toggleFacet(facet.id, value)}
+                  matchMode={facet.matchMode}
+                  onMatchModeChange={facet.matchMode ? listing.setTagMode : undefined}
+                />
+              ))}
+            </form>
+          </aside>
+
+          {/* Products */}
+          <section aria-labelledby="product-heading" className="mt-6 lg:col-span-3 lg:mt-0">
+            <h2 id="product-heading" className="sr-only">
+              Products
+            </h2>
+
+            {/* Product count and sort menu */}
+            <div className="flex items-center justify-between pb-4">
+              <div className="text-sm text-gray-500">
+                Showing {totalResults} {totalResults === 1 ? 'product' : 'products'}
+              </div>
+              <div className="flex items-center gap-4">
+                <button
+                  type="button"
+                  onClick={() => setMobileFiltersOpen(true)}
+                  className="inline-flex items-center text-sm font-medium text-gray-700 hover:text-gray-900 lg:hidden"
+                >
+                  <FunnelIcon className="mr-2 size-5" aria-hidden="true" />
+                  Filters
+                </button>
+                <SortOptions currentSort={sortBy} onSortChange={listing.setSort} />
+              </div>
+            </div>
+
+            {shouldShowLoading ? (
+              <div className="flex items-center justify-center py-12">
+                <p className="text-gray-500">Loading products...</p>
+              </div>
+            ) : products.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-12">
+                <p className="text-gray-500">No products found with selected filters.</p>
+                {listing.hasActiveFilters && (
+                  <button onClick={listing.clearFilters} className="mt-4 text-indigo-600 hover:text-indigo-500">
+                    Clear filters
+                  </button>
+                )}
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-1 gap-x-6 gap-y-10 sm:grid-cols-2 lg:grid-cols-3 lg:gap-x-8">
+                  {products.map((product, index) => (
+                    <ProductCard key={product.id} product={product} onAddToCart={addItem} priority={index < 3} />
+                  ))}
+                </div>
+                {mode === 'infinite' ? (
+                  <LoadMore hasMore={hasNextPage} isLoading={isFetchingNextPage} onLoadMore={fetchNextPage} />
+                ) : (
+                  <Pagination currentPage={page} totalPages={totalPages} onPageChange={listing.setPage} />
+                )}
+              </>
+            )}
+          </section>
+        </div>
+      </main>
+
+      {/* Recently Viewed */}
+      <RecentlyViewed />
+    </div>
+  )
+}
@@ -0,0 +1,54 @@
+/**
+ * Recently Viewed Component
+ * Rail of products the shopper looked at recently (history kept in localStorage)
+ */
+
+'use client'
+
+import { memo } from 'react'
+import { useRecentlyViewed } from '@/hooks/useRecentlyViewed'
+import { RelatedProductCard } from '../cards/related-product-card'
+import type { Product } from '@/lib/types/products'
+
+interface RecentlyViewedProps {
+  excludeProductId?: number
+  limit?: number
+  title?: string
+  showBackground?: boolean
+  showAddToCart?: boolean
+  onAddToCart?: (product: Product) => Promise<void>
+}
+
+export const RecentlyViewed = memo(function RecentlyViewed({
+  excludeProductId,
+  limit = 4,
+  title = 'Recently viewed',
+  showBackground = true,
+  showAddToCart = false,
+  onAddToCart,
+}: RecentlyViewedProps) {
+  const { products } = useRecentlyViewed({ excludeProductId, limit })
+
+  if (products.length === 0) {
+    return null
+  }
+
+  return (
+    <div className={showBackground ? 'bg-white' : ''}>
+      <div className="mx-auto max-w-2xl px-4 py-16 sm:px-6 sm:py-24 lg:max-w-7xl lg:px-8">
+        <h2 className="text-2xl font-bold tracking-tight text-gray-900">{title}</h2>
+
+        <div className="mt-6 grid grid-cols-2 gap-x-6 gap-y-10 lg:grid-cols-4 xl:gap-x-8">
+          {products.map((product) => (
+            <RelatedProductCard
+              key={product.id}
+              product={product}
+              showAddToCart={showAddToCart}
+              onAddToCart={onAddToCart}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+})
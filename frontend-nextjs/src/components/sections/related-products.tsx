@@ -1,19 +1,22 @@
 /**
  * Related Products Component
- * Displays products from the same category (lazy-loaded)
+ * Displays recommendations for a product (lazy-loaded): similar products,
+ * or products frequently bought together with it and the cart
  */
 
 'use client'
 
 import { memo, useMemo } from 'react'
-import Link from 'next/link'
-import { useRelatedProducts } from '@/hooks/useProducts'
+import { Link } from '@/lib/i18n/navigation'
+import { useRecommendations } from '@/hooks/useProducts'
 import { RelatedProductCard } from '../cards/related-product-card'
-import type { Product } from '@/lib/types/products'
+import type { Product, RecommendationMode } from '@/lib/types/products'
 
 interface RelatedProductsProps {
-  category?: string | undefined
-  currentProductId?: number | undefined
+  productId?: number | undefined
+  category?: string | undefined // "Shop the collection" link
+  mode?: RecommendationMode
+  cartProductIds?: number[]
   excludeProductIds?: number[]
   limit?: number
   title?: string
@@ -23,8 +26,10 @@ interface RelatedProductsProps {
 }
 
 export const RelatedProducts = memo(function RelatedProducts({
+  productId,
   category,
-  currentProductId,
+  mode = 'similar',
+  cartProductIds,
   excludeProductIds = [],
   limit = 4,
   title = "You may also like",
@@ -32,7 +37,7 @@ export const RelatedProducts = memo(function RelatedProducts({
   showAddToCart = false,
   onAddToCart
 }: RelatedProductsProps) {
-  const { products } = useRelatedProducts(category, currentProductId, limit + excludeProductIds.length)
+  const { products } = useRecommendations(productId, { mode, cartProductIds, limit: limit + excludeProductIds.length })
 
   // Filter out products that are in the exclude list
   // Memoize to prevent recalculation when excludeProductIds array reference changes but values are the same
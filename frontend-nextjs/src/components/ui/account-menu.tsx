@@ -0,0 +1,88 @@
+/**
+ * Account Menu Component
+ * Header entry point for accounts: a sign-in link, or a menu once signed in
+ */
+
+'use client'
+
+import { Menu, MenuButton, MenuItem, MenuItems } from '@headlessui/react'
+import { UserIcon } from '@heroicons/react/24/outline'
+import { Link, usePathname, useRouter } from '@/lib/i18n/navigation'
+import { useAccount } from '@/hooks/useAccount'
+import { useTranslations } from '@/hooks/useTranslations'
+import { authConfig, isProtectedPath } from '@/lib/config/auth'
+
+export function AccountMenu() {
+  const { account, signOut } = useAccount()
+  const { t } = useTranslations()
+  const pathname = usePathname()
+  const router = useRouter()
+
+  if (!account) {
+    return (
+      <Link
+        href={`${authConfig.signInPath}?next=${encodeURIComponent(pathname)}`}
+        className="group -m-2 flex items-center p-2"
+      >
+        <UserIcon aria-hidden="true" className="size-6 shrink-0 text-gray-400 group-hover:text-gray-500" />
+        <span className="sr-only">{t('account.signIn')}</span>
+      </Link>
+    )
+  }
+
+  const handleSignOut = async () => {
+    await signOut()
+
+    // Account pages are no longer available
+    if (isProtectedPath(pathname)) {
+      router.push('/')
+    }
+  }
+
+  const links = [
+    { href: '/account', label: t('account.nav.profile') },
+    { href: '/account/addresses', label: t('account.nav.addresses') },
+    { href: '/account/orders', label: t('account.nav.orders') },
+  ]
+
+  return (
+    <Menu as="div" className="relative">
+      <MenuButton className="group -m-2 flex items-center p-2 cursor-pointer">
+        <UserIcon aria-hidden="true" className="size-6 shrink-0 text-indigo-600 group-hover:text-indigo-500" />
+        <span className="sr-only">{t('account.menuLabel')}</span>
+      </MenuButton>
+
+      <MenuItems
+        transition
+        className="absolute right-0 z-10 mt-2 w-56 origin-top-right rounded-md bg-white shadow-2xl ring-1 ring-black/5 transition focus:outline-hidden data-closed:scale-95 data-closed:transform data-closed:opacity-0 data-enter:duration-100 data-enter:ease-out data-leave:duration-75 data-leave:ease-in"
+      >
+        <p className="truncate border-b border-gray-100 px-4 py-3 text-sm text-gray-500">
+          {t('account.signedInAs', { email: account.email })}
+        </p>
+        <div className="py-1">
+          {links.map((link) => (
+            <MenuItem key={link.href}>
+              <Link
+                href={link.href}
+                className="block px-4 py-2 text-sm text-gray-700 data-focus:bg-gray-100 data-focus:outline-hidden"
+              >
+                {link.label}
+              </Link>
+            </MenuItem>
+          ))}
+        </div>
+        <div className="border-t border-gray-100 py-1">
+          <MenuItem>
+            <button
+              type="button"
+              onClick={handleSignOut}
+              className="block w-full px-4 py-2 text-left text-sm text-gray-700 data-focus:bg-gray-100 data-focus:outline-hidden cursor-pointer"
+            >
+              {t('account.signOut')}
+            </button>
+          </MenuItem>
+        </div>
+      </MenuItems>
+    </Menu>
+  )
+}
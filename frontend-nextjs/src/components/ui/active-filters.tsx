@@ -9,23 +9,51 @@ import { XMarkIcon } from '@heroicons/react/20/solid'
 import type { SortOption } from './sort-options'
 import { toTitleCase } from '@/utils/format'
 
+interface PriceRange {
+  min: number | null
+  max: number | null
+}
+
+interface FilterBadge {
+  key: string
+  label: string
+  onRemove: () => void
+}
+
 interface ActiveFiltersProps {
   selectedTags: Set<string>
   currentSort: SortOption
+  priceRange?: PriceRange
+  // Other active filters (brand, rating, etc.) rendered after tags and price
+  badges?: FilterBadge[]
   onRemoveTag: (tag: string) => void
   onClearSort: () => void
+  onClearPrice?: () => void
   onClearAll: () => void
 }
 
+/**
+ * Badge label for a price range, e.g. "$10 – $50", "Under $50", "$100+"
+ */
+function formatPriceRange({ min, max }: PriceRange): string {
+  if (min !== null && max !== null) return `$${min} – $${max}`
+  if (max !== null) return `Under $${max}`
+  return `$${min}+`
+}
+
 export function ActiveFilters({
   selectedTags,
+  priceRange,
+  badges = [],
   onRemoveTag,
+  onClearPrice,
   onClearAll,
 }: ActiveFiltersProps) {
-  // Only show when there are tag filters (not just sort)
-  const hasTagFilters = selectedTags.size > 0
+  // Only show when there are filters (not just sort)
+  const hasPriceFilter = !!priceRange && (priceRange.min !== null || priceRange.max !== null)
+  const hasFilters = selectedTags.size > 0 || hasPriceFilter || badges.length > 0
 
-  if (!hasTagFilters) {
+  if (!hasFilters) {
     return null
   }
 
@@ -59,8 +87,43 @@ export function ActiveFilters({
               </span>
             ))}
 
+            {/* Price range badge */}
+            {hasPriceFilter && (
+              <span className="m-1 inline-flex items-center rounded-full border border-gray-200 bg-white py-1.5 pr-2 pl-3 text-sm font-medium text-gray-900">
+                <span>{formatPriceRange(priceRange)}</span>
+                {onClearPrice && (
+                  <button
+                    type="button"
+                    onClick={onClearPrice}
+                    className="ml-1 inline-flex size-4 shrink-0 rounded-full p-1 text-gray-400 hover:bg-gray-200 hover:text-gray-500"
+                  >
+                    <span className="sr-only">Remove price filter</span>
+                    <XMarkIcon className="size-2" />
+                  </button>
+                )}
+              </span>
+            )}
+
+            {/* Other filter badges */}
+            {badges.map((badge) => (
+              <span
+                key={badge.key}
+                className="m-1 inline-flex items-center rounded-full border border-gray-200 bg-white py-1.5 pr-2 pl-3 text-sm font-medium text-gray-900"
+              >
+                <span>{badge.label}</span>
+                <button
+                  type="button"
+                  onClick={badge.onRemove}
+                  className="ml-1 inline-flex size-4 shrink-0 rounded-full p-1 text-gray-400 hover:bg-gray-200 hover:text-gray-500"
+                >
+                  <span className="sr-only">Remove filter for {badge.label}</span>
+                  <XMarkIcon className="size-2" />
+                </button>
+              </span>
+            ))}
+
             {/* Clear all button */}
-            {selectedTags.size > 0 && (
+            {hasFilters && (
               <button
                 type="button"
                 onClick={onClearAll}
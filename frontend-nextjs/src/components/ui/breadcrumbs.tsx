@@ -6,7 +6,7 @@
 'use client'
 
 import { useState, useEffect, useRef } from 'react'
-import Link from 'next/link'
+import { Link } from '@/lib/i18n/navigation'
 import { ShoppingBagIcon } from '@heroicons/react/24/outline'
 import { useCart } from '@/hooks/useCart'
 import { ApparateButton } from './apparate-button'
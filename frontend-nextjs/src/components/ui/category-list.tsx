@@ -3,7 +3,7 @@
  * Displays a list of category links with active state
  */
 
-import Link from 'next/link'
+import { Link } from '@/lib/i18n/navigation'
 
 interface Category {
   slug: string
@@ -0,0 +1,44 @@
+/**
+ * Currency Selector Component
+ * Picks the currency prices are displayed in
+ */
+
+'use client'
+
+import { ChevronDownIcon } from '@heroicons/react/16/solid'
+import { useCurrency } from '@/hooks/useCurrency'
+import { currencyConfig } from '@/lib/config/currency'
+
+interface CurrencySelectorProps {
+  id?: string
+  className?: string
+}
+
+export function CurrencySelector({ id = 'currency', className = '' }: CurrencySelectorProps) {
+  const { currency, setCurrency } = useCurrency()
+
+  return (
+    <div className={`grid grid-cols-1 ${className}`}>
+      <label htmlFor={id} className="sr-only">
+        Currency
+      </label>
+      <select
+        id={id}
+        name="currency"
+        value={currency}
+        onChange={(event) => setCurrency(event.target.value)}
+        className="col-start-1 row-start-1 w-full appearance-none rounded-md bg-white py-1.5 pr-7 pl-2 text-sm font-medium text-gray-700 outline-1 -outline-offset-1 outline-gray-300 hover:text-gray-800 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-600 cursor-pointer"
+      >
+        {currencyConfig.currencies.map(({ code, label }) => (
+          <option key={code} value={code} title={label}>
+            {code}
+          </option>
+        ))}
+      </select>
+      <ChevronDownIcon
+        aria-hidden="true"
+        className="pointer-events-none col-start-1 row-start-1 mr-2 size-4 self-center justify-self-end text-gray-500"
+      />
+    </div>
+  )
+}
@@ -11,6 +11,8 @@ import {
   DisclosurePanel,
 } from '@headlessui/react'
 import { MinusIcon, PlusIcon } from '@heroicons/react/20/solid'
+import { MatchModeToggle } from './match-mode-toggle'
+import type { FacetMatchMode } from '@/utils/listing-params'
 
 export interface FilterOption {
   value: string
@@ -25,6 +27,9 @@ interface FilterGroupProps {
   options: FilterOption[]
   onChange?: (value: string) => void
   defaultOpen?: boolean
+  // Shows an Any/All switch when both are provided
+  matchMode?: FacetMatchMode
+  onMatchModeChange?: (mode: FacetMatchMode) => void
 }
 
 export function FilterGroup({
@@ -33,6 +38,8 @@ export function FilterGroup({
   options,
   onChange,
   defaultOpen = true,
+  matchMode,
+  onMatchModeChange,
 }: FilterGroupProps) {
   return (
     <Disclosure as="div" className="border-b border-gray-200 py-6" defaultOpen={defaultOpen}>
@@ -48,6 +55,11 @@ export function FilterGroup({
             </DisclosureButton>
           </h3>
           <DisclosurePanel className="pt-6">
+            {matchMode && onMatchModeChange && (
+              <div className="pb-4">
+                <MatchModeToggle id={`filter-${id}`} mode={matchMode} onChange={onMatchModeChange} />
+              </div>
+            )}
             <div className="space-y-4">
               {options.map((option, optionIdx) => (
                 <div key={option.value} className="flex items-center justify-between gap-3">
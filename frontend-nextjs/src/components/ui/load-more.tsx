@@ -0,0 +1,53 @@
+/**
+ * Load More Component
+ * Infinite scroll trigger: loads the next page when scrolled into view,
+ * with a button fallback for keyboard users and browsers without
+ * IntersectionObserver
+ */
+
+'use client'
+
+import { useEffect, useRef } from 'react'
+
+interface LoadMoreProps {
+  hasMore: boolean
+  isLoading: boolean
+  onLoadMore: () => void
+}
+
+export function LoadMore({ hasMore, isLoading, onLoadMore }: LoadMoreProps) {
+  const triggerRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    const trigger = triggerRef.current
+    if (!trigger || !hasMore || isLoading || typeof IntersectionObserver === 'undefined') return
+
+    // Start loading a little before the end of the grid is visible
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          onLoadMore()
+        }
+      },
+      { rootMargin: '400px 0px' }
+    )
+
+    observer.observe(trigger)
+    return () => observer.disconnect()
+  }, [hasMore, isLoading, onLoadMore])
+
+  if (!hasMore) return null
+
+  return (
+    <div ref={triggerRef} className="flex items-center justify-center py-8">
+      <button
+        type="button"
+        onClick={onLoadMore}
+        disabled={isLoading}
+        className="rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50"
+      >
+        {isLoading ? 'Loading more...' : 'Load more'}
+      </button>
+    </div>
+  )
+}
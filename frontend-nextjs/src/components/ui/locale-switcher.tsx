@@ -0,0 +1,56 @@
+/**
+ * Locale Switcher Component
+ * Reloads the current page in another language
+ */
+
+'use client'
+
+import { useRouter as useNextRouter } from 'next/navigation'
+import { ChevronDownIcon } from '@heroicons/react/16/solid'
+import { usePathname } from '@/lib/i18n/navigation'
+import { localizePath } from '@/lib/i18n/paths'
+import { i18nConfig, isLocale } from '@/lib/i18n/config'
+import { useTranslations } from '@/hooks/useTranslations'
+
+interface LocaleSwitcherProps {
+  id?: string
+  className?: string
+}
+
+export function LocaleSwitcher({ id = 'locale', className = '' }: LocaleSwitcherProps) {
+  const router = useNextRouter()
+  const pathname = usePathname()
+  const { locale, t } = useTranslations()
+
+  const handleChange = (nextLocale: string) => {
+    if (!isLocale(nextLocale)) return
+
+    // Read the query at change time so the header doesn't need a Suspense boundary
+    router.push(`${localizePath(pathname, nextLocale)}${window.location.search}`)
+  }
+
+  return (
+    <div className={`grid grid-cols-1 ${className}`}>
+      <label htmlFor={id} className="sr-only">
+        {t('localeSwitcher.label')}
+      </label>
+      <select
+        id={id}
+        name="locale"
+        value={locale}
+        onChange={(event) => handleChange(event.target.value)}
+        className="col-start-1 row-start-1 w-full appearance-none rounded-md bg-white py-1.5 pr-7 pl-2 text-sm font-medium text-gray-700 outline-1 -outline-offset-1 outline-gray-300 hover:text-gray-800 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-600 cursor-pointer"
+      >
+        {i18nConfig.locales.map((code) => (
+          <option key={code} value={code} lang={code}>
+            {i18nConfig.labels[code]}
+          </option>
+        ))}
+      </select>
+      <ChevronDownIcon
+        aria-hidden="true"
+        className="pointer-events-none col-start-1 row-start-1 mr-2 size-4 self-center justify-self-end text-gray-500"
+      />
+    </div>
+  )
+}
@@ -0,0 +1,47 @@
+/**
+ * Match Mode Toggle Component
+ * Any/All switch for how selected options within a filter combine
+ */
+
+'use client'
+
+import type { FacetMatchMode } from '@/utils/listing-params'
+
+interface MatchModeToggleProps {
+  id: string
+  mode: FacetMatchMode
+  onChange: (mode: FacetMatchMode) => void
+}
+
+const modes: Array<{ value: FacetMatchMode; label: string }> = [
+  { value: 'any', label: 'Any' },
+  { value: 'all', label: 'All' },
+]
+
+export function MatchModeToggle({ id, mode, onChange }: MatchModeToggleProps) {
+  return (
+    <div role="radiogroup" aria-labelledby={`${id}-match-label`} className="flex items-center gap-2 text-xs">
+      <span id={`${id}-match-label`} className="text-gray-500">
+        Match
+      </span>
+      <div className="inline-flex rounded-md ring-1 ring-gray-300 ring-inset">
+        {modes.map((option) => (
+          <button
+            key={option.value}
+            type="button"
+            role="radio"
+            aria-checked={mode === option.value}
+            onClick={() => onChange(option.value)}
+            className={`${
+              mode === option.value
+                ? 'bg-indigo-600 text-white'
+                : 'text-gray-700 hover:bg-gray-50'
+            } px-2.5 py-1 font-medium first:rounded-l-md last:rounded-r-md cursor-pointer`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -15,6 +15,8 @@ import {
 } from '@headlessui/react'
 import { XMarkIcon, ChevronDownIcon } from '@heroicons/react/20/solid'
 import { Z_INDEX } from '@/lib/config/z-index'
+import { MatchModeToggle } from './match-mode-toggle'
+import type { FacetMatchMode } from '@/utils/listing-params'
 
 export interface FilterOption {
   value: string
@@ -28,6 +30,9 @@ export interface FilterSection {
   options: FilterOption[]
   selectedValues: Set<string>
   onToggle: (value: string) => void
+  // Shows an Any/All switch when both are provided
+  matchMode?: FacetMatchMode
+  onMatchModeChange?: (mode: FacetMatchMode) => void
 }
 
 interface MobileFilterDialogProps {
@@ -110,6 +115,15 @@ export function MobileFilterDialog({
                     </DisclosureButton>
                   </legend>
                   <DisclosurePanel className="px-4 pt-4 pb-2">
+                    {section.matchMode && section.onMatchModeChange && (
+                      <div className="pb-4">
+                        <MatchModeToggle
+                          id={`mobile-${section.id}`}
+                          mode={section.matchMode}
+                          onChange={section.onMatchModeChange}
+                        />
+                      </div>
+                    )}
                     <div className="space-y-6">
                       {section.options.map((option) => (
                         <div
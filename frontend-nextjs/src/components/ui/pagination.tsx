@@ -1,8 +1,10 @@
 /**
  * Pagination Component
- * Simple pagination controls
+ * Previous/next controls with numbered pages (page count on small screens)
  */
 
+import { getPageItems } from '@/utils/pagination'
+
 interface PaginationProps {
   currentPage: number
   totalPages: number
@@ -13,7 +15,7 @@ export function Pagination({ currentPage, totalPages, onPageChange }: Pagination
   if (totalPages <= 1) return null
 
   return (
-    <div className="flex items-center justify-center space-x-2 py-8">
+    <nav aria-label="Pagination" className="flex items-center justify-center space-x-2 py-8">
       <button
         onClick={() => onPageChange(currentPage - 1)}
         disabled={currentPage === 1}
@@ -22,10 +24,35 @@ export function Pagination({ currentPage, totalPages, onPageChange }: Pagination
         Previous
       </button>
 
-      <span className="text-sm text-gray-700">
+      <span className="text-sm text-gray-700 sm:hidden">
         Page {currentPage} of {totalPages}
       </span>
 
+      <ol className="hidden items-center space-x-1 sm:flex">
+        {getPageItems(currentPage, totalPages).map((item, index) =>
+          item === 'ellipsis' ? (
+            <li key={`ellipsis-${index}`} className="px-2 text-sm text-gray-500" aria-hidden="true">
+              …
+            </li>
+          ) : (
+            <li key={item}>
+              <button
+                onClick={() => onPageChange(item)}
+                aria-current={item === currentPage ? 'page' : undefined}
+                aria-label={`Page ${item}`}
+                className={`${
+                  item === currentPage
+                    ? 'bg-indigo-600 text-white'
+                    : 'text-gray-700 hover:bg-gray-50'
+                } min-w-9 rounded-md px-3 py-2 text-sm font-medium`}
+              >
+                {item}
+              </button>
+            </li>
+          )
+        )}
+      </ol>
+
       <button
         onClick={() => onPageChange(currentPage + 1)}
         disabled={currentPage === totalPages}
@@ -33,6 +60,6 @@ export function Pagination({ currentPage, totalPages, onPageChange }: Pagination
       >
         Next
       </button>
-    </div>
+    </nav>
   )
 }
@@ -7,21 +7,9 @@
 
 import { Menu, MenuButton, MenuItem, MenuItems } from '@headlessui/react'
 import { ChevronDownIcon } from '@heroicons/react/20/solid'
+import { sortOptions, type SortOption } from '@/utils/sort-products'
 
-export type SortOption = 'default' | 'price-low' | 'price-high' | 'rating-high' | 'discount-high'
-
-interface SortConfig {
-  value: SortOption
-  label: string
-}
-
-const sortOptions: SortConfig[] = [
-  { value: 'default', label: 'Featured' },
-  { value: 'price-low', label: 'Price: Low to High' },
-  { value: 'price-high', label: 'Price: High to Low' },
-  { value: 'rating-high', label: 'Best Rating' },
-  { value: 'discount-high', label: 'Best Discount' },
-]
+export type { SortOption }
 
 interface SortOptionsProps {
   currentSort: SortOption
@@ -0,0 +1,75 @@
+/**
+ * Wishlist Button Component
+ * Heart toggle that saves a product to (or removes it from) the wishlist
+ * Variants: icon (overlaid on product cards), full (product detail page)
+ */
+
+'use client'
+
+import { HeartIcon } from '@heroicons/react/24/outline'
+import { HeartIcon as HeartIconSolid } from '@heroicons/react/24/solid'
+import { useWishlist } from '@/hooks/useWishlist'
+import type { WishlistProduct } from '@/lib/types/wishlist'
+
+interface WishlistButtonProps {
+  product: WishlistProduct
+  variant?: 'icon' | 'full'
+  className?: string
+  style?: React.CSSProperties
+}
+
+function classNames(...classes: (string | boolean | undefined)[]) {
+  return classes.filter(Boolean).join(' ')
+}
+
+export function WishlistButton({ product, variant = 'icon', className, style }: WishlistButtonProps) {
+  const { isInWishlist, isPending, toggleItem } = useWishlist()
+  const isSaved = isInWishlist(product.id)
+  const Icon = isSaved ? HeartIconSolid : HeartIcon
+  const label = isSaved ? `Remove ${product.title} from wishlist` : `Save ${product.title} to wishlist`
+
+  const handleClick = (e: React.MouseEvent) => {
+    // Cards wrap the whole tile in a link
+    e.preventDefault()
+    e.stopPropagation()
+    toggleItem(product)
+  }
+
+  if (variant === 'full') {
+    return (
+      <button
+        type="button"
+        onClick={handleClick}
+        disabled={isPending(product.id)}
+        aria-pressed={isSaved}
+        aria-label={label}
+        className={classNames(
+          'flex items-center justify-center gap-2 rounded-md border border-gray-300 bg-white px-4 py-3 text-base font-medium text-gray-700 hover:bg-gray-50 cursor-pointer disabled:cursor-not-allowed disabled:opacity-50',
+          className
+        )}
+        style={style}
+      >
+        <Icon aria-hidden="true" className={classNames('size-6 shrink-0', isSaved ? 'text-red-500' : 'text-gray-400')} />
+        <span>{isSaved ? 'Saved' : 'Save'}</span>
+      </button>
+    )
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      disabled={isPending(product.id)}
+      aria-pressed={isSaved}
+      aria-label={label}
+      title={isSaved ? 'Remove from wishlist' : 'Save to wishlist'}
+      className={classNames(
+        'flex size-9 items-center justify-center rounded-full bg-white/90 shadow-sm hover:bg-white cursor-pointer disabled:cursor-not-allowed',
+        className
+      )}
+      style={style}
+    >
+      <Icon aria-hidden="true" className={classNames('size-5', isSaved ? 'text-red-500' : 'text-gray-500 hover:text-gray-700')} />
+    </button>
+  )
+}
@@ -76,6 +76,32 @@ describe('useBreadcrumbs Hook', () => {
     });
   });
 
+  describe('Search Route', () => {
+    it('should return Home and Search for /search', () => {
+      mockPathname.mockReturnValue('/search');
+
+      const { result } = renderHook(() => useBreadcrumbs());
+
+      expect(result.current).toEqual([
+        { name: 'Home', href: '/' },
+        { name: 'Search', href: '/search' },
+      ]);
+    });
+  });
+
+  describe('Wishlist Route', () => {
+    it('should return Home and Wishlist for /wishlist', () => {
+      mockPathname.mockReturnValue('/wishlist');
+
+      const { result } = renderHook(() => useBreadcrumbs());
+
+      expect(result.current).toEqual([
+        { name: 'Home', href: '/' },
+        { name: 'Wishlist', href: '/wishlist' },
+      ]);
+    });
+  });
+
   describe('Product Detail Route', () => {
     it('should return Home and Shop All for product detail without category', () => {
       mockPathname.mockReturnValue('/products/123');
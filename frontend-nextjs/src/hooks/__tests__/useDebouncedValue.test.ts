@@ -0,0 +1,55 @@
+/**
+ * useDebouncedValue Hook Tests
+ * Tests the value only updates once input settles
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useDebouncedValue } from '../useDebouncedValue';
+
+describe('useDebouncedValue Hook', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should return the initial value immediately', () => {
+    const { result } = renderHook(() => useDebouncedValue('dress', 250));
+
+    expect(result.current).toBe('dress');
+  });
+
+  it('should only emit the last value after the wait', () => {
+    const { result, rerender } = renderHook(({ value }) => useDebouncedValue(value, 250), {
+      initialProps: { value: '' },
+    });
+
+    rerender({ value: 'p' });
+    rerender({ value: 'pe' });
+    rerender({ value: 'perfume' });
+
+    act(() => {
+      vi.advanceTimersByTime(249);
+    });
+    expect(result.current).toBe('');
+
+    act(() => {
+      vi.advanceTimersByTime(1);
+    });
+    expect(result.current).toBe('perfume');
+  });
+
+  it('should drop a pending update on unmount', () => {
+    const { rerender, unmount } = renderHook(({ value }) => useDebouncedValue(value, 250), {
+      initialProps: { value: 'a' },
+    });
+
+    rerender({ value: 'ab' });
+    unmount();
+
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
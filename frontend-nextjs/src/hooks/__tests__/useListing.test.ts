@@ -0,0 +1,121 @@
+/**
+ * useListing Hook Tests
+ * Tests the listing engine requests the right endpoint and pages,
+ * in both numbered and infinite pagination modes
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createElement, type ReactNode } from 'react';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { useListing } from '../useListing';
+import type { ListingPage } from '@/lib/types/listing';
+import type { Product } from '@/lib/types/products';
+
+// Mock next/navigation
+let mockSearchParams = new URLSearchParams();
+
+vi.mock('next/navigation', () => ({
+  useRouter: () => ({ push: vi.fn(), replace: vi.fn() }),
+  usePathname: () => '/collections/beauty',
+  useSearchParams: () => mockSearchParams,
+}));
+
+const createProduct = (id: number) => ({ id, price: 10, rating: 4, tags: [] }) as unknown as Product;
+
+const products = [1, 2, 3, 4, 5].map(createProduct);
+
+// Respond like the listing API: slice the requested page from the fixture
+const mockFetch = vi.fn(async (url: string) => {
+  const { searchParams } = new URL(url, 'http://localhost');
+  const limit = Number(searchParams.get('limit'));
+  const skip = Number(searchParams.get('skip'));
+  const page: ListingPage = {
+    products: products.slice(skip, skip + limit),
+    total: products.length,
+    skip,
+    limit,
+    facets: [],
+  };
+  return { ok: true, json: async () => page };
+});
+
+function createWrapper() {
+  const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+  return ({ children }: { children: ReactNode }) =>
+    createElement(QueryClientProvider, { client: queryClient }, children);
+}
+
+const ids = (list: Product[]) => list.map((product) => product.id);
+
+describe('useListing Hook', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSearchParams = new URLSearchParams();
+    vi.stubGlobal('fetch', mockFetch);
+  });
+
+  it('should request one page of the collection with filters and offset', async () => {
+    mockSearchParams = new URLSearchParams('brands=Essence&sort=price-low&page=2');
+
+    const { result } = renderHook(
+      () => useListing({ source: { type: 'collection', slug: 'beauty' }, pageSize: 2, mode: 'numbered' }),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    expect(mockFetch).toHaveBeenCalledWith('/api/collections/beauty?brands=Essence&sort=price-low&limit=2&skip=2');
+    expect(ids(result.current.products)).toEqual([3, 4]);
+    expect(result.current.totalResults).toBe(5);
+    expect(result.current.page).toBe(2);
+    expect(result.current.totalPages).toBe(3);
+    expect(result.current.hasNextPage).toBe(false);
+  });
+
+  it('should request the catalog endpoint for a catalog source', async () => {
+    const { result } = renderHook(
+      () => useListing({ source: { type: 'catalog' }, pageSize: 2, mode: 'numbered' }),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    expect(mockFetch).toHaveBeenCalledWith('/api/products?limit=2&skip=0');
+  });
+
+  it('should append pages in infinite mode until every product is loaded', async () => {
+    const { result } = renderHook(
+      () => useListing({ source: { type: 'catalog' }, pageSize: 2, mode: 'infinite' }),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(ids(result.current.products)).toEqual([1, 2]);
+    expect(result.current.hasNextPage).toBe(true);
+
+    act(() => {
+      result.current.fetchNextPage();
+    });
+    await waitFor(() => expect(result.current.products).toHaveLength(4));
+
+    act(() => {
+      result.current.fetchNextPage();
+    });
+    await waitFor(() => expect(result.current.products).toHaveLength(5));
+
+    expect(result.current.hasNextPage).toBe(false);
+    expect(mockFetch).toHaveBeenLastCalledWith('/api/products?limit=2&skip=4');
+  });
+
+  it('should surface fetch errors', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: false, json: async () => ({}) as ListingPage });
+
+    const { result } = renderHook(
+      () => useListing({ source: { type: 'collection', slug: 'beauty' }, mode: 'numbered' }),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => expect(result.current.error).toBe('Failed to fetch products'));
+  });
+});
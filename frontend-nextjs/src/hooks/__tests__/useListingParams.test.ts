@@ -0,0 +1,125 @@
+/**
+ * useListingParams Hook Tests
+ * Tests listing state is read from and written to the URL
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useListingParams } from '../useListingParams';
+
+// Mock next/navigation
+const mockPush = vi.fn();
+const mockReplace = vi.fn();
+let mockSearchParams = new URLSearchParams();
+
+vi.mock('next/navigation', () => ({
+  useRouter: () => ({ push: mockPush, replace: mockReplace }),
+  usePathname: () => '/collections/beauty',
+  useSearchParams: () => mockSearchParams,
+}));
+
+describe('useListingParams Hook', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSearchParams = new URLSearchParams();
+  });
+
+  it('should expose state parsed from the URL', () => {
+    mockSearchParams = new URLSearchParams('tags=lipstick&sort=price-low&minPrice=5&page=2');
+
+    const { result } = renderHook(() => useListingParams());
+
+    expect(result.current.tags).toEqual(new Set(['lipstick']));
+    expect(result.current.sort).toBe('price-low');
+    expect(result.current.minPrice).toBe(5);
+    expect(result.current.page).toBe(2);
+    expect(result.current.hasActiveFilters).toBe(true);
+  });
+
+  it('should replace the URL and reset the page when a tag is toggled', () => {
+    mockSearchParams = new URLSearchParams('tags=lipstick&page=3');
+
+    const { result } = renderHook(() => useListingParams());
+
+    act(() => {
+      result.current.toggleTag('beauty');
+    });
+
+    expect(mockReplace).toHaveBeenCalledWith('/collections/beauty?tags=beauty%2Clipstick', { scroll: false });
+    expect(mockPush).not.toHaveBeenCalled();
+  });
+
+  it('should remove a tag that is already selected', () => {
+    mockSearchParams = new URLSearchParams('tags=lipstick');
+
+    const { result } = renderHook(() => useListingParams());
+
+    act(() => {
+      result.current.toggleTag('lipstick');
+    });
+
+    expect(mockReplace).toHaveBeenCalledWith('/collections/beauty', { scroll: false });
+  });
+
+  it('should write sort and price range changes', () => {
+    const { result } = renderHook(() => useListingParams());
+
+    act(() => {
+      result.current.setSort('rating-high');
+    });
+    expect(mockReplace).toHaveBeenLastCalledWith('/collections/beauty?sort=rating-high', { scroll: false });
+
+    act(() => {
+      result.current.setPriceRange(10, 50);
+    });
+    expect(mockReplace).toHaveBeenLastCalledWith('/collections/beauty?minPrice=10&maxPrice=50', { scroll: false });
+  });
+
+  it('should toggle facet options and the tag match mode', () => {
+    mockSearchParams = new URLSearchParams('tags=lipstick&rating=4&page=2');
+
+    const { result } = renderHook(() => useListingParams());
+
+    act(() => {
+      result.current.toggleFacet('brand', 'Essence');
+    });
+    expect(mockReplace).toHaveBeenLastCalledWith(
+      '/collections/beauty?tags=lipstick&brands=Essence&rating=4',
+      { scroll: false }
+    );
+
+    act(() => {
+      result.current.toggleFacet('rating', '4');
+    });
+    expect(mockReplace).toHaveBeenLastCalledWith('/collections/beauty?tags=lipstick', { scroll: false });
+
+    act(() => {
+      result.current.setTagMode('all');
+    });
+    expect(mockReplace).toHaveBeenLastCalledWith('/collections/beauty?tags=lipstick&tagMode=all&rating=4', { scroll: false });
+  });
+
+  it('should push a history entry for page changes', () => {
+    mockSearchParams = new URLSearchParams('sort=price-high');
+
+    const { result } = renderHook(() => useListingParams());
+
+    act(() => {
+      result.current.setPage(2);
+    });
+
+    expect(mockPush).toHaveBeenCalledWith('/collections/beauty?sort=price-high&page=2');
+  });
+
+  it('should clear filters but keep unrelated params', () => {
+    mockSearchParams = new URLSearchParams('utm_source=email&tags=lipstick&sort=price-low&maxPrice=20');
+
+    const { result } = renderHook(() => useListingParams());
+
+    act(() => {
+      result.current.clearFilters();
+    });
+
+    expect(mockReplace).toHaveBeenCalledWith('/collections/beauty?utm_source=email', { scroll: false });
+  });
+});
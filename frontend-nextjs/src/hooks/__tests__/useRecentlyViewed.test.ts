@@ -0,0 +1,85 @@
+/**
+ * useRecentlyViewed Hook Tests
+ * Tests the rail looks up the stored history, excludes the current
+ * product and prunes products that no longer exist
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createElement, type ReactNode } from 'react';
+import { renderHook, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { useRecentlyViewed } from '../useRecentlyViewed';
+import { useRecentlyViewedStore } from '@/lib/store/recently-viewed';
+import type { Product } from '@/lib/types/products';
+
+const createProduct = (id: number) => ({ id, title: `Product ${id}` }) as unknown as Product;
+
+// Respond like the products API: every ID exists except 404s
+const mockFetch = vi.fn(async (url: string) => {
+  const { searchParams } = new URL(url, 'http://localhost');
+  const ids = (searchParams.get('ids') ?? '').split(',').map(Number);
+  return {
+    ok: true,
+    json: async () => ({
+      products: ids.filter((id) => id !== 404).map(createProduct),
+      missingIds: ids.filter((id) => id === 404),
+    }),
+  };
+});
+
+function createWrapper() {
+  const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+  return ({ children }: { children: ReactNode }) =>
+    createElement(QueryClientProvider, { client: queryClient }, children);
+}
+
+describe('useRecentlyViewed Hook', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+    useRecentlyViewedStore.getState().clearHistory();
+    vi.stubGlobal('fetch', mockFetch);
+  });
+
+  it('should not fetch when there is no history', () => {
+    const { result } = renderHook(() => useRecentlyViewed(), { wrapper: createWrapper() });
+
+    expect(result.current.products).toEqual([]);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should look up recent products, excluding the current one', async () => {
+    useRecentlyViewedStore.setState({ productIds: [5, 4, 3, 2, 1] });
+
+    const { result } = renderHook(() => useRecentlyViewed({ excludeProductId: 4, limit: 3 }), {
+      wrapper: createWrapper(),
+    });
+
+    await waitFor(() => expect(result.current.products).toHaveLength(3));
+
+    expect(mockFetch).toHaveBeenCalledWith('/api/products?ids=5,3,2');
+    expect(result.current.products.map((product) => product.id)).toEqual([5, 3, 2]);
+  });
+
+  it('should prune products that no longer exist', async () => {
+    useRecentlyViewedStore.setState({ productIds: [2, 404, 1] });
+
+    const { result } = renderHook(() => useRecentlyViewed(), { wrapper: createWrapper() });
+
+    await waitFor(() => expect(useRecentlyViewedStore.getState().productIds).toEqual([2, 1]));
+    expect(result.current.products.map((product) => product.id)).toEqual([2, 1]);
+  });
+
+  it('should keep the stored history when recording a view', async () => {
+    localStorage.setItem('recently-viewed', JSON.stringify({ state: { productIds: [1, 2] }, version: 0 }));
+
+    // Fresh modules so the store hasn't been hydrated yet, as on a page load
+    vi.resetModules();
+    const { useRecordProductView } = await import('../useRecentlyViewed');
+    const { useRecentlyViewedStore } = await import('@/lib/store/recently-viewed');
+
+    renderHook(() => useRecordProductView(3));
+
+    await waitFor(() => expect(useRecentlyViewedStore.getState().productIds).toEqual([3, 1, 2]));
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * useWishlist Hook Integration Tests
+ * Tests for wishlist toggles with optimistic updates and per-product rollback
+ */
+
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { renderHook, waitFor, act } from '@testing-library/react';
+import { useWishlist } from '../useWishlist';
+import { useWishlistStore } from '../../lib/store/wishlist';
+import type { Wishlist, WishlistItem, WishlistProduct } from '../../lib/types/wishlist';
+import * as toast from 'react-hot-toast';
+
+// Mock react-hot-toast
+vi.mock('react-hot-toast', () => ({
+  toast: {
+    error: vi.fn(),
+    success: vi.fn(),
+  },
+}));
+
+// Helper to create a mock product
+const createMockProduct = (id: number): WishlistProduct => ({
+  id,
+  title: `Product ${id}`,
+  price: 10.00,
+  thumbnail: `https://example.com/thumb${id}.jpg`,
+  brand: 'Test Brand',
+  category: 'test-category',
+});
+
+// Helper to create a mock wishlist item (newer items get later timestamps)
+const createMockItem = (id: number): WishlistItem => ({
+  product_id: id,
+  title: `Product ${id}`,
+  price: 1000, // $10 in cents
+  image: `https://example.com/thumb${id}.jpg`,
+  added_at: new Date(Date.UTC(2025, 0, id)).toISOString(),
+});
+
+// Helper to create a mock wishlist response (newest first)
+const createMockWishlist = (productIds: number[]): Wishlist => ({
+  items: productIds.map(createMockItem),
+  count: productIds.length,
+});
+
+// Helper to mock a JSON fetch response
+const jsonResponse = (data: unknown, ok = true) => ({
+  ok,
+  json: async () => data,
+});
+
+describe('useWishlist Hook', () => {
+  beforeEach(() => {
+    // Reset store before each test
+    useWishlistStore.getState().clearWishlist();
+
+    // Clear all mocks
+    vi.clearAllMocks();
+
+    // Mock fetch globally
+    global.fetch = vi.fn();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('Loading', () => {
+    it('should fetch the wishlist once on mount', async () => {
+      (global.fetch as any).mockResolvedValue(jsonResponse(createMockWishlist([2, 1])));
+
+      const { result } = renderHook(() => useWishlist());
+
+      await waitFor(() => {
+        expect(result.current.count).toBe(2);
+      });
+      expect(global.fetch).toHaveBeenCalledWith('/api/wishlist', expect.objectContaining({ credentials: 'include' }));
+    });
+
+    it('should not refetch when more components mount', async () => {
+      (global.fetch as any).mockResolvedValue(jsonResponse(createMockWishlist([1])));
+
+      const { result } = renderHook(() => useWishlist());
+      await waitFor(() => {
+        expect(result.current.count).toBe(1);
+      });
+
+      renderHook(() => useWishlist());
+      renderHook(() => useWishlist());
+
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('addItem', () => {
+    it('should save optimistically and apply the server response', async () => {
+      useWishlistStore.getState().setWishlist(createMockWishlist([]));
+      (global.fetch as any).mockResolvedValueOnce(jsonResponse(createMockWishlist([1])));
+
+      const { result } = renderHook(() => useWishlist());
+
+      let saved = false;
+      await act(async () => {
+        saved = await result.current.addItem(createMockProduct(1));
+      });
+
+      expect(saved).toBe(true);
+      expect(result.current.isInWishlist(1)).toBe(true);
+      expect(result.current.items[0].price).toBe(1000);
+      expect(global.fetch).toHaveBeenCalledWith(
+        '/api/wishlist',
+        expect.objectContaining({
+          method: 'POST',
+          body: expect.stringContaining('"product"'),
+        })
+      );
+    });
+
+    it('should roll back and show error when saving fails', async () => {
+      useWishlistStore.getState().setWishlist(createMockWishlist([2]));
+      (global.fetch as any).mockResolvedValueOnce(jsonResponse({}, false));
+
+      const { result } = renderHook(() => useWishlist());
+
+      let saved = true;
+      await act(async () => {
+        saved = await result.current.addItem(createMockProduct(1));
+      });
+
+      expect(saved).toBe(false);
+      expect(result.current.isInWishlist(1)).toBe(false);
+      expect(result.current.isInWishlist(2)).toBe(true);
+      expect(toast.toast.error).toHaveBeenCalledWith('Failed to save item to wishlist');
+    });
+  });
+
+  describe('removeItem', () => {
+    it('should restore the item in its original position when removal fails', async () => {
+      useWishlistStore.getState().setWishlist(createMockWishlist([3, 2, 1]));
+      (global.fetch as any).mockResolvedValueOnce(jsonResponse({}, false));
+
+      const { result } = renderHook(() => useWishlist());
+
+      await act(async () => {
+        await result.current.removeItem(2);
+      });
+
+      expect(result.current.items.map((i) => i.product_id)).toEqual([3, 2, 1]);
+      expect(toast.toast.error).toHaveBeenCalledWith('Failed to remove item from wishlist');
+    });
+  });
+
+  describe('toggleItem', () => {
+    it('should remove a saved product and save an unsaved one', async () => {
+      useWishlistStore.getState().setWishlist(createMockWishlist([1]));
+      (global.fetch as any)
+        .mockResolvedValueOnce(jsonResponse(createMockWishlist([])))
+        .mockResolvedValueOnce(jsonResponse(createMockWishlist([2])));
+
+      const { result } = renderHook(() => useWishlist());
+
+      await act(async () => {
+        await result.current.toggleItem(createMockProduct(1));
+      });
+      expect(global.fetch).toHaveBeenLastCalledWith('/api/wishlist/1', expect.objectContaining({ method: 'DELETE' }));
+      expect(result.current.isInWishlist(1)).toBe(false);
+
+      await act(async () => {
+        await result.current.toggleItem(createMockProduct(2));
+      });
+      expect(result.current.isInWishlist(2)).toBe(true);
+    });
+
+    it('should keep concurrent optimistic saves when an earlier response lands first', async () => {
+      useWishlistStore.getState().setWishlist(createMockWishlist([]));
+
+      let resolveFirst: (value: unknown) => void = () => {};
+      (global.fetch as any)
+        .mockImplementationOnce(() => new Promise((resolve) => { resolveFirst = resolve; }))
+        .mockResolvedValueOnce(jsonResponse(createMockWishlist([2, 1])));
+
+      const { result } = renderHook(() => useWishlist());
+
+      let first: Promise<boolean> = Promise.resolve(false);
+      act(() => {
+        first = result.current.addItem(createMockProduct(1));
+      });
+      act(() => {
+        result.current.addItem(createMockProduct(2));
+      });
+
+      // Response for product 1 only knows about product 1; product 2 is still in flight
+      await act(async () => {
+        resolveFirst(jsonResponse(createMockWishlist([1])));
+        await first;
+      });
+
+      await waitFor(() => {
+        expect(result.current.isInWishlist(1)).toBe(true);
+        expect(result.current.isInWishlist(2)).toBe(true);
+      });
+    });
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * useAccount Hook
+ * Signed-in account with React Query, plus sign-in and profile actions
+ *
+ * Signing in or out changes whose cart the BFF serves (a guest's cart is
+ * merged into the account's on sign-in), so the cart store is reloaded
+ * afterwards.
+ */
+
+'use client';
+
+import { useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useCartStore } from '@/lib/store/cart';
+import type { Account, AccountFieldErrors, MagicLinkRequest, RegisterRequest, SignInRequest } from '@/lib/types/account';
+import type { ApiResponse, Cart } from '@/lib/types/cart';
+
+export const accountQueryKey = ['account'] as const;
+export const accountOrdersQueryKey = ['account', 'orders'] as const;
+
+/**
+ * Failed account request, with field errors from the BFF
+ */
+export class AccountRequestError extends Error {
+  constructor(
+    message: string,
+    public fields: AccountFieldErrors = {}
+  ) {
+    super(message);
+    this.name = 'AccountRequestError';
+  }
+}
+
+/**
+ * Fetch the signed-in account from API
+ * Resolves to null when signed out
+ */
+async function fetchAccount(): Promise<Account | null> {
+  const response = await fetch('/api/account', { credentials: 'include' });
+
+  if (response.status === 401) {
+    return null;
+  }
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch account');
+  }
+
+  return response.json();
+}
+
+/**
+ * Send a JSON request to an account endpoint
+ * @throws AccountRequestError with the BFF's message and field errors
+ */
+export async function sendAccountRequest<T>(url: string, method: string, body?: unknown): Promise<T> {
+  const response = await fetch(url, {
+    method,
+    credentials: 'include',
+    headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const result: ApiResponse<T> = await response.json().catch(() => ({}));
+    throw new AccountRequestError(result.error?.message ?? 'Something went wrong', result.error?.fields);
+  }
+
+  return response.status === 204 ? (undefined as T) : response.json();
+}
+
+/**
+ * Reload the cart into the client store
+ */
+async function reloadCart(): Promise<void> {
+  const response = await fetch('/api/cart', { credentials: 'include' });
+
+  if (response.ok) {
+    const cart: Cart = await response.json();
+    useCartStore.getState().setCart(cart);
+  }
+}
+
+export interface UseAccountReturn {
+  account: Account | null;
+  isSignedIn: boolean;
+  isLoading: boolean;
+
+  // Actions (reject with AccountRequestError)
+  signIn: (request: SignInRequest) => Promise<Account>;
+  register: (request: RegisterRequest) => Promise<Account>;
+  requestMagicLink: (request: MagicLinkRequest) => Promise<void>;
+  signOut: () => Promise<void>;
+  updateProfile: (profile: Pick<Account, 'name'>) => Promise<Account>;
+}
+
+export function useAccount(): UseAccountReturn {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: accountQueryKey,
+    queryFn: fetchAccount,
+    staleTime: 60 * 1000,
+  });
+
+  const completeSignIn = useCallback(async (account: Account) => {
+    queryClient.setQueryData(accountQueryKey, account);
+    await reloadCart();
+    return account;
+  }, [queryClient]);
+
+  const signIn = useCallback(
+    async (request: SignInRequest) =>
+      completeSignIn(await sendAccountRequest<Account>('/api/auth/sign-in', 'POST', request)),
+    [completeSignIn]
+  );
+
+  const register = useCallback(
+    async (request: RegisterRequest) =>
+      completeSignIn(await sendAccountRequest<Account>('/api/auth/register', 'POST', request)),
+    [completeSignIn]
+  );
+
+  const requestMagicLink = useCallback(async (request: MagicLinkRequest) => {
+    await sendAccountRequest('/api/auth/magic-link', 'POST', request);
+  }, []);
+
+  const signOut = useCallback(async () => {
+    await sendAccountRequest('/api/auth/sign-out', 'POST');
+
+    queryClient.setQueryData(accountQueryKey, null);
+    queryClient.removeQueries({ queryKey: accountOrdersQueryKey });
+    await reloadCart();
+  }, [queryClient]);
+
+  const updateProfile = useCallback(async (profile: Pick<Account, 'name'>) => {
+    const account = await sendAccountRequest<Account>('/api/account', 'PATCH', profile);
+    queryClient.setQueryData(accountQueryKey, account);
+    return account;
+  }, [queryClient]);
+
+  return {
+    account: data ?? null,
+    isSignedIn: Boolean(data),
+    isLoading,
+    signIn,
+    register,
+    requestMagicLink,
+    signOut,
+    updateProfile,
+  };
+}
@@ -0,0 +1,44 @@
+/**
+ * useAccountOrders Hook
+ * Fetches the signed-in account's order history with React Query
+ */
+
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { accountOrdersQueryKey } from './useAccount';
+import type { Order } from '@/lib/types/orders';
+
+/**
+ * Fetch order history from API
+ */
+async function fetchAccountOrders(): Promise<Order[]> {
+  const response = await fetch('/api/account/orders', { credentials: 'include' });
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch order history');
+  }
+
+  return response.json();
+}
+
+export interface UseAccountOrdersReturn {
+  orders: Order[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+export function useAccountOrders(enabled = true): UseAccountOrdersReturn {
+  const { data, isLoading, error } = useQuery({
+    queryKey: accountOrdersQueryKey,
+    queryFn: fetchAccountOrders,
+    enabled,
+    staleTime: 60 * 1000,
+  });
+
+  return {
+    orders: data ?? [],
+    isLoading,
+    error: error instanceof Error ? error.message : null,
+  };
+}
@@ -0,0 +1,93 @@
+/**
+ * useAddressBook Hook
+ * Saved shipping and billing addresses of the signed-in account
+ *
+ * Addresses are part of the account record, so changes are written back
+ * into the account query rather than refetched. Defaults are settled with
+ * the same rule the BFF applies.
+ */
+
+'use client';
+
+import { useCallback, useMemo } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { accountQueryKey, sendAccountRequest, useAccount } from './useAccount';
+import { getAddressesOfKind, resolveDefaultAddresses } from '@/utils/addresses';
+import type { Account, SaveAddressRequest, SavedAddress } from '@/lib/types/account';
+
+export interface UseAddressBookReturn {
+  addresses: SavedAddress[];
+  // Per kind, default first
+  shippingAddresses: SavedAddress[];
+  billingAddresses: SavedAddress[];
+  isLoading: boolean;
+
+  // Actions (reject with AccountRequestError)
+  addAddress: (address: SaveAddressRequest) => Promise<SavedAddress>;
+  updateAddress: (addressId: string, changes: Partial<SaveAddressRequest>) => Promise<SavedAddress>;
+  setDefaultAddress: (addressId: string) => Promise<SavedAddress>;
+  removeAddress: (addressId: string) => Promise<void>;
+}
+
+function addressUrl(addressId: string): string {
+  return `/api/account/addresses/${encodeURIComponent(addressId)}`;
+}
+
+export function useAddressBook(): UseAddressBookReturn {
+  const queryClient = useQueryClient();
+  const { account, isLoading } = useAccount();
+  const addresses = useMemo(() => account?.addresses ?? [], [account]);
+
+  const updateAddresses = useCallback((update: (addresses: SavedAddress[]) => SavedAddress[]) => {
+    queryClient.setQueryData<Account | null>(accountQueryKey, (current) =>
+      current ? { ...current, addresses: update(current.addresses) } : current
+    );
+  }, [queryClient]);
+
+  // Put a saved address into the cache, letting it take over as default
+  const storeAddress = useCallback((saved: SavedAddress) => {
+    updateAddresses((current) => {
+      const exists = current.some((address) => address.id === saved.id);
+      const next = exists
+        ? current.map((address) => (address.id === saved.id ? saved : address))
+        : [...current, saved];
+
+      return resolveDefaultAddresses(next, saved.isDefault ? saved.id : undefined);
+    });
+  }, [updateAddresses]);
+
+  const addAddress = useCallback(async (address: SaveAddressRequest) => {
+    const saved = await sendAccountRequest<SavedAddress>('/api/account/addresses', 'POST', address);
+    storeAddress(saved);
+    return saved;
+  }, [storeAddress]);
+
+  const updateAddress = useCallback(async (addressId: string, changes: Partial<SaveAddressRequest>) => {
+    const saved = await sendAccountRequest<SavedAddress>(addressUrl(addressId), 'PATCH', changes);
+    storeAddress(saved);
+    return saved;
+  }, [storeAddress]);
+
+  const setDefaultAddress = useCallback(
+    (addressId: string) => updateAddress(addressId, { isDefault: true }),
+    [updateAddress]
+  );
+
+  const removeAddress = useCallback(async (addressId: string) => {
+    await sendAccountRequest(addressUrl(addressId), 'DELETE');
+    updateAddresses((current) =>
+      resolveDefaultAddresses(current.filter((address) => address.id !== addressId))
+    );
+  }, [updateAddresses]);
+
+  return {
+    addresses,
+    shippingAddresses: useMemo(() => getAddressesOfKind(addresses, 'shipping'), [addresses]),
+    billingAddresses: useMemo(() => getAddressesOfKind(addresses, 'billing'), [addresses]),
+    isLoading,
+    addAddress,
+    updateAddress,
+    setDefaultAddress,
+    removeAddress,
+  };
+}
@@ -5,7 +5,7 @@
 
 'use client'
 
-import { usePathname } from 'next/navigation'
+import { usePathname } from '@/lib/i18n/navigation'
 import { categoryDisplayNames, getCategorySection } from '@/lib/cms'
 import { kebabToTitleCase } from '@/utils/format'
 
@@ -33,6 +33,18 @@ export function useBreadcrumbs(options: UseBreadcrumbsOptions = {}): Breadcrumb[
     return breadcrumbs
   }
 
+  // Handle /search route
+  if (pathname === '/search') {
+    breadcrumbs.push({ name: 'Search', href: '/search' })
+    return breadcrumbs
+  }
+
+  // Handle /wishlist route
+  if (pathname === '/wishlist') {
+    breadcrumbs.push({ name: 'Wishlist', href: '/wishlist' })
+    return breadcrumbs
+  }
+
   // Handle /products/[id] route
   if (pathname.startsWith('/products/') && pathname !== '/products') {
     breadcrumbs.push({ name: 'Shop All', href: '/products' })
@@ -9,9 +9,12 @@ import { useEffect, useCallback, useMemo, startTransition } from 'react';
 import { useCartStore } from '@/lib/store/cart';
 import type { Product } from '@/lib/types/products';
 import type { Cart, CartLineItem } from '@/lib/types/cart';
+import type { AppliedPromotion } from '@/lib/types/promotions';
 import { toast } from 'react-hot-toast';
 import { createDebouncedMap } from '@/utils/debounce';
 import { cartConfig } from '@/lib/config/cart';
+import { evaluatePromotions } from '@/lib/services/promotions';
+import { useTranslations } from './useTranslations';
 import md5 from 'md5';
 
 /**
@@ -29,6 +32,9 @@ export interface UseCartReturn {
   // Cart data
   items: CartLineItem[];
   subtotal: number;
+  discount: number;
+  promoCode: string | null;
+  promotions: AppliedPromotion[];
   currency: string;
   itemCount: number;
 
@@ -47,6 +53,8 @@ export interface UseCartReturn {
   openCart: () => void;
   closeCart: () => void;
   toggleCart: () => void;
+  applyPromoCode: (code: string) => Promise<boolean>;
+  removePromoCode: () => Promise<void>;
 
   // Per-item loading state
   isItemLoading: (lineId: string) => boolean;
@@ -56,6 +64,9 @@ export function useCart(): UseCartReturn {
   const {
     items,
     subtotal,
+    discount,
+    promoCode,
+    promotions,
     currency,
     isLoading,
     error,
@@ -74,6 +85,7 @@ export function useCart(): UseCartReturn {
     rollbackState,
     clearSnapshot,
   } = useCartStore();
+  const { t } = useTranslations();
 
   /**
    * Fetch cart from API
@@ -88,39 +100,51 @@ export function useCart(): UseCartReturn {
       });
 
       if (!response.ok) {
-        throw new Error('Failed to fetch cart');
+        throw new Error(t('cart.fetchFailed'));
       }
 
       const cart: Cart = await response.json();
       setCart(cart);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to fetch cart');
+      setError(err instanceof Error ? err.message : t('cart.fetchFailed'));
     } finally {
       setLoading(false);
     }
-  }, [setCart, setLoading, setError]);
+  }, [setCart, setLoading, setError, t]);
 
   /**
-   * Update quantity optimistically (immediate UI update, no API call)
+   * Build an optimistic cart from updated items
+   * Recomputes subtotal and promotions with the same rules engine as the BFF
    */
-  const updateQuantityImmediate = useCallback((lineId: string, quantity: number) => {
-    const updatedItems = items.map((i) =>
-      i.line_id === lineId
-        ? { ...i, quantity, line_total: i.price * quantity }
-        : i
-    );
-
+  const buildOptimisticCart = useCallback((updatedItems: CartLineItem[]): Cart => {
     const newSubtotal = updatedItems.reduce(
       (sum, i) => sum + i.line_total,
       0
     );
+    const { discount: newDiscount, applied } = evaluatePromotions(updatedItems, { code: promoCode });
 
-    setCart({
+    return {
       items: updatedItems,
       subtotal: newSubtotal,
+      discount: newDiscount,
+      promo_code: promoCode,
+      promotions: applied,
       currency,
-    });
-  }, [items, currency, setCart]);
+    };
+  }, [promoCode, currency]);
+
+  /**
+   * Update quantity optimistically (immediate UI update, no API call)
+   */
+  const updateQuantityImmediate = useCallback((lineId: string, quantity: number) => {
+    const updatedItems = items.map((i) =>
+      i.line_id === lineId
+        ? { ...i, quantity, line_total: i.price * quantity }
+        : i
+    );
+
+    setCart(buildOptimisticCart(updatedItems));
+  }, [items, buildOptimisticCart, setCart]);
 
   /**
    * Update quantity via API (debounced, with loading state and rollback)
@@ -145,7 +169,7 @@ export function useCart(): UseCartReturn {
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.message || 'Failed to update quantity');
+        throw new Error(errorData.message || t('cart.updateFailed'));
       }
 
       const cart: Cart = await response.json();
@@ -166,14 +190,14 @@ export function useCart(): UseCartReturn {
     } catch (err) {
       // Only rollback and show error for actual failures (network errors, server errors)
       rollbackState();
-      const errorMessage = err instanceof Error ? err.message : 'Failed to update quantity';
+      const errorMessage = err instanceof Error ? err.message : t('cart.updateFailed');
       toast.error(errorMessage);
       setError(errorMessage);
     } finally {
       // Remove loading state
       removeLoadingItem(lineId);
     }
-  }, [setCartIfCurrent, setError, rollbackState, clearSnapshot, addLoadingItem, removeLoadingItem]);
+  }, [setCartIfCurrent, setError, rollbackState, clearSnapshot, addLoadingItem, removeLoadingItem, t]);
 
   /**
    * Create debounced API update function per cart item
@@ -233,13 +257,7 @@ export function useCart(): UseCartReturn {
         ? items.map((i) => (i.line_id === lineId ? optimisticItem : i))
         : [...items, optimisticItem];
 
-      const newSubtotal = updatedItems.reduce((sum, i) => sum + i.line_total, 0);
-
-      setCart({
-        items: updatedItems,
-        subtotal: newSubtotal,
-        currency,
-      });
+      setCart(buildOptimisticCart(updatedItems));
 
       // Capture version after optimistic update (for race condition prevention)
       const expectedVersion = useCartStore.getState().stateVersion; // Get fresh version from store
@@ -264,7 +282,7 @@ export function useCart(): UseCartReturn {
         });
 
         if (!response.ok) {
-          throw new Error('Failed to add item to cart');
+          throw new Error(t('cart.addFailed'));
         }
 
         const cart: Cart = await response.json();
@@ -285,14 +303,14 @@ export function useCart(): UseCartReturn {
       } catch (err) {
         // Only rollback and show error for actual failures (network errors, server errors)
         rollbackState();
-        const errorMessage = err instanceof Error ? err.message : 'Failed to add item to cart';
+        const errorMessage = err instanceof Error ? err.message : t('cart.addFailed');
         toast.error(errorMessage);
         setError(errorMessage);
       } finally {
         removeLoadingItem(lineId);
       }
     },
-    [items, currency, setCart, setCartIfCurrent, setError, openCart, snapshotState, rollbackState, clearSnapshot, addLoadingItem, removeLoadingItem]
+    [items, buildOptimisticCart, setCart, setCartIfCurrent, setError, openCart, snapshotState, rollbackState, clearSnapshot, addLoadingItem, removeLoadingItem, t]
   );
 
   /**
@@ -304,13 +322,13 @@ export function useCart(): UseCartReturn {
       // Find the item to validate
       const item = items.find((i) => i.line_id === lineId);
       if (!item) {
-        toast.error('Item not found in cart');
+        toast.error(t('cart.itemNotFound'));
         return;
       }
 
       // Validate stock limit
       if (quantity > item.stock) {
-        toast.error(`Only ${item.stock} available`);
+        toast.error(t('cart.onlyAvailable', { count: item.stock }));
         return;
       }
 
@@ -331,7 +349,7 @@ export function useCart(): UseCartReturn {
       const debouncedUpdate = debouncedAPIUpdates.get(lineId);
       debouncedUpdate(quantity);
     },
-    [items, isItemLoading, snapshotState, updateQuantityImmediate, debouncedAPIUpdates]
+    [items, isItemLoading, snapshotState, updateQuantityImmediate, debouncedAPIUpdates, t]
   );
 
   /**
@@ -347,13 +365,8 @@ export function useCart(): UseCartReturn {
 
       // Optimistic UI update - remove item immediately
       const updatedItems = items.filter((i) => i.line_id !== lineId);
-      const newSubtotal = updatedItems.reduce((sum, i) => sum + i.line_total, 0);
 
-      setCart({
-        items: updatedItems,
-        subtotal: newSubtotal,
-        currency,
-      });
+      setCart(buildOptimisticCart(updatedItems));
 
       // Capture version after optimistic update (for race condition prevention)
       const expectedVersion = useCartStore.getState().stateVersion; // Get fresh version from store
@@ -369,7 +382,7 @@ export function useCart(): UseCartReturn {
         });
 
         if (!response.ok) {
-          throw new Error('Failed to remove item');
+          throw new Error(t('cart.removeFailed'));
         }
 
         const cart: Cart = await response.json();
@@ -390,14 +403,14 @@ export function useCart(): UseCartReturn {
       } catch (err) {
         // Only rollback and show error for actual failures (network errors, server errors)
         rollbackState();
-        const errorMessage = err instanceof Error ? err.message : 'Failed to remove item';
+        const errorMessage = err instanceof Error ? err.message : t('cart.removeFailed');
         toast.error(errorMessage);
         setError(errorMessage);
       } finally {
         removeLoadingItem(lineId);
       }
     },
-    [items, currency, setCart, setCartIfCurrent, setError, snapshotState, rollbackState, clearSnapshot, addLoadingItem, removeLoadingItem, debouncedAPIUpdates]
+    [items, buildOptimisticCart, setCart, setCartIfCurrent, setError, snapshotState, rollbackState, clearSnapshot, addLoadingItem, removeLoadingItem, debouncedAPIUpdates, t]
   );
 
   /**
@@ -410,13 +423,13 @@ export function useCart(): UseCartReturn {
 
       // Check stock limit before incrementing
       if (item.quantity >= item.stock) {
-        toast.error('Maximum stock reached');
+        toast.error(t('cart.maxStock'));
         return;
       }
 
       await updateQuantity(lineId, item.quantity + 1);
     },
-    [items, updateQuantity]
+    [items, updateQuantity, t]
   );
 
   /**
@@ -438,6 +451,67 @@ export function useCart(): UseCartReturn {
     [items, updateQuantity, removeItem]
   );
 
+  /**
+   * Apply a promo code to the cart
+   * Returns false (and shows the reason) if the code was rejected
+   */
+  const applyPromoCode = useCallback(
+    async (code: string) => {
+      try {
+        setError(null);
+
+        const response = await fetch('/api/cart/promo', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ code }),
+          credentials: 'include',
+        });
+
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
+          throw new Error(errorData.error?.message || t('cart.applyPromoFailed'));
+        }
+
+        const cart: Cart = await response.json();
+        setCart(cart);
+        toast.success(t('cart.promoApplied', { code: cart.promo_code ?? code }));
+        return true;
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : t('cart.applyPromoFailed');
+        toast.error(errorMessage);
+        return false;
+      }
+    },
+    [setCart, setError, t]
+  );
+
+  /**
+   * Remove the applied promo code
+   */
+  const removePromoCode = useCallback(async () => {
+    try {
+      setError(null);
+
+      const response = await fetch('/api/cart/promo', {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        throw new Error(t('cart.removePromoFailed'));
+      }
+
+      const cart: Cart = await response.json();
+      setCart(cart);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : t('cart.removePromoFailed');
+      toast.error(errorMessage);
+      setError(errorMessage);
+    }
+  }, [setCart, setError, t]);
+
   // Load cart on mount
   useEffect(() => {
     fetchCart();
@@ -450,6 +524,9 @@ export function useCart(): UseCartReturn {
     // Cart data
     items,
     subtotal,
+    discount,
+    promoCode,
+    promotions,
     currency,
     itemCount,
 
@@ -468,6 +545,8 @@ export function useCart(): UseCartReturn {
     openCart,
     closeCart,
     toggleCart,
+    applyPromoCode,
+    removePromoCode,
 
     // Per-item loading state
     isItemLoading,
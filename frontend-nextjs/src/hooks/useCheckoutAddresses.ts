@@ -0,0 +1,162 @@
+/**
+ * useCheckoutAddresses Hook
+ * Shipping and billing addresses for the checkout form
+ *
+ * One model backs both sections: each address is either a saved address
+ * (optionally being edited inline) or a new one typed at checkout, and the
+ * billing address follows the shipping address while "same as shipping" is
+ * on. Signed-in shoppers start from their default addresses, unless a
+ * resumed checkout restores the addresses picked before.
+ */
+
+'use client';
+
+import { useCallback, useState } from 'react';
+import { useAccount } from './useAccount';
+import { useAddressBook } from './useAddressBook';
+import { taxConfig } from '@/lib/config/tax';
+import { emptyAddress, getDefaultAddress, isSameAddress, toCheckoutAddress } from '@/utils/addresses';
+import type { AddressKind, SavedAddress } from '@/lib/types/account';
+import type { CheckoutAddress, CheckoutAddressEntry, CheckoutAddressesState } from '@/lib/types/checkout';
+
+export interface UseCheckoutAddressesReturn extends CheckoutAddressesState {
+  // Address the order bills to (the shipping address while same as shipping)
+  billingAddress: CheckoutAddress;
+  savedAddresses: Record<AddressKind, SavedAddress[]>;
+  canSave: boolean; // signed in, so addresses can go in the address book
+
+  selectAddress: (kind: AddressKind, savedId: string | null) => void;
+  changeAddress: (kind: AddressKind, address: CheckoutAddress) => void;
+  startEditing: (kind: AddressKind) => void;
+  cancelEditing: (kind: AddressKind) => void;
+  setSaveToBook: (kind: AddressKind, saveToBook: boolean) => void;
+  setBillingSameAsShipping: (sameAsShipping: boolean) => void;
+  restore: (state: CheckoutAddressesState) => void;
+
+  // Actions (reject with AccountRequestError)
+  saveEdits: (kind: AddressKind) => Promise<void>;
+  setAsDefault: (kind: AddressKind) => Promise<void>;
+  saveNewAddresses: () => Promise<void>;
+}
+
+function savedEntry(address: SavedAddress): CheckoutAddressEntry {
+  return { savedId: address.id, address: toCheckoutAddress(address), isEditing: false, saveToBook: false };
+}
+
+function newEntry(): CheckoutAddressEntry {
+  return { savedId: null, address: emptyAddress(taxConfig.defaultCountry), isEditing: false, saveToBook: true };
+}
+
+/**
+ * Start from the default addresses; billing follows shipping unless the
+ * default billing address is somewhere else
+ */
+function seedAddresses(addresses: SavedAddress[]): CheckoutAddressesState {
+  const shipping = getDefaultAddress(addresses, 'shipping');
+  const billing = getDefaultAddress(addresses, 'billing');
+
+  return {
+    shipping: shipping ? savedEntry(shipping) : newEntry(),
+    billing: billing ? savedEntry(billing) : newEntry(),
+    billingSameAsShipping: !billing || (shipping !== null && isSameAddress(billing, shipping)),
+  };
+}
+
+export function useCheckoutAddresses(): UseCheckoutAddressesReturn {
+  const { account } = useAccount();
+  const { addresses, shippingAddresses, billingAddresses, addAddress, updateAddress, setDefaultAddress } = useAddressBook();
+  const [state, setState] = useState<CheckoutAddressesState>(() => seedAddresses([]));
+  const [seededFor, setSeededFor] = useState<string | null>(null);
+  const [isRestored, setIsRestored] = useState(false);
+
+  // Pre-fill once the account loads (and again if a different one signs in)
+  const accountId = account?.id ?? null;
+  if (accountId !== seededFor) {
+    setSeededFor(accountId);
+    if (!isRestored) setState(seedAddresses(addresses));
+  }
+
+  const updateEntry = useCallback((kind: AddressKind, update: (entry: CheckoutAddressEntry) => CheckoutAddressEntry) => {
+    setState((current) => ({ ...current, [kind]: update(current[kind]) }));
+  }, []);
+
+  const selectAddress = useCallback((kind: AddressKind, savedId: string | null) => {
+    const saved = addresses.find((address) => address.id === savedId);
+    updateEntry(kind, () => (saved ? savedEntry(saved) : newEntry()));
+  }, [addresses, updateEntry]);
+
+  const changeAddress = useCallback((kind: AddressKind, address: CheckoutAddress) => {
+    updateEntry(kind, (entry) => ({ ...entry, address }));
+  }, [updateEntry]);
+
+  const startEditing = useCallback((kind: AddressKind) => {
+    updateEntry(kind, (entry) => ({ ...entry, isEditing: entry.savedId !== null }));
+  }, [updateEntry]);
+
+  // Drop unsaved edits
+  const cancelEditing = useCallback((kind: AddressKind) => {
+    updateEntry(kind, (entry) => {
+      const saved = addresses.find((address) => address.id === entry.savedId);
+      return saved ? savedEntry(saved) : entry;
+    });
+  }, [addresses, updateEntry]);
+
+  const setSaveToBook = useCallback((kind: AddressKind, saveToBook: boolean) => {
+    updateEntry(kind, (entry) => ({ ...entry, saveToBook }));
+  }, [updateEntry]);
+
+  const setBillingSameAsShipping = useCallback((billingSameAsShipping: boolean) => {
+    setState((current) => ({ ...current, billingSameAsShipping }));
+  }, []);
+
+  const restore = useCallback((restored: CheckoutAddressesState) => {
+    setIsRestored(true);
+    setState(restored);
+  }, []);
+
+  const saveEdits = useCallback(async (kind: AddressKind) => {
+    const entry = state[kind];
+    if (!entry.savedId) return;
+
+    const saved = await updateAddress(entry.savedId, entry.address);
+    updateEntry(kind, () => savedEntry(saved));
+  }, [state, updateAddress, updateEntry]);
+
+  const setAsDefault = useCallback(async (kind: AddressKind) => {
+    const { savedId } = state[kind];
+    if (savedId) await setDefaultAddress(savedId);
+  }, [state, setDefaultAddress]);
+
+  // Save new addresses the shopper asked to keep, skipping ones already in the book
+  const saveNewAddresses = useCallback(async () => {
+    if (!account) return;
+
+    const kinds: AddressKind[] = state.billingSameAsShipping ? ['shipping'] : ['shipping', 'billing'];
+
+    for (const kind of kinds) {
+      const entry = state[kind];
+      const isKnown = addresses.some((address) => address.kind === kind && isSameAddress(address, entry.address));
+
+      if (entry.savedId === null && entry.saveToBook && !isKnown) {
+        await addAddress({ ...entry.address, kind });
+      }
+    }
+  }, [account, state, addresses, addAddress]);
+
+  return {
+    ...state,
+    billingAddress: state.billingSameAsShipping ? state.shipping.address : state.billing.address,
+    savedAddresses: { shipping: shippingAddresses, billing: billingAddresses },
+    canSave: account !== null,
+    selectAddress,
+    changeAddress,
+    startEditing,
+    cancelEditing,
+    setSaveToBook,
+    setBillingSameAsShipping,
+    restore,
+    saveEdits,
+    setAsDefault,
+    saveNewAddresses,
+  };
+}
@@ -0,0 +1,129 @@
+/**
+ * useCheckoutFlow Hook
+ * Current checkout step, driven by the checkout state machine and persisted
+ * so a reload resumes where the shopper left off
+ *
+ * The stored step is checked against the guards once the page is ready
+ * (cart and shipping rates loaded), so a resumed checkout lands on the
+ * first step that still needs something, e.g. payment when the card has
+ * to be entered again.
+ */
+
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useTranslations } from './useTranslations';
+import {
+  CHECKOUT_STEPS,
+  getStepStatuses,
+  resolveStep,
+  transition,
+  type CheckoutFlowContext,
+  type CheckoutFlowEvent,
+  type CheckoutFlowState,
+  type CheckoutStepId,
+  type CheckoutStepStatus,
+} from '@/lib/services/checkout-flow';
+import { useCheckoutStore, type CheckoutDraft } from '@/lib/store/checkout';
+import type { CheckoutStep } from '@/components/checkout/checkout-progress-steps';
+
+interface UseCheckoutFlowOptions extends CheckoutFlowContext {
+  // Cart and shipping rates have loaded, so the guards can be trusted
+  isReady: boolean;
+}
+
+export interface UseCheckoutFlowReturn {
+  flow: CheckoutFlowState;
+  step: CheckoutStepId;
+  steps: CheckoutStep[]; // for the progress bar
+  isHydrated: boolean; // saved progress has been loaded
+  draft: CheckoutDraft | null; // details saved by an earlier visit
+
+  // Apply an event; returns the resulting state
+  send: (event: CheckoutFlowEvent) => CheckoutFlowState;
+  saveDraft: (draft: CheckoutDraft) => void;
+}
+
+/**
+ * Load saved progress (skipped during SSR to avoid hydration mismatches)
+ */
+async function ensureHydrated(): Promise<void> {
+  if (!useCheckoutStore.persist.hasHydrated()) {
+    await useCheckoutStore.persist.rehydrate();
+  }
+}
+
+/**
+ * Progress bar entries for a set of step statuses
+ * Completed steps link back: the cart to its page, the others via goTo
+ */
+export function useCheckoutSteps(
+  statuses: Record<CheckoutStepId, CheckoutStepStatus>,
+  goTo?: (step: CheckoutStepId) => void
+): CheckoutStep[] {
+  const { t } = useTranslations();
+
+  return CHECKOUT_STEPS.map((step) => ({
+    name: t(`checkout.steps.${step}`),
+    status: statuses[step],
+    href: step === 'cart' ? '/cart' : undefined,
+    onSelect: step !== 'cart' && goTo ? () => goTo(step) : undefined,
+  }));
+}
+
+export function useCheckoutFlow({ itemCount, errors, isReady }: UseCheckoutFlowOptions): UseCheckoutFlowReturn {
+  const flow = useCheckoutStore((state) => state.flow);
+  const draft = useCheckoutStore((state) => state.draft);
+  const setFlow = useCheckoutStore((state) => state.setFlow);
+  const saveDraft = useCheckoutStore((state) => state.saveDraft);
+  const clearDraft = useCheckoutStore((state) => state.clearDraft);
+  const [isHydrated, setIsHydrated] = useState(false);
+  const hasResumed = useRef(false);
+
+  const context = useMemo<CheckoutFlowContext>(() => ({ itemCount, errors }), [itemCount, errors]);
+
+  useEffect(() => {
+    ensureHydrated().then(() => {
+      // A placed order ends that checkout; this visit starts a new one
+      if (useCheckoutStore.getState().flow.step === 'confirmation') {
+        useCheckoutStore.getState().reset();
+      }
+      setIsHydrated(true);
+    });
+  }, []);
+
+  // Resume at the saved step, or the first one before it that isn't done
+  // (the cart is its own page, so a checkout visit starts after it)
+  useEffect(() => {
+    if (!isHydrated || !isReady || hasResumed.current) return;
+    hasResumed.current = true;
+
+    const step = resolveStep(flow.step === 'cart' ? 'information' : flow.step, flow, context);
+    if (step !== flow.step) setFlow({ ...flow, step });
+  }, [isHydrated, isReady, flow, context, setFlow]);
+
+  const send = useCallback((event: CheckoutFlowEvent) => {
+    const next = transition(useCheckoutStore.getState().flow, event, context);
+    setFlow(next);
+
+    // The order is placed; nothing is left to resume
+    if (next.step === 'confirmation') clearDraft();
+    return next;
+  }, [context, setFlow, clearDraft]);
+
+  const goTo = useCallback((step: CheckoutStepId) => {
+    send({ type: 'goTo', step });
+  }, [send]);
+
+  const steps = useCheckoutSteps(getStepStatuses(flow, context), goTo);
+
+  return {
+    flow,
+    step: flow.step,
+    steps,
+    isHydrated,
+    draft: isHydrated ? draft : null,
+    send,
+    saveDraft,
+  };
+}
@@ -0,0 +1,205 @@
+/**
+ * useCheckoutForm Hook
+ * Typed checkout form state validated against the checkout schema
+ *
+ * Builds the CheckoutRequest the page posts from the contact and payment
+ * fields, the address model and the picked shipping method. A field's error
+ * shows once it has been left (or after an attempt to move on), and moving
+ * on is blocked until those fields pass the schema. Errors the BFF returns
+ * stay on their field until its value changes.
+ *
+ * Card details are kept out of the request: they're checked here, then
+ * exchanged for a payment provider token by tokenizeCard(). The token (not
+ * the card) is what the request carries and what a resumed checkout keeps.
+ */
+
+'use client';
+
+import { useCallback, useMemo, useState } from 'react';
+import { useAccount } from './useAccount';
+import {
+  getCheckoutFieldValue,
+  normalizeCardDetails,
+  normalizeCheckoutRequest,
+  validateCardDetails,
+  validateCheckoutForm,
+  type CardFieldPath,
+  type CheckoutFieldPath,
+} from '@/lib/services/checkout-schema';
+import { getCardTokenizer } from '@/lib/payments/tokenizer';
+import type { UseCheckoutAddressesReturn } from './useCheckoutAddresses';
+import type { CheckoutFieldErrors, CheckoutRequest } from '@/lib/types/checkout';
+import type { CardDetails, CardToken } from '@/lib/types/payments';
+
+interface UseCheckoutFormOptions {
+  addresses: UseCheckoutAddressesReturn;
+  shippingMethod: string | null;
+}
+
+/**
+ * Form values a resumed checkout restores (never card details)
+ */
+export interface CheckoutFormDraft {
+  email: string;
+  nameOnCard: string;
+  cardToken: CardToken | null;
+}
+
+export interface UseCheckoutFormReturn extends CheckoutFormDraft {
+  card: CardDetails;
+  request: CheckoutRequest; // normalized, ready to post once the card is tokenized
+  errors: CheckoutFieldErrors; // errors to show
+  schemaErrors: CheckoutFieldErrors; // every outstanding error, shown or not
+  isBlocked: boolean; // moving on was attempted and those fields are still invalid
+
+  setEmail: (email: string) => void;
+  setNameOnCard: (nameOnCard: string) => void;
+  setCardField: (field: keyof CardDetails, value: string) => void;
+  // Drop the tokenized card to enter another one
+  clearCard: () => void;
+  touch: (path: CheckoutFieldPath | CardFieldPath) => void;
+  // Reveal the errors of the matching fields (all by default); returns whether they pass
+  validate: (isIncluded?: (path: string) => boolean) => boolean;
+  // Exchange the card for a token (reused until the card changes)
+  tokenizeCard: () => Promise<CardToken>;
+  setServerErrors: (errors: CheckoutFieldErrors) => void;
+  restore: (draft: CheckoutFormDraft) => void;
+}
+
+const EMPTY_CARD: CardDetails = { cardNumber: '', expirationDate: '', cvc: '' };
+
+// Errors about the card; the BFF reports them against the token
+const CARD_ERROR_PATHS = new Set(['payment.token', 'payment.cardNumber', 'payment.expirationDate', 'payment.cvc']);
+
+export function useCheckoutForm({ addresses, shippingMethod }: UseCheckoutFormOptions): UseCheckoutFormReturn {
+  const { account } = useAccount();
+  const [email, setEmail] = useState('');
+  const [nameOnCard, setNameOnCard] = useState('');
+  const [card, setCard] = useState<CardDetails>(EMPTY_CARD);
+  const [cardToken, setCardToken] = useState<CardToken | null>(null);
+  const [touched, setTouched] = useState<ReadonlySet<string>>(new Set());
+  // Fields that failed the last attempt to move on
+  const [attempted, setAttempted] = useState<ReadonlySet<string>>(new Set());
+  // BFF errors with the request they were reported for
+  const [server, setServer] = useState<{
+    errors: CheckoutFieldErrors;
+    request: CheckoutRequest | null;
+    card: CardDetails | null;
+  }>({
+    errors: {},
+    request: null,
+    card: null,
+  });
+  const [seededFor, setSeededFor] = useState<string | null>(null);
+
+  // Signed-in shoppers start with their account email
+  const accountId = account?.id ?? null;
+  if (account && accountId !== seededFor) {
+    setSeededFor(accountId);
+    if (!email) setEmail(account.email);
+  }
+
+  const request = useMemo(
+    () =>
+      normalizeCheckoutRequest({
+        email,
+        shipping: addresses.shipping.address,
+        shippingMethod: shippingMethod ?? '',
+        billing: {
+          sameAsShipping: addresses.billingSameAsShipping,
+          address: addresses.billingSameAsShipping ? undefined : addresses.billingAddress,
+        },
+        payment: { nameOnCard, token: cardToken?.token ?? '' },
+      }),
+    [email, addresses.shipping.address, shippingMethod, addresses.billingSameAsShipping, addresses.billingAddress, nameOnCard, cardToken]
+  );
+  const normalizedCard = useMemo(() => normalizeCardDetails(card), [card]);
+
+  // Until the card is tokenized, the card fields stand in for the token
+  const clientErrors = useMemo(() => {
+    const errors = validateCheckoutForm(request);
+    if (cardToken) return errors;
+
+    delete errors['payment.token'];
+    return { ...errors, ...validateCardDetails(normalizedCard) };
+  }, [request, cardToken, normalizedCard]);
+
+  const errors = useMemo(() => {
+    const visible: CheckoutFieldErrors = {};
+    for (const [path, message] of Object.entries(server.errors)) {
+      const unchanged = CARD_ERROR_PATHS.has(path)
+        ? server.card && JSON.stringify(server.card) === JSON.stringify(normalizedCard)
+        : server.request && getCheckoutFieldValue(server.request, path) === getCheckoutFieldValue(request, path);
+      if (unchanged) visible[path] = message;
+    }
+    for (const [path, message] of Object.entries(clientErrors)) {
+      if (touched.has(path)) visible[path] = message;
+    }
+    return visible;
+  }, [server, request, normalizedCard, clientErrors, touched]);
+
+  const setCardField = useCallback((field: keyof CardDetails, value: string) => {
+    setCard((current) => ({ ...current, [field]: value }));
+    setCardToken(null);
+  }, []);
+
+  const clearCard = useCallback(() => {
+    setCard(EMPTY_CARD);
+    setCardToken(null);
+  }, []);
+
+  const touch = useCallback((path: CheckoutFieldPath | CardFieldPath) => {
+    setTouched((current) => (current.has(path) ? current : new Set(current).add(path)));
+  }, []);
+
+  const validate = useCallback((isIncluded: (path: string) => boolean = () => true) => {
+    const failing = Object.keys(clientErrors).filter(isIncluded);
+
+    setTouched((current) => new Set([...current, ...failing]));
+    setAttempted(new Set(failing));
+    return failing.length === 0;
+  }, [clientErrors]);
+
+  const tokenizeCard = useCallback(async () => {
+    if (cardToken) return cardToken;
+
+    const token = await getCardTokenizer().tokenize(normalizedCard);
+    setCardToken(token);
+    return token;
+  }, [cardToken, normalizedCard]);
+
+  const setServerErrors = useCallback((next: CheckoutFieldErrors) => {
+    setServer({ errors: next, request, card: normalizedCard });
+
+    // A declined or rejected card needs a new token
+    if (Object.keys(next).some((path) => CARD_ERROR_PATHS.has(path))) {
+      setCardToken(null);
+    }
+  }, [request, normalizedCard]);
+
+  const restore = useCallback((draft: CheckoutFormDraft) => {
+    setEmail(draft.email);
+    setNameOnCard(draft.nameOnCard);
+    setCardToken(draft.cardToken);
+  }, []);
+
+  return {
+    email,
+    nameOnCard,
+    card,
+    cardToken,
+    request,
+    errors,
+    schemaErrors: clientErrors,
+    isBlocked: Object.keys(clientErrors).some((path) => attempted.has(path)),
+    setEmail,
+    setNameOnCard,
+    setCardField,
+    clearCard,
+    touch,
+    validate,
+    tokenizeCard,
+    setServerErrors,
+    restore,
+  };
+}
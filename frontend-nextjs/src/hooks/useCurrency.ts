@@ -0,0 +1,76 @@
+/**
+ * useCurrency Hook
+ * Selected display currency plus formatters that convert from the
+ * currency amounts are stored in (the base currency unless told otherwise)
+ *
+ * Conversion and rounding rules live in utils/currency.
+ */
+
+'use client';
+
+import { useCallback, useEffect } from 'react';
+import { useCurrencyStore } from '@/lib/store/currency';
+import { currencyConfig } from '@/lib/config/currency';
+import { convertAmount, toMinorUnits } from '@/utils/currency';
+import { formatPrice as formatMinorUnits } from '@/utils/format';
+import { useLocale } from '@/lib/providers/locale-provider';
+import { i18nConfig } from '@/lib/i18n/config';
+
+const { baseCurrency } = currencyConfig;
+
+/**
+ * Return type for useCurrency hook
+ */
+export interface UseCurrencyReturn {
+  currency: string;
+  baseCurrency: string;
+  isBaseCurrency: boolean;
+  setCurrency: (currency: string) => void;
+  // Convert an amount in minor units (cents) to the display currency
+  convert: (amount: number, from?: string) => number;
+  // Format an amount in minor units (cents), e.g. cart totals
+  formatPrice: (amount: number, from?: string) => string;
+  // Format a major amount (dollars), e.g. product prices
+  formatDollars: (amount: number, from?: string) => string;
+}
+
+export function useCurrency(): UseCurrencyReturn {
+  const currency = useCurrencyStore((state) => state.currency);
+  const setCurrency = useCurrencyStore((state) => state.setCurrency);
+  const locale = useLocale();
+
+  // The default locale keeps each currency's own style (CA$, €); others follow the UI language
+  const numberLocale = locale === i18nConfig.defaultLocale ? undefined : i18nConfig.intlLocales[locale];
+
+  // Load the stored currency (skipped during SSR to avoid hydration mismatches)
+  useEffect(() => {
+    if (!useCurrencyStore.persist.hasHydrated()) {
+      useCurrencyStore.persist.rehydrate();
+    }
+  }, []);
+
+  const convert = useCallback(
+    (amount: number, from: string = baseCurrency) => convertAmount(amount, from, currency),
+    [currency]
+  );
+
+  const formatPrice = useCallback(
+    (amount: number, from: string = baseCurrency) => formatMinorUnits(convert(amount, from), currency, numberLocale),
+    [convert, currency, numberLocale]
+  );
+
+  const formatDollars = useCallback(
+    (amount: number, from: string = baseCurrency) => formatPrice(toMinorUnits(amount, from), from),
+    [formatPrice]
+  );
+
+  return {
+    currency,
+    baseCurrency,
+    isBaseCurrency: currency === baseCurrency,
+    setCurrency,
+    convert,
+    formatPrice,
+    formatDollars,
+  };
+}
@@ -0,0 +1,34 @@
+/**
+ * useDebouncedValue Hook
+ * Returns a copy of a value that only updates after it stops changing
+ */
+
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { debounce } from '@/utils/debounce';
+
+/**
+ * Debounce a rapidly changing value (e.g. a search input)
+ *
+ * @param value - Latest value
+ * @param wait - Milliseconds the value must be stable before updating (default: 300ms)
+ * @returns The debounced value
+ */
+export function useDebouncedValue<T>(value: T, wait: number = 300): T {
+  const [debouncedValue, setDebouncedValue] = useState(value);
+
+  const updateValue = useMemo(
+    () => debounce((next: T) => setDebouncedValue(next), wait),
+    [wait]
+  );
+
+  useEffect(() => {
+    updateValue(value);
+  }, [value, updateValue]);
+
+  // Drop any pending update on unmount or when the wait changes
+  useEffect(() => () => updateValue.cancel(), [updateValue]);
+
+  return debouncedValue;
+}
@@ -0,0 +1,154 @@
+/**
+ * useListing Hook
+ * Listing engine shared by the Shop All and collection pages:
+ * data source (React Query) + URL-synced facets + sort + pagination
+ *
+ * Filtering, sorting and paging run in the listing API; only one page of
+ * products is downloaded at a time. Numbered mode maps ?page=N to an
+ * offset, infinite mode appends pages with useInfiniteQuery.
+ *
+ * Pages using this hook must render inside a <Suspense> boundary
+ * (filter state is read from search params via useListingParams).
+ */
+
+'use client';
+
+import { useCallback, useMemo } from 'react';
+import { keepPreviousData, useInfiniteQuery, useQuery } from '@tanstack/react-query';
+import { collectionQueryKey, productsQueryKey } from './useProducts';
+import { useListingParams, type UseListingParamsReturn } from './useListingParams';
+import { siteConfig, type PaginationMode } from '@/lib/config';
+import { serializeListingParams } from '@/utils/listing-params';
+import type { Facet } from '@/utils/facets';
+import type { ListingPage, ListingSource } from '@/lib/types/listing';
+import type { Product } from '@/lib/types/products';
+
+export type { ListingSource };
+
+export interface UseListingOptions {
+  source: ListingSource;
+  pageSize?: number;
+  mode?: PaginationMode;
+}
+
+/**
+ * Return type for useListing hook
+ */
+export interface UseListingReturn {
+  params: UseListingParamsReturn;
+  mode: PaginationMode;
+  facets: Facet[];
+  // Numbered: products on the current page; infinite: every loaded page
+  products: Product[];
+  // Products matching the filters across all pages
+  totalResults: number;
+  page: number;
+  totalPages: number;
+  hasNextPage: boolean;
+  isFetchingNextPage: boolean;
+  fetchNextPage: () => void;
+  isLoading: boolean;
+  error: string | null;
+  refetch: () => void;
+}
+
+/**
+ * API endpoint for a listing source
+ */
+function getListingEndpoint(source: ListingSource): string {
+  return source.type === 'collection'
+    ? `/api/collections/${encodeURIComponent(source.slug)}`
+    : '/api/products';
+}
+
+/**
+ * Fetch one listing page from API
+ */
+async function fetchListing(endpoint: string, filtersQuery: string, limit: number, skip: number): Promise<ListingPage> {
+  const query = new URLSearchParams(filtersQuery);
+  query.set('limit', String(limit));
+  query.set('skip', String(skip));
+
+  const response = await fetch(`${endpoint}?${query}`);
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch products');
+  }
+
+  return response.json();
+}
+
+export function useListing({
+  source,
+  pageSize = siteConfig.productsPerPage,
+  mode = siteConfig.paginationMode,
+}: UseListingOptions): UseListingReturn {
+  const params = useListingParams();
+  const endpoint = getListingEndpoint(source);
+
+  // Filters and sort without the page, which becomes the offset
+  const filtersQuery = useMemo(() => serializeListingParams({ ...params.filters, page: 1 }), [params.filters]);
+
+  // Keys sit under the source's key so invalidating the catalog/collection refreshes listings too
+  const baseKey = source.type === 'collection' ? collectionQueryKey(source.slug) : productsQueryKey;
+
+  const pageQuery = useQuery({
+    queryKey: [...baseKey, 'listing', filtersQuery, pageSize, params.page],
+    queryFn: () => fetchListing(endpoint, filtersQuery, pageSize, (params.page - 1) * pageSize),
+    enabled: mode === 'numbered',
+    placeholderData: keepPreviousData, // Keep the current page visible while the next one loads
+    staleTime: 60 * 1000, // Consider data fresh for 1 minute
+    gcTime: 5 * 60 * 1000, // Keep in cache for 5 minutes
+  });
+
+  const infiniteQuery = useInfiniteQuery({
+    queryKey: [...baseKey, 'listing-infinite', filtersQuery, pageSize],
+    queryFn: ({ pageParam }) => fetchListing(endpoint, filtersQuery, pageSize, pageParam),
+    initialPageParam: 0,
+    getNextPageParam: (lastPage) => {
+      const nextSkip = lastPage.skip + lastPage.limit;
+      return nextSkip < lastPage.total ? nextSkip : undefined;
+    },
+    enabled: mode === 'infinite',
+    staleTime: 60 * 1000,
+    gcTime: 5 * 60 * 1000,
+  });
+
+  const { fetchNextPage, hasNextPage, isFetchingNextPage } = infiniteQuery;
+  const loadNextPage = useCallback(() => {
+    if (hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  }, [fetchNextPage, hasNextPage, isFetchingNextPage]);
+
+  const pages = useMemo(
+    () => (mode === 'infinite' ? infiniteQuery.data?.pages ?? [] : pageQuery.data ? [pageQuery.data] : []),
+    [mode, infiniteQuery.data, pageQuery.data]
+  );
+
+  const products = useMemo(() => pages.flatMap((page) => page.products), [pages]);
+
+  const firstPage = pages[0];
+  const lastPage = pages[pages.length - 1];
+  const totalResults = firstPage?.total ?? 0;
+
+  const activeQuery = mode === 'infinite' ? infiniteQuery : pageQuery;
+  const { error } = activeQuery;
+
+  return {
+    params,
+    mode,
+    facets: firstPage?.facets ?? [],
+    products,
+    totalResults,
+    // The API clamps offsets past the end, so derive the page from the response
+    page: lastPage ? Math.floor(lastPage.skip / lastPage.limit) + 1 : params.page,
+    totalPages: Math.max(1, Math.ceil(totalResults / pageSize)),
+    hasNextPage: mode === 'infinite' && hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage: loadNextPage,
+    isLoading: activeQuery.isLoading,
+    error: error instanceof Error ? error.message : null,
+    refetch: () => { activeQuery.refetch(); },
+  };
+}
@@ -0,0 +1,145 @@
+/**
+ * useListingParams Hook
+ * Listing filter, sort and page state stored in the URL search params,
+ * so filtered views can be shared, bookmarked and restored with back/forward
+ *
+ * Pages using this hook must render inside a <Suspense> boundary
+ * (required by useSearchParams for statically rendered routes).
+ */
+
+'use client';
+
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { usePathname, useRouter } from '@/lib/i18n/navigation';
+import type { SortOption } from '@/utils/sort-products';
+import {
+  getDefaultListingParams,
+  parseListingParams,
+  serializeListingParams,
+  type FacetMatchMode,
+  type ListingParams,
+} from '@/utils/listing-params';
+import { toggleFacetValue, type FacetId } from '@/utils/facets';
+
+/**
+ * Return type for useListingParams hook
+ */
+export interface UseListingParamsReturn extends ListingParams {
+  // Same values as above as one stable object (changes only with the URL)
+  filters: ListingParams;
+  hasActiveFilters: boolean;
+  toggleTag: (tag: string) => void;
+  removeTag: (tag: string) => void;
+  setTagMode: (mode: FacetMatchMode) => void;
+  toggleFacet: (facet: FacetId, value: string) => void;
+  setSort: (sort: SortOption) => void;
+  setPriceRange: (minPrice: number | null, maxPrice: number | null) => void;
+  clearPriceRange: () => void;
+  setPage: (page: number) => void;
+  clearFilters: () => void;
+}
+
+export function useListingParams(): UseListingParamsReturn {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  const params = useMemo(() => parseListingParams(searchParams), [searchParams]);
+
+  /**
+   * Navigate to the URL for the next listing state
+   * Filter and sort changes replace the history entry so Back leaves the
+   * page instead of undoing each checkbox; page changes push a new entry.
+   */
+  const navigate = useCallback(
+    (next: ListingParams, mode: 'push' | 'replace') => {
+      const query = serializeListingParams(next, searchParams);
+      const url = query ? `${pathname}?${query}` : pathname;
+
+      if (mode === 'push') {
+        router.push(url);
+      } else {
+        router.replace(url, { scroll: false });
+      }
+    },
+    [router, pathname, searchParams]
+  );
+
+  // Any filter change returns to the first page of results
+  const updateFilters = useCallback(
+    (changes: Partial<ListingParams>) => {
+      navigate({ ...params, ...changes, page: 1 }, 'replace');
+    },
+    [navigate, params]
+  );
+
+  const toggleTag = useCallback(
+    (tag: string) => {
+      const tags = new Set(params.tags);
+      if (tags.has(tag)) {
+        tags.delete(tag);
+      } else {
+        tags.add(tag);
+      }
+      updateFilters({ tags });
+    },
+    [params.tags, updateFilters]
+  );
+
+  const removeTag = useCallback(
+    (tag: string) => {
+      const tags = new Set(params.tags);
+      tags.delete(tag);
+      updateFilters({ tags });
+    },
+    [params.tags, updateFilters]
+  );
+
+  const setTagMode = useCallback((tagMode: FacetMatchMode) => updateFilters({ tagMode }), [updateFilters]);
+
+  const toggleFacet = useCallback(
+    (facet: FacetId, value: string) => updateFilters(toggleFacetValue(params, facet, value)),
+    [params, updateFilters]
+  );
+
+  const setSort = useCallback((sort: SortOption) => updateFilters({ sort }), [updateFilters]);
+
+  const setPriceRange = useCallback(
+    (minPrice: number | null, maxPrice: number | null) => updateFilters({ minPrice, maxPrice }),
+    [updateFilters]
+  );
+
+  const clearPriceRange = useCallback(() => updateFilters({ minPrice: null, maxPrice: null }), [updateFilters]);
+
+  const setPage = useCallback(
+    (page: number) => navigate({ ...params, page: Math.max(1, Math.floor(page)) }, 'push'),
+    [navigate, params]
+  );
+
+  const clearFilters = useCallback(() => {
+    navigate(getDefaultListingParams(), 'replace');
+  }, [navigate]);
+
+  return {
+    ...params,
+    filters: params,
+    hasActiveFilters:
+      params.tags.size > 0 ||
+      params.brands.size > 0 ||
+      params.minPrice !== null ||
+      params.maxPrice !== null ||
+      params.minRating !== null ||
+      params.minDiscount !== null ||
+      params.inStock,
+    toggleTag,
+    removeTag,
+    setTagMode,
+    toggleFacet,
+    setSort,
+    setPriceRange,
+    clearPriceRange,
+    setPage,
+    clearFilters,
+  };
+}
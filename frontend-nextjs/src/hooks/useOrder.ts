@@ -0,0 +1,55 @@
+/**
+ * useOrder Hook
+ * Fetches a placed order with React Query
+ */
+
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import type { Order } from '@/lib/types/orders';
+
+/**
+ * Query key for a single order
+ */
+export function orderQueryKey(orderId: string) {
+  return ['order', orderId] as const;
+}
+
+/**
+ * Fetch order from API
+ * Resolves to null when the order doesn't exist for this session
+ */
+async function fetchOrder(orderId: string): Promise<Order | null> {
+  const response = await fetch(`/api/orders/${encodeURIComponent(orderId)}`);
+
+  if (response.status === 404) {
+    return null;
+  }
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch order');
+  }
+
+  return response.json();
+}
+
+export interface UseOrderReturn {
+  order: Order | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+export function useOrder(orderId: string): UseOrderReturn {
+  const { data, isLoading, error } = useQuery({
+    queryKey: orderQueryKey(orderId),
+    queryFn: () => fetchOrder(orderId),
+    // Orders are frozen at placement; no need to refetch
+    staleTime: Infinity,
+  });
+
+  return {
+    order: data ?? null,
+    isLoading,
+    error: error instanceof Error ? error.message : null,
+  };
+}
@@ -7,18 +7,23 @@
 'use client';
 
 import { useState, useMemo } from 'react';
-import { useQuery } from '@tanstack/react-query';
-import type { Product } from '@/lib/types/products';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import type { Product, RecommendationMode } from '@/lib/types/products';
 
-interface ProductsResponse {
+export interface ProductsResponse {
   products: Product[];
   total: number;
 }
 
+/**
+ * Query key for the full catalog (shared with useSearch)
+ */
+export const productsQueryKey = ['products'] as const;
+
 /**
  * Fetch all products from API
  */
-async function fetchProducts(): Promise<ProductsResponse> {
+export async function fetchProducts(): Promise<ProductsResponse> {
   const response = await fetch('/api/products');
 
   if (!response.ok) {
@@ -28,6 +33,13 @@ async function fetchProducts(): Promise<ProductsResponse> {
   return response.json();
 }
 
+/**
+ * Query key for one collection (listing pages nest their keys under it)
+ */
+export function collectionQueryKey(slug: string) {
+  return ['collections', slug] as const;
+}
+
 /**
  * Return type for useProducts hook
  */
@@ -51,7 +63,7 @@ export function useProducts(): UseProductsReturn {
     error,
     refetch,
   } = useQuery({
-    queryKey: ['products'], // Cache key
+    queryKey: productsQueryKey, // Cache key
     queryFn: fetchProducts,
     staleTime: 60 * 1000, // Consider data fresh for 1 minute
     gcTime: 5 * 60 * 1000, // Keep in cache for 5 minutes
@@ -86,10 +98,17 @@ export function useProducts(): UseProductsReturn {
   };
 }
 
+/**
+ * Query key for a single product
+ */
+export function productQueryKey(id: number) {
+  return ['product', id] as const;
+}
+
 /**
  * Fetch a single product by ID
  */
-async function fetchProduct(id: number): Promise<Product> {
+export async function fetchProduct(id: number): Promise<Product> {
   const response = await fetch(`/api/products/${id}`);
 
   if (!response.ok) {
@@ -120,7 +139,7 @@ export function useProduct(id: number): UseProductReturn {
     error,
     refetch,
   } = useQuery({
-    queryKey: ['product', id], // Cache key includes ID
+    queryKey: productQueryKey(id), // Cache key includes ID
     queryFn: () => fetchProduct(id),
     enabled: !!id, // Only fetch if ID exists
     staleTime: 2 * 60 * 1000, // Product details are fresh for 2 minutes
@@ -136,58 +155,140 @@ export function useProduct(id: number): UseProductReturn {
 }
 
 /**
- * Return type for useRelatedProducts hook
+ * Fetch recommendations for a product from API
+ */
+async function fetchRecommendations(
+  productId: number,
+  mode: RecommendationMode,
+  cartProductIds: number[],
+  limit: number
+): Promise<Product[]> {
+  const query = new URLSearchParams({ limit: String(limit) });
+  if (mode !== 'similar') {
+    query.set('mode', mode);
+  }
+  if (cartProductIds.length > 0) {
+    query.set('cart', cartProductIds.join(','));
+  }
+
+  const response = await fetch(`/api/products/${productId}/recommendations?${query}`);
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch recommendations');
+  }
+
+  const data: { products: Product[] } = await response.json();
+  return data.products;
+}
+
+/**
+ * Return type for useRecommendations hook
  */
-export interface UseRelatedProductsReturn {
+export interface UseRecommendationsReturn {
   products: Product[];
   isLoading: boolean;
   error: string | null;
   refetch: () => void;
 }
 
+interface UseRecommendationsOptions {
+  mode?: RecommendationMode;
+  cartProductIds?: number[]; // Extra seeds for bought-together
+  limit?: number;
+}
+
 /**
- * useRelatedProducts Hook
- * Fetch products from the same category, excluding the current product
- * Uses the same products query cache for efficiency
+ * useRecommendations Hook
+ * Fetch products scored by tags, brand, price and rating ("similar"), or
+ * products bought alongside this one and the cart ("bought-together")
  */
-export function useRelatedProducts(
-  category: string | undefined,
-  currentProductId: number | undefined,
-  limit: number = 4
-): UseRelatedProductsReturn {
-  // Fetch from dedicated collections endpoint
+export function useRecommendations(
+  productId: number | undefined,
+  { mode = 'similar', cartProductIds = [], limit = 4 }: UseRecommendationsOptions = {}
+): UseRecommendationsReturn {
   const {
     data,
     isLoading,
     error,
     refetch,
   } = useQuery({
-    queryKey: ['collections', category], // Collection-specific cache key
-    queryFn: async () => {
-      if (!category) return { products: [], total: 0 };
-
-      const response = await fetch(`/api/collections/${encodeURIComponent(category)}`);
-      if (!response.ok) {
-        throw new Error('Failed to fetch related products');
-      }
-      return response.json();
-    },
-    enabled: !!category, // Only fetch if category exists
+    queryKey: ['product', productId, 'recommendations', mode, cartProductIds, limit],
+    queryFn: () => fetchRecommendations(productId!, mode, cartProductIds, limit),
+    enabled: !!productId, // Only fetch if product exists
     staleTime: 60 * 1000,
     gcTime: 5 * 60 * 1000,
   });
 
-  // Filter to exclude current product (client-side)
-  const relatedProducts = useMemo(() => {
-    if (!data?.products || !category) return [];
+  return {
+    products: data ?? [],
+    isLoading,
+    error: error instanceof Error ? error.message : null,
+    refetch: () => { refetch(); },
+  };
+}
+
+/**
+ * Fetch suggestions for the whole cart from API
+ */
+async function fetchCartSuggestions(cartProductIds: number[], subtotal: number, limit: number): Promise<Product[]> {
+  const query = new URLSearchParams({ subtotal: String(subtotal), limit: String(limit) });
+  if (cartProductIds.length > 0) {
+    query.set('cart', cartProductIds.join(','));
+  }
+
+  const response = await fetch(`/api/cart/recommendations?${query}`);
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch cart suggestions');
+  }
+
+  const data: { products: Product[] } = await response.json();
+  return data.products;
+}
+
+interface UseCartSuggestionsOptions {
+  cartProductIds: number[];
+  subtotal: number; // In cents, pre-discount
+  limit?: number;
+  enabled?: boolean;
+}
+
+/**
+ * useCartSuggestions Hook
+ * Fetch products matching the cart's categories and tags, favouring ones
+ * that close the gap to free shipping
+ */
+export function useCartSuggestions({
+  cartProductIds,
+  subtotal,
+  limit = 3,
+  enabled = true,
+}: UseCartSuggestionsOptions): UseRecommendationsReturn {
+  // Sorted so reordering the cart reuses the cached suggestions
+  const ids = useMemo(() => [...new Set(cartProductIds)].sort((a, b) => a - b), [cartProductIds]);
+
+  const {
+    data,
+    isLoading,
+    error,
+    refetch,
+  } = useQuery({
+    queryKey: [...productsQueryKey, 'cart-suggestions', ids, subtotal, limit],
+    queryFn: () => fetchCartSuggestions(ids, subtotal, limit),
+    enabled,
+    placeholderData: keepPreviousData, // Keep the panel steady while quantities change
+    staleTime: 60 * 1000,
+    gcTime: 5 * 60 * 1000,
+  });
 
-    return data.products
-      .filter((p: Product) => p.id !== currentProductId)
-      .slice(0, limit);
-  }, [data, category, currentProductId, limit]);
+  // Placeholder data may still include a suggestion that was just added
+  const products = useMemo(
+    () => (data ?? []).filter((product) => !ids.includes(product.id)),
+    [data, ids]
+  );
 
   return {
-    products: relatedProducts,
+    products,
     isLoading,
     error: error instanceof Error ? error.message : null,
     refetch: () => { refetch(); },
@@ -0,0 +1,110 @@
+/**
+ * useRecentlyViewed Hook
+ * Recently viewed products for the "Recently viewed" rail, looked up by ID
+ * from the persisted view history. Products the API reports as missing
+ * are pruned from the history.
+ */
+
+'use client';
+
+import { useEffect, useMemo } from 'react';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { productsQueryKey } from './useProducts';
+import { useRecentlyViewedStore } from '@/lib/store/recently-viewed';
+import type { Product } from '@/lib/types/products';
+
+interface ProductsByIdsResponse {
+  products: Product[];
+  missingIds: number[];
+}
+
+/**
+ * Load the persisted history (skipped during SSR to avoid hydration mismatches)
+ */
+async function ensureHydrated(): Promise<void> {
+  if (!useRecentlyViewedStore.persist.hasHydrated()) {
+    await useRecentlyViewedStore.persist.rehydrate();
+  }
+}
+
+/**
+ * Fetch products by ID from API
+ */
+async function fetchProductsByIds(ids: number[]): Promise<ProductsByIdsResponse> {
+  const response = await fetch(`/api/products?ids=${ids.join(',')}`);
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch recently viewed products');
+  }
+
+  return response.json();
+}
+
+/**
+ * Record a product view once the product has loaded
+ */
+export function useRecordProductView(productId: number | undefined): void {
+  useEffect(() => {
+    if (!productId) return;
+
+    // Hydrate first so the stored history isn't overwritten by this view
+    ensureHydrated().then(() => {
+      useRecentlyViewedStore.getState().recordView(productId);
+    });
+  }, [productId]);
+}
+
+interface UseRecentlyViewedOptions {
+  excludeProductId?: number;
+  limit?: number;
+}
+
+/**
+ * Return type for useRecentlyViewed hook
+ */
+export interface UseRecentlyViewedReturn {
+  products: Product[];
+  isLoading: boolean;
+}
+
+export function useRecentlyViewed({ excludeProductId, limit = 4 }: UseRecentlyViewedOptions = {}): UseRecentlyViewedReturn {
+  const productIds = useRecentlyViewedStore((state) => state.productIds);
+  const forgetProducts = useRecentlyViewedStore((state) => state.forgetProducts);
+
+  useEffect(() => {
+    ensureHydrated();
+  }, []);
+
+  const ids = useMemo(
+    () => productIds.filter((id) => id !== excludeProductId).slice(0, limit),
+    [productIds, excludeProductId, limit]
+  );
+
+  const { data, isLoading } = useQuery({
+    queryKey: [...productsQueryKey, 'by-ids', ids],
+    queryFn: () => fetchProductsByIds(ids),
+    enabled: ids.length > 0,
+    placeholderData: keepPreviousData, // Keep the rail steady while a new view is added
+    staleTime: 60 * 1000,
+    gcTime: 5 * 60 * 1000,
+  });
+
+  // Forget products that no longer exist upstream
+  const missingIds = data?.missingIds;
+  useEffect(() => {
+    if (missingIds && missingIds.length > 0) {
+      forgetProducts(missingIds);
+    }
+  }, [missingIds, forgetProducts]);
+
+  // Placeholder data may include products outside the current ID list
+  const products = useMemo(
+    () => (ids.length === 0 ? [] : (data?.products ?? []).filter((product) => ids.includes(product.id))),
+    [data, ids]
+  );
+
+  return {
+    products,
+    isLoading: ids.length > 0 && isLoading,
+  };
+}
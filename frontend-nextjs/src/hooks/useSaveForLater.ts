@@ -0,0 +1,103 @@
+/**
+ * useSaveForLater Hook
+ * Moves products between the cart and the wishlist
+ */
+
+'use client';
+
+import { useCallback } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useCart } from './useCart';
+import { useWishlist } from './useWishlist';
+import { fetchProduct, productQueryKey } from './useProducts';
+import { useCartStore } from '@/lib/store/cart';
+import type { CartLineItem } from '@/lib/types/cart';
+import type { Product } from '@/lib/types/products';
+import type { WishlistItem, WishlistProduct } from '@/lib/types/wishlist';
+import { toast } from 'react-hot-toast';
+
+/**
+ * Map a cart line back to the product fields the wishlist stores
+ * (cart prices are in cents, products in dollars)
+ */
+function toWishlistProduct(line: CartLineItem): WishlistProduct {
+  return {
+    id: line.product_id,
+    title: line.title,
+    price: line.price / 100,
+    thumbnail: line.image || '',
+    brand: line.brand,
+    category: line.category || '',
+  };
+}
+
+/**
+ * Return type for useSaveForLater hook
+ */
+export interface UseSaveForLaterReturn {
+  moveToWishlist: (lineId: string) => Promise<void>;
+  moveToCart: (item: WishlistItem) => Promise<void>;
+}
+
+export function useSaveForLater(): UseSaveForLaterReturn {
+  const queryClient = useQueryClient();
+  const { items: cartItems, addItem: addToCart, removeItem: removeFromCart } = useCart();
+  const { addItem: addToWishlist, removeItem: removeFromWishlist } = useWishlist();
+
+  /**
+   * Save a cart line to the wishlist, then remove it from the cart
+   * The cart line is kept if saving fails
+   */
+  const moveToWishlist = useCallback(
+    async (lineId: string) => {
+      const line = cartItems.find((i) => i.line_id === lineId);
+      if (!line) return;
+
+      const saved = await addToWishlist(toWishlistProduct(line));
+      if (!saved) return;
+
+      await removeFromCart(lineId);
+      toast.success(`${line.title} moved to your wishlist`);
+    },
+    [cartItems, addToWishlist, removeFromCart]
+  );
+
+  /**
+   * Add a saved product to the cart, then remove it from the wishlist
+   * Uses the current catalog product so price and stock are up to date
+   */
+  const moveToCart = useCallback(
+    async (item: WishlistItem) => {
+      let product: Product;
+      try {
+        product = await queryClient.fetchQuery({
+          queryKey: productQueryKey(item.product_id),
+          queryFn: () => fetchProduct(item.product_id),
+          staleTime: 2 * 60 * 1000,
+        });
+      } catch {
+        toast.error('Failed to load product');
+        return;
+      }
+
+      if (product.stock === 0) {
+        toast.error(`${product.title} is out of stock`);
+        return;
+      }
+
+      await addToCart(product);
+
+      // addItem rolls back (and toasts) on failure, so check the line made it in
+      const inCart = useCartStore.getState().items.some((i) => i.product_id === product.id);
+      if (inCart) {
+        await removeFromWishlist(item.product_id);
+      }
+    },
+    [queryClient, addToCart, removeFromWishlist]
+  );
+
+  return {
+    moveToWishlist,
+    moveToCart,
+  };
+}
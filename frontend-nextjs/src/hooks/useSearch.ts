@@ -0,0 +1,57 @@
+/**
+ * useSearch Hook
+ * Product search over the cached catalog using the local search index
+ * No request per query - the catalog is fetched once and shared with useProducts
+ */
+
+'use client';
+
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { fetchProducts, productsQueryKey } from './useProducts';
+import { createSearchIndex } from '@/lib/services/search-index';
+import type { Product } from '@/lib/types/products';
+
+/**
+ * Return type for useSearch hook
+ */
+export interface UseSearchReturn {
+  products: Product[];
+  total: number;
+  isLoading: boolean;
+  error: string | null;
+  refetch: () => void;
+}
+
+export function useSearch(query: string): UseSearchReturn {
+  const trimmedQuery = query.trim();
+
+  const {
+    data,
+    isLoading,
+    error,
+    refetch,
+  } = useQuery({
+    queryKey: productsQueryKey,
+    queryFn: fetchProducts,
+    enabled: trimmedQuery.length > 0, // Don't load the catalog until there's something to search for
+    staleTime: 60 * 1000,
+    gcTime: 5 * 60 * 1000,
+  });
+
+  // Rebuild the index only when the catalog changes
+  const index = useMemo(() => createSearchIndex(data?.products ?? []), [data]);
+
+  const products = useMemo(
+    () => (trimmedQuery ? index.search(trimmedQuery) : []),
+    [index, trimmedQuery]
+  );
+
+  return {
+    products,
+    total: products.length,
+    isLoading,
+    error: error instanceof Error ? error.message : null,
+    refetch: () => { refetch(); },
+  };
+}
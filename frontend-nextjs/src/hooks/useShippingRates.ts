@@ -0,0 +1,81 @@
+/**
+ * useShippingRates Hook
+ * Fetches shipping methods priced for the cart and destination with React Query
+ */
+
+'use client';
+
+import { useMemo } from 'react';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { useDebouncedValue } from './useDebouncedValue';
+import type { CartLineItem } from '@/lib/types/cart';
+import type { ShippingDestination, ShippingRate, ShippingRatesResponse } from '@/lib/types/shipping';
+
+/**
+ * Fetch shipping rates from API
+ */
+async function fetchShippingRates(items: string, subtotal: number, destination: ShippingDestination): Promise<ShippingRatesResponse> {
+  const query = new URLSearchParams({
+    items,
+    subtotal: String(subtotal),
+    country: destination.country,
+    region: destination.region,
+  });
+
+  const response = await fetch(`/api/checkout/shipping-rates?${query}`);
+
+  if (!response.ok) {
+    const data: { error?: { message?: string } } = await response.json().catch(() => ({}));
+    throw new Error(data.error?.message ?? 'Failed to fetch shipping rates');
+  }
+
+  return response.json();
+}
+
+interface UseShippingRatesOptions {
+  items: CartLineItem[];
+  subtotal: number; // In cents, pre-discount
+  destination: ShippingDestination;
+  enabled?: boolean;
+}
+
+export interface UseShippingRatesReturn {
+  rates: ShippingRate[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+export function useShippingRates({
+  items,
+  subtotal,
+  destination,
+  enabled = true,
+}: UseShippingRatesOptions): UseShippingRatesReturn {
+  // Sorted productId:quantity pairs so reordering the cart reuses cached rates
+  const itemsParam = useMemo(
+    () =>
+      items
+        .map((item) => `${item.product_id}:${item.quantity}`)
+        .sort()
+        .join(','),
+    [items]
+  );
+
+  // Wait for the shopper to stop typing the region before re-pricing
+  const region = useDebouncedValue(destination.region.trim());
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['shipping-rates', itemsParam, subtotal, destination.country, region],
+    queryFn: () => fetchShippingRates(itemsParam, subtotal, { country: destination.country, region }),
+    enabled: enabled && itemsParam !== '',
+    placeholderData: keepPreviousData, // Keep the method picker steady while re-pricing
+    staleTime: 60 * 1000,
+    gcTime: 5 * 60 * 1000,
+  });
+
+  return {
+    rates: data?.rates ?? [],
+    isLoading,
+    error: error instanceof Error ? error.message : null,
+  };
+}
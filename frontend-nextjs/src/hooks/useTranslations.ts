@@ -0,0 +1,51 @@
+/**
+ * useTranslations Hook
+ * Translator and Intl formatters for the current locale
+ */
+
+'use client';
+
+import { Fragment, createElement, useMemo, type ReactNode } from 'react';
+import { useLocale } from '@/lib/providers/locale-provider';
+import {
+  createTranslator,
+  formatDate,
+  formatNumber,
+  getMessage,
+  type MessageKey,
+  type Translator,
+} from '@/lib/i18n/translate';
+import type { Locale } from '@/lib/i18n/config';
+
+/**
+ * Return type for useTranslations hook
+ */
+export interface UseTranslationsReturn {
+  locale: Locale;
+  t: Translator;
+  // Like t, but placeholders can be elements (e.g. a highlighted amount)
+  rich: (key: MessageKey, values: Record<string, ReactNode>) => ReactNode;
+  formatDate: (date: Date | string | number, options?: Intl.DateTimeFormatOptions) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+}
+
+export function useTranslations(): UseTranslationsReturn {
+  const locale = useLocale();
+
+  return useMemo(
+    () => ({
+      locale,
+      t: createTranslator(locale),
+      rich: (key, values) =>
+        getMessage(locale, key)
+          .split(/(\{\w+\})/)
+          .map((part, index) => {
+            const name = part.match(/^\{(\w+)\}$/)?.[1];
+            return createElement(Fragment, { key: index }, name && name in values ? values[name] : part);
+          }),
+      formatDate: (date, options) => formatDate(date, locale, options),
+      formatNumber: (value, options) => formatNumber(value, locale, options),
+    }),
+    [locale]
+  );
+}
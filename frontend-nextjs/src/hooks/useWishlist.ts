@@ -0,0 +1,232 @@
+/**
+ * useWishlist Hook
+ * Provides wishlist operations with API integration and optimistic updates
+ *
+ * The wishlist is stored in the backend session alongside the cart, so
+ * guests keep their saved items for as long as they keep their cart.
+ */
+
+'use client';
+
+import { useEffect, useCallback } from 'react';
+import { useWishlistStore } from '@/lib/store/wishlist';
+import type { Wishlist, WishlistItem, WishlistProduct } from '@/lib/types/wishlist';
+import { toast } from 'react-hot-toast';
+
+/**
+ * Build the optimistic wishlist item for a product (price in cents, like the backend)
+ */
+function buildWishlistItem(product: WishlistProduct): WishlistItem {
+  return {
+    product_id: product.id,
+    title: product.title,
+    price: Math.round(product.price * 100),
+    image: product.thumbnail,
+    brand: product.brand,
+    category: product.category,
+    added_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Return type for useWishlist hook
+ */
+export interface UseWishlistReturn {
+  // Wishlist data
+  items: WishlistItem[];
+  count: number;
+
+  // UI state
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions (resolve to false if the change was rolled back)
+  fetchWishlist: () => Promise<void>;
+  addItem: (product: WishlistProduct) => Promise<boolean>;
+  removeItem: (productId: number) => Promise<boolean>;
+  toggleItem: (product: WishlistProduct) => Promise<boolean>;
+
+  // Per-product state
+  isInWishlist: (productId: number) => boolean;
+  isPending: (productId: number) => boolean;
+}
+
+export function useWishlist(): UseWishlistReturn {
+  const {
+    items,
+    isLoading,
+    error,
+    setWishlist,
+    setLoading,
+    setError,
+    insertItem,
+    deleteItem,
+    addPendingId,
+    removePendingId,
+    isPending,
+  } = useWishlistStore();
+
+  /**
+   * Fetch wishlist from API
+   */
+  const fetchWishlist = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch('/api/wishlist', {
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch wishlist');
+      }
+
+      const wishlist: Wishlist = await response.json();
+      setWishlist(wishlist);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch wishlist');
+    } finally {
+      setLoading(false);
+    }
+  }, [setWishlist, setLoading, setError]);
+
+  /**
+   * Apply a server response only if nothing changed since its request was made
+   * and no other changes are in flight (prevents stale responses regressing state)
+   */
+  const settle = useCallback((productId: number, expectedVersion: number, wishlist?: Wishlist) => {
+    removePendingId(productId);
+
+    const { stateVersion, pendingIds } = useWishlistStore.getState();
+    if (wishlist && stateVersion === expectedVersion && pendingIds.size === 0) {
+      setWishlist(wishlist);
+    }
+  }, [removePendingId, setWishlist]);
+
+  /**
+   * Save product to wishlist with optimistic update
+   */
+  const addItem = useCallback(
+    async (product: WishlistProduct) => {
+      // Optimistic UI update
+      insertItem(buildWishlistItem(product));
+      addPendingId(product.id);
+
+      // Capture version after optimistic update (for race condition prevention)
+      const expectedVersion = useWishlistStore.getState().stateVersion;
+
+      try {
+        const response = await fetch('/api/wishlist', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ product }),
+          credentials: 'include',
+        });
+
+        if (!response.ok) {
+          throw new Error('Failed to save item to wishlist');
+        }
+
+        const wishlist: Wishlist = await response.json();
+        settle(product.id, expectedVersion, wishlist);
+        return true;
+      } catch (err) {
+        // Rollback this product only
+        deleteItem(product.id);
+        settle(product.id, expectedVersion);
+        toast.error(err instanceof Error ? err.message : 'Failed to save item to wishlist');
+        return false;
+      }
+    },
+    [insertItem, deleteItem, addPendingId, settle]
+  );
+
+  /**
+   * Remove product from wishlist with optimistic update
+   */
+  const removeItem = useCallback(
+    async (productId: number) => {
+      const existingItem = useWishlistStore.getState().items.find((i) => i.product_id === productId);
+
+      // Optimistic UI update
+      deleteItem(productId);
+      addPendingId(productId);
+
+      // Capture version after optimistic update (for race condition prevention)
+      const expectedVersion = useWishlistStore.getState().stateVersion;
+
+      try {
+        const response = await fetch(`/api/wishlist/${productId}`, {
+          method: 'DELETE',
+          credentials: 'include',
+        });
+
+        if (!response.ok) {
+          throw new Error('Failed to remove item from wishlist');
+        }
+
+        const wishlist: Wishlist = await response.json();
+        settle(productId, expectedVersion, wishlist);
+        return true;
+      } catch (err) {
+        // Rollback this product only
+        if (existingItem) {
+          insertItem(existingItem);
+        }
+        settle(productId, expectedVersion);
+        toast.error(err instanceof Error ? err.message : 'Failed to remove item from wishlist');
+        return false;
+      }
+    },
+    [insertItem, deleteItem, addPendingId, settle]
+  );
+
+  /**
+   * Whether a product is saved
+   */
+  const isInWishlist = useCallback(
+    (productId: number) => items.some((i) => i.product_id === productId),
+    [items]
+  );
+
+  /**
+   * Save or unsave a product (heart toggle)
+   */
+  const toggleItem = useCallback(
+    async (product: WishlistProduct) => {
+      return isInWishlist(product.id) ? removeItem(product.id) : addItem(product);
+    },
+    [isInWishlist, addItem, removeItem]
+  );
+
+  // Load wishlist once, however many components use this hook
+  useEffect(() => {
+    const { hasLoaded, isLoading: isFetching } = useWishlistStore.getState();
+    if (!hasLoaded && !isFetching) {
+      fetchWishlist();
+    }
+  }, [fetchWishlist]);
+
+  return {
+    // Wishlist data
+    items,
+    count: items.length,
+
+    // UI state
+    isLoading,
+    error,
+
+    // Actions
+    fetchWishlist,
+    addItem,
+    removeItem,
+    toggleItem,
+
+    // Per-product state
+    isInWishlist,
+    isPending,
+  };
+}
@@ -4,7 +4,7 @@
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest'
-import { getCart, addToCart, updateCartLine, removeCartLine } from '../backend'
+import { getCart, addToCart, updateCartLine, removeCartLine, getWishlist, addToWishlist, removeFromWishlist } from '../backend'
 import * as upstream from '../upstream'
 
 // Mock the upstream fetchJsonWithHeaders function
@@ -188,4 +188,67 @@ describe('Backend Client', () => {
       )
     })
   })
+
+  describe('getWishlist', () => {
+    it('should forward cookie header so the wishlist shares the cart session', async () => {
+      const mockWishlist = { items: [], count: 0 }
+      const mockHeaders = new Headers()
+      mockFetchJson.mockResolvedValueOnce({ data: mockWishlist, headers: mockHeaders })
+
+      const cookieHeader = 'ci_session=wish123'
+      const result = await getWishlist(cookieHeader)
+
+      expect(mockFetchJson).toHaveBeenCalledWith(
+        expect.stringContaining('/wishlist'),
+        expect.objectContaining({
+          headers: expect.objectContaining({
+            'Cookie': cookieHeader,
+          }),
+          cache: 'no-store',
+        })
+      )
+      expect(result.data).toEqual(mockWishlist)
+    })
+  })
+
+  describe('addToWishlist', () => {
+    it('should send POST request with product data', async () => {
+      const mockWishlist = { items: [], count: 1 }
+      const mockHeaders = new Headers()
+      mockFetchJson.mockResolvedValueOnce({ data: mockWishlist, headers: mockHeaders })
+
+      const request = {
+        product_id: 1,
+        title: 'Test Product',
+        price: 9.99,
+      }
+
+      await addToWishlist(request)
+
+      expect(mockFetchJson).toHaveBeenCalledWith(
+        expect.stringContaining('/wishlist/add'),
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify(request),
+        })
+      )
+    })
+  })
+
+  describe('removeFromWishlist', () => {
+    it('should send DELETE request with product ID', async () => {
+      const mockWishlist = { items: [], count: 0 }
+      const mockHeaders = new Headers()
+      mockFetchJson.mockResolvedValueOnce({ data: mockWishlist, headers: mockHeaders })
+
+      await removeFromWishlist(42)
+
+      expect(mockFetchJson).toHaveBeenCalledWith(
+        expect.stringContaining('/wishlist/remove/42'),
+        expect.objectContaining({
+          method: 'DELETE',
+        })
+      )
+    })
+  })
 })
@@ -5,6 +5,7 @@
 
 import { fetchJsonWithHeaders, type FetchResult } from './upstream';
 import type { Cart, AddToCartRequest, UpdateCartLineRequest } from '../types/cart';
+import type { Wishlist, AddToWishlistRequest } from '../types/wishlist';
 import { cacheConfig } from '@/lib/config';
 
 // Base URL from environment variable, fallback to localhost
@@ -92,3 +93,47 @@ export async function removeCartLine(lineId: string, cookieHeader?: string): Pro
     cache: cacheConfig.dynamic.cart,
   });
 }
+
+/**
+ * Fetch current wishlist state
+ *
+ * @param cookieHeader - Optional cookie header to forward from browser
+ * @returns Current wishlist and response headers
+ */
+export async function getWishlist(cookieHeader?: string): Promise<FetchResult<Wishlist>> {
+  return fetchJsonWithHeaders<Wishlist>(`${BASE_URL}/wishlist`, {
+    headers: cookieHeader ? getHeaders(cookieHeader) : undefined,
+    cache: cacheConfig.dynamic.cart,
+  });
+}
+
+/**
+ * Save a product to the wishlist (no-op if already saved)
+ *
+ * @param request - Product snapshot to save
+ * @param cookieHeader - Optional cookie header to forward from browser
+ * @returns Updated wishlist and response headers
+ */
+export async function addToWishlist(request: AddToWishlistRequest, cookieHeader?: string): Promise<FetchResult<Wishlist>> {
+  return fetchJsonWithHeaders<Wishlist>(`${BASE_URL}/wishlist/add`, {
+    method: 'POST',
+    headers: getHeaders(cookieHeader),
+    body: JSON.stringify(request),
+    cache: cacheConfig.dynamic.cart,
+  });
+}
+
+/**
+ * Remove a product from the wishlist
+ *
+ * @param productId - DummyJSON product ID
+ * @param cookieHeader - Optional cookie header to forward from browser
+ * @returns Updated wishlist and response headers
+ */
+export async function removeFromWishlist(productId: number, cookieHeader?: string): Promise<FetchResult<Wishlist>> {
+  return fetchJsonWithHeaders<Wishlist>(`${BASE_URL}/wishlist/remove/${productId}`, {
+    method: 'DELETE',
+    headers: cookieHeader ? getHeaders(cookieHeader) : undefined,
+    cache: cacheConfig.dynamic.cart,
+  });
+}
@@ -38,10 +38,11 @@ export async function getProduct(id: number): Promise<DummyProduct> {
  * Search products by query
  *
  * @param query - Search query
+ * @param limit - Maximum results to return (default: 0, meaning all matches)
  * @returns Matching products
  */
-export async function searchProducts(query: string): Promise<DummyProductList> {
-  const url = buildUrl(`${BASE_URL}/products/search`, { q: query });
+export async function searchProducts(query: string, limit: number = 0): Promise<DummyProductList> {
+  const url = buildUrl(`${BASE_URL}/products/search`, { q: query, limit });
   return fetchJson<DummyProductList>(url);
 }
 
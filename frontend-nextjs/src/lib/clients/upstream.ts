@@ -126,6 +126,21 @@ export function buildUrl(
   return url.toString()
 }
 
+/**
+ * Whether an error is an upstream 404 (ky HTTPError or HttpError)
+ */
+export function isNotFoundError(error: unknown): boolean {
+  if (error instanceof HttpError) {
+    return error.status === 404
+  }
+
+  if (error && typeof error === 'object' && 'response' in error) {
+    return (error as { response: Response }).response?.status === 404
+  }
+
+  return false
+}
+
 /**
  * Helper to extract error message from ky HTTPError or other errors
  */
@@ -1,8 +1,12 @@
 /**
  * Brand Configuration
  * Defines Luna Lovegood's brand identity and messaging
+ * Copy comes from the message catalogs (cms.brand)
  */
 
+import { i18nConfig, type Locale } from '../i18n/config'
+import { createTranslator } from '../i18n/translate'
+
 export interface BrandIdentity {
   name: string
   tagline: string
@@ -10,10 +14,19 @@ export interface BrandIdentity {
 }
 
 /**
- * Luna Lovegood's Brand Identity
+ * Luna Lovegood's Brand Identity in a locale
  */
-export const brand: BrandIdentity = {
-  name: "Luna Lovegood's",
-  tagline: 'Curated treasures for free spirits',
-  footerSlogan: 'Your enchanted emporium for curious treasures at spellbinding prices.',
+export function getBrand(locale: Locale): BrandIdentity {
+  const t = createTranslator(locale)
+
+  return {
+    name: "Luna Lovegood's",
+    tagline: t('cms.brand.tagline'),
+    footerSlogan: t('cms.brand.footerSlogan'),
+  }
 }
+
+/**
+ * Luna Lovegood's Brand Identity (default locale)
+ */
+export const brand: BrandIdentity = getBrand(i18nConfig.defaultLocale)
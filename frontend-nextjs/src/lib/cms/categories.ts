@@ -47,6 +47,13 @@ export const configuredCategories = [
   'beauty',
 ] as const
 
+/**
+ * Check whether a slug is one of the configured categories
+ */
+export function isConfiguredCategory(slug: string): boolean {
+  return (configuredCategories as readonly string[]).includes(slug)
+}
+
 /**
  * Get category section name (Clothing, Accessories, or Potions)
  */
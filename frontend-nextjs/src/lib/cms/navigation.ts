@@ -1,8 +1,12 @@
 /**
  * Navigation Configuration
  * Defines site navigation structure including mega menus and footer
+ * Labels come from the message catalogs (cms.navigation, cms.footer)
  */
 
+import { i18nConfig, type Locale } from '../i18n/config'
+import { createTranslator } from '../i18n/translate'
+
 export interface NavItem {
   name: string
   href: string
@@ -30,113 +34,136 @@ export interface MegaMenuCategory {
 }
 
 export interface FooterSection {
+  id: string
   title: string
   links: NavItem[]
 }
 
 /**
- * Main Navigation
+ * Main Navigation in a locale
+ */
+export function getNavigation(locale: Locale) {
+  const t = createTranslator(locale)
+
+  return {
+    // First menu item - no dropdown
+    shopAll: {
+      name: t('cms.navigation.shopAll'),
+      href: '/products',
+    },
+
+    // Mega menu: "The Goods"
+    megaMenus: [
+      {
+        id: 'the-goods',
+        name: t('cms.navigation.theGoods'),
+        // Featured products
+        featured: [
+          {
+            name: 'Essence Mascara Lash Princess',
+            productId: 1,
+            href: '/products/1', // Will be overridden with slugged URL in header component
+            imageSrc: 'https://cdn.dummyjson.com/product-images/beauty/essence-mascara-lash-princess/thumbnail.webp',
+            imageAlt: 'Essence Mascara Lash Princess',
+          },
+          {
+            name: "Dior J'adore",
+            productId: 8,
+            href: '/products/8', // Will be overridden with slugged URL in header component
+            imageSrc: "https://cdn.dummyjson.com/product-images/fragrances/dior-j'adore/thumbnail.webp",
+            imageAlt: "Dior J'adore",
+          },
+        ],
+        sections: [
+          {
+            id: 'clothing',
+            name: t('cms.navigation.sections.clothing'),
+            items: [
+              { name: t('cms.navigation.categories.tops'), href: '/collections/tops' },
+              { name: t('cms.navigation.categories.dresses'), href: '/collections/womens-dresses' },
+              { name: t('cms.navigation.categories.shoes'), href: '/collections/womens-shoes' },
+            ],
+          },
+          {
+            id: 'accessories',
+            name: t('cms.navigation.sections.accessories'),
+            items: [
+              { name: t('cms.navigation.categories.jewellery'), href: '/collections/womens-jewellery' },
+              { name: t('cms.navigation.categories.bags'), href: '/collections/womens-bags' },
+              { name: t('cms.navigation.categories.sunglasses'), href: '/collections/sunglasses' },
+            ],
+          },
+          {
+            id: 'potions',
+            name: t('cms.navigation.sections.potions'),
+            items: [
+              { name: t('cms.navigation.categories.fragrances'), href: '/collections/fragrances' },
+              { name: t('cms.navigation.categories.beauty'), href: '/collections/beauty' },
+            ],
+          },
+        ],
+      },
+    ] as MegaMenuCategory[],
+
+    // Additional pages (can be expanded later)
+    pages: [
+      { name: t('cms.navigation.faq'), href: '#' },
+    ] as NavItem[],
+  }
+}
+
+/**
+ * Main Navigation (default locale)
+ */
+export const navigation = getNavigation(i18nConfig.defaultLocale)
+
+/**
+ * Footer Navigation in a locale
  */
-export const navigation = {
-  // First menu item - no dropdown
-  shopAll: {
-    name: 'Shop All',
-    href: '/products',
-  },
+export function getFooterNav(locale: Locale): FooterSection[] {
+  const t = createTranslator(locale)
 
-  // Mega menu: "The Goods"
-  megaMenus: [
+  return [
     {
-      id: 'the-goods',
-      name: 'The Goods',
-      // Featured products
-      featured: [
-        {
-          name: 'Essence Mascara Lash Princess',
-          productId: 1,
-          href: '/products/1', // Will be overridden with slugged URL in header component
-          imageSrc: 'https://cdn.dummyjson.com/product-images/beauty/essence-mascara-lash-princess/thumbnail.webp',
-          imageAlt: 'Essence Mascara Lash Princess',
-        },
-        {
-          name: "Dior J'adore",
-          productId: 8,
-          href: '/products/8', // Will be overridden with slugged URL in header component
-          imageSrc: "https://cdn.dummyjson.com/product-images/fragrances/dior-j'adore/thumbnail.webp",
-          imageAlt: "Dior J'adore",
-        },
+      id: 'shop',
+      title: t('cms.footer.shop'),
+      links: [
+        { name: t('cms.footer.allProducts'), href: '/products' },
+        { name: t('cms.footer.clothing'), href: '#' },
+        { name: t('cms.footer.accessories'), href: '#' },
       ],
-      sections: [
-        {
-          id: 'clothing',
-          name: 'Clothing',
-          items: [
-            { name: 'Tops', href: '/collections/tops' },
-            { name: 'Dresses', href: '/collections/womens-dresses' },
-            { name: 'Shoes', href: '/collections/womens-shoes' },
-          ],
-        },
-        {
-          id: 'accessories',
-          name: 'Accessories',
-          items: [
-            { name: 'Jewellery', href: '/collections/womens-jewellery' },
-            { name: 'Bags', href: '/collections/womens-bags' },
-            { name: 'Sunglasses', href: '/collections/sunglasses' },
-          ],
-        },
-        {
-          id: 'potions',
-          name: 'Potions',
-          items: [
-            { name: 'Fragrances', href: '/collections/fragrances' },
-            { name: 'Beauty', href: '/collections/beauty' },
-          ],
-        },
+    },
+    {
+      id: 'support',
+      title: t('cms.footer.support'),
+      links: [
+        { name: t('cms.footer.shoppingCart'), href: '#' },
+        { name: t('cms.footer.helpCenter'), href: '#' },
+        { name: t('cms.footer.contactUs'), href: '#' },
+        { name: t('cms.footer.returns'), href: '#' },
       ],
     },
-  ] as MegaMenuCategory[],
-
-  // Additional pages (can be expanded later)
-  pages: [
-    { name: 'FAQ', href: '#' },
-  ] as NavItem[],
+    {
+      id: 'company',
+      title: t('cms.footer.company'),
+      links: [
+        { name: t('cms.footer.about'), href: '#' },
+        { name: t('cms.footer.blog'), href: '#' },
+        { name: t('cms.footer.careers'), href: '#' },
+      ],
+    },
+    {
+      id: 'legal',
+      title: t('cms.footer.legal'),
+      links: [
+        { name: t('cms.footer.privacy'), href: '#' },
+        { name: t('cms.footer.terms'), href: '#' },
+      ],
+    },
+  ]
 }
 
 /**
- * Footer Navigation
+ * Footer Navigation (default locale)
  */
-export const footerNav: FooterSection[] = [
-  {
-    title: 'Shop',
-    links: [
-      { name: 'All Products', href: '/products' },
-      { name: 'Clothing', href: '#' },
-      { name: 'Accessories', href: '#' },
-    ],
-  },
-  {
-    title: 'Support',
-    links: [
-      { name: 'Shopping Cart', href: '#' },
-      { name: 'Help Center', href: '#' },
-      { name: 'Contact Us', href: '#' },
-      { name: 'Returns', href: '#' },
-    ],
-  },
-  {
-    title: 'Company',
-    links: [
-      { name: 'About', href: '#' },
-      { name: 'Blog', href: '#' },
-      { name: 'Careers', href: '#' },
-    ],
-  },
-  {
-    title: 'Legal',
-    links: [
-      { name: 'Privacy', href: '#' },
-      { name: 'Terms', href: '#' },
-    ],
-  },
-]
+export const footerNav: FooterSection[] = getFooterNav(i18nConfig.defaultLocale)
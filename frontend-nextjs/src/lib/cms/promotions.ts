@@ -3,22 +3,78 @@
  * Marketing messages, promo codes, and promotional content
  */
 
+import type { Promotion } from '../types/promotions'
+import { i18nConfig, type Locale } from '../i18n/config'
+import { createTranslator } from '../i18n/translate'
+
+/**
+ * Promotion Rules
+ * Add an entry to launch a promotion; see lib/types/promotions.ts for every rule type.
+ * Entries without a `code` apply automatically to every qualifying cart.
+ * Amounts and thresholds are in cents.
+ */
+export const promotions: Promotion[] = [
+  {
+    id: 'expecto-20',
+    type: 'percentage',
+    code: 'EXPECTO-20',
+    label: '20% off your order',
+    percentage: 20,
+    expiresAt: null,
+    minimumOrder: null,
+    stacking: 'exclusive',
+  },
+  {
+    id: 'lumos-10',
+    type: 'fixed-amount',
+    code: 'LUMOS-10',
+    label: '$10 off orders over $50',
+    amount: 1000,
+    minimumOrder: 5000,
+    stacking: 'stackable',
+  },
+  {
+    id: 'potions-15',
+    type: 'category',
+    code: 'POTIONS-15',
+    label: '15% off potions',
+    categories: ['fragrances', 'beauty'],
+    percentage: 15,
+    stacking: 'stackable',
+  },
+  {
+    id: 'accio-3-for-2',
+    type: 'buy-x-get-y',
+    code: 'ACCIO-3FOR2',
+    label: 'Buy 2, get 1 free on beauty',
+    buyQuantity: 2,
+    getQuantity: 1,
+    discountPercentage: 100,
+    categories: ['beauty'],
+    stacking: 'exclusive',
+  },
+  // Automatic, so it stacks with the stackable codes (LUMOS-10, POTIONS-15)
+  {
+    id: 'mischief-managed',
+    type: 'tiered-spend',
+    label: 'Spend more, save more',
+    tiers: [
+      { threshold: 10000, amount: 1000 },
+      { threshold: 20000, amount: 2500 },
+      { threshold: 30000, amount: 5000 },
+    ],
+    stacking: 'stackable',
+  },
+]
+
 /**
  * Discount Code Settings
+ * Code revealed by the Revelio modal (must match a promotion code above)
  */
 export const discountCode = {
   // The promo code to reveal
   code: 'EXPECTO-20',
 
-  // Discount percentage (0-100)
-  percentage: 20,
-
-  // Expiry date (null = no expiry)
-  expiresAt: null as Date | null,
-
-  // Minimum order amount in cents (null = no minimum)
-  minimumOrder: null as number | null,
-
   // Description shown in modal
   description: 'Get 20% Off!',
 }
@@ -38,9 +94,16 @@ export const revelioMessages = {
 }
 
 /**
- * Promo Bar Configuration
+ * Promo Bar Configuration in a locale
  */
-export const promoBar = {
-  // Promo bar message
-  message: '✨ Magical things happen to orders over $100',
+export function getPromoBar(locale: Locale) {
+  return {
+    // Promo bar message
+    message: createTranslator(locale)('cms.promoBar.message'),
+  }
 }
+
+/**
+ * Promo Bar Configuration (default locale)
+ */
+export const promoBar = getPromoBar(i18nConfig.defaultLocale)
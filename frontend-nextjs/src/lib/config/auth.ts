@@ -0,0 +1,45 @@
+/**
+ * Authentication Configuration
+ * Sign-in session and magic link settings, applied by lib/services/accounts.ts
+ */
+
+export const authConfig = {
+  // httpOnly cookie holding the sign-in session token
+  cookieName: 'luna_auth',
+
+  // Sign-in sessions last 30 days (seconds)
+  sessionMaxAge: 60 * 60 * 24 * 30,
+
+  // Magic links can be used once, within 15 minutes (seconds)
+  magicLinkMaxAge: 60 * 15,
+
+  passwordMinLength: 8,
+
+  // Pages that require a signed-in shopper (unprefixed paths and their children)
+  protectedPaths: ['/account'],
+
+  // Where signed-out shoppers are sent from protected pages
+  signInPath: '/sign-in',
+}
+
+/**
+ * Check whether a path (without locale prefix) requires sign-in
+ * @param pathname - Path without locale prefix, e.g. "/account/orders"
+ */
+export function isProtectedPath(pathname: string): boolean {
+  return authConfig.protectedPaths.some((path) => pathname === path || pathname.startsWith(`${path}/`))
+}
+
+/**
+ * Sanitize a post-sign-in redirect target
+ * Only same-site absolute paths are allowed, so links can't redirect off-site
+ * @param next - Untrusted redirect target
+ * @param fallback - Path to use when the target isn't allowed
+ */
+export function safeRedirectPath(next: string | null | undefined, fallback = '/account'): string {
+  if (!next || !next.startsWith('/') || next.startsWith('//') || next.startsWith('/\\')) {
+    return fallback
+  }
+
+  return next
+}
@@ -96,3 +96,10 @@ export const cacheConfig = {
 } as const
 
 export type CacheConfig = typeof cacheConfig
+
+/**
+ * Cache-Control for BFF responses that depend only on the request and the catalog
+ * The catalog changes rarely, so the CDN serves repeat requests and refreshes
+ * them in the background
+ */
+export const catalogCacheControl = `public, s-maxage=${cacheConfig.products.list}, stale-while-revalidate=300`
@@ -1,20 +1,10 @@
 /**
  * Cart & Checkout Configuration
- * Centralized settings for cart, checkout, and shipping
+ * Centralized settings for cart and checkout
+ * Shipping rates live in shipping.ts and tax rates in tax.ts
  */
 
 export const cartConfig = {
-  /**
-   * Shipping Configuration
-   */
-  shipping: {
-    // Flat rate shipping cost in cents
-    flatRate: 1000, // $10.00
-
-    // Free shipping threshold in cents
-    freeShippingThreshold: 10000, // $100.00
-  },
-
   /**
    * Free Shipping Promotion
    * Shows progress bar in cart drawer
@@ -23,18 +13,10 @@ export const cartConfig = {
     // Enable/disable the free shipping promotion banner
     enabled: true,
 
-    // Threshold for free shipping (should match shipping.freeShippingThreshold)
+    // Threshold for free shipping (should match shippingConfig.freeShipping.threshold)
     threshold: 10000, // $100.00
   },
 
-  /**
-   * Tax Configuration
-   */
-  tax: {
-    // Tax rate as a decimal (13% = 0.13)
-    rate: 0.13,
-  },
-
   /**
    * Cart UX Configuration
    */
@@ -45,25 +27,3 @@ export const cartConfig = {
     quantityDebounceMs: 500,
   },
 } as const
-
-/**
- * Calculate shipping cost based on subtotal
- * @param subtotalInCents - Order subtotal in cents
- * @returns Shipping cost in cents (0 if free shipping applies)
- */
-export function calculateShipping(subtotalInCents: number): number {
-  if (subtotalInCents >= cartConfig.shipping.freeShippingThreshold) {
-    return 0
-  }
-  return cartConfig.shipping.flatRate
-}
-
-/**
- * Calculate tax based on subtotal and shipping
- * @param subtotalInCents - Order subtotal in cents
- * @param shippingInCents - Shipping cost in cents
- * @returns Tax amount in cents
- */
-export function calculateTax(subtotalInCents: number, shippingInCents: number): number {
-  return Math.round((subtotalInCents + shippingInCents) * cartConfig.tax.rate)
-}
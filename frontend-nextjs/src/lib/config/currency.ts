@@ -0,0 +1,63 @@
+/**
+ * Currency Configuration
+ * Display currencies and exchange rates
+ *
+ * The backend settles every cart and order in the base currency. Other
+ * currencies are for display only; rates come from currency-rates.json
+ * (units of each currency per 1 unit of the base currency).
+ */
+
+import rates from './currency-rates.json'
+
+export interface CurrencyDefinition {
+  code: string
+  label: string
+  // Locale used to format amounts
+  locale: string
+  // Digits after the decimal point (minor units per major unit = 10^minorDigits)
+  minorDigits: number
+}
+
+export const currencyConfig = {
+  // Currency the backend prices, charges and stores amounts in
+  baseCurrency: rates.base,
+
+  // Shown until the shopper picks another currency
+  defaultCurrency: rates.base,
+
+  // Date the rates were last refreshed
+  ratesUpdatedAt: rates.updatedAt,
+
+  rates: rates.rates as Record<string, number>,
+
+  currencies: [
+    { code: 'USD', label: 'US Dollar', locale: 'en-US', minorDigits: 2 },
+    // en-US prints CA$ so it can't be mistaken for US dollars
+    { code: 'CAD', label: 'Canadian Dollar', locale: 'en-US', minorDigits: 2 },
+    { code: 'EUR', label: 'Euro', locale: 'en-IE', minorDigits: 2 },
+    { code: 'GBP', label: 'British Pound', locale: 'en-GB', minorDigits: 2 },
+    { code: 'JPY', label: 'Japanese Yen', locale: 'ja-JP', minorDigits: 0 },
+  ] satisfies CurrencyDefinition[],
+} as const
+
+/**
+ * Look up a supported currency
+ * Unknown codes fall back to the base currency's locale with 2 minor digits
+ */
+export function getCurrency(code: string): CurrencyDefinition {
+  return (
+    currencyConfig.currencies.find((currency) => currency.code === code) ?? {
+      code,
+      label: code,
+      locale: 'en-US',
+      minorDigits: 2,
+    }
+  )
+}
+
+/**
+ * Whether a currency can be selected for display (listed and has a rate)
+ */
+export function isSupportedCurrency(code: string): boolean {
+  return currencyConfig.currencies.some((currency) => currency.code === code) && code in currencyConfig.rates
+}
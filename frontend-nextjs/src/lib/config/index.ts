@@ -8,3 +8,8 @@ export * from './cart'
 export * from './features'
 export * from './z-index'
 export * from './cache'
+export * from './currency'
+export * from './tax'
+export * from './shipping'
+export * from './auth'
+export * from './payments'
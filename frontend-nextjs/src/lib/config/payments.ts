@@ -0,0 +1,12 @@
+/**
+ * Payments Configuration
+ * Provider selection and gateway timeouts
+ *
+ * Only the local fake gateway (lib/payments/fake-gateway.ts) exists so far;
+ * PAYMENT_PROVIDER picks the provider once real ones are added.
+ */
+
+export const paymentConfig = {
+  // Gateway calls that take longer than this fail with a timeout
+  timeoutMs: 10000,
+} as const
@@ -0,0 +1,99 @@
+/**
+ * Shipping Configuration
+ * Destination zones and per-method rate tables, applied by lib/services/shipping.ts
+ *
+ * A method's price in a zone is its base rate, which covers the first
+ * `includedKg`, plus `perKg` for every started kilogram after that. Methods
+ * without a rate for a zone aren't offered there. Amounts are in cents.
+ */
+
+export interface ShippingZone {
+  id: string
+  label: string
+  country: string
+  // State/province codes or names; omit for the rest of the country
+  regions?: string[]
+}
+
+export interface ShippingMethodRate {
+  base: number
+  perKg: number
+}
+
+export interface ShippingMethod {
+  id: string
+  label: string
+  // Business days in transit, shown as an estimate
+  minDays: number
+  maxDays: number
+  // Rate per zone ID
+  rates: Record<string, ShippingMethodRate>
+}
+
+export const shippingConfig = {
+  // Shipped from Toronto; checked in order, so regional zones come first
+  zones: [
+    { id: 'ca-central', label: 'Ontario & Quebec', country: 'CA', regions: ['ON', 'Ontario', 'QC', 'Quebec'] },
+    { id: 'ca', label: 'Canada', country: 'CA' },
+    { id: 'us', label: 'United States', country: 'US' },
+  ] as ShippingZone[],
+
+  // Offered in this order at checkout; the first available method is preselected
+  methods: [
+    {
+      id: 'standard',
+      label: 'Standard',
+      minDays: 5,
+      maxDays: 7,
+      rates: {
+        'ca-central': { base: 1000, perKg: 100 },
+        ca: { base: 1400, perKg: 200 },
+        us: { base: 1800, perKg: 250 },
+      },
+    },
+    {
+      id: 'express',
+      label: 'Express',
+      minDays: 2,
+      maxDays: 3,
+      rates: {
+        'ca-central': { base: 1800, perKg: 200 },
+        ca: { base: 2600, perKg: 300 },
+        us: { base: 3200, perKg: 400 },
+      },
+    },
+    {
+      id: 'overnight',
+      label: 'Overnight',
+      minDays: 1,
+      maxDays: 1,
+      rates: {
+        'ca-central': { base: 3500, perKg: 400 },
+        ca: { base: 4800, perKg: 500 },
+      },
+    },
+  ] as ShippingMethod[],
+
+  // Weight covered by each method's base rate
+  includedKg: 1,
+
+  // Used for products without a catalog weight
+  defaultItemWeightKg: 0.5,
+
+  freeShipping: {
+    // Pre-discount subtotal in cents (should match cartConfig.freeShippingPromo.threshold)
+    threshold: 10000, // $100.00
+
+    // Methods that become free above the threshold
+    methods: ['standard'],
+  },
+}
+
+/**
+ * Check whether a subtotal earns free shipping
+ * Uses the pre-discount subtotal so promo codes don't take away free shipping
+ * @param subtotalInCents - Order subtotal in cents
+ */
+export function qualifiesForFreeShipping(subtotalInCents: number): boolean {
+  return subtotalInCents >= shippingConfig.freeShipping.threshold
+}
@@ -11,11 +11,18 @@ export interface FontConfig {
   googleFontsUrl: string
 }
 
+/**
+ * How listing pages load more products
+ * numbered = page links (?page=N), infinite = load the next page on scroll
+ */
+export type PaginationMode = 'numbered' | 'infinite'
+
 export interface SiteConfig {
   title: string
   description: string
   url: string
   productsPerPage: number
+  paginationMode: PaginationMode
   font: FontConfig
 }
 
@@ -24,6 +31,7 @@ export const siteConfig: SiteConfig = {
   description: brand.tagline,
   url: process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000',
   productsPerPage: 12,
+  paginationMode: 'numbered',
   font: {
     family: '"Cedarville Cursive", cursive',
     className: 'font-brand',
@@ -0,0 +1,169 @@
+/**
+ * Tax Configuration
+ * Sales tax rates per jurisdiction, applied by lib/services/tax.ts
+ *
+ * A jurisdiction is a country, or a state/province within one. The most
+ * specific match for the shipping address wins; a country entry covers its
+ * regions without their own entry. Rates are decimals (13% = 0.13).
+ */
+
+export interface TaxComponent {
+  id: string
+  // Shown in the tax breakdown, e.g. "HST"
+  label: string
+  rate: number
+  // Only applies to postal codes starting with one of these (local taxes)
+  postalPrefixes?: string[]
+}
+
+export interface TaxJurisdiction {
+  country: string
+  // State/province code; omit for the country-wide entry
+  region?: string
+  // Full region name, also accepted in place of the code
+  regionName?: string
+  components: TaxComponent[]
+  // Whether shipping charges are taxed alongside the goods
+  taxShipping: boolean
+  // Product categories sold tax-free here
+  exemptCategories: string[]
+}
+
+export interface TaxCountry {
+  code: string
+  name: string
+  // Checked by the checkout schema; example is shown in the error message
+  postalCodePattern: RegExp
+  postalCodeExample: string
+}
+
+const GST = { id: 'gst', label: 'GST', rate: 0.05 }
+
+// Basic groceries are zero-rated across Canada and exempt in most US states.
+// Placeholder for now: the storefront doesn't sell groceries (see configuredCategories)
+const canadaExempt = ['groceries']
+const usExempt = ['groceries']
+
+// Storefront categories some states treat as clothing and footwear
+const clothingCategories = ['tops', 'womens-dresses', 'womens-shoes']
+
+const jurisdictions: TaxJurisdiction[] = [
+  // Canada: GST only unless the province adds its own tax
+  { country: 'CA', components: [GST], taxShipping: true, exemptCategories: canadaExempt },
+  {
+    country: 'CA',
+    region: 'ON',
+    regionName: 'Ontario',
+    components: [{ id: 'hst', label: 'HST', rate: 0.13 }],
+    taxShipping: true,
+    exemptCategories: canadaExempt,
+  },
+  {
+    country: 'CA',
+    region: 'NS',
+    regionName: 'Nova Scotia',
+    components: [{ id: 'hst', label: 'HST', rate: 0.14 }],
+    taxShipping: true,
+    exemptCategories: canadaExempt,
+  },
+  ...[
+    ['NB', 'New Brunswick'],
+    ['NL', 'Newfoundland and Labrador'],
+    ['PE', 'Prince Edward Island'],
+  ].map(([region, regionName]) => ({
+    country: 'CA',
+    region,
+    regionName,
+    components: [{ id: 'hst', label: 'HST', rate: 0.15 }],
+    taxShipping: true,
+    exemptCategories: canadaExempt,
+  })),
+  {
+    country: 'CA',
+    region: 'QC',
+    regionName: 'Quebec',
+    components: [GST, { id: 'qst', label: 'QST', rate: 0.09975 }],
+    taxShipping: true,
+    exemptCategories: canadaExempt,
+  },
+  {
+    country: 'CA',
+    region: 'BC',
+    regionName: 'British Columbia',
+    components: [GST, { id: 'pst', label: 'PST', rate: 0.07 }],
+    taxShipping: true,
+    exemptCategories: canadaExempt,
+  },
+
+  // United States: no federal sales tax; states without an entry collect nothing
+  { country: 'US', components: [], taxShipping: false, exemptCategories: [] },
+  {
+    country: 'US',
+    region: 'CA',
+    regionName: 'California',
+    components: [{ id: 'state', label: 'State tax', rate: 0.0725 }],
+    taxShipping: false,
+    exemptCategories: usExempt,
+  },
+  {
+    country: 'US',
+    region: 'NJ',
+    regionName: 'New Jersey',
+    components: [{ id: 'state', label: 'State tax', rate: 0.06625 }],
+    taxShipping: true,
+    // Clothing and footwear are exempt in New Jersey
+    exemptCategories: [...usExempt, ...clothingCategories],
+  },
+  {
+    country: 'US',
+    region: 'NY',
+    regionName: 'New York',
+    components: [
+      { id: 'state', label: 'State tax', rate: 0.04 },
+      {
+        id: 'nyc',
+        label: 'New York City tax',
+        rate: 0.04875,
+        postalPrefixes: ['100', '101', '102', '103', '104', '111', '112', '113', '114', '116'],
+      },
+    ],
+    taxShipping: true,
+    exemptCategories: usExempt,
+  },
+  {
+    country: 'US',
+    region: 'TX',
+    regionName: 'Texas',
+    components: [{ id: 'state', label: 'State tax', rate: 0.0625 }],
+    taxShipping: true,
+    exemptCategories: usExempt,
+  },
+  {
+    country: 'US',
+    region: 'WA',
+    regionName: 'Washington',
+    components: [{ id: 'state', label: 'State tax', rate: 0.065 }],
+    taxShipping: true,
+    exemptCategories: usExempt,
+  },
+]
+
+export const taxConfig = {
+  // Countries we ship to (and can therefore tax)
+  countries: [
+    { code: 'CA', name: 'Canada', postalCodePattern: /^[A-Z]\d[A-Z] ?\d[A-Z]\d$/i, postalCodeExample: 'M5V 2T6' },
+    { code: 'US', name: 'United States', postalCodePattern: /^\d{5}(-\d{4})?$/, postalCodeExample: '10001' },
+  ] as TaxCountry[],
+
+  // Preselected in the checkout address form
+  defaultCountry: 'CA',
+
+  jurisdictions,
+}
+
+/**
+ * Check whether we ship to (and tax) a country
+ */
+export function isSupportedCountry(code: string): boolean {
+  return taxConfig.countries.some((country) => country.code === code)
+}
@@ -0,0 +1,42 @@
+/**
+ * Locale Path Tests
+ * Tests adding and stripping locale prefixes
+ */
+
+import { describe, it, expect } from 'vitest'
+import { localizePath, splitLocale } from '../paths'
+
+describe('localizePath', () => {
+  it('should leave default locale paths unprefixed', () => {
+    expect(localizePath('/products', 'en')).toBe('/products')
+    expect(localizePath('/fr/products', 'en')).toBe('/products')
+  })
+
+  it('should prefix other locales', () => {
+    expect(localizePath('/products?page=2', 'fr')).toBe('/fr/products?page=2')
+    expect(localizePath('/', 'fr')).toBe('/fr')
+  })
+
+  it('should not prefix twice', () => {
+    expect(localizePath('/fr/products', 'fr')).toBe('/fr/products')
+  })
+
+  it('should leave external URLs and hashes alone', () => {
+    expect(localizePath('#', 'fr')).toBe('#')
+    expect(localizePath('https://example.com/products', 'fr')).toBe('https://example.com/products')
+    expect(localizePath('//cdn.example.com/a.png', 'fr')).toBe('//cdn.example.com/a.png')
+  })
+})
+
+describe('splitLocale', () => {
+  it('should split off a locale prefix', () => {
+    expect(splitLocale('/fr/products/1')).toEqual({ locale: 'fr', pathname: '/products/1', hasPrefix: true })
+    expect(splitLocale('/fr')).toEqual({ locale: 'fr', pathname: '/', hasPrefix: true })
+    expect(splitLocale('/en/cart')).toEqual({ locale: 'en', pathname: '/cart', hasPrefix: true })
+  })
+
+  it('should default to the default locale without a prefix', () => {
+    expect(splitLocale('/products')).toEqual({ locale: 'en', pathname: '/products', hasPrefix: false })
+    expect(splitLocale('/freebies')).toEqual({ locale: 'en', pathname: '/freebies', hasPrefix: false })
+  })
+})
@@ -0,0 +1,51 @@
+/**
+ * Translator Tests
+ * Tests message lookup, English fallback, placeholders and Intl formatting
+ */
+
+import { describe, it, expect } from 'vitest'
+import { createTranslator, fillPlaceholders, formatDate, formatNumber, type MessageKey } from '../translate'
+import { en } from '../messages/en'
+import { fr } from '../messages/fr'
+
+describe('createTranslator', () => {
+  it('should look up messages by dot-separated key', () => {
+    expect(createTranslator('en')('cart.title')).toBe('Shopping cart')
+    expect(createTranslator('fr')('cart.title')).toBe('Panier')
+  })
+
+  it('should fall back to English for keys missing from a catalog', () => {
+    expect(fr.cms?.navigation?.faq).toBeUndefined()
+    expect(createTranslator('fr')('cms.navigation.faq')).toBe(en.cms.navigation.faq)
+  })
+
+  it('should return the key when no catalog has the message', () => {
+    expect(createTranslator('fr')('cart.unknown' as MessageKey)).toBe('cart.unknown')
+  })
+
+  it('should fill in placeholders', () => {
+    expect(createTranslator('en')('cart.announceMany', { count: 3 })).toBe('Shopping cart has 3 items')
+    expect(createTranslator('fr')('orderSummary.discountWithCode', { code: 'LUMOS-10' })).toBe('Remise (LUMOS-10)')
+  })
+})
+
+describe('fillPlaceholders', () => {
+  it('should leave unknown placeholders as written', () => {
+    expect(fillPlaceholders('Add {amount} by {date}', { amount: '$5.00' })).toBe('Add $5.00 by {date}')
+  })
+})
+
+describe('Intl formatting', () => {
+  it('should format numbers for the locale', () => {
+    expect(formatNumber(1234.5, 'en')).toBe('1,234.5')
+    expect(formatNumber(1234.5, 'fr')).toBe('1 234,5')
+    expect(formatNumber(0.42, 'fr', { style: 'percent' })).toBe('42 %')
+  })
+
+  it('should format dates for the locale', () => {
+    const date = new Date(2026, 9, 19)
+
+    expect(formatDate(date, 'en', { month: 'numeric', day: 'numeric' })).toBe('10/19')
+    expect(formatDate(date, 'fr', { month: 'numeric', day: 'numeric' })).toBe('19/10')
+  })
+})
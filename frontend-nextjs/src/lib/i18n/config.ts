@@ -0,0 +1,33 @@
+/**
+ * Internationalisation Configuration
+ * Supported locales and how they map to Intl and hreflang
+ *
+ * The default locale is served without a prefix (/products); every other
+ * locale is prefixed (/fr/products).
+ */
+
+export const i18nConfig = {
+  locales: ['en', 'fr'],
+  defaultLocale: 'en',
+
+  // BCP 47 tags used for Intl formatting and OpenGraph locales
+  intlLocales: {
+    en: 'en-US',
+    fr: 'fr-FR',
+  },
+
+  // Names shown in the language switcher (in their own language)
+  labels: {
+    en: 'English',
+    fr: 'Français',
+  },
+} as const
+
+export type Locale = (typeof i18nConfig.locales)[number]
+
+/**
+ * Whether a string is a supported locale
+ */
+export function isLocale(value: string | undefined | null): value is Locale {
+  return !!value && (i18nConfig.locales as readonly string[]).includes(value)
+}
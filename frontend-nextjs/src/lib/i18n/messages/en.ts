@@ -0,0 +1,260 @@
+/**
+ * English Messages
+ * Source catalog: every key must exist here, and English is the fallback
+ * for keys missing from other catalogs
+ *
+ * Placeholders are written {name} and filled in by the translator.
+ */
+
+export const en = {
+  common: {
+    free: '✨ FREE',
+    processing: 'Processing...',
+  },
+
+  cart: {
+    title: 'Shopping cart',
+    closePanel: 'Close panel',
+    announceEmpty: 'Shopping cart is empty',
+    announceOne: 'Shopping cart has 1 item',
+    announceMany: 'Shopping cart has {count} items',
+    itemNotFound: 'Item not found in cart',
+    onlyAvailable: 'Only {count} available',
+    maxStock: 'Maximum stock reached',
+    promoApplied: 'Promo code {code} applied',
+    fetchFailed: 'Failed to fetch cart',
+    addFailed: 'Failed to add item to cart',
+    updateFailed: 'Failed to update quantity',
+    removeFailed: 'Failed to remove item',
+    applyPromoFailed: 'Failed to apply promo code',
+    removePromoFailed: 'Failed to remove promo code',
+  },
+
+  freeShipping: {
+    unlocked: "🎉 You've unlocked FREE shipping!",
+    addMore: 'Add {amount} more to get FREE shipping!',
+    qualifiesBefore: 'Your order qualifies if placed before {date}',
+    progress: '{percent} of the way there',
+  },
+
+  orderSummary: {
+    heading: 'Order summary',
+    subtotal: 'Subtotal',
+    discount: 'Discount',
+    discountWithCode: 'Discount ({code})',
+    shipping: 'Shipping',
+    shippingWithMethod: 'Shipping ({method})',
+    shippingAtCheckout: 'Calculated at checkout',
+    taxes: 'Taxes',
+    taxLine: '{label} ({rate})',
+    pendingAddress: 'Calculated from your shipping address',
+    total: 'Total',
+    taxesAtCheckout: 'Taxes calculated at checkout.',
+    checkout: 'Checkout',
+    chargedNote: "You'll be charged {amount} ({currency}). Prices in {displayCurrency} are estimates.",
+    quantity: 'Qty: {count}',
+  },
+
+  checkout: {
+    heading: 'Order information',
+    steps: {
+      cart: 'Cart',
+      information: 'Information',
+      shippingMethod: 'Shipping',
+      payment: 'Payment',
+      review: 'Review',
+      confirmation: 'Confirmation',
+    },
+    placeOrder: 'Place order',
+    continue: 'Continue',
+    back: 'Back',
+    returnToCart: 'Return to cart',
+    loading: 'Loading checkout...',
+    confirmationNotice: "You'll receive a confirmation once your order is placed.",
+    failed: 'Failed to place order',
+    shippingMethod: {
+      heading: 'Shipping method',
+      days: '{min}–{max} business days',
+      nextDay: 'Next business day',
+      enterAddress: 'Enter your shipping address to see shipping options.',
+      loading: 'Loading shipping options...',
+    },
+    addresses: {
+      savedLegend: 'Saved addresses',
+      default: 'Default',
+      useNew: 'Use a new address',
+      edit: 'Edit',
+      makeDefault: 'Make default',
+      saveChanges: 'Save changes',
+      cancel: 'Cancel',
+      saveToBook: 'Save this address to my account',
+    },
+    review: {
+      heading: 'Review your order',
+      contact: 'Contact',
+      shipTo: 'Ship to',
+      method: 'Shipping method',
+      payment: 'Payment',
+      billTo: 'Bill to',
+      sameAsShipping: 'Same as shipping address',
+      change: 'Change',
+    },
+    card: {
+      ending: '{brand} ending in {last4}',
+      useDifferent: 'Use a different card',
+    },
+    threeDSecure: {
+      heading: 'Confirm this payment',
+      description: 'Your bank wants to confirm this payment with the card ending in {last4}.',
+      approve: 'Approve',
+      fail: 'Fail authentication',
+      failed: 'Could not reach your bank. Please try again.',
+      cancelled: 'The payment was not confirmed, so your card has not been charged.',
+    },
+  },
+
+  auth: {
+    signInHeading: 'Sign in to your account',
+    registerHeading: 'Create an account',
+    email: 'Email address',
+    password: 'Password',
+    name: 'Name',
+    signIn: 'Sign in',
+    register: 'Create account',
+    orDivider: 'Or',
+    magicLinkHeading: 'Email me a sign-in link',
+    magicLinkHint: 'No password needed. The link works once, for {minutes} minutes.',
+    sendLink: 'Send link',
+    linkSent: 'Check {email} for a sign-in link.',
+    linkExpired: 'That sign-in link has expired or was already used. Request a new one below.',
+    noAccount: 'New here?',
+    haveAccount: 'Already have an account?',
+    passwordHint: 'At least {count} characters',
+  },
+
+  account: {
+    heading: 'Your account',
+    menuLabel: 'Account',
+    signIn: 'Sign in',
+    signOut: 'Sign out',
+    signedInAs: 'Signed in as {email}',
+    nav: {
+      profile: 'Profile',
+      addresses: 'Addresses',
+      orders: 'Orders',
+    },
+    profile: {
+      heading: 'Profile',
+      save: 'Save',
+      saved: 'Profile saved',
+      memberSince: 'Member since {date}',
+    },
+    addresses: {
+      heading: 'Saved addresses',
+      empty: 'None saved yet.',
+      add: 'Add address',
+      editHeading: 'Edit address',
+      save: 'Save address',
+      cancel: 'Cancel',
+      edit: 'Edit',
+      remove: 'Remove',
+      default: 'Default',
+      makeDefault: 'Make default',
+      useAsDefault: 'Use as my default address',
+      kindLabel: 'Use for',
+      kinds: {
+        shipping: 'Shipping addresses',
+        billing: 'Billing addresses',
+      },
+    },
+    orders: {
+      heading: 'Order history',
+      empty: "You haven't placed any orders while signed in.",
+      placedOn: 'Placed {date}',
+      itemCount: '{count} items',
+      view: 'View order',
+    },
+    loading: 'Loading...',
+  },
+
+  header: {
+    openMenu: 'Open menu',
+    closeMenu: 'Close menu',
+    revealOffer: 'Reveal a secret offer',
+    search: 'Search',
+    searchShortcut: 'Search (⌘K)',
+    wishlistItems: 'items in wishlist, view wishlist',
+    cartItems: 'items in cart, view bag',
+  },
+
+  searchPalette: {
+    label: 'Search products and collections',
+    placeholder: 'Search products and collections...',
+    collections: 'Collections',
+    products: 'Products',
+    seeAll: 'See all results for “{query}”',
+    searching: 'Searching...',
+    hint: 'Use {arrows} to navigate, {enter} to open, {esc} to close',
+  },
+
+  footer: {
+    heading: 'Footer',
+    copyright: '© {year} {brand}. All rights reserved.',
+  },
+
+  localeSwitcher: {
+    label: 'Language',
+  },
+
+  cms: {
+    brand: {
+      tagline: 'Curated treasures for free spirits',
+      footerSlogan: 'Your enchanted emporium for curious treasures at spellbinding prices.',
+    },
+    promoBar: {
+      message: '✨ Magical things happen to orders over $100',
+    },
+    navigation: {
+      shopAll: 'Shop All',
+      theGoods: 'The Goods',
+      featuredProducts: 'Featured Products',
+      shopNow: 'Shop now',
+      faq: 'FAQ',
+      sections: {
+        clothing: 'Clothing',
+        accessories: 'Accessories',
+        potions: 'Potions',
+      },
+      categories: {
+        tops: 'Tops',
+        dresses: 'Dresses',
+        shoes: 'Shoes',
+        jewellery: 'Jewellery',
+        bags: 'Bags',
+        sunglasses: 'Sunglasses',
+        fragrances: 'Fragrances',
+        beauty: 'Beauty',
+      },
+    },
+    footer: {
+      shop: 'Shop',
+      allProducts: 'All Products',
+      clothing: 'Clothing',
+      accessories: 'Accessories',
+      support: 'Support',
+      shoppingCart: 'Shopping Cart',
+      helpCenter: 'Help Center',
+      contactUs: 'Contact Us',
+      returns: 'Returns',
+      company: 'Company',
+      about: 'About',
+      blog: 'Blog',
+      careers: 'Careers',
+      legal: 'Legal',
+      privacy: 'Privacy',
+      terms: 'Terms',
+    },
+  },
+}
+
+export type Messages = typeof en
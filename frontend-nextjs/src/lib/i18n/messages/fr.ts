@@ -0,0 +1,257 @@
+/**
+ * French Messages
+ * Keys missing here fall back to English
+ */
+
+import type { Messages } from './en'
+import type { DeepPartial } from '../translate'
+
+export const fr: DeepPartial<Messages> = {
+  common: {
+    free: '✨ OFFERTE',
+    processing: 'Traitement...',
+  },
+
+  cart: {
+    title: 'Panier',
+    closePanel: 'Fermer le panneau',
+    announceEmpty: 'Le panier est vide',
+    announceOne: 'Le panier contient 1 article',
+    announceMany: 'Le panier contient {count} articles',
+    itemNotFound: 'Article introuvable dans le panier',
+    onlyAvailable: 'Seulement {count} disponible(s)',
+    maxStock: 'Stock maximum atteint',
+    promoApplied: 'Code promo {code} appliqué',
+    fetchFailed: 'Impossible de charger le panier',
+    addFailed: "Impossible d'ajouter l'article au panier",
+    updateFailed: 'Impossible de modifier la quantité',
+    removeFailed: "Impossible de retirer l'article",
+    applyPromoFailed: "Impossible d'appliquer le code promo",
+    removePromoFailed: 'Impossible de retirer le code promo',
+  },
+
+  freeShipping: {
+    unlocked: '🎉 Livraison OFFERTE débloquée !',
+    addMore: 'Ajoutez {amount} pour profiter de la livraison OFFERTE !',
+    qualifiesBefore: 'Valable pour toute commande passée avant le {date}',
+    progress: '{percent} du chemin parcouru',
+  },
+
+  orderSummary: {
+    heading: 'Récapitulatif de commande',
+    subtotal: 'Sous-total',
+    discount: 'Remise',
+    discountWithCode: 'Remise ({code})',
+    shipping: 'Livraison',
+    shippingWithMethod: 'Livraison ({method})',
+    shippingAtCheckout: 'Calculée lors du paiement',
+    taxes: 'Taxes',
+    taxLine: '{label} ({rate})',
+    pendingAddress: 'Calculées selon votre adresse de livraison',
+    total: 'Total',
+    taxesAtCheckout: 'Taxes calculées lors du paiement.',
+    checkout: 'Commander',
+    chargedNote: 'Vous serez débité de {amount} ({currency}). Les prix en {displayCurrency} sont indicatifs.',
+    quantity: 'Qté : {count}',
+  },
+
+  checkout: {
+    heading: 'Informations de commande',
+    steps: {
+      cart: 'Panier',
+      information: 'Informations',
+      shippingMethod: 'Livraison',
+      payment: 'Paiement',
+      review: 'Vérification',
+      confirmation: 'Confirmation',
+    },
+    placeOrder: 'Passer la commande',
+    continue: 'Continuer',
+    back: 'Retour',
+    returnToCart: 'Retour au panier',
+    loading: 'Chargement de la commande...',
+    confirmationNotice: 'Vous recevrez une confirmation une fois la commande passée.',
+    failed: 'Impossible de passer la commande',
+    shippingMethod: {
+      heading: 'Mode de livraison',
+      days: '{min} à {max} jours ouvrables',
+      nextDay: 'Jour ouvrable suivant',
+      enterAddress: 'Saisissez votre adresse de livraison pour voir les options.',
+      loading: 'Chargement des options de livraison...',
+    },
+    addresses: {
+      savedLegend: 'Adresses enregistrées',
+      default: 'Par défaut',
+      useNew: 'Utiliser une nouvelle adresse',
+      edit: 'Modifier',
+      makeDefault: 'Définir par défaut',
+      saveChanges: 'Enregistrer les modifications',
+      cancel: 'Annuler',
+      saveToBook: 'Enregistrer cette adresse dans mon compte',
+    },
+    review: {
+      heading: 'Vérifiez votre commande',
+      contact: 'Contact',
+      shipTo: 'Livrer à',
+      method: 'Mode de livraison',
+      payment: 'Paiement',
+      billTo: 'Facturer à',
+      sameAsShipping: "Identique à l'adresse de livraison",
+      change: 'Modifier',
+    },
+    card: {
+      ending: '{brand} se terminant par {last4}',
+      useDifferent: 'Utiliser une autre carte',
+    },
+    threeDSecure: {
+      heading: 'Confirmer ce paiement',
+      description: 'Votre banque souhaite confirmer ce paiement avec la carte se terminant par {last4}.',
+      approve: 'Approuver',
+      fail: "Échouer l'authentification",
+      failed: 'Impossible de joindre votre banque. Veuillez réessayer.',
+      cancelled: "Le paiement n'a pas été confirmé : votre carte n'a pas été débitée.",
+    },
+  },
+
+  auth: {
+    signInHeading: 'Connectez-vous à votre compte',
+    registerHeading: 'Créer un compte',
+    email: 'Adresse courriel',
+    password: 'Mot de passe',
+    name: 'Nom',
+    signIn: 'Se connecter',
+    register: 'Créer le compte',
+    orDivider: 'Ou',
+    magicLinkHeading: 'Recevoir un lien de connexion',
+    magicLinkHint: 'Aucun mot de passe requis. Le lien fonctionne une fois, pendant {minutes} minutes.',
+    sendLink: 'Envoyer le lien',
+    linkSent: 'Consultez {email} pour votre lien de connexion.',
+    linkExpired: 'Ce lien de connexion a expiré ou a déjà été utilisé. Demandez-en un nouveau ci-dessous.',
+    noAccount: 'Nouveau client?',
+    haveAccount: 'Vous avez déjà un compte?',
+    passwordHint: 'Au moins {count} caractères',
+  },
+
+  account: {
+    heading: 'Votre compte',
+    menuLabel: 'Compte',
+    signIn: 'Se connecter',
+    signOut: 'Se déconnecter',
+    signedInAs: 'Connecté en tant que {email}',
+    nav: {
+      profile: 'Profil',
+      addresses: 'Adresses',
+      orders: 'Commandes',
+    },
+    profile: {
+      heading: 'Profil',
+      save: 'Enregistrer',
+      saved: 'Profil enregistré',
+      memberSince: 'Membre depuis le {date}',
+    },
+    addresses: {
+      heading: 'Adresses enregistrées',
+      empty: 'Aucune pour le moment.',
+      add: 'Ajouter une adresse',
+      editHeading: "Modifier l'adresse",
+      save: "Enregistrer l'adresse",
+      cancel: 'Annuler',
+      edit: 'Modifier',
+      remove: 'Supprimer',
+      default: 'Par défaut',
+      makeDefault: 'Définir par défaut',
+      useAsDefault: 'Utiliser comme adresse par défaut',
+      kindLabel: 'Utiliser pour',
+      kinds: {
+        shipping: 'Adresses de livraison',
+        billing: 'Adresses de facturation',
+      },
+    },
+    orders: {
+      heading: 'Historique des commandes',
+      empty: "Vous n'avez passé aucune commande en étant connecté.",
+      placedOn: 'Passée le {date}',
+      itemCount: '{count} articles',
+      view: 'Voir la commande',
+    },
+    loading: 'Chargement...',
+  },
+
+  header: {
+    openMenu: 'Ouvrir le menu',
+    closeMenu: 'Fermer le menu',
+    revealOffer: 'Révéler une offre secrète',
+    search: 'Rechercher',
+    searchShortcut: 'Rechercher (⌘K)',
+    wishlistItems: 'articles dans la liste de souhaits, voir la liste',
+    cartItems: 'articles dans le panier, voir le panier',
+  },
+
+  searchPalette: {
+    label: 'Rechercher des produits et des collections',
+    placeholder: 'Rechercher des produits et des collections...',
+    collections: 'Collections',
+    products: 'Produits',
+    seeAll: 'Voir tous les résultats pour « {query} »',
+    searching: 'Recherche...',
+    hint: 'Utilisez {arrows} pour naviguer, {enter} pour ouvrir, {esc} pour fermer',
+  },
+
+  footer: {
+    heading: 'Pied de page',
+    copyright: '© {year} {brand}. Tous droits réservés.',
+  },
+
+  localeSwitcher: {
+    label: 'Langue',
+  },
+
+  cms: {
+    brand: {
+      tagline: 'Des trésors choisis pour les esprits libres',
+      footerSlogan: 'Votre bazar enchanté de trésors curieux à des prix ensorcelants.',
+    },
+    promoBar: {
+      message: '✨ Il se passe des choses magiques dès 100 $ d’achat',
+    },
+    navigation: {
+      shopAll: 'Tout voir',
+      theGoods: 'La boutique',
+      featuredProducts: 'Produits à la une',
+      shopNow: 'Découvrir',
+      sections: {
+        clothing: 'Vêtements',
+        accessories: 'Accessoires',
+        potions: 'Potions',
+      },
+      categories: {
+        tops: 'Hauts',
+        dresses: 'Robes',
+        shoes: 'Chaussures',
+        jewellery: 'Bijoux',
+        bags: 'Sacs',
+        sunglasses: 'Lunettes de soleil',
+        fragrances: 'Parfums',
+        beauty: 'Beauté',
+      },
+    },
+    footer: {
+      shop: 'Boutique',
+      allProducts: 'Tous les produits',
+      clothing: 'Vêtements',
+      accessories: 'Accessoires',
+      support: 'Assistance',
+      shoppingCart: 'Panier',
+      helpCenter: 'Centre d’aide',
+      contactUs: 'Nous contacter',
+      returns: 'Retours',
+      company: 'Société',
+      about: 'À propos',
+      blog: 'Blog',
+      careers: 'Carrières',
+      legal: 'Mentions légales',
+      privacy: 'Confidentialité',
+      terms: 'Conditions',
+    },
+  },
+}
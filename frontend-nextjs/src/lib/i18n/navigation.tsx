@@ -0,0 +1,51 @@
+/**
+ * Locale-Aware Navigation
+ * Drop-in versions of next/link and next/navigation helpers that keep the
+ * current locale prefix on internal paths
+ *
+ * Paths passed in and returned are always unprefixed ('/products'), so
+ * components don't need to know which locale they render in.
+ */
+
+'use client'
+
+import { useMemo, type ComponentProps } from 'react'
+import NextLink from 'next/link'
+import { usePathname as useNextPathname, useRouter as useNextRouter } from 'next/navigation'
+import { useLocale } from '@/lib/providers/locale-provider'
+import { localizePath, splitLocale } from './paths'
+
+export function Link({ href, ...props }: ComponentProps<typeof NextLink>) {
+  const locale = useLocale()
+
+  const localizedHref = typeof href === 'string'
+    ? localizePath(href, locale)
+    : { ...href, pathname: href.pathname ? localizePath(href.pathname, locale) : href.pathname }
+
+  return <NextLink href={localizedHref} {...props} />
+}
+
+/**
+ * Current pathname without the locale prefix
+ */
+export function usePathname(): string {
+  return splitLocale(useNextPathname() ?? '/').pathname
+}
+
+/**
+ * Router whose push/replace/prefetch add the locale prefix
+ */
+export function useRouter(): ReturnType<typeof useNextRouter> {
+  const router = useNextRouter()
+  const locale = useLocale()
+
+  return useMemo(
+    () => ({
+      ...router,
+      push: (href, ...options) => router.push(localizePath(href, locale), ...options),
+      replace: (href, ...options) => router.replace(localizePath(href, locale), ...options),
+      prefetch: (href, ...options) => router.prefetch(localizePath(href, locale), ...options),
+    }),
+    [router, locale]
+  )
+}
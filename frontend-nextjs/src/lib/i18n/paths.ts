@@ -0,0 +1,43 @@
+/**
+ * Locale Path Helpers
+ * Add and strip the locale prefix of internal paths
+ */
+
+import { i18nConfig, isLocale, type Locale } from './config'
+
+/**
+ * Prefix an internal path with a locale (the default locale has no prefix)
+ * External URLs, hashes and non-absolute paths are returned unchanged
+ * @example localizePath('/products', 'fr') => '/fr/products'
+ * @example localizePath('/', 'fr') => '/fr'
+ * @example localizePath('/products', 'en') => '/products'
+ */
+export function localizePath(path: string, locale: Locale): string {
+  if (!path.startsWith('/') || path.startsWith('//')) return path
+
+  const { pathname } = splitLocale(path)
+  if (locale === i18nConfig.defaultLocale) return pathname
+
+  return pathname === '/' ? `/${locale}` : `/${locale}${pathname}`
+}
+
+/**
+ * Split a path into its locale and the path without the prefix
+ * @example splitLocale('/fr/products?page=2') => { locale: 'fr', pathname: '/products?page=2' }
+ * @example splitLocale('/products') => { locale: 'en', pathname: '/products' }
+ */
+export function splitLocale(path: string): { locale: Locale; pathname: string; hasPrefix: boolean } {
+  const match = path.match(/^\/([^/?#]+)(.*)$/)
+  const segment = match?.[1]
+
+  if (match && isLocale(segment)) {
+    const rest = match[2]
+    return {
+      locale: segment,
+      pathname: rest.startsWith('/') ? rest : `/${rest}`,
+      hasPrefix: true,
+    }
+  }
+
+  return { locale: i18nConfig.defaultLocale, pathname: path, hasPrefix: false }
+}
@@ -0,0 +1,84 @@
+/**
+ * Translator
+ * Looks up messages by dot-separated key, fills in {placeholders} and
+ * formats dates and numbers for a locale with Intl
+ *
+ * Missing keys fall back to English, then to the key itself.
+ */
+
+import { i18nConfig, type Locale } from './config'
+import { en, type Messages } from './messages/en'
+import { fr } from './messages/fr'
+
+export type DeepPartial<T> = {
+  [K in keyof T]?: T[K] extends string ? string : DeepPartial<T[K]>
+}
+
+/**
+ * Dot-separated path to every message, e.g. 'cart.title'
+ */
+export type MessageKey = MessagePaths<Messages>
+
+type MessagePaths<T, Prefix extends string = ''> = {
+  [K in keyof T & string]: T[K] extends string
+    ? `${Prefix}${K}`
+    : MessagePaths<T[K], `${Prefix}${K}.`>
+}[keyof T & string]
+
+export type MessageValues = Record<string, string | number>
+
+export type Translator = (key: MessageKey, values?: MessageValues) => string
+
+const catalogs: Record<Locale, DeepPartial<Messages>> = { en, fr }
+
+/**
+ * Find a message in a catalog (undefined if missing)
+ */
+function lookup(catalog: DeepPartial<Messages>, key: string): string | undefined {
+  const message = key.split('.').reduce<unknown>(
+    (node, part) => (node && typeof node === 'object' ? (node as Record<string, unknown>)[part] : undefined),
+    catalog
+  )
+
+  return typeof message === 'string' ? message : undefined
+}
+
+/**
+ * Fill in {placeholders}; unknown placeholders are left as written
+ * @example fillPlaceholders('Add {amount} more', { amount: '$5.00' }) => 'Add $5.00 more'
+ */
+export function fillPlaceholders(message: string, values: MessageValues = {}): string {
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in values ? String(values[name]) : placeholder
+  )
+}
+
+/**
+ * Get the raw message for a key in a locale, falling back to English
+ */
+export function getMessage(locale: Locale, key: MessageKey): string {
+  return lookup(catalogs[locale], key) ?? lookup(catalogs[i18nConfig.defaultLocale], key) ?? key
+}
+
+/**
+ * Create a translator for a locale
+ */
+export function createTranslator(locale: Locale): Translator {
+  return (key, values) => fillPlaceholders(getMessage(locale, key), values)
+}
+
+/**
+ * Format a number for a locale
+ * @example formatNumber(0.42, 'fr', { style: 'percent' }) => '42 %'
+ */
+export function formatNumber(value: number, locale: Locale, options?: Intl.NumberFormatOptions): string {
+  return new Intl.NumberFormat(i18nConfig.intlLocales[locale], options).format(value)
+}
+
+/**
+ * Format a date for a locale
+ * @example formatDate(new Date(2026, 9, 19), 'fr', { day: 'numeric', month: 'numeric' }) => '19/10'
+ */
+export function formatDate(date: Date | string | number, locale: Locale, options?: Intl.DateTimeFormatOptions): string {
+  return new Intl.DateTimeFormat(i18nConfig.intlLocales[locale], options).format(new Date(date))
+}
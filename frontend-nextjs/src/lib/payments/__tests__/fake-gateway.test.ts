@@ -0,0 +1,150 @@
+// @vitest-environment node
+
+/**
+ * Unit tests for the Fake Payment Gateway
+ * Magic card numbers, tokenization and the payment lifecycle
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createFakeGateway } from '../fake-gateway';
+import { FAKE_CARDS, fakeCardTokenizer, readFakeToken } from '../fake-cards';
+import { CardValidationError, PaymentError } from '../errors';
+import { passesLuhn } from '../../services/checkout-schema';
+
+const gateway = createFakeGateway({ timeoutMs: 50 });
+
+async function tokenize(cardNumber: string, expirationDate = '12/30'): Promise<string> {
+  const { token } = await fakeCardTokenizer.tokenize({ cardNumber, expirationDate, cvc: '123' });
+  return token;
+}
+
+async function authorizedPayment(amount = 5000) {
+  const result = await gateway.authorize({ token: await tokenize('4242424242424242'), amount, currency: 'USD' });
+  if (result.status !== 'authorized') throw new Error(`Expected an authorization, got ${result.status}`);
+  return result.payment;
+}
+
+function expectPaymentError(promise: Promise<unknown>) {
+  return promise.then(
+    () => expect.fail('expected a PaymentError'),
+    (caught) => caught as PaymentError
+  );
+}
+
+describe('Fake Payment Gateway', () => {
+  describe('fakeCardTokenizer', () => {
+    it('should use magic numbers that pass card validation', () => {
+      for (const cardNumber of Object.keys(FAKE_CARDS)) {
+        expect(passesLuhn(cardNumber)).toBe(true);
+      }
+    });
+
+    it('should issue tokens that carry no card number or CVC', async () => {
+      const card = await fakeCardTokenizer.tokenize({ cardNumber: '4242 4242 4242 4242', expirationDate: '12/30', cvc: '123' });
+
+      expect(card).toMatchObject({ brand: 'visa', last4: '4242', expMonth: 12, expYear: 2030 });
+      expect(card.token).not.toContain('4242424242424242');
+      expect(readFakeToken(card.token)).toEqual({ brand: 'visa', last4: '4242', expMonth: 12, expYear: 2030, scenario: 'approve' });
+    });
+
+    it('should refuse invalid cards', async () => {
+      const caught = await fakeCardTokenizer.tokenize({ cardNumber: '4242424242424241', expirationDate: '12/30', cvc: '123' }).then(
+        () => expect.fail('expected a CardValidationError'),
+        (error) => error as CardValidationError
+      );
+
+      expect(caught).toBeInstanceOf(CardValidationError);
+      expect(caught.fields).toEqual({ 'payment.cardNumber': 'Enter a valid card number' });
+    });
+  });
+
+  describe('authorize', () => {
+    it('should authorize other valid cards', async () => {
+      const payment = await authorizedPayment();
+
+      expect(payment).toMatchObject({ status: 'authorized', amount: 5000, capturedAmount: 0, brand: 'visa', last4: '4242' });
+    });
+
+    it('should decline the decline and insufficient funds cards', async () => {
+      const declined = await gateway.authorize({ token: await tokenize('4000000000000002'), amount: 5000, currency: 'USD' });
+      const insufficient = await gateway.authorize({ token: await tokenize('4000000000009995'), amount: 5000, currency: 'USD' });
+
+      expect(declined).toEqual({ status: 'declined', declineCode: 'card_declined', message: 'Your card was declined' });
+      expect(insufficient).toMatchObject({ status: 'declined', declineCode: 'insufficient_funds' });
+    });
+
+    it('should require 3-D Secure, then authorize once the challenge is approved', async () => {
+      const token = await tokenize('4000000000003220');
+
+      const challenged = await gateway.authorize({ token, amount: 5000, currency: 'USD' });
+      if (challenged.status !== 'requires_action') throw new Error('Expected a 3-D Secure challenge');
+
+      await gateway.completeChallenge(challenged.challenge.id, true);
+      const result = await gateway.authorize({ token, amount: 5000, currency: 'USD', threeDSecureId: challenged.challenge.id });
+
+      expect(result.status).toBe('authorized');
+    });
+
+    it('should not accept a challenge completed for another card', async () => {
+      const challenged = await gateway.authorize({ token: await tokenize('4000000000003220'), amount: 5000, currency: 'USD' });
+      if (challenged.status !== 'requires_action') throw new Error('Expected a 3-D Secure challenge');
+      await gateway.completeChallenge(challenged.challenge.id, true);
+
+      const result = await gateway.authorize({
+        token: await tokenize('4000000000003220'),
+        amount: 5000,
+        currency: 'USD',
+        threeDSecureId: challenged.challenge.id,
+      });
+
+      expect(result.status).toBe('requires_action');
+    });
+
+    it('should time out on the timeout card', async () => {
+      const caught = await expectPaymentError(
+        gateway.authorize({ token: await tokenize('4000000000000119'), amount: 5000, currency: 'USD' })
+      );
+
+      expect(caught.code).toBe('timeout');
+    });
+
+    it('should reject tokens it did not issue', async () => {
+      const caught = await expectPaymentError(gateway.authorize({ token: 'tok_forged', amount: 5000, currency: 'USD' }));
+
+      expect(caught.code).toBe('invalid_token');
+    });
+  });
+
+  describe('capture, refund and void', () => {
+    it('should capture the authorized amount and refund it in parts', async () => {
+      const { id } = await authorizedPayment();
+
+      expect(await gateway.capture(id)).toMatchObject({ status: 'captured', capturedAmount: 5000 });
+      expect(await gateway.refund(id, 2000)).toMatchObject({ status: 'partially_refunded', refundedAmount: 2000 });
+      expect(await gateway.refund(id)).toMatchObject({ status: 'refunded', refundedAmount: 5000 });
+      expect((await expectPaymentError(gateway.refund(id, 1))).code).toBe('invalid_state');
+    });
+
+    it('should not capture more than was authorized', async () => {
+      const { id } = await authorizedPayment();
+
+      expect((await expectPaymentError(gateway.capture(id, 5001))).code).toBe('invalid_amount');
+      expect(await gateway.capture(id, 4000)).toMatchObject({ status: 'captured', capturedAmount: 4000 });
+      expect((await expectPaymentError(gateway.refund(id, 4001))).code).toBe('invalid_amount');
+    });
+
+    it('should void authorizations, but not captured payments', async () => {
+      const authorized = await authorizedPayment();
+      const captured = await authorizedPayment();
+      await gateway.capture(captured.id);
+
+      expect(await gateway.void(authorized.id)).toMatchObject({ status: 'voided' });
+      expect((await expectPaymentError(gateway.capture(authorized.id))).code).toBe('invalid_state');
+      expect((await expectPaymentError(gateway.void(captured.id))).code).toBe('invalid_state');
+    });
+
+    it('should report unknown payments', async () => {
+      expect((await expectPaymentError(gateway.capture('pay_fake_missing'))).code).toBe('not_found');
+    });
+  });
+});
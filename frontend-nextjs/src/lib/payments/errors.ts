@@ -0,0 +1,27 @@
+/**
+ * Payment Errors
+ * Failures reported by payment providers (declines are results, not errors)
+ * and by card tokenizers
+ */
+
+export type PaymentErrorCode = 'invalid_token' | 'not_found' | 'invalid_state' | 'invalid_amount' | 'timeout';
+
+export class PaymentError extends Error {
+  constructor(
+    public code: PaymentErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'PaymentError';
+  }
+}
+
+/**
+ * Card details rejected before tokenizing, with errors keyed by card field path
+ */
+export class CardValidationError extends Error {
+  constructor(public fields: Record<string, string>) {
+    super('Check your card details');
+    this.name = 'CardValidationError';
+  }
+}
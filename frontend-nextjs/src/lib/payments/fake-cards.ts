@@ -0,0 +1,107 @@
+/**
+ * Fake Gateway Cards
+ * Magic card numbers and the browser-side tokenizer for the local fake gateway
+ *
+ * Like a real gateway's test mode, the card number picks the outcome. The
+ * token carries only what the gateway would keep on file (brand, last four,
+ * expiry and the simulated outcome), never the number or CVC.
+ *
+ * | Card number         | Outcome                                  |
+ * |---------------------|------------------------------------------|
+ * | 4000 0000 0000 0002 | Declined (card_declined)                 |
+ * | 4000 0000 0000 9995 | Declined (insufficient_funds)            |
+ * | 4000 0000 0000 3220 | 3-D Secure challenge before authorizing  |
+ * | 4000 0000 0000 0119 | Gateway never answers (timeout)          |
+ * | any other valid one | Authorized                               |
+ */
+
+import { CardValidationError } from './errors';
+import { normalizeCardDetails, validateCardDetails } from '../services/checkout-schema';
+import type { CardBrand, CardDetails, CardToken, CardTokenizer } from '../types/payments';
+
+export type FakeCardScenario = 'approve' | 'decline' | 'insufficient_funds' | 'three_d_secure' | 'timeout';
+
+export const FAKE_CARDS: Record<string, FakeCardScenario> = {
+  '4000000000000002': 'decline',
+  '4000000000009995': 'insufficient_funds',
+  '4000000000003220': 'three_d_secure',
+  '4000000000000119': 'timeout',
+};
+
+const TOKEN_PREFIX = 'tok_fake_';
+
+/**
+ * What the fake gateway keeps on file for a token
+ */
+export interface FakeCardRecord {
+  brand: CardBrand;
+  last4: string;
+  expMonth: number;
+  expYear: number;
+  scenario: FakeCardScenario;
+}
+
+/**
+ * Card brand from the number's leading digits
+ */
+export function detectCardBrand(cardNumber: string): CardBrand {
+  if (/^4/.test(cardNumber)) return 'visa';
+  if (/^(5[1-5]|2[2-7])/.test(cardNumber)) return 'mastercard';
+  if (/^3[47]/.test(cardNumber)) return 'amex';
+  if (/^6(011|5)/.test(cardNumber)) return 'discover';
+  return 'unknown';
+}
+
+function encodeRecord(record: FakeCardRecord): string {
+  return btoa(JSON.stringify(record)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Read the record behind a fake token
+ * @returns Record, or null if the token wasn't issued by the fake gateway
+ */
+export function readFakeToken(token: string): FakeCardRecord | null {
+  if (!token.startsWith(TOKEN_PREFIX)) return null;
+
+  try {
+    const [encoded] = token.slice(TOKEN_PREFIX.length).split('.');
+    const record = JSON.parse(atob(encoded.replace(/-/g, '+').replace(/_/g, '/'))) as FakeCardRecord;
+
+    return typeof record.last4 === 'string' && typeof record.scenario === 'string' ? record : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Tokenizer for the fake gateway's card fields
+ * Validates the card, then issues a token without any network call
+ */
+export const fakeCardTokenizer: CardTokenizer = {
+  async tokenize(details: CardDetails): Promise<CardToken> {
+    const card = normalizeCardDetails(details);
+    const errors = validateCardDetails(card);
+
+    if (Object.keys(errors).length > 0) {
+      throw new CardValidationError(errors);
+    }
+
+    const [month, year] = card.expirationDate.split('/');
+    const record: FakeCardRecord = {
+      brand: detectCardBrand(card.cardNumber),
+      last4: card.cardNumber.slice(-4),
+      expMonth: Number(month),
+      expYear: 2000 + Number(year),
+      scenario: FAKE_CARDS[card.cardNumber] ?? 'approve',
+    };
+    const nonce = Math.random().toString(36).slice(2, 10);
+
+    return {
+      token: `${TOKEN_PREFIX}${encodeRecord(record)}.${nonce}`,
+      brand: record.brand,
+      last4: record.last4,
+      expMonth: record.expMonth,
+      expYear: record.expYear,
+    };
+  },
+};
@@ -0,0 +1,220 @@
+/**
+ * Fake Payment Gateway
+ * Local PaymentProvider for development and tests; nothing is charged
+ *
+ * Outcomes come from the magic card numbers in ./fake-cards. Payments and
+ * 3-D Secure challenges are kept in the BFF's key/value storage so they
+ * survive between requests, like a real gateway's records would. Challenges
+ * are completed through POST /api/payments/fake-gateway/challenges/:id,
+ * standing in for the bank's authentication page.
+ */
+
+import { randomBytes } from 'crypto';
+import { paymentConfig } from '../config/payments';
+import { createStore } from '../storage';
+import { PaymentError } from './errors';
+import { readFakeToken, type FakeCardRecord } from './fake-cards';
+import type { AuthorizeRequest, AuthorizeResult, Payment, PaymentProvider, ThreeDSecureChallenge } from '../types/payments';
+
+interface StoredChallenge extends ThreeDSecureChallenge {
+  token: string;
+  status: 'pending' | 'succeeded' | 'failed';
+}
+
+export interface FakeGateway extends PaymentProvider {
+  // Approve or fail a pending 3-D Secure challenge, as the cardholder's bank would
+  completeChallenge(challengeId: string, approve: boolean): Promise<ThreeDSecureChallenge>;
+}
+
+interface FakeGatewayOptions {
+  timeoutMs?: number;
+}
+
+const payments = createStore<Payment>('fake-gateway-payments');
+const challenges = createStore<StoredChallenge>('fake-gateway-challenges');
+
+/**
+ * Fail with a timeout if the gateway doesn't answer in time
+ */
+async function withTimeout<T>(operation: Promise<T>, timeoutMs: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new PaymentError('timeout', 'The payment gateway did not respond in time')), timeoutMs);
+  });
+
+  try {
+    return await Promise.race([operation, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function isExpired(card: FakeCardRecord, now: Date): boolean {
+  return now >= new Date(card.expYear, card.expMonth, 1);
+}
+
+function assertAmount(amount: number, max: number): void {
+  if (!Number.isInteger(amount) || amount <= 0 || amount > max) {
+    throw new PaymentError('invalid_amount', `Amount must be a whole number of cents between 1 and ${max}`);
+  }
+}
+
+async function getPayment(paymentId: string): Promise<Payment> {
+  const payment = await payments.get(paymentId);
+
+  if (!payment) {
+    throw new PaymentError('not_found', 'Payment not found');
+  }
+
+  return payment;
+}
+
+function toChallenge({ id, brand, last4 }: StoredChallenge): ThreeDSecureChallenge {
+  return { id, brand, last4 };
+}
+
+/**
+ * Run 3-D Secure for a card that needs it
+ * @returns Result to return instead of authorizing, or null once authenticated
+ */
+async function authenticate(card: FakeCardRecord, request: AuthorizeRequest): Promise<AuthorizeResult | null> {
+  const existing = request.threeDSecureId ? await challenges.get(request.threeDSecureId) : null;
+
+  if (existing && existing.token === request.token) {
+    if (existing.status === 'succeeded') return null;
+    if (existing.status === 'failed') {
+      return { status: 'declined', declineCode: 'authentication_failed', message: 'Your bank could not verify this payment' };
+    }
+    return { status: 'requires_action', challenge: toChallenge(existing) };
+  }
+
+  const challenge: StoredChallenge = {
+    id: `3ds_fake_${randomBytes(12).toString('hex')}`,
+    brand: card.brand,
+    last4: card.last4,
+    token: request.token,
+    status: 'pending',
+  };
+  await challenges.set(challenge.id, challenge);
+
+  return { status: 'requires_action', challenge: toChallenge(challenge) };
+}
+
+async function authorize(request: AuthorizeRequest): Promise<AuthorizeResult> {
+  const card = readFakeToken(request.token);
+
+  if (!card) {
+    throw new PaymentError('invalid_token', 'Card token is not valid');
+  }
+  assertAmount(request.amount, Number.MAX_SAFE_INTEGER);
+
+  if (card.scenario === 'timeout') {
+    return new Promise<never>(() => {});
+  }
+  if (isExpired(card, new Date())) {
+    return { status: 'declined', declineCode: 'expired_card', message: 'Your card has expired' };
+  }
+  if (card.scenario === 'decline') {
+    return { status: 'declined', declineCode: 'card_declined', message: 'Your card was declined' };
+  }
+  if (card.scenario === 'insufficient_funds') {
+    return { status: 'declined', declineCode: 'insufficient_funds', message: 'Your card has insufficient funds' };
+  }
+  if (card.scenario === 'three_d_secure') {
+    const result = await authenticate(card, request);
+    if (result) return result;
+  }
+
+  const payment: Payment = {
+    id: `pay_fake_${randomBytes(12).toString('hex')}`,
+    status: 'authorized',
+    amount: request.amount,
+    capturedAmount: 0,
+    refundedAmount: 0,
+    currency: request.currency,
+    brand: card.brand,
+    last4: card.last4,
+  };
+  await payments.set(payment.id, payment);
+
+  return { status: 'authorized', payment };
+}
+
+async function capture(paymentId: string, amount?: number): Promise<Payment> {
+  const payment = await getPayment(paymentId);
+
+  if (payment.status !== 'authorized') {
+    throw new PaymentError('invalid_state', `Cannot capture a ${payment.status} payment`);
+  }
+
+  const captured = amount ?? payment.amount;
+  assertAmount(captured, payment.amount);
+
+  const updated: Payment = { ...payment, status: 'captured', capturedAmount: captured };
+  await payments.set(paymentId, updated);
+  return updated;
+}
+
+async function refund(paymentId: string, amount?: number): Promise<Payment> {
+  const payment = await getPayment(paymentId);
+
+  if (payment.status !== 'captured' && payment.status !== 'partially_refunded') {
+    throw new PaymentError('invalid_state', `Cannot refund a ${payment.status} payment`);
+  }
+
+  const refundable = payment.capturedAmount - payment.refundedAmount;
+  const refunded = amount ?? refundable;
+  assertAmount(refunded, refundable);
+
+  const refundedAmount = payment.refundedAmount + refunded;
+  const updated: Payment = {
+    ...payment,
+    status: refundedAmount === payment.capturedAmount ? 'refunded' : 'partially_refunded',
+    refundedAmount,
+  };
+  await payments.set(paymentId, updated);
+  return updated;
+}
+
+async function voidPayment(paymentId: string): Promise<Payment> {
+  const payment = await getPayment(paymentId);
+
+  if (payment.status !== 'authorized') {
+    throw new PaymentError('invalid_state', `Cannot void a ${payment.status} payment`);
+  }
+
+  const updated: Payment = { ...payment, status: 'voided' };
+  await payments.set(paymentId, updated);
+  return updated;
+}
+
+async function completeChallenge(challengeId: string, approve: boolean): Promise<ThreeDSecureChallenge> {
+  const challenge = await challenges.get(challengeId);
+
+  if (!challenge) {
+    throw new PaymentError('not_found', '3-D Secure challenge not found');
+  }
+  if (challenge.status !== 'pending') {
+    throw new PaymentError('invalid_state', '3-D Secure challenge was already completed');
+  }
+
+  await challenges.set(challengeId, { ...challenge, status: approve ? 'succeeded' : 'failed' });
+  return toChallenge(challenge);
+}
+
+/**
+ * Create the fake gateway
+ *
+ * @param options - timeoutMs: how long to wait before a call times out
+ * @returns Payment provider with a way to complete 3-D Secure challenges
+ */
+export function createFakeGateway({ timeoutMs = paymentConfig.timeoutMs }: FakeGatewayOptions = {}): FakeGateway {
+  return {
+    id: 'fake',
+    authorize: (request) => withTimeout(authorize(request), timeoutMs),
+    capture: (paymentId, amount) => withTimeout(capture(paymentId, amount), timeoutMs),
+    refund: (paymentId, amount) => withTimeout(refund(paymentId, amount), timeoutMs),
+    void: (paymentId) => withTimeout(voidPayment(paymentId), timeoutMs),
+    completeChallenge,
+  };
+}
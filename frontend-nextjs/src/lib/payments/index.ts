@@ -0,0 +1,40 @@
+/**
+ * Payments
+ * Server entry point: the configured payment provider
+ *
+ * Providers:
+ * - fake: the local fake gateway (./fake-gateway), simulating outcomes from
+ *   magic card numbers
+ *
+ * Select explicitly with the PAYMENT_PROVIDER environment variable.
+ */
+
+import { createFakeGateway } from './fake-gateway';
+import type { PaymentProvider } from '../types/payments';
+
+export { PaymentError, type PaymentErrorCode } from './errors';
+
+export type PaymentProviderId = 'fake';
+
+/**
+ * Resolve the configured payment provider
+ */
+export function getPaymentProviderId(): PaymentProviderId {
+  const provider = process.env.PAYMENT_PROVIDER;
+
+  if (provider && provider !== 'fake') {
+    throw new Error(`Unknown PAYMENT_PROVIDER "${provider}"`);
+  }
+
+  return 'fake';
+}
+
+/**
+ * Create the configured payment provider
+ */
+export function getPaymentProvider(): PaymentProvider {
+  switch (getPaymentProviderId()) {
+    case 'fake':
+      return createFakeGateway();
+  }
+}
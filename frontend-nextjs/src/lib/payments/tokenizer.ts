@@ -0,0 +1,19 @@
+/**
+ * Card Tokenizer
+ * Browser entry point: turns the card fields into a token for checkout
+ *
+ * Must match the server's payment provider (see ./index). A real provider
+ * would load its hosted fields SDK here; the fake gateway tokenizes locally.
+ */
+
+import { fakeCardTokenizer } from './fake-cards';
+import type { CardTokenizer } from '../types/payments';
+
+export { CardValidationError } from './errors';
+
+/**
+ * Tokenizer for the configured payment provider
+ */
+export function getCardTokenizer(): CardTokenizer {
+  return fakeCardTokenizer;
+}
@@ -0,0 +1,22 @@
+/**
+ * Locale Provider
+ * Makes the locale from the URL available to client components
+ */
+
+'use client'
+
+import { createContext, useContext, type ReactNode } from 'react'
+import { i18nConfig, type Locale } from '@/lib/i18n/config'
+
+const LocaleContext = createContext<Locale>(i18nConfig.defaultLocale)
+
+export function LocaleProvider({ locale, children }: { locale: Locale; children: ReactNode }) {
+  return <LocaleContext.Provider value={locale}>{children}</LocaleContext.Provider>
+}
+
+/**
+ * Current locale (the default locale outside a provider, e.g. in tests)
+ */
+export function useLocale(): Locale {
+  return useContext(LocaleContext)
+}
@@ -0,0 +1,80 @@
+/**
+ * Auth Session Cookie
+ * Reads and writes the sign-in session cookie, and signs shoppers in
+ *
+ * The cookie holds an opaque session token; the account it belongs to is
+ * looked up in lib/services/accounts.ts on every request, so signing out
+ * (or an expired session) takes effect immediately.
+ */
+
+import type { NextRequest, NextResponse } from 'next/server'
+import { authConfig } from '@/lib/config/auth'
+import { createSession, getSessionAccount } from '@/lib/services/accounts'
+import { mergeGuestCart } from '@/lib/services/cart'
+import { accountCartOwner, sessionCartOwner } from '@/lib/services/cart-store'
+import { createSessionId, getSessionId, setSessionCookie } from './session'
+import type { Account } from '@/lib/types/account'
+
+/**
+ * Read the sign-in session token from an incoming request
+ */
+export function getAuthToken(request: NextRequest): string | null {
+  return request.cookies.get(authConfig.cookieName)?.value || null
+}
+
+/**
+ * Look up the signed-in account for a request
+ */
+export async function getSignedInAccount(request: NextRequest): Promise<Account | null> {
+  return getSessionAccount(getAuthToken(request))
+}
+
+/**
+ * Attach the sign-in session cookie to a response
+ */
+export function setAuthCookie(response: NextResponse, token: string): void {
+  response.cookies.set(authConfig.cookieName, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: authConfig.sessionMaxAge,
+  })
+}
+
+/**
+ * Remove the sign-in session cookie
+ */
+export function clearAuthCookie(response: NextResponse): void {
+  response.cookies.delete(authConfig.cookieName)
+}
+
+/**
+ * Sign an account in on a response
+ * Starts a session, sets its cookie and merges the guest's cart into the
+ * account's saved cart. A failed merge is logged rather than failing sign-in.
+ *
+ * The BFF session ID is replaced too, so an ID planted or seen before
+ * sign-in (session fixation) isn't carried into the signed-in session. The
+ * guest's cart moves to the account, leaving nothing under the old ID.
+ */
+export async function completeSignIn(request: NextRequest, response: NextResponse, account: Account): Promise<void> {
+  setAuthCookie(response, await createSession(account.id))
+
+  const sessionId = getSessionId(request)
+  setSessionCookie(response, createSessionId())
+
+  try {
+    const { headers } = await mergeGuestCart(
+      accountCartOwner(account.id),
+      sessionId ? sessionCartOwner(sessionId) : null,
+      request.headers.get('cookie') || undefined
+    )
+
+    headers.getSetCookie().forEach((cookie) => {
+      response.headers.append('Set-Cookie', cookie)
+    })
+  } catch (error) {
+    console.error('Error merging guest cart:', error)
+  }
+}
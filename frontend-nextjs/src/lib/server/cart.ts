@@ -0,0 +1,34 @@
+/**
+ * Cart Owner
+ * Resolves whose saved cart a request reads and writes
+ *
+ * Signed-in shoppers' carts are saved under their account; guests' carts
+ * under their BFF session, so the session cookie is issued on the first cart
+ * request rather than at checkout.
+ */
+
+import type { NextRequest } from 'next/server'
+import { ensureSessionId } from './session'
+import { getSignedInAccount } from './auth'
+import { accountCartOwner, sessionCartOwner } from '@/lib/services/cart-store'
+
+export interface CartOwner {
+  owner: string
+  sessionId: string
+  // Callers must persist new sessions with setSessionCookie()
+  isNewSession: boolean
+}
+
+/**
+ * Resolve the cart owner for a request
+ */
+export async function getCartOwner(request: NextRequest): Promise<CartOwner> {
+  const { sessionId, isNew } = ensureSessionId(request)
+  const account = await getSignedInAccount(request)
+
+  return {
+    owner: account ? accountCartOwner(account.id) : sessionCartOwner(sessionId),
+    sessionId,
+    isNewSession: isNew,
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * Promo Code Cookie
+ * Persists the applied promo code between requests
+ *
+ * Only the code is stored; the discount is recalculated from the promotion
+ * rules on every cart response, so expiry and minimums always apply.
+ */
+
+import type { NextResponse } from 'next/server'
+import { PROMO_COOKIE_NAME } from '@/lib/services/promotions'
+
+/**
+ * Attach the promo code cookie to a response
+ */
+export function setPromoCookie(response: NextResponse, code: string): void {
+  response.cookies.set(PROMO_COOKIE_NAME, code, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+  })
+}
+
+/**
+ * Remove the promo code cookie
+ */
+export function clearPromoCookie(response: NextResponse): void {
+  response.cookies.delete(PROMO_COOKIE_NAME)
+}
@@ -0,0 +1,57 @@
+/**
+ * BFF Session Cookie
+ * Stable, random session identifier owned by the Next.js layer
+ *
+ * The PHP backend's ci_session cookie is regenerated periodically, so it
+ * can't be used to tie records (e.g. orders) to a browser. This cookie is
+ * issued once and kept for the lifetime of the browser session.
+ */
+
+import { randomBytes } from 'crypto'
+import type { NextRequest, NextResponse } from 'next/server'
+
+export const SESSION_COOKIE_NAME = 'luna_session'
+
+// 30 days
+const SESSION_MAX_AGE = 60 * 60 * 24 * 30
+
+/**
+ * Read the session ID from an incoming request
+ */
+export function getSessionId(request: NextRequest): string | null {
+  return request.cookies.get(SESSION_COOKIE_NAME)?.value || null
+}
+
+/**
+ * Generate a new random session ID
+ */
+export function createSessionId(): string {
+  return randomBytes(24).toString('hex')
+}
+
+/**
+ * Read the session ID, generating a new one if the request has none
+ * Callers must persist new sessions with setSessionCookie()
+ */
+export function ensureSessionId(request: NextRequest): { sessionId: string; isNew: boolean } {
+  const existing = getSessionId(request)
+
+  if (existing) {
+    return { sessionId: existing, isNew: false }
+  }
+
+  return { sessionId: createSessionId(), isNew: true }
+}
+
+/**
+ * Attach the session cookie to a response
+ */
+export function setSessionCookie(response: NextResponse, sessionId: string): void {
+  response.cookies.set(SESSION_COOKIE_NAME, sessionId, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: SESSION_MAX_AGE,
+  })
+}
@@ -0,0 +1,294 @@
+// @vitest-environment node
+
+/**
+ * Unit tests for Account Service
+ * Registration, password and magic-link sign-in, sessions and saved addresses
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import {
+  AccountError,
+  addAddress,
+  createSession,
+  endSession,
+  getSessionAccount,
+  redeemMagicLink,
+  registerAccount,
+  removeAddress,
+  requestMagicLink,
+  signInWithPassword,
+  updateAddress,
+  updateProfile,
+} from '../accounts';
+import { listOutbox } from '../mail';
+import { authConfig } from '../../config/auth';
+import { mergeGuestCart } from '../cart';
+import { SESSION_COOKIE_NAME } from '../../server/session';
+import { POST as signIn } from '../../../app/api/auth/sign-in/route';
+import { GET as followMagicLink } from '../../../app/api/auth/magic-link/route';
+
+// Sign-in merges carts through the PHP backend; stub it out
+vi.mock('../cart', () => ({
+  mergeGuestCart: vi.fn(async () => ({ data: { items: [], subtotal: 0, currency: 'USD' }, headers: new Headers() })),
+}));
+
+let emailCount = 0;
+
+/**
+ * Fresh email per test (stores are shared across tests)
+ */
+function uniqueEmail(): string {
+  return `shopper${++emailCount}@example.com`;
+}
+
+/**
+ * Token from the most recent sign-in link sent to an address
+ */
+async function latestMagicLinkToken(email: string): Promise<string> {
+  const [message] = await listOutbox(email);
+  const url = message.text.match(/https?:\/\/\S+/)?.[0] ?? '';
+
+  return new URL(url).searchParams.get('token') ?? '';
+}
+
+async function expectAccountError(promise: Promise<unknown>, status: number): Promise<AccountError> {
+  const error: AccountError = await promise.then(
+    () => expect.fail('expected an AccountError'),
+    (caught) => caught
+  );
+
+  expect(error).toBeInstanceOf(AccountError);
+  expect(error.status).toBe(status);
+
+  return error;
+}
+
+describe('Account Service', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('registerAccount', () => {
+    it('should create an account without exposing the password hash', async () => {
+      const email = uniqueEmail();
+      const account = await registerAccount({ email: ` ${email.toUpperCase()} `, password: 'correct horse', name: 'Sam' });
+
+      expect(account).toMatchObject({ email, name: 'Sam', addresses: [] });
+      expect(account).not.toHaveProperty('passwordHash');
+    });
+
+    it('should report every invalid field', async () => {
+      const error = await expectAccountError(registerAccount({ email: 'nope', password: 'short' }), 400);
+
+      expect(Object.keys(error.fields ?? {})).toEqual(['email', 'name', 'password']);
+    });
+
+    it('should refuse an email that already has an account', async () => {
+      const email = uniqueEmail();
+      await registerAccount({ email, password: 'correct horse', name: 'Sam' });
+
+      await expectAccountError(registerAccount({ email, password: 'another pass', name: 'Alex' }), 409);
+    });
+  });
+
+  describe('signInWithPassword', () => {
+    it('should accept the registered password', async () => {
+      const email = uniqueEmail();
+      const registered = await registerAccount({ email, password: 'correct horse', name: 'Sam' });
+
+      const account = await signInWithPassword({ email, password: 'correct horse' });
+
+      expect(account.id).toBe(registered.id);
+    });
+
+    it('should reject a wrong password or unknown email the same way', async () => {
+      const email = uniqueEmail();
+      await registerAccount({ email, password: 'correct horse', name: 'Sam' });
+
+      const wrongPassword = await expectAccountError(signInWithPassword({ email, password: 'battery staple' }), 401);
+      const unknownEmail = await expectAccountError(
+        signInWithPassword({ email: uniqueEmail(), password: 'correct horse' }),
+        401
+      );
+
+      expect(wrongPassword.message).toBe(unknownEmail.message);
+    });
+  });
+
+  describe('magic links', () => {
+    it('should email a link that signs in and creates the account', async () => {
+      const email = uniqueEmail();
+
+      await requestMagicLink({ email, next: '/fr/account' }, 'https://shop.example');
+
+      const [message] = await listOutbox(email);
+      expect(message.text).toContain('https://shop.example/api/auth/magic-link?token=');
+      expect(message.text).toContain('next=%2Ffr%2Faccount');
+
+      const account = await redeemMagicLink(await latestMagicLinkToken(email));
+      expect(account).toMatchObject({ email, name: '' });
+    });
+
+    it('should sign in to an existing account and work only once', async () => {
+      const email = uniqueEmail();
+      const registered = await registerAccount({ email, password: 'correct horse', name: 'Sam' });
+
+      await requestMagicLink({ email }, 'https://shop.example');
+      const token = await latestMagicLinkToken(email);
+
+      expect((await redeemMagicLink(token)).id).toBe(registered.id);
+      await expectAccountError(redeemMagicLink(token), 401);
+    });
+
+    it('should reject expired links', async () => {
+      const email = uniqueEmail();
+      await requestMagicLink({ email }, 'https://shop.example');
+      const token = await latestMagicLinkToken(email);
+
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(Date.now() + (authConfig.magicLinkMaxAge + 1) * 1000);
+
+      const error = await expectAccountError(redeemMagicLink(token), 401);
+      expect(error.message).toMatch(/expired/);
+    });
+  });
+
+  describe('sessions', () => {
+    it('should resolve the account until the session ends', async () => {
+      const account = await registerAccount({ email: uniqueEmail(), password: 'correct horse', name: 'Sam' });
+      const token = await createSession(account.id);
+
+      expect((await getSessionAccount(token))?.id).toBe(account.id);
+
+      await endSession(token);
+
+      expect(await getSessionAccount(token)).toBeNull();
+    });
+
+    it('should ignore unknown and expired sessions', async () => {
+      const account = await registerAccount({ email: uniqueEmail(), password: 'correct horse', name: 'Sam' });
+      const token = await createSession(account.id);
+
+      expect(await getSessionAccount('not-a-token')).toBeNull();
+
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(Date.now() + (authConfig.sessionMaxAge + 1) * 1000);
+
+      expect(await getSessionAccount(token)).toBeNull();
+    });
+  });
+
+  describe('profile and addresses', () => {
+    it('should update the name', async () => {
+      const account = await registerAccount({ email: uniqueEmail(), password: 'correct horse', name: 'Sam' });
+
+      expect((await updateProfile(account.id, { name: 'Samira' })).name).toBe('Samira');
+      await expectAccountError(updateProfile(account.id, { name: ' ' }), 400);
+    });
+
+    it('should validate, save and remove addresses', async () => {
+      const account = await registerAccount({ email: uniqueEmail(), password: 'correct horse', name: 'Sam' });
+      const token = await createSession(account.id);
+
+      const invalid = await expectAccountError(addAddress(account.id, { country: 'FR' }), 400);
+      expect(invalid.fields).toHaveProperty(['address.country']);
+
+      const saved = await addAddress(account.id, {
+        address: '123 Main St',
+        city: 'Toronto',
+        region: 'ON',
+        postalCode: 'M5V 2T6',
+        country: 'ca',
+      });
+      expect(saved).toMatchObject({ country: 'CA', city: 'Toronto' });
+      expect((await getSessionAccount(token))?.addresses).toEqual([saved]);
+
+      await removeAddress(account.id, saved.id);
+      expect((await getSessionAccount(token))?.addresses).toEqual([]);
+      await expectAccountError(removeAddress(account.id, saved.id), 404);
+    });
+
+    it('should keep one default per kind', async () => {
+      const account = await registerAccount({ email: uniqueEmail(), password: 'correct horse', name: 'Sam' });
+      const token = await createSession(account.id);
+      const home = { address: '1 Home St', city: 'Toronto', region: 'ON', postalCode: 'M5V 2T6', country: 'CA' };
+      const office = { ...home, address: '2 Office Ave' };
+
+      const first = await addAddress(account.id, home);
+      const billing = await addAddress(account.id, { ...office, kind: 'billing' });
+      const second = await addAddress(account.id, { ...office, isDefault: true });
+
+      expect(first).toMatchObject({ kind: 'shipping', isDefault: true });
+      expect(billing).toMatchObject({ kind: 'billing', isDefault: true });
+      expect(second.isDefault).toBe(true);
+
+      const defaults = async () =>
+        (await getSessionAccount(token))?.addresses.filter((address) => address.isDefault).map(({ id }) => id);
+
+      expect(await defaults()).toEqual([billing.id, second.id]);
+
+      // Removing the default promotes the remaining shipping address
+      await removeAddress(account.id, second.id);
+      expect(await defaults()).toEqual([first.id, billing.id]);
+
+      await expectAccountError(addAddress(account.id, { ...home, kind: 'gift' }), 400);
+    });
+
+    it('should edit only the fields sent', async () => {
+      const account = await registerAccount({ email: uniqueEmail(), password: 'correct horse', name: 'Sam' });
+      const home = { address: '1 Home St', city: 'Toronto', region: 'ON', postalCode: 'M5V 2T6', country: 'CA' };
+      const first = await addAddress(account.id, home);
+      const second = await addAddress(account.id, { ...home, address: '2 Office Ave' });
+
+      const edited = await updateAddress(account.id, second.id, { apartment: 'Suite 4' });
+      expect(edited).toMatchObject({ address: '2 Office Ave', apartment: 'Suite 4', isDefault: false });
+
+      expect(await updateAddress(account.id, second.id, { isDefault: true })).toMatchObject({ isDefault: true });
+      expect((await updateAddress(account.id, first.id, {})).isDefault).toBe(false);
+
+      const invalid = await expectAccountError(updateAddress(account.id, first.id, { city: ' ' }), 400);
+      expect(invalid.fields).toHaveProperty(['address.city']);
+      await expectAccountError(updateAddress(account.id, 'addr_missing', {}), 404);
+    });
+  });
+
+  describe('sign-in routes', () => {
+    const planted = 'planted-session';
+
+    it('should replace the BFF session on password sign-in', async () => {
+      const email = uniqueEmail();
+      await registerAccount({ email, password: 'correct horse', name: 'Sam' });
+
+      const response = await signIn(
+        new NextRequest('http://localhost/api/auth/sign-in', {
+          method: 'POST',
+          headers: { cookie: `${SESSION_COOKIE_NAME}=${planted}` },
+          body: JSON.stringify({ email, password: 'correct horse' }),
+        })
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.cookies.get(SESSION_COOKIE_NAME)?.value).toMatch(/^[0-9a-f]{48}$/);
+      // The guest cart moves to the account
+      expect(mergeGuestCart).toHaveBeenLastCalledWith(expect.any(String), `session:${planted}`, expect.any(String));
+    });
+
+    it('should replace the BFF session when a magic link is followed', async () => {
+      const email = uniqueEmail();
+      await requestMagicLink({ email }, 'https://shop.example');
+      const token = await latestMagicLinkToken(email);
+
+      const response = await followMagicLink(
+        new NextRequest(`http://localhost/api/auth/magic-link?token=${token}`, {
+          headers: { cookie: `${SESSION_COOKIE_NAME}=${planted}` },
+        })
+      );
+
+      expect(response.status).toBe(307);
+      expect(response.cookies.get(authConfig.cookieName)?.value).toBeTruthy();
+      expect(response.cookies.get(SESSION_COOKIE_NAME)?.value).not.toBe(planted);
+      expect(response.cookies.get(SESSION_COOKIE_NAME)?.value).toBeTruthy();
+    });
+  });
+});
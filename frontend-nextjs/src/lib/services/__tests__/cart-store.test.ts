@@ -0,0 +1,254 @@
+// @vitest-environment node
+
+/**
+ * Tests for Cart Persistence
+ * Line merging, the store implementations, and restoring/merging carts
+ * through the cart service against a local stand-in for the PHP cart API
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { createServer, type IncomingMessage, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { createCartStore, mergeCartLines, sessionCartOwner, accountCartOwner } from '../cart-store';
+import type { AddToCartRequest, Cart, CartLineItem } from '../../types/cart';
+
+type CartModule = typeof import('../cart');
+
+function line(productId: number, quantity: number, stock = 10, price = 1000): CartLineItem {
+  return {
+    line_id: `line-${productId}`,
+    product_id: productId,
+    title: `Product ${productId}`,
+    price,
+    quantity,
+    stock,
+    line_total: price * quantity,
+  };
+}
+
+// Stand-in backend state: one cart per ci_session cookie, with a new
+// session issued to requests that don't carry one
+const carts = new Map<string, Cart>();
+const liveStock = new Map<number, number>(); // overrides the stock sent with a line
+let issuedSessions = 0;
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => resolve(body));
+  });
+}
+
+function withLines(cart: Cart, items: CartLineItem[]): Cart {
+  return { ...cart, items, subtotal: items.reduce((sum, item) => sum + item.line_total, 0) };
+}
+
+const server: Server = createServer(async (req, res) => {
+  let session = req.headers.cookie?.match(/ci_session=([^;]+)/)?.[1];
+
+  if (!session) {
+    session = `fresh-${++issuedSessions}`;
+    res.setHeader('Set-Cookie', `ci_session=${session}; Path=/; HttpOnly`);
+  }
+
+  const cart = carts.get(session) ?? { items: [], subtotal: 0, currency: 'USD' };
+  const send = (status: number, body: unknown) => {
+    res.statusCode = status;
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify(body));
+  };
+  const save = (items: CartLineItem[]) => {
+    const updated = withLines(cart, items);
+    carts.set(session, updated);
+    send(200, updated);
+  };
+
+  if (req.method === 'GET' && req.url === '/api/cart') {
+    send(200, cart);
+    return;
+  }
+
+  if (req.method === 'POST' && req.url === '/api/cart/add') {
+    const request: AddToCartRequest = JSON.parse(await readBody(req));
+    const existing = cart.items.find((item) => item.product_id === request.product_id);
+    const quantity = (existing?.quantity ?? 0) + request.quantity;
+
+    if (quantity > (liveStock.get(request.product_id) ?? request.stock ?? Infinity)) {
+      send(422, { message: 'Not enough stock' });
+      return;
+    }
+
+    const price = Math.round(request.price * 100);
+    save([
+      ...cart.items.filter((item) => item !== existing),
+      { ...line(request.product_id, quantity, request.stock, price), title: request.title },
+    ]);
+    return;
+  }
+
+  const updateMatch = req.url?.match(/^\/api\/cart\/update\/(.+)$/);
+  if (req.method === 'PUT' && updateMatch) {
+    const { quantity } = JSON.parse(await readBody(req));
+    save(cart.items.map((item) =>
+      item.line_id === updateMatch[1] ? { ...item, quantity, line_total: item.price * quantity } : item
+    ));
+    return;
+  }
+
+  const removeMatch = req.url?.match(/^\/api\/cart\/remove\/(.+)$/);
+  if (req.method === 'DELETE' && removeMatch) {
+    save(cart.items.filter((item) => item.line_id !== removeMatch[1]));
+    return;
+  }
+
+  send(404, { message: 'Not found' });
+});
+
+describe('Cart Persistence', () => {
+  describe('mergeCartLines', () => {
+    it('should combine quantities of the same product', () => {
+      const merged = mergeCartLines([line(1, 2), line(2, 1)], [line(1, 3), line(3, 1)]);
+
+      expect(merged.map((item) => [item.product_id, item.quantity])).toEqual([
+        [1, 5],
+        [2, 1],
+        [3, 1],
+      ]);
+      expect(merged[0].line_total).toBe(5000);
+    });
+
+    it('should cap combined quantities at the latest stock', () => {
+      const merged = mergeCartLines([line(1, 4, 10)], [line(1, 3, 5)]);
+
+      expect(merged[0]).toMatchObject({ quantity: 5, stock: 5 });
+    });
+
+    it('should drop lines that have sold out', () => {
+      expect(mergeCartLines([line(1, 2, 10)], [line(1, 1, 0)])).toEqual([]);
+    });
+  });
+
+  describe('createCartStore', () => {
+    it('should save nothing for session storage', async () => {
+      const store = createCartStore('session');
+
+      await store.save('session:abc', [line(1, 1)]);
+
+      expect(await store.load('session:abc')).toBeNull();
+    });
+
+    it('should save and delete carts by owner', async () => {
+      const store = createCartStore('memory');
+
+      await store.save('session:abc', [line(1, 2)]);
+      expect((await store.load('session:abc'))?.items).toEqual([line(1, 2)]);
+
+      await store.delete('session:abc');
+      expect(await store.load('session:abc')).toBeNull();
+    });
+  });
+
+  describe('cart service', () => {
+    const store = createCartStore('memory');
+    const guest = sessionCartOwner('guest');
+    const account = accountCartOwner('42');
+    let cart: CartModule;
+
+    beforeAll(async () => {
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      const { port } = server.address() as AddressInfo;
+
+      // Backend client reads its base URL at import time
+      vi.stubEnv('BACKEND_BASE_URL', `http://127.0.0.1:${port}/api`);
+      vi.stubEnv('CART_STORAGE', 'memory');
+      vi.resetModules();
+
+      cart = await import('../cart');
+    });
+
+    afterAll(async () => {
+      vi.unstubAllEnvs();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    });
+
+    beforeEach(async () => {
+      carts.clear();
+      liveStock.clear();
+      await store.delete(guest);
+      await store.delete(account);
+    });
+
+    it('should save the cart after each change', async () => {
+      carts.set('s1', withLines({ items: [], subtotal: 0, currency: 'USD' }, [line(1, 1)]));
+
+      await cart.updateCartItemQuantity('line-1', 3, 'ci_session=s1', guest);
+
+      expect((await store.load(guest))?.items.map((item) => item.quantity)).toEqual([3]);
+    });
+
+    it('should restore a saved cart into an expired backend session', async () => {
+      await store.save(guest, [line(1, 2), line(2, 1)]);
+
+      const { data, headers } = await cart.fetchCart('ci_session=expired', guest);
+
+      expect(data.items.map((item) => [item.product_id, item.quantity])).toEqual([[1, 2], [2, 1]]);
+      expect(data.subtotal).toBe(3000);
+      // The backend session was still valid, so no new cookie is needed
+      expect(headers.getSetCookie()).toEqual([]);
+      expect(carts.get('expired')?.items).toHaveLength(2);
+    });
+
+    it('should reuse the backend session issued during a restore', async () => {
+      await store.save(guest, [line(1, 2), line(2, 1)]);
+
+      const { data, headers } = await cart.fetchCart(undefined, guest);
+
+      expect(data.items).toHaveLength(2);
+      expect(issuedSessions).toBeGreaterThan(0);
+      expect(headers.getSetCookie()).toEqual([`ci_session=fresh-${issuedSessions}; Path=/; HttpOnly`]);
+    });
+
+    it('should skip lines the backend rejects when restoring', async () => {
+      // Saved before product 2 sold out
+      await store.save(guest, [line(1, 2), line(2, 1)]);
+      liveStock.set(2, 0);
+      const consoleSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const { data } = await cart.fetchCart('ci_session=s2', guest);
+
+      expect(consoleSpy).toHaveBeenCalledTimes(1);
+      consoleSpy.mockRestore();
+
+      expect(data.items.map((item) => [item.product_id, item.quantity])).toEqual([[1, 2]]);
+      expect((await store.load(guest))?.items).toHaveLength(1);
+    });
+
+    it('should check promo codes against a restored cart', async () => {
+      // Signed in on a new device: the backend session is empty
+      await store.save(account, [line(1, 2), line(2, 1)]);
+
+      const { data } = await cart.applyPromoCode('expecto-20', 'ci_session=s4', account);
+
+      expect(data.items).toHaveLength(2);
+      expect(data.promo_code).toBe('EXPECTO-20');
+      expect(data.discount).toBe(600);
+    });
+
+    it('should merge a guest cart into the account cart on sign-in', async () => {
+      await store.save(account, [line(1, 4, 5), line(3, 1)]);
+      await store.save(guest, [line(1, 3, 5), line(2, 1)]);
+      carts.set('s3', withLines({ items: [], subtotal: 0, currency: 'USD' }, [line(1, 3, 5), line(2, 1)]));
+
+      const { data } = await cart.mergeGuestCart(account, guest, 'ci_session=s3');
+
+      expect(data.items.map((item) => [item.product_id, item.quantity])).toEqual([
+        [1, 5],
+        [2, 1],
+        [3, 1],
+      ]);
+      expect((await store.load(account))?.items).toHaveLength(3);
+      expect(await store.load(guest)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Unit tests for Checkout Flow
+ * Step guards, transitions, resuming a saved step and progress bar statuses
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  INITIAL_CHECKOUT_FLOW,
+  canEnterStep,
+  getStepStatuses,
+  isStepComplete,
+  isStepField,
+  resolveStep,
+  transition,
+  type CheckoutFlowContext,
+  type CheckoutFlowState,
+  type CheckoutStepId,
+} from '../checkout-flow';
+import type { CheckoutFieldErrors } from '../../types/checkout';
+
+function context(errors: CheckoutFieldErrors = {}, itemCount = 2): CheckoutFlowContext {
+  return { itemCount, errors };
+}
+
+function at(step: CheckoutStepId, orderId: string | null = null): CheckoutFlowState {
+  return { step, orderId };
+}
+
+const NOTHING_ENTERED: CheckoutFieldErrors = {
+  email: 'Enter your email address',
+  'shipping.address': 'Enter an address',
+  shippingMethod: 'Choose a shipping method',
+  'payment.nameOnCard': 'Enter the name on the card',
+  'payment.token': 'Enter your card details',
+};
+
+describe('isStepField', () => {
+  it('maps fields to the step that collects them', () => {
+    expect(isStepField('information', 'email')).toBe(true);
+    expect(isStepField('information', 'shipping.postalCode')).toBe(true);
+    expect(isStepField('shippingMethod', 'shippingMethod')).toBe(true);
+    expect(isStepField('payment', 'payment.cardNumber')).toBe(true);
+    expect(isStepField('payment', 'billing.city')).toBe(true);
+  });
+
+  it('does not match fields of other steps', () => {
+    expect(isStepField('information', 'shippingMethod')).toBe(false);
+    expect(isStepField('payment', 'shipping.city')).toBe(false);
+    expect(isStepField('review', 'email')).toBe(false);
+  });
+});
+
+describe('isStepComplete', () => {
+  it('needs items in the cart', () => {
+    expect(isStepComplete('cart', INITIAL_CHECKOUT_FLOW, context({}, 0))).toBe(false);
+    expect(isStepComplete('cart', INITIAL_CHECKOUT_FLOW, context({}, 1))).toBe(true);
+  });
+
+  it('keeps the cart complete once the order has emptied it', () => {
+    expect(isStepComplete('cart', at('confirmation', 'ord_1'), context({}, 0))).toBe(true);
+  });
+
+  it('is complete when none of the step fields have errors', () => {
+    const errors = { 'payment.token': 'Enter your card details' };
+
+    expect(isStepComplete('information', INITIAL_CHECKOUT_FLOW, context(errors))).toBe(true);
+    expect(isStepComplete('payment', INITIAL_CHECKOUT_FLOW, context(errors))).toBe(false);
+  });
+
+  it('only completes review by placing the order', () => {
+    expect(isStepComplete('review', at('review'), context())).toBe(false);
+    expect(isStepComplete('review', at('confirmation', 'ord_1'), context())).toBe(true);
+  });
+});
+
+describe('canEnterStep', () => {
+  it('cannot reach payment with an empty cart', () => {
+    expect(canEnterStep('payment', INITIAL_CHECKOUT_FLOW, context({}, 0))).toBe(false);
+  });
+
+  it('needs every earlier step to be complete', () => {
+    const errors = { shippingMethod: 'Choose a shipping method' };
+
+    expect(canEnterStep('shippingMethod', INITIAL_CHECKOUT_FLOW, context(errors))).toBe(true);
+    expect(canEnterStep('payment', INITIAL_CHECKOUT_FLOW, context(errors))).toBe(false);
+  });
+});
+
+describe('resolveStep', () => {
+  it('resumes at the saved step when its guard passes', () => {
+    expect(resolveStep('review', at('review'), context())).toBe('review');
+  });
+
+  it('falls back to the first incomplete step before it', () => {
+    const errors = { 'payment.token': 'Enter your card details' };
+
+    expect(resolveStep('review', at('review'), context(errors))).toBe('payment');
+    expect(resolveStep('review', at('review'), context(NOTHING_ENTERED))).toBe('information');
+  });
+
+  it('sends an empty cart back to the cart', () => {
+    expect(resolveStep('payment', at('payment'), context({}, 0))).toBe('cart');
+  });
+});
+
+describe('transition', () => {
+  describe('next', () => {
+    it('moves on from a complete step', () => {
+      expect(transition(INITIAL_CHECKOUT_FLOW, { type: 'next' }, context()).step).toBe('shippingMethod');
+      expect(transition(at('payment'), { type: 'next' }, context()).step).toBe('review');
+    });
+
+    it('stays while the step has errors', () => {
+      const errors = { email: 'Enter your email address' };
+
+      expect(transition(INITIAL_CHECKOUT_FLOW, { type: 'next' }, context(errors))).toEqual(INITIAL_CHECKOUT_FLOW);
+    });
+
+    it('ignores errors of later steps', () => {
+      const errors = { 'payment.token': 'Enter your card details' };
+
+      expect(transition(INITIAL_CHECKOUT_FLOW, { type: 'next' }, context(errors)).step).toBe('shippingMethod');
+    });
+
+    it('does not place the order', () => {
+      expect(transition(at('review'), { type: 'next' }, context()).step).toBe('review');
+    });
+  });
+
+  it('goes back one step', () => {
+    expect(transition(at('payment'), { type: 'back' }, context()).step).toBe('shippingMethod');
+    expect(transition(at('cart'), { type: 'back' }, context()).step).toBe('cart');
+  });
+
+  describe('goTo', () => {
+    it('returns to an earlier step', () => {
+      expect(transition(at('review'), { type: 'goTo', step: 'information' }, context()).step).toBe('information');
+    });
+
+    it('jumps ahead only as far as the guards allow', () => {
+      const errors = { shippingMethod: 'Choose a shipping method' };
+
+      expect(transition(INITIAL_CHECKOUT_FLOW, { type: 'goTo', step: 'review' }, context()).step).toBe('review');
+      expect(transition(INITIAL_CHECKOUT_FLOW, { type: 'goTo', step: 'review' }, context(errors)).step).toBe(
+        'shippingMethod'
+      );
+    });
+
+    it('cannot skip to confirmation', () => {
+      expect(transition(at('review'), { type: 'goTo', step: 'confirmation' }, context()).step).toBe('review');
+    });
+  });
+
+  describe('orderPlaced', () => {
+    it('confirms the order from review', () => {
+      expect(transition(at('review'), { type: 'orderPlaced', orderId: 'ord_1' }, context())).toEqual(
+        at('confirmation', 'ord_1')
+      );
+    });
+
+    it('is ignored before review', () => {
+      expect(transition(at('payment'), { type: 'orderPlaced', orderId: 'ord_1' }, context()).step).toBe('payment');
+    });
+  });
+
+  it('stops once the order is placed', () => {
+    const confirmed = at('confirmation', 'ord_1');
+
+    expect(transition(confirmed, { type: 'back' }, context({}, 0))).toBe(confirmed);
+    expect(transition(confirmed, { type: 'goTo', step: 'information' }, context())).toBe(confirmed);
+  });
+});
+
+describe('getStepStatuses', () => {
+  it('marks steps before the current one complete and later ones upcoming', () => {
+    expect(getStepStatuses(INITIAL_CHECKOUT_FLOW, context(NOTHING_ENTERED))).toEqual({
+      cart: 'complete',
+      information: 'current',
+      shippingMethod: 'upcoming',
+      payment: 'upcoming',
+      review: 'upcoming',
+      confirmation: 'upcoming',
+    });
+  });
+
+  it('marks later steps complete once they could be jumped to', () => {
+    const errors = { 'payment.token': 'Enter your card details' };
+
+    expect(getStepStatuses(INITIAL_CHECKOUT_FLOW, context(errors))).toMatchObject({
+      shippingMethod: 'complete',
+      payment: 'upcoming',
+      review: 'upcoming',
+    });
+  });
+
+  it('shows every step done on confirmation', () => {
+    expect(getStepStatuses(at('confirmation', 'ord_1'), context({}, 0))).toEqual({
+      cart: 'complete',
+      information: 'complete',
+      shippingMethod: 'complete',
+      payment: 'complete',
+      review: 'complete',
+      confirmation: 'current',
+    });
+  });
+});
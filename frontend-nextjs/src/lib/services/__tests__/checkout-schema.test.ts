@@ -0,0 +1,138 @@
+/**
+ * Unit tests for Checkout Schema
+ * Normalization and the field rules shared by the checkout page and route,
+ * and the card rules checked before tokenizing
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getCheckoutFieldValue,
+  getCvcLength,
+  isExpiryInFuture,
+  normalizeCardDetails,
+  normalizeCheckoutRequest,
+  passesLuhn,
+  validateCardDetails,
+  validateCheckoutForm,
+} from '../checkout-schema';
+import type { CheckoutRequest } from '../../types/checkout';
+import type { CardDetails } from '../../types/payments';
+
+const NOW = new Date(2026, 5, 15); // 15 June 2026
+
+function validRequest(overrides: Partial<CheckoutRequest> = {}): CheckoutRequest {
+  return normalizeCheckoutRequest({
+    email: 'shopper@example.com',
+    shipping: { address: '123 Main St', city: 'Toronto', region: 'ON', postalCode: 'M5V 2T6', country: 'CA' },
+    shippingMethod: 'standard',
+    billing: { sameAsShipping: true },
+    payment: { nameOnCard: 'Sam Shopper', token: 'tok_test' },
+    ...overrides,
+  });
+}
+
+function cardErrors(card: Partial<CardDetails>) {
+  return validateCardDetails(
+    normalizeCardDetails({ cardNumber: '4242 4242 4242 4242', expirationDate: '12/30', cvc: '123', ...card }),
+    NOW
+  );
+}
+
+describe('Checkout Schema', () => {
+  describe('normalizeCheckoutRequest', () => {
+    it('should trim fields and upper-case codes', () => {
+      const request = normalizeCheckoutRequest({
+        email: ' shopper@example.com ',
+        shipping: { country: 'ca', postalCode: 'm5v 2t6' },
+        payment: { token: ' tok_test ', cardNumber: '4242424242424242' },
+      });
+
+      expect(request.email).toBe('shopper@example.com');
+      expect(request.shipping).toMatchObject({ country: 'CA', postalCode: 'M5V 2T6' });
+      expect(request.payment).toEqual({ nameOnCard: '', token: 'tok_test', threeDSecureId: undefined });
+      expect(request.billing).toEqual({ sameAsShipping: true, address: undefined });
+    });
+
+    it('should strip card number spacing', () => {
+      expect(normalizeCardDetails({ cardNumber: '4242-4242 4242 4242', expirationDate: ' 12/30', cvc: '123' })).toEqual({
+        cardNumber: '4242424242424242',
+        expirationDate: '12/30',
+        cvc: '123',
+      });
+    });
+  });
+
+  describe('validateCheckoutForm', () => {
+    it('should accept a valid request', () => {
+      expect(validateCheckoutForm(validRequest(), NOW)).toEqual({});
+    });
+
+    it('should require a card token', () => {
+      const request = validRequest({ payment: { nameOnCard: 'Sam Shopper', token: '' } });
+
+      expect(validateCheckoutForm(request, NOW)).toEqual({ 'payment.token': 'Enter your card details' });
+    });
+
+    it('should check postal codes against the country format', () => {
+      const us = validRequest({ shipping: { ...validRequest().shipping, country: 'US', region: 'NY', postalCode: 'M5V 2T6' } });
+
+      expect(validateCheckoutForm(us, NOW)).toEqual({ 'shipping.postalCode': 'Enter a postal code like 10001' });
+      expect(validateCheckoutForm({ ...us, shipping: { ...us.shipping, postalCode: '10001-1234' } }, NOW)).toEqual({});
+    });
+
+    it('should validate the billing address only when it differs from shipping', () => {
+      const request = validRequest({ billing: { sameAsShipping: false } });
+
+      expect(Object.keys(validateCheckoutForm(request, NOW))).toEqual([
+        'billing.address',
+        'billing.country',
+        'billing.city',
+        'billing.region',
+        'billing.postalCode',
+      ]);
+    });
+  });
+
+  describe('validateCardDetails', () => {
+    it('should accept a valid card', () => {
+      expect(cardErrors({})).toEqual({});
+    });
+
+    it('should run the Luhn check on card numbers', () => {
+      expect(passesLuhn('4242424242424242')).toBe(true);
+      expect(passesLuhn('4242424242424241')).toBe(false);
+      expect(cardErrors({ cardNumber: '4242424242424241' })).toEqual({ 'payment.cardNumber': 'Enter a valid card number' });
+    });
+
+    it('should accept cards through the end of their expiry month', () => {
+      expect(isExpiryInFuture('06/26', NOW)).toBe(true);
+      expect(isExpiryInFuture('05/26', NOW)).toBe(false);
+      expect(cardErrors({ expirationDate: '05/26' })).toEqual({ 'payment.expirationDate': 'This card has expired' });
+      expect(cardErrors({ expirationDate: '13/26' })).toEqual({
+        'payment.expirationDate': 'Enter an expiration date as MM/YY',
+      });
+    });
+
+    it('should expect a 4-digit CVC for American Express only', () => {
+      const amex = '378282246310005';
+
+      expect(getCvcLength(amex)).toBe(4);
+      expect(cardErrors({ cardNumber: amex, cvc: '123' })).toEqual({ 'payment.cvc': 'Enter the 4-digit CVC' });
+      expect(cardErrors({ cardNumber: amex, cvc: '1234' })).toEqual({});
+      expect(cardErrors({ cvc: '1234' })).toEqual({ 'payment.cvc': 'Enter the 3-digit CVC' });
+    });
+  });
+
+  describe('getCheckoutFieldValue', () => {
+    it('should read fields by dotted path', () => {
+      const request = validRequest({
+        billing: { sameAsShipping: false, address: { ...validRequest().shipping, city: 'Ottawa' } },
+      });
+
+      expect(getCheckoutFieldValue(request, 'email')).toBe('shopper@example.com');
+      expect(getCheckoutFieldValue(request, 'shipping.city')).toBe('Toronto');
+      expect(getCheckoutFieldValue(request, 'billing.city')).toBe('Ottawa');
+      expect(getCheckoutFieldValue(request, 'payment.token')).toBe('tok_test');
+    });
+  });
+});
@@ -0,0 +1,523 @@
+// @vitest-environment node
+
+/**
+ * Integration tests for the Checkout pipeline
+ * Runs the /api/checkout route against a local stand-in for the PHP cart API
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { NextRequest } from 'next/server';
+import { fakeCardTokenizer } from '../../payments/fake-cards';
+import type { Cart } from '../../types/cart';
+import type { CheckoutRequest } from '../../types/checkout';
+
+type CheckoutModule = typeof import('../checkout');
+type RouteModule = typeof import('../../../app/api/checkout/route');
+type OrderRouteModule = typeof import('../../../app/api/orders/[orderId]/route');
+type ChallengeRouteModule = typeof import('../../../app/api/payments/fake-gateway/challenges/[challengeId]/route');
+type AccountsModule = typeof import('../accounts');
+type OrdersModule = typeof import('../orders');
+
+const SESSION_COOKIE = 'ci_session=test-session';
+
+// Shipping weights come from the catalog; keep it off the network
+vi.mock('../../clients/dummyjson', () => ({
+  getProduct: vi.fn(async (id: number) => ({ id, weight: id === 2 ? 0.4 : 0.2 })),
+}));
+
+// Stand-in backend state: one cart per ci_session cookie
+const carts = new Map<string, Cart>();
+// Set to make line removals fail, as a backend outage would
+let failRemovals = false;
+
+function seedCart(): Cart {
+  return {
+    items: [
+      {
+        line_id: 'line-1',
+        product_id: 1,
+        title: 'Essence Mascara',
+        price: 999,
+        quantity: 2,
+        stock: 10,
+        line_total: 1, // stale total; checkout must re-price
+      },
+      {
+        line_id: 'line-2',
+        product_id: 2,
+        title: 'Eyeshadow Palette',
+        price: 1999,
+        quantity: 1,
+        stock: 5,
+        line_total: 1999,
+      },
+    ],
+    subtotal: 1,
+    currency: 'USD',
+  };
+}
+
+function recalculate(cart: Cart): Cart {
+  const items = cart.items.map((item) => ({ ...item, line_total: item.price * item.quantity }));
+  return { ...cart, items, subtotal: items.reduce((sum, item) => sum + item.line_total, 0) };
+}
+
+const server: Server = createServer((req, res) => {
+  const session = req.headers.cookie?.match(/ci_session=[^;]+/)?.[0] ?? 'anonymous';
+  const cart = carts.get(session) ?? { items: [], subtotal: 0, currency: 'USD' };
+
+  res.setHeader('Content-Type', 'application/json');
+  res.setHeader('Set-Cookie', 'ci_session=test-session; Path=/; HttpOnly');
+
+  if (req.method === 'GET' && req.url === '/api/cart') {
+    res.end(JSON.stringify(cart));
+    return;
+  }
+
+  const removeMatch = req.url?.match(/^\/api\/cart\/remove\/(.+)$/);
+  if (req.method === 'DELETE' && removeMatch) {
+    if (failRemovals) {
+      res.statusCode = 500;
+      res.end(JSON.stringify({ message: 'Server error' }));
+      return;
+    }
+
+    const updated = recalculate({
+      ...cart,
+      items: cart.items.filter((item) => item.line_id !== removeMatch[1]),
+    });
+    carts.set(session, updated);
+    res.end(JSON.stringify(updated));
+    return;
+  }
+
+  res.statusCode = 404;
+  res.end(JSON.stringify({ message: 'Not found' }));
+});
+
+// Card token for 4242 4242 4242 4242, issued in beforeAll
+let cardToken = '';
+
+async function tokenizeCard(cardNumber: string): Promise<string> {
+  const { token } = await fakeCardTokenizer.tokenize({ cardNumber, expirationDate: '12/30', cvc: '123' });
+  return token;
+}
+
+function validRequest(overrides: Partial<CheckoutRequest> = {}): CheckoutRequest {
+  return {
+    email: 'shopper@example.com',
+    shipping: {
+      address: '123 Main St',
+      city: 'Toronto',
+      region: 'ON',
+      postalCode: 'M5V 2T6',
+      country: 'CA',
+    },
+    shippingMethod: 'standard',
+    billing: { sameAsShipping: true },
+    payment: {
+      nameOnCard: 'Sam Shopper',
+      token: cardToken,
+    },
+    ...overrides,
+  };
+}
+
+function postCheckout(body: unknown, cookie = SESSION_COOKIE): NextRequest {
+  return new NextRequest('http://localhost/api/checkout', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Cookie: cookie },
+    body: JSON.stringify(body),
+  });
+}
+
+describe('Checkout pipeline', () => {
+  let checkout: CheckoutModule;
+  let route: RouteModule;
+  let orderRoute: OrderRouteModule;
+  let challengeRoute: ChallengeRouteModule;
+  let accounts: AccountsModule;
+  let orders: OrdersModule;
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    // Backend client reads its base URL at import time
+    vi.stubEnv('BACKEND_BASE_URL', `http://127.0.0.1:${port}/api`);
+    vi.resetModules();
+
+    checkout = await import('../checkout');
+    route = await import('../../../app/api/checkout/route');
+    orderRoute = await import('../../../app/api/orders/[orderId]/route');
+    challengeRoute = await import('../../../app/api/payments/fake-gateway/challenges/[challengeId]/route');
+    accounts = await import('../accounts');
+    orders = await import('../orders');
+
+    cardToken = await tokenizeCard('4242 4242 4242 4242');
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    carts.clear();
+    carts.set(SESSION_COOKIE, seedCart());
+    failRemovals = false;
+  });
+
+  describe('validateCheckoutRequest', () => {
+    it('should normalize a valid request', () => {
+      const result = checkout.validateCheckoutRequest(validRequest());
+
+      expect(result.payment.token).toBe(cardToken);
+      expect(result.billing.sameAsShipping).toBe(true);
+    });
+
+    it('should report every invalid field', () => {
+      expect.assertions(2);
+
+      try {
+        checkout.validateCheckoutRequest({ email: 'not-an-email' });
+      } catch (error) {
+        expect(error).toBeInstanceOf(checkout.CheckoutError);
+        expect(Object.keys((error as InstanceType<CheckoutModule['CheckoutError']>).fields ?? {})).toEqual([
+          'email',
+          'shipping.address',
+          'shipping.country',
+          'shipping.city',
+          'shipping.region',
+          'shipping.postalCode',
+          'shippingMethod',
+          'payment.nameOnCard',
+          'payment.token',
+        ]);
+      }
+    });
+
+    it('should reject countries we do not ship to', () => {
+      expect.assertions(1);
+
+      try {
+        checkout.validateCheckoutRequest(validRequest({
+          shipping: { ...validRequest().shipping, country: 'FR' },
+        }));
+      } catch (error) {
+        expect((error as InstanceType<CheckoutModule['CheckoutError']>).fields).toEqual({
+          'shipping.country': 'Select a country we ship to',
+        });
+      }
+    });
+
+    it('should apply the checkout schema used by the checkout page', () => {
+      expect.assertions(1);
+
+      try {
+        checkout.validateCheckoutRequest({ ...validRequest(), shipping: { ...validRequest().shipping, postalCode: '10001' } });
+      } catch (error) {
+        expect((error as InstanceType<CheckoutModule['CheckoutError']>).fields).toEqual({
+          'shipping.postalCode': 'Enter a postal code like M5V 2T6',
+        });
+      }
+    });
+
+    it('should take a card token instead of card details', () => {
+      expect.assertions(2);
+
+      try {
+        checkout.validateCheckoutRequest({
+          ...validRequest(),
+          payment: { nameOnCard: 'Sam Shopper', cardNumber: '4242 4242 4242 4242', expirationDate: '12/30', cvc: '123' },
+        });
+      } catch (error) {
+        const { fields } = error as InstanceType<CheckoutModule['CheckoutError']>;
+        expect(fields).toEqual({ 'payment.token': 'Enter your card details' });
+        expect(JSON.stringify(fields)).not.toContain('4242');
+      }
+    });
+
+    it('should require a billing address when it differs from shipping', () => {
+      expect(() =>
+        checkout.validateCheckoutRequest(validRequest({ billing: { sameAsShipping: false } }))
+      ).toThrow(checkout.CheckoutError);
+    });
+  });
+
+  describe('POST /api/checkout', () => {
+    it('should return 400 with field errors for an invalid submission', async () => {
+      const response = await route.POST(postCheckout({ ...validRequest(), email: '' }));
+      const body = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(body.error.fields).toEqual({ email: 'Email address is required' });
+
+      // Cart is untouched
+      expect(carts.get(SESSION_COOKIE)?.items).toHaveLength(2);
+    });
+
+    it('should return 400 for a malformed body', async () => {
+      const request = new NextRequest('http://localhost/api/checkout', {
+        method: 'POST',
+        body: 'not json',
+      });
+
+      const response = await route.POST(request);
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 409 when the cart is empty', async () => {
+      const response = await route.POST(postCheckout(validRequest(), 'ci_session=empty'));
+      const body = await response.json();
+
+      expect(response.status).toBe(409);
+      expect(body.error.message).toBe('Your cart is empty');
+    });
+
+    it('should re-price the cart, record the order and clear the cart', async () => {
+      const response = await route.POST(postCheckout(validRequest()));
+      const order = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(order.id).toMatch(/^ord_[0-9a-f]+$/);
+
+      // 2 x $9.99 + $19.99 = $39.97, below free-shipping threshold
+      expect(order.items[0].line_total).toBe(1998);
+      expect(order.subtotal).toBe(3997);
+
+      // 0.8 kg standard shipping within Ontario
+      expect(order.shipping).toBe(1000);
+      expect(order.shippingMethod).toMatchObject({ id: 'standard', amount: 1000, free: false });
+      // Ontario HST applies to the goods and shipping
+      expect(order.tax).toBe(Math.round((3997 + 1000) * 0.13));
+      expect(order.taxLines).toEqual([
+        { id: 'hst', label: 'HST', rate: 0.13, taxableAmount: 4997, amount: order.tax },
+      ]);
+      expect(order.total).toBe(3997 + 1000 + order.tax);
+      expect(order.billingAddress).toEqual(order.shippingAddress);
+
+      // The card is charged through the payment provider and only its last four digits are kept
+      expect(order.payment).toEqual({
+        nameOnCard: 'Sam Shopper',
+        brand: 'visa',
+        cardLast4: '4242',
+        provider: 'fake',
+        paymentId: expect.stringMatching(/^pay_fake_[0-9a-f]+$/),
+      });
+      expect(JSON.stringify(order)).not.toContain('4242424242424242');
+
+      // Backend cart is empty
+      expect(carts.get(SESSION_COOKIE)?.items).toEqual([]);
+
+      // Backend session cookie is forwarded and a BFF session is issued
+      expect(response.headers.getSetCookie()).toContain('ci_session=test-session; Path=/; HttpOnly');
+      expect(response.cookies.get('luna_session')?.value).toMatch(/^[0-9a-f]+$/);
+    });
+  });
+
+  describe('POST /api/checkout payments', () => {
+    function completeChallenge(challengeId: string, approve: boolean) {
+      const request = new NextRequest(`http://localhost/api/payments/fake-gateway/challenges/${challengeId}`, {
+        method: 'POST',
+        body: JSON.stringify({ approve }),
+      });
+      return challengeRoute.POST(request, { params: Promise.resolve({ challengeId }) });
+    }
+
+    it('should still return the placed order when the cart fails to clear after capture', async () => {
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+      failRemovals = true;
+
+      const response = await route.POST(postCheckout(validRequest(), `${SESSION_COOKIE}; luna_session=clear-fails`));
+      const order = await response.json();
+
+      // Charged and recorded, so the shopper must not be told to retry
+      expect(response.status).toBe(201);
+      expect(order.payment.paymentId).toMatch(/^pay_fake_[0-9a-f]+$/);
+      expect(await orders.getOrderForSession(order.id, 'clear-fails')).toMatchObject({ id: order.id, total: order.total });
+      expect(carts.get(SESSION_COOKIE)?.items).toHaveLength(2);
+      expect(consoleError).toHaveBeenCalledWith('Error clearing cart after order:', expect.any(Error));
+
+      consoleError.mockRestore();
+    });
+
+    it('should return 402 with the decline on the card and leave the cart alone', async () => {
+      const token = await tokenizeCard('4000 0000 0000 0002');
+
+      const response = await route.POST(postCheckout({ ...validRequest(), payment: { nameOnCard: 'Sam Shopper', token } }));
+      const body = await response.json();
+
+      expect(response.status).toBe(402);
+      expect(body.error).toMatchObject({
+        message: 'Your card was declined',
+        code: 'card_declined',
+        fields: { 'payment.token': 'Your card was declined' },
+      });
+      expect(carts.get(SESSION_COOKIE)?.items).toHaveLength(2);
+    });
+
+    it('should report insufficient funds', async () => {
+      const token = await tokenizeCard('4000 0000 0000 9995');
+
+      const response = await route.POST(postCheckout({ ...validRequest(), payment: { nameOnCard: 'Sam Shopper', token } }));
+
+      expect(response.status).toBe(402);
+      expect((await response.json()).error.code).toBe('insufficient_funds');
+    });
+
+    it('should return 400 for a token the provider did not issue', async () => {
+      const response = await route.POST(postCheckout({ ...validRequest(), payment: { nameOnCard: 'Sam Shopper', token: 'tok_forged' } }));
+      const body = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(body.error.fields).toEqual({ 'payment.token': 'Enter your card details again' });
+    });
+
+    it('should place the order once a 3-D Secure challenge is approved', async () => {
+      const request = { ...validRequest(), payment: { nameOnCard: 'Sam Shopper', token: await tokenizeCard('4000000000003220') } };
+
+      const challenged = await route.POST(postCheckout(request));
+      const { error } = await challenged.json();
+
+      expect(challenged.status).toBe(402);
+      expect(error.code).toBe('requires_action');
+      expect(error.challenge).toMatchObject({ brand: 'visa', last4: '3220' });
+
+      // Retrying before the challenge is completed asks again
+      const retried = await route.POST(postCheckout({ ...request, payment: { ...request.payment, threeDSecureId: error.challenge.id } }));
+      expect(retried.status).toBe(402);
+
+      expect((await completeChallenge(error.challenge.id, true)).status).toBe(200);
+
+      const response = await route.POST(postCheckout({ ...request, payment: { ...request.payment, threeDSecureId: error.challenge.id } }));
+      const order = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(order.payment.cardLast4).toBe('3220');
+    });
+
+    it('should decline when a 3-D Secure challenge fails', async () => {
+      const request = { ...validRequest(), payment: { nameOnCard: 'Sam Shopper', token: await tokenizeCard('4000000000003220') } };
+      const { error } = await (await route.POST(postCheckout(request))).json();
+
+      await completeChallenge(error.challenge.id, false);
+
+      const response = await route.POST(postCheckout({ ...request, payment: { ...request.payment, threeDSecureId: error.challenge.id } }));
+
+      expect(response.status).toBe(402);
+      expect((await response.json()).error.code).toBe('authentication_failed');
+      expect((await completeChallenge(error.challenge.id, true)).status).toBe(409);
+      expect(carts.get(SESSION_COOKIE)?.items).toHaveLength(2);
+    });
+  });
+
+  describe('POST /api/checkout shipping methods', () => {
+    it('should charge the chosen method and tax it', async () => {
+      const response = await route.POST(postCheckout({ ...validRequest(), shippingMethod: 'express' }));
+      const order = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(order.shipping).toBe(1800);
+      expect(order.shippingMethod.label).toBe('Express');
+      expect(order.tax).toBe(Math.round((3997 + 1800) * 0.13));
+      expect(order.total).toBe(3997 + 1800 + order.tax);
+    });
+
+    it('should reject a method not offered for the address', async () => {
+      const request = validRequest({
+        shipping: { ...validRequest().shipping, region: 'NY', postalCode: '10001', country: 'US' },
+        shippingMethod: 'overnight',
+      });
+
+      const response = await route.POST(postCheckout(request));
+      const body = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(body.error.fields).toHaveProperty('shippingMethod');
+
+      // Cart is untouched
+      expect(carts.get(SESSION_COOKIE)?.items).toHaveLength(2);
+    });
+  });
+
+  describe('POST /api/checkout with a promo code', () => {
+    it('should freeze the discount on the order and tax the discounted subtotal', async () => {
+      const response = await route.POST(postCheckout(validRequest(), `${SESSION_COOKIE}; luna_promo=EXPECTO-20`));
+      const order = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(order.subtotal).toBe(3997);
+      expect(order.discount).toBe(799); // 20% of $39.97
+      expect(order.promoCode).toBe('EXPECTO-20');
+      expect(order.tax).toBe(Math.round((3997 - 799 + 1000) * 0.13));
+      expect(order.total).toBe(3997 - 799 + 1000 + order.tax);
+
+      // Promo code is used up by the order
+      expect(response.cookies.get('luna_promo')?.value).toBe('');
+    });
+  });
+
+  describe('GET /api/orders/[orderId]', () => {
+    async function placeOrderForSession(sessionId: string) {
+      const response = await route.POST(postCheckout(validRequest(), `${SESSION_COOKIE}; luna_session=${sessionId}`));
+      return response.json();
+    }
+
+    function getOrder(orderId: string, cookie?: string) {
+      const request = new NextRequest(`http://localhost/api/orders/${orderId}`, {
+        headers: cookie ? { Cookie: cookie } : undefined,
+      });
+      return orderRoute.GET(request, { params: Promise.resolve({ orderId }) });
+    }
+
+    it('should return the frozen order to the session that placed it', async () => {
+      const placed = await placeOrderForSession('owner');
+
+      const response = await getOrder(placed.id, 'luna_session=owner');
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual(placed);
+    });
+
+    it('should not expose the owning session on the order', async () => {
+      const placed = await placeOrderForSession('owner');
+
+      expect(placed).not.toHaveProperty('sessionId');
+    });
+
+    it('should return 404 to other sessions', async () => {
+      const placed = await placeOrderForSession('owner');
+
+      expect((await getOrder(placed.id, 'luna_session=someone-else')).status).toBe(404);
+      expect((await getOrder(placed.id)).status).toBe(404);
+    });
+
+    it('should return 404 for unknown orders', async () => {
+      const response = await getOrder('ord_missing', 'luna_session=owner');
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should return orders placed while signed in to the account from any session', async () => {
+      const account = await accounts.registerAccount({
+        email: 'orders@example.com',
+        password: 'correct horse',
+        name: 'Sam',
+      });
+      const authCookie = `luna_auth=${await accounts.createSession(account.id)}`;
+
+      const response = await route.POST(
+        postCheckout(validRequest(), `${SESSION_COOKIE}; luna_session=laptop; ${authCookie}`)
+      );
+      const placed = await response.json();
+
+      expect((await getOrder(placed.id, `luna_session=phone; ${authCookie}`)).status).toBe(200);
+      expect((await getOrder(placed.id, 'luna_session=phone')).status).toBe(404);
+      expect(await orders.listOrdersForAccount(account.id)).toEqual([placed]);
+    });
+  });
+});
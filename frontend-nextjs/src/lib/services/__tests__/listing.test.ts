@@ -0,0 +1,128 @@
+/**
+ * Unit tests for Listing Service
+ * Tests server-side filtering, sorting, offset pagination and facets, and
+ * how often the whole source is fetched
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { DummyProduct } from '../../types/products';
+
+// Mock the DummyJSON client so no network calls are made
+vi.mock('../../clients/dummyjson', () => ({
+  getAllConfiguredCategoryProducts: vi.fn(),
+  getProductsByCategory: vi.fn(),
+}));
+
+const createProduct = (id: number, price: number, brand: string) =>
+  ({ id, price, brand, rating: 4, stock: 5, tags: [], discountPercentage: 0 }) as unknown as DummyProduct;
+
+const products = [
+  createProduct(1, 30, 'Essence'),
+  createProduct(2, 10, 'Glamour'),
+  createProduct(3, 20, 'Essence'),
+  createProduct(4, 40, 'Essence'),
+  createProduct(5, 50, 'Glamour'),
+];
+
+const productList = { products, total: products.length, skip: 0, limit: products.length };
+
+// Sources are cached at module level, so load a fresh module per test
+async function loadService() {
+  vi.resetModules();
+  const dummyjson = await import('../../clients/dummyjson');
+  const service = await import('../listing');
+
+  const mockGetCatalog = vi.mocked(dummyjson.getAllConfiguredCategoryProducts);
+  const mockGetCategory = vi.mocked(dummyjson.getProductsByCategory);
+  mockGetCatalog.mockResolvedValue(productList);
+  mockGetCategory.mockResolvedValue(productList);
+
+  return { ...service, mockGetCatalog, mockGetCategory };
+}
+
+describe('Listing Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should return the requested page of filtered, sorted results', async () => {
+    const { fetchListingPage, mockGetCategory } = await loadService();
+    const page = await fetchListingPage(
+      { type: 'collection', slug: 'beauty' },
+      new URLSearchParams('brands=Essence&sort=price-high&limit=2&skip=2')
+    );
+
+    expect(mockGetCategory).toHaveBeenCalledWith('beauty');
+    expect(page.products.map((product) => product.id)).toEqual([3]);
+    expect(page.total).toBe(3);
+    expect(page.skip).toBe(2);
+    expect(page.limit).toBe(2);
+  });
+
+  it('should count facets over the whole source, not just the page', async () => {
+    const { fetchListingPage, mockGetCatalog } = await loadService();
+    const page = await fetchListingPage({ type: 'catalog' }, new URLSearchParams('limit=1'));
+    const brand = page.facets.find((facet) => facet.id === 'brand');
+
+    expect(mockGetCatalog).toHaveBeenCalled();
+    expect(page.products).toHaveLength(1);
+    expect(brand?.options.map((option) => [option.value, option.count])).toEqual([
+      ['Essence', 3],
+      ['Glamour', 2],
+    ]);
+  });
+
+  it('should clamp an offset past the end to the last page', async () => {
+    const { fetchListingPage } = await loadService();
+    const page = await fetchListingPage({ type: 'catalog' }, new URLSearchParams('limit=2&skip=40'));
+
+    expect(page.skip).toBe(4);
+    expect(page.products.map((product) => product.id)).toEqual([5]);
+  });
+
+  it('should return an empty first page when nothing matches', async () => {
+    const { fetchListingPage } = await loadService();
+    const page = await fetchListingPage({ type: 'catalog' }, new URLSearchParams('brands=Nope&limit=2&skip=4'));
+
+    expect(page).toMatchObject({ products: [], total: 0, skip: 0 });
+  });
+
+  it('should fetch the whole source once per revalidation window', async () => {
+    const { fetchListingPage, mockGetCatalog } = await loadService();
+
+    await fetchListingPage({ type: 'catalog' }, new URLSearchParams('limit=2'));
+    await fetchListingPage({ type: 'catalog' }, new URLSearchParams('limit=2&skip=2'));
+    await fetchListingPage({ type: 'catalog' }, new URLSearchParams('brands=Essence&limit=2'));
+
+    expect(mockGetCatalog).toHaveBeenCalledTimes(1);
+  });
+
+  it('should serve the cached source when a refresh fails', async () => {
+    vi.useFakeTimers();
+    try {
+      const { fetchListingPage, mockGetCatalog } = await loadService();
+      await fetchListingPage({ type: 'catalog' }, new URLSearchParams('limit=2'));
+
+      vi.advanceTimersByTime(10 * 60 * 1000);
+      mockGetCatalog.mockRejectedValueOnce(new Error('Upstream down'));
+      const page = await fetchListingPage({ type: 'catalog' }, new URLSearchParams('limit=2'));
+
+      expect(mockGetCatalog).toHaveBeenCalledTimes(2);
+      expect(page.total).toBe(5);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should page an unfiltered collection from the cached copy', async () => {
+    const { fetchListingPage, mockGetCategory } = await loadService();
+    const first = await fetchListingPage({ type: 'collection', slug: 'beauty' }, new URLSearchParams('limit=2'));
+    const second = await fetchListingPage({ type: 'collection', slug: 'beauty' }, new URLSearchParams('limit=2&skip=2'));
+
+    expect(mockGetCategory).toHaveBeenCalledTimes(1);
+    expect(mockGetCategory).toHaveBeenCalledWith('beauty');
+    expect(first.products.map((product) => product.id)).toEqual([1, 2]);
+    expect(second.products.map((product) => product.id)).toEqual([3, 4]);
+    expect(second.total).toBe(5);
+  });
+});
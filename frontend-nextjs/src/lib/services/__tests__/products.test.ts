@@ -0,0 +1,141 @@
+/**
+ * Unit tests for Product Service
+ * Tests search runs over the configured-category catalog index, and
+ * lookups by ID report products that no longer exist
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { DummyProduct } from '../../types/products';
+
+// Mock the DummyJSON client so no network calls are made
+vi.mock('../../clients/dummyjson', () => ({
+  searchProducts: vi.fn(),
+  getAllConfiguredCategoryProducts: vi.fn(),
+  getProduct: vi.fn(),
+}));
+
+const createProduct = (id: number, title: string, category: string) =>
+  ({ id, title, category, description: '', tags: [] }) as unknown as DummyProduct;
+
+const productList = (products: DummyProduct[]) => ({
+  products,
+  total: products.length,
+  skip: 0,
+  limit: products.length,
+});
+
+// The catalog index is cached at module level, so load a fresh module per test
+async function loadService() {
+  vi.resetModules();
+  const dummyjson = await import('../../clients/dummyjson');
+  const service = await import('../products');
+
+  return {
+    ...service,
+    mockSearchProducts: vi.mocked(dummyjson.searchProducts),
+    mockGetCatalog: vi.mocked(dummyjson.getAllConfiguredCategoryProducts),
+    mockGetProduct: vi.mocked(dummyjson.getProduct),
+  };
+}
+
+describe('Product Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('searchProductsByQuery', () => {
+    it('should search the local catalog index instead of the upstream endpoint', async () => {
+      const { searchProductsByQuery, mockGetCatalog, mockSearchProducts } = await loadService();
+      mockGetCatalog.mockResolvedValue(
+        productList([
+          createProduct(1, 'Dior J\'adore', 'fragrances'),
+          createProduct(2, 'Blue Frock', 'womens-dresses'),
+        ])
+      );
+
+      const result = await searchProductsByQuery('jadore dior');
+
+      expect(result.products.map((product) => product.id)).toEqual([1]);
+      expect(result.total).toBe(1);
+      expect(mockSearchProducts).not.toHaveBeenCalled();
+    });
+
+    it('should tolerate typos', async () => {
+      const { searchProductsByQuery, mockGetCatalog } = await loadService();
+      mockGetCatalog.mockResolvedValue(productList([createProduct(1, 'Blue Frock', 'womens-dresses')]));
+
+      expect((await searchProductsByQuery('frokc')).total).toBe(1);
+    });
+
+    it('should reuse the catalog index between searches', async () => {
+      const { searchProductsByQuery, mockGetCatalog } = await loadService();
+      mockGetCatalog.mockResolvedValue(productList([createProduct(1, 'Blue Frock', 'womens-dresses')]));
+
+      await Promise.all([searchProductsByQuery('blue'), searchProductsByQuery('frock')]);
+      await searchProductsByQuery('dress');
+
+      expect(mockGetCatalog).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fall back to upstream search, minus off-brand products, when the catalog fails', async () => {
+      const { searchProductsByQuery, mockGetCatalog, mockSearchProducts } = await loadService();
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      mockGetCatalog.mockRejectedValue(new Error('Upstream unavailable'));
+      mockSearchProducts.mockResolvedValue(
+        productList([
+          createProduct(1, 'Perfume Oil', 'fragrances'),
+          createProduct(2, 'Apple', 'groceries'),
+          createProduct(3, 'Perfume Dress', 'womens-dresses'),
+          createProduct(4, 'Perfume Truck', 'vehicle'),
+        ])
+      );
+
+      const result = await searchProductsByQuery('perfume');
+
+      expect(mockSearchProducts).toHaveBeenCalledWith('perfume');
+      expect(result.products.map((product) => product.id)).toEqual([1, 3]);
+      expect(result.total).toBe(2);
+
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('fetchProductsByIds', () => {
+    it('should return products in the requested order', async () => {
+      const { fetchProductsByIds, mockGetProduct } = await loadService();
+      mockGetProduct.mockImplementation(async (id) => createProduct(id, `Product ${id}`, 'beauty'));
+
+      const result = await fetchProductsByIds([3, 1, 2]);
+
+      expect(result.products.map((product) => product.id)).toEqual([3, 1, 2]);
+      expect(result.missingIds).toEqual([]);
+    });
+
+    it('should report products the upstream no longer has', async () => {
+      const { fetchProductsByIds, mockGetProduct } = await loadService();
+      const { HttpError } = await import('../../clients/upstream');
+      mockGetProduct.mockImplementation(async (id) => {
+        if (id === 2) throw new HttpError(404, 'Not Found');
+        return createProduct(id, `Product ${id}`, 'beauty');
+      });
+
+      const result = await fetchProductsByIds([1, 2, 3]);
+
+      expect(result.products.map((product) => product.id)).toEqual([1, 3]);
+      expect(result.missingIds).toEqual([2]);
+    });
+
+    it('should skip products that failed for other reasons without reporting them missing', async () => {
+      const { fetchProductsByIds, mockGetProduct } = await loadService();
+      mockGetProduct.mockImplementation(async (id) => {
+        if (id === 2) throw new Error('Upstream unavailable');
+        return createProduct(id, `Product ${id}`, 'beauty');
+      });
+
+      const result = await fetchProductsByIds([1, 2]);
+
+      expect(result.products.map((product) => product.id)).toEqual([1]);
+      expect(result.missingIds).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,361 @@
+/**
+ * Unit tests for Promotion Service
+ * Rules engine, stacking, code validation and cookie parsing
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  evaluatePromotions,
+  validatePromoCode,
+  applyPromotion,
+  readPromoCode,
+} from '../promotions';
+import { discountCode, promotions as configuredPromotions } from '../../cms/promotions';
+import { calculateTax } from '../tax';
+import type { Cart, CartLineItem } from '../../types/cart';
+import type { Promotion } from '../../types/promotions';
+
+// Helper to create a cart line (price in cents)
+const createLine = (id: number, price: number, quantity: number, category: string): CartLineItem => ({
+  line_id: `line_${id}`,
+  product_id: id,
+  title: `Product ${id}`,
+  price,
+  quantity,
+  stock: 10,
+  category,
+  line_total: price * quantity,
+});
+
+const now = new Date('2025-06-01T12:00:00Z');
+
+const percentageCode: Promotion = {
+  id: 'pct',
+  type: 'percentage',
+  code: 'SAVE20',
+  label: '20% off',
+  percentage: 20,
+  stacking: 'exclusive',
+};
+
+describe('Promotion Service', () => {
+  describe('rules', () => {
+    it('should apply a percentage code to the subtotal', () => {
+      const result = evaluatePromotions([createLine(1, 999, 1, 'tops')], {
+        code: 'save20',
+        now,
+        promotions: [percentageCode],
+      });
+
+      expect(result.discount).toBe(200); // 199.8 rounds to 200
+      expect(result.applied).toEqual([
+        { id: 'pct', label: '20% off', code: 'SAVE20', amount: 200, explanation: '20% off your order' },
+      ]);
+    });
+
+    it('should cap a fixed-amount discount at the subtotal', () => {
+      const result = evaluatePromotions([createLine(1, 500, 1, 'tops')], {
+        code: 'TENOFF',
+        now,
+        promotions: [
+          { id: 'fixed', type: 'fixed-amount', code: 'TENOFF', label: '$10 off', amount: 1000, stacking: 'stackable' },
+        ],
+      });
+
+      expect(result.discount).toBe(500);
+      expect(result.applied[0].explanation).toBe('$10.00 off your order');
+    });
+
+    it('should discount the cheapest units for buy-x-get-y within its categories', () => {
+      const items = [
+        createLine(1, 3000, 2, 'beauty'),
+        createLine(2, 1000, 1, 'beauty'),
+        createLine(3, 500, 3, 'tops'), // not eligible
+      ];
+
+      const result = evaluatePromotions(items, {
+        now,
+        promotions: [
+          {
+            id: 'bxgy',
+            type: 'buy-x-get-y',
+            label: '3 for 2',
+            buyQuantity: 2,
+            getQuantity: 1,
+            discountPercentage: 100,
+            categories: ['beauty'],
+            stacking: 'stackable',
+          },
+        ],
+      });
+
+      expect(result.discount).toBe(1000);
+      expect(result.applied[0].explanation).toBe('Buy 2, get 1 free on Beauty: 1 item free');
+    });
+
+    it('should skip buy-x-get-y until enough units are in the cart', () => {
+      const result = evaluatePromotions([createLine(1, 3000, 2, 'beauty')], {
+        now,
+        promotions: [
+          {
+            id: 'bxgy',
+            type: 'buy-x-get-y',
+            label: '3 for 2',
+            buyQuantity: 2,
+            getQuantity: 1,
+            discountPercentage: 100,
+            stacking: 'stackable',
+          },
+        ],
+      });
+
+      expect(result).toEqual({ discount: 0, applied: [] });
+    });
+
+    it('should discount only lines in the configured categories', () => {
+      const items = [createLine(1, 2000, 2, 'fragrances'), createLine(2, 5000, 1, 'tops')];
+
+      const result = evaluatePromotions(items, {
+        now,
+        promotions: [
+          {
+            id: 'cat',
+            type: 'category',
+            label: 'Potions sale',
+            categories: ['fragrances', 'beauty'],
+            percentage: 15,
+            stacking: 'stackable',
+          },
+        ],
+      });
+
+      expect(result.discount).toBe(600);
+      expect(result.applied[0].explanation).toBe('15% off Fragrances and Beauty (2 items)');
+    });
+
+    it('should use the highest spend tier reached and point to the next one', () => {
+      const tiered: Promotion = {
+        id: 'tiers',
+        type: 'tiered-spend',
+        label: 'Spend more, save more',
+        tiers: [
+          { threshold: 20000, amount: 2500 },
+          { threshold: 10000, amount: 1000 },
+        ],
+        stacking: 'stackable',
+      };
+
+      const below = evaluatePromotions([createLine(1, 9999, 1, 'tops')], { now, promotions: [tiered] });
+      const first = evaluatePromotions([createLine(1, 15000, 1, 'tops')], { now, promotions: [tiered] });
+      const top = evaluatePromotions([createLine(1, 25000, 1, 'tops')], { now, promotions: [tiered] });
+
+      expect(below.discount).toBe(0);
+      expect(first.discount).toBe(1000);
+      expect(first.applied[0].explanation).toBe('Spent over $100.00: $10.00 off (spend $200.00 for $25.00 off)');
+      expect(top.discount).toBe(2500);
+      expect(top.applied[0].explanation).toBe('Spent over $200.00: $25.00 off');
+    });
+  });
+
+  describe('eligibility', () => {
+    const items = [createLine(1, 5000, 1, 'tops')];
+
+    it('should only apply coded promotions when their code is entered', () => {
+      expect(evaluatePromotions(items, { now, promotions: [percentageCode] }).discount).toBe(0);
+    });
+
+    it('should apply automatic promotions without a code', () => {
+      const automatic: Promotion = { ...percentageCode, code: undefined };
+
+      expect(evaluatePromotions(items, { now, promotions: [automatic] }).discount).toBe(1000);
+    });
+
+    it('should ignore disabled, expired, not-yet-started and below-minimum promotions', () => {
+      const promotions: Promotion[] = [
+        { ...percentageCode, id: 'disabled', enabled: false },
+        { ...percentageCode, id: 'expired', expiresAt: new Date('2025-05-01T00:00:00Z') },
+        { ...percentageCode, id: 'future', startsAt: new Date('2025-07-01T00:00:00Z') },
+        { ...percentageCode, id: 'minimum', minimumOrder: 10000 },
+      ];
+
+      expect(evaluatePromotions(items, { code: 'SAVE20', now, promotions })).toEqual({ discount: 0, applied: [] });
+    });
+  });
+
+  describe('stacking', () => {
+    const items = [createLine(1, 10000, 1, 'beauty')];
+
+    const automaticFixed: Promotion = {
+      id: 'auto-fixed',
+      type: 'fixed-amount',
+      label: '$5 off',
+      amount: 500,
+      stacking: 'stackable',
+    };
+    const automaticCategory: Promotion = {
+      id: 'auto-category',
+      type: 'category',
+      label: 'Beauty sale',
+      categories: ['beauty'],
+      percentage: 10,
+      stacking: 'stackable',
+    };
+
+    it('should combine stackable promotions', () => {
+      const result = evaluatePromotions(items, { now, promotions: [automaticFixed, automaticCategory] });
+
+      expect(result.discount).toBe(1500);
+      expect(result.applied.map((promotion) => promotion.id)).toEqual(['auto-fixed', 'auto-category']);
+    });
+
+    it('should not combine an exclusive promotion with others', () => {
+      const result = evaluatePromotions(items, {
+        code: 'SAVE20',
+        now,
+        promotions: [automaticFixed, automaticCategory, percentageCode],
+      });
+
+      expect(result.discount).toBe(2000);
+      expect(result.applied.map((promotion) => promotion.id)).toEqual(['pct']);
+    });
+
+    it('should keep the stackable set when it beats the exclusive promotion', () => {
+      const smallExclusive: Promotion = { ...percentageCode, percentage: 5 };
+
+      const result = evaluatePromotions(items, {
+        code: 'SAVE20',
+        now,
+        promotions: [automaticFixed, automaticCategory, smallExclusive],
+      });
+
+      expect(result.discount).toBe(1500);
+    });
+
+    it('should never discount more than the subtotal', () => {
+      const result = evaluatePromotions([createLine(1, 800, 1, 'beauty')], {
+        now,
+        promotions: [automaticFixed, { ...automaticFixed, id: 'auto-fixed-2' }],
+      });
+
+      expect(result.discount).toBe(800);
+      expect(result.applied.map((promotion) => promotion.amount)).toEqual([500, 300]);
+    });
+  });
+
+  describe('validatePromoCode', () => {
+    const items = [createLine(1, 5000, 1, 'tops')];
+
+    it('should accept a known code regardless of case and whitespace', () => {
+      expect(validatePromoCode('  save20 ', items, { now, promotions: [percentageCode] })).toEqual({
+        valid: true,
+        code: 'SAVE20',
+      });
+    });
+
+    it('should reject unknown codes', () => {
+      expect(validatePromoCode('ALOHOMORA', items, { now, promotions: [percentageCode] })).toEqual({
+        valid: false,
+        message: 'This promo code is not valid',
+      });
+    });
+
+    it('should explain expired codes and unmet minimums', () => {
+      expect(
+        validatePromoCode('SAVE20', items, {
+          now,
+          promotions: [{ ...percentageCode, expiresAt: new Date('2025-01-01T00:00:00Z') }],
+        })
+      ).toEqual({ valid: false, message: 'This promo code has expired' });
+
+      expect(
+        validatePromoCode('SAVE20', items, { now, promotions: [{ ...percentageCode, minimumOrder: 7500 }] })
+      ).toEqual({ valid: false, message: 'Spend $75.00 or more to use this code' });
+    });
+
+    it('should reject codes that earn nothing for this cart', () => {
+      const category: Promotion = {
+        id: 'cat',
+        type: 'category',
+        code: 'POTIONS',
+        label: 'Potions sale',
+        categories: ['beauty'],
+        percentage: 15,
+        stacking: 'stackable',
+      };
+
+      expect(validatePromoCode('POTIONS', items, { now, promotions: [category] }).valid).toBe(false);
+    });
+  });
+
+  describe('configured promotions', () => {
+    it('should include the code revealed by the Revelio modal', () => {
+      expect(configuredPromotions.some((promotion) => promotion.code === discountCode.code)).toBe(true);
+    });
+
+    it('should give every promotion a unique id', () => {
+      const ids = configuredPromotions.map((promotion) => promotion.id);
+      expect(new Set(ids).size).toBe(ids.length);
+    });
+
+    it('should stack an entered code with the automatic spend tiers', () => {
+      // $120 cart: $10 tier reached, plus LUMOS-10
+      const items = [createLine(1, 6000, 2, 'tops')];
+      const result = evaluatePromotions(items, { code: 'LUMOS-10', now });
+
+      expect(result.applied.map((promotion) => promotion.id)).toEqual(['lumos-10', 'mischief-managed']);
+      expect(result.discount).toBe(2000);
+    });
+
+    it('should apply the spend tiers without a code', () => {
+      const items = [createLine(1, 6000, 2, 'tops')];
+
+      expect(evaluatePromotions(items, { now }).applied.map((promotion) => promotion.id)).toEqual(['mischief-managed']);
+      expect(evaluatePromotions([createLine(1, 5000, 1, 'tops')], { now }).applied).toEqual([]);
+    });
+
+    it('should not stack the exclusive 20% code with the spend tiers', () => {
+      const items = [createLine(1, 6000, 2, 'tops')];
+      const result = evaluatePromotions(items, { code: 'EXPECTO-20', now });
+
+      expect(result.applied.map((promotion) => promotion.id)).toEqual(['expecto-20']);
+      expect(result.discount).toBe(2400);
+    });
+  });
+
+  describe('applyPromotion', () => {
+    const cart: Cart = { items: [createLine(1, 5000, 1, 'tops')], subtotal: 5000, currency: 'USD' };
+
+    it('should attach the normalized code, discount and applied promotions', () => {
+      const result = applyPromotion(cart, 'expecto-20');
+
+      expect(result.discount).toBe(1000);
+      expect(result.promo_code).toBe('EXPECTO-20');
+      expect(result.promotions).toHaveLength(1);
+    });
+
+    it('should clear the discount when no code is applied', () => {
+      expect(applyPromotion(cart, null)).toEqual({ ...cart, discount: 0, promo_code: null, promotions: [] });
+    });
+  });
+
+  describe('readPromoCode', () => {
+    it('should read the promo cookie from a Cookie header', () => {
+      expect(readPromoCode('ci_session=abc; luna_promo=EXPECTO-20; other=1')).toBe('EXPECTO-20');
+    });
+
+    it('should return null when the cookie is missing', () => {
+      expect(readPromoCode('ci_session=abc')).toBeNull();
+      expect(readPromoCode(undefined)).toBeNull();
+    });
+  });
+
+  describe('tax after discount', () => {
+    it('should tax the discounted subtotal plus shipping', () => {
+      // $50 subtotal, $10 discount, $10 shipping -> 13% Ontario HST on $50
+      const items = [createLine(1, 5000, 1, 'beauty')];
+      const tax = calculateTax(items, { address: { country: 'CA', region: 'ON' }, shipping: 1000, discount: 1000 });
+
+      expect(tax.total).toBe(650);
+    });
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * Unit tests for Recommendation Service
+ * Tests similarity scoring, deterministic ranking, bought-together and cart suggestions
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  scoreSimilarity,
+  rankSimilarProducts,
+  rankBoughtTogether,
+  rankCartSuggestions,
+  fetchRecommendations,
+  fetchCartSuggestions,
+  recommendationWeights as w,
+} from '../recommendations';
+import { getAllConfiguredCategoryProducts, getProduct } from '../../clients/dummyjson';
+import { getOrderedProductIds } from '../orders';
+import type { DummyProduct } from '../../types/products';
+
+// Mock the DummyJSON client and order storage so no network or disk is touched
+vi.mock('../../clients/dummyjson', () => ({
+  getAllConfiguredCategoryProducts: vi.fn(),
+  getProduct: vi.fn(),
+}));
+
+vi.mock('../orders', () => ({
+  getOrderedProductIds: vi.fn(),
+}));
+
+const mockGetCatalog = vi.mocked(getAllConfiguredCategoryProducts);
+const mockGetProduct = vi.mocked(getProduct);
+const mockGetOrders = vi.mocked(getOrderedProductIds);
+
+interface ProductFields {
+  tags?: string[];
+  brand?: string;
+  price?: number;
+  rating?: number;
+  category?: string;
+  stock?: number;
+}
+
+const createProduct = (id: number, fields: ProductFields = {}) =>
+  ({
+    id,
+    title: `Product ${id}`,
+    tags: [],
+    price: 10,
+    rating: 0,
+    category: 'beauty',
+    ...fields,
+  }) as unknown as DummyProduct;
+
+const ids = (products: DummyProduct[]) => products.map((product) => product.id);
+
+describe('Recommendation Service', () => {
+  describe('scoreSimilarity', () => {
+    it('should score each signal by its weight', () => {
+      const seed = createProduct(1, { tags: ['a', 'b'], brand: 'Essence', price: 10, category: 'beauty' });
+
+      // Half the tags shared (1 of 2 distinct): Jaccard 1/3
+      const tagged = createProduct(2, { tags: ['a', 'c'], price: 20, category: 'tops' });
+      expect(scoreSimilarity(seed, tagged)).toBeCloseTo(w.tags / 3 + w.price * 0.5);
+
+      const sameBrand = createProduct(3, { brand: 'Essence', price: 40, category: 'tops' });
+      expect(scoreSimilarity(seed, sameBrand)).toBeCloseTo(w.brand + w.price * 0.25);
+
+      const rated = createProduct(4, { rating: 4, price: 10, category: 'beauty' });
+      expect(scoreSimilarity(seed, rated)).toBeCloseTo(w.price + w.rating * 0.8 + w.category);
+    });
+
+    it('should give no price or brand credit when unknown', () => {
+      const seed = createProduct(1, { price: 0, category: 'beauty' });
+      const candidate = createProduct(2, { price: 0, category: 'tops' });
+
+      expect(scoreSimilarity(seed, candidate)).toBe(0);
+    });
+  });
+
+  describe('rankSimilarProducts', () => {
+    it('should rank by score and exclude the seed', () => {
+      const seed = createProduct(1, { tags: ['mascara'], brand: 'Essence', price: 10 });
+      const candidates = [
+        seed,
+        createProduct(2, { price: 100, category: 'tops' }),
+        createProduct(3, { tags: ['mascara'], brand: 'Essence', price: 10 }),
+        createProduct(4, { tags: ['mascara'], price: 12 }),
+      ];
+
+      expect(ids(rankSimilarProducts(seed, candidates, { limit: 3 }))).toEqual([3, 4, 2]);
+    });
+
+    it('should break ties by product ID regardless of input order', () => {
+      const seed = createProduct(1);
+      const candidates = [createProduct(9), createProduct(5), createProduct(7)];
+
+      expect(ids(rankSimilarProducts(seed, candidates, { limit: 3 }))).toEqual([5, 7, 9]);
+      expect(ids(rankSimilarProducts(seed, [...candidates].reverse(), { limit: 3 }))).toEqual([5, 7, 9]);
+    });
+
+    it('should respect limit and excluded IDs', () => {
+      const seed = createProduct(1);
+      const candidates = [createProduct(2), createProduct(3), createProduct(4)];
+
+      expect(ids(rankSimilarProducts(seed, candidates, { limit: 1, excludeIds: [2] }))).toEqual([3]);
+    });
+  });
+
+  describe('rankBoughtTogether', () => {
+    const seed = createProduct(1, { category: 'tops' });
+    const candidates = [
+      seed,
+      createProduct(2, { category: 'tops' }),
+      createProduct(3, { category: 'tops' }),
+      createProduct(4, { category: 'womens-bags' }),
+    ];
+
+    it('should favour products ordered alongside the seeds', () => {
+      const orders = [
+        [1, 3],
+        [1, 3, 2],
+        [2, 4], // no seed, ignored
+      ];
+
+      expect(ids(rankBoughtTogether([seed], candidates, orders, { limit: 3 }))).toEqual([3, 2, 4]);
+    });
+
+    it('should fall back to complementary similar products without orders', () => {
+      // Bags complete a look of tops, so they outrank more tops
+      expect(ids(rankBoughtTogether([seed], candidates, [], { limit: 3 }))).toEqual([4, 2, 3]);
+    });
+
+    it('should never recommend the seeds or excluded products', () => {
+      const cartItem = candidates[1];
+
+      expect(ids(rankBoughtTogether([seed, cartItem], candidates, [], { limit: 4, excludeIds: [4] }))).toEqual([3]);
+    });
+  });
+
+  describe('rankCartSuggestions', () => {
+    const cart = [createProduct(1, { tags: ['mascara'], category: 'beauty', price: 40 })];
+
+    it('should favour the cart categories and tags and skip cart items', () => {
+      const candidates = [
+        ...cart,
+        createProduct(2, { category: 'tops' }),
+        createProduct(3, { tags: ['mascara'], category: 'beauty' }),
+        createProduct(4, { category: 'beauty' }),
+      ];
+
+      expect(ids(rankCartSuggestions(cart, candidates, { gap: 0, limit: 4 }))).toEqual([3, 4, 2]);
+    });
+
+    it('should lean toward products that close the free shipping gap', () => {
+      const candidates = [
+        createProduct(2, { category: 'beauty', price: 10 }), // only narrows the gap
+        createProduct(3, { category: 'beauty', price: 200 }), // far overshoots
+        createProduct(4, { category: 'beauty', price: 65 }), // just closes $60
+      ];
+
+      expect(ids(rankCartSuggestions(cart, candidates, { gap: 60, limit: 3 }))).toEqual([4, 3, 2]);
+    });
+
+    it('should skip out of stock and excluded products', () => {
+      const candidates = [
+        createProduct(2, { stock: 0 }),
+        createProduct(3),
+        createProduct(4),
+      ];
+
+      expect(ids(rankCartSuggestions(cart, candidates, { gap: 0, limit: 3, excludeIds: [4] }))).toEqual([3]);
+    });
+
+    it('should suggest well rated gap closers for an empty cart', () => {
+      const candidates = [
+        createProduct(2, { rating: 5, price: 5 }),
+        createProduct(3, { rating: 3, price: 100 }),
+      ];
+
+      expect(ids(rankCartSuggestions([], candidates, { gap: 100, limit: 2 }))).toEqual([3, 2]);
+    });
+  });
+
+  describe('fetchRecommendations', () => {
+    const catalog = [
+      createProduct(1, { tags: ['mascara'], category: 'beauty' }),
+      createProduct(2, { category: 'tops' }),
+      createProduct(3, { tags: ['mascara'], category: 'beauty' }),
+      createProduct(4, { category: 'womens-bags' }),
+    ];
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      mockGetCatalog.mockResolvedValue({ products: catalog, total: catalog.length, skip: 0, limit: catalog.length });
+      mockGetOrders.mockResolvedValue([]);
+    });
+
+    it('should rank similar products from the catalog', async () => {
+      const products = await fetchRecommendations(1, { limit: 2 });
+
+      expect(ids(products)).toEqual([3, 2]);
+      expect(mockGetOrders).not.toHaveBeenCalled();
+    });
+
+    it('should use the cart as extra seeds in bought-together mode', async () => {
+      mockGetOrders.mockResolvedValue([[1, 2, 4]]);
+
+      const products = await fetchRecommendations(1, { mode: 'bought-together', cartProductIds: [2], limit: 4 });
+
+      expect(ids(products)).toEqual([4, 3]);
+    });
+
+    it('should look up seeds outside the configured catalog', async () => {
+      mockGetProduct.mockResolvedValue(createProduct(99, { tags: ['mascara'], category: 'groceries' }));
+
+      const products = await fetchRecommendations(99, { limit: 2 });
+
+      expect(mockGetProduct).toHaveBeenCalledWith(99);
+      expect(ids(products)).toEqual([1, 3]);
+    });
+  });
+
+  describe('fetchCartSuggestions', () => {
+    const catalog = [
+      createProduct(1, { tags: ['mascara'], category: 'beauty', price: 40 }),
+      createProduct(2, { category: 'tops', price: 70 }),
+      createProduct(3, { category: 'beauty', price: 5 }),
+    ];
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      mockGetCatalog.mockResolvedValue({ products: catalog, total: catalog.length, skip: 0, limit: catalog.length });
+    });
+
+    it('should turn the subtotal in cents into the free shipping gap', async () => {
+      // $40 of $100: product 2 closes the $60 gap and outranks the same-category match
+      const products = await fetchCartSuggestions({ cartProductIds: [1], subtotal: 4000, limit: 2 });
+
+      expect(ids(products)).toEqual([2, 3]);
+    });
+
+    it('should rank by the cart alone once shipping is free', async () => {
+      const products = await fetchCartSuggestions({ cartProductIds: [1], subtotal: 10000, limit: 2 });
+
+      expect(ids(products)).toEqual([3, 2]);
+    });
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Unit tests for Product Search Index
+ * Tokenizing, typo tolerance, prefix matching and field-weighted ranking
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createSearchIndex, editDistance, tokenize } from '../search-index';
+import type { SearchableProduct } from '../search-index';
+
+const createProduct = (
+  id: number,
+  title: string,
+  overrides: Partial<SearchableProduct> = {}
+): SearchableProduct => ({
+  id,
+  title,
+  description: '',
+  category: 'tops',
+  tags: [],
+  ...overrides,
+});
+
+const catalog = [
+  createProduct(1, 'Chanel Coco Noir Eau De', {
+    brand: 'Chanel',
+    category: 'fragrances',
+    tags: ['fragrances', 'perfumes'],
+    description: 'Coco Noir by Chanel is an elegant and mysterious fragrance.',
+  }),
+  createProduct(2, 'Black Women\'s Gown', {
+    category: 'womens-dresses',
+    tags: ['clothing', 'dresses'],
+    description: 'A timeless black gown for formal evenings.',
+  }),
+  createProduct(3, 'Red Lipstick', {
+    brand: 'Chic Cosmetics',
+    category: 'beauty',
+    tags: ['beauty', 'lipstick'],
+    description: 'A bold red lipstick that pairs with any black dress.',
+  }),
+  createProduct(4, 'Green Crystal Earring', {
+    category: 'womens-jewellery',
+    tags: ['fashion accessories', 'earrings'],
+    description: 'Sparkling green crystal earrings.',
+  }),
+];
+
+const search = (query: string) => createSearchIndex(catalog).search(query).map((product) => product.id);
+
+describe('Search Index', () => {
+  describe('tokenize', () => {
+    it('should lowercase, strip accents and split on punctuation', () => {
+      expect(tokenize("Women's Crème-Brûlée Tee")).toEqual(['women', 's', 'creme', 'brulee', 'tee']);
+    });
+
+    it('should return no tokens for empty input', () => {
+      expect(tokenize('')).toEqual([]);
+      expect(tokenize(undefined)).toEqual([]);
+    });
+  });
+
+  describe('editDistance', () => {
+    it('should count insertions, deletions and substitutions', () => {
+      expect(editDistance('gown', 'gowns', 2)).toBe(1);
+      expect(editDistance('lipstick', 'lipstik', 2)).toBe(1);
+      expect(editDistance('earring', 'earrong', 2)).toBe(1);
+    });
+
+    it('should count an adjacent transposition as one edit', () => {
+      expect(editDistance('chanel', 'chaenl', 2)).toBe(1);
+    });
+
+    it('should stop early once the distance exceeds the maximum', () => {
+      expect(editDistance('perfume', 'lipstick', 1)).toBe(2);
+    });
+  });
+
+  describe('matching', () => {
+    it('should find exact words in any indexed field', () => {
+      expect(search('gown')).toEqual([2]);
+      expect(search('chanel')).toEqual([1]); // title, brand and description
+      expect(search('perfumes')).toEqual([1]); // tag only
+      expect(search('jewellery')).toEqual([4]); // category slug only
+    });
+
+    it('should match category display names', () => {
+      expect(search('dresses')).toContain(2);
+    });
+
+    it('should match word prefixes as the user types', () => {
+      expect(search('lips')).toEqual([3]);
+      expect(search('earr')).toEqual([4]);
+    });
+
+    it('should tolerate typos in longer words', () => {
+      expect(search('lipstik')).toEqual([3]);
+      expect(search('chaenl')).toEqual([1]);
+      expect(search('earings')).toEqual([4]);
+    });
+
+    it('should tolerate a typo in a partially typed word', () => {
+      expect(search('perfu')).toEqual([1]);
+      expect(search('prefu')).toEqual([1]);
+    });
+
+    it('should require short words to match exactly', () => {
+      // "rex" is one edit from "red" but too short for typo tolerance
+      expect(search('rex')).toEqual([]);
+    });
+
+    it('should require every query word to match', () => {
+      expect(search('red lipstick')).toEqual([3]);
+      expect(search('red gown')).toEqual([]);
+    });
+
+    it('should return nothing for an empty query', () => {
+      expect(search('   ')).toEqual([]);
+    });
+  });
+
+  describe('ranking', () => {
+    it('should rank title matches above description matches', () => {
+      // "black" is in the gown title but only the lipstick description
+      expect(search('black')).toEqual([2, 3]);
+    });
+
+    it('should rank exact matches above prefix matches', () => {
+      const index = createSearchIndex([
+        createProduct(1, 'Silk Scarf'),
+        createProduct(2, 'Silky Scarf'),
+      ]);
+
+      expect(index.search('silk').map((product) => product.id)).toEqual([1, 2]);
+    });
+
+    it('should respect the result limit', () => {
+      expect(createSearchIndex(catalog).search('black', { limit: 1 }).map((product) => product.id)).toEqual([2]);
+    });
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Unit tests for Shipping Service
+ * Zone lookup, weight totals, per-method pricing and free shipping, and
+ * the item cap on the shipping rates route
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { calculateShippingWeight, fetchShippingWeight, findShippingZone, quoteShipping } from '../shipping';
+import { GET as getShippingRates } from '../../../app/api/checkout/shipping-rates/route';
+import { getProduct } from '../../clients/dummyjson';
+import type { DummyProduct } from '../../types/products';
+
+// Mock the DummyJSON client so no network is touched
+vi.mock('../../clients/dummyjson', () => ({
+  getProduct: vi.fn(),
+}));
+
+const mockGetProduct = vi.mocked(getProduct);
+
+const ontario = { country: 'CA', region: 'ON' };
+
+describe('Shipping Service', () => {
+  describe('findShippingZone', () => {
+    it('should prefer a regional zone over the rest of the country', () => {
+      expect(findShippingZone(ontario)?.id).toBe('ca-central');
+      expect(findShippingZone({ country: 'ca', region: 'quebec' })?.id).toBe('ca-central');
+      expect(findShippingZone({ country: 'CA', region: 'BC' })?.id).toBe('ca');
+    });
+
+    it('should return null for countries we do not ship to', () => {
+      expect(findShippingZone({ country: 'FR', region: 'IDF' })).toBeNull();
+    });
+  });
+
+  describe('calculateShippingWeight', () => {
+    it('should multiply weights by quantity and default unknown products', () => {
+      const weights = new Map([[1, 0.1], [2, 1.2]]);
+      const items = [
+        { productId: 1, quantity: 3 },
+        { productId: 2, quantity: 1 },
+        { productId: 3, quantity: 2 }, // no weight, 0.5 kg each
+      ];
+
+      expect(calculateShippingWeight(items, weights)).toBe(2.5);
+    });
+  });
+
+  describe('quoteShipping', () => {
+    it('should price every method offered in the zone', () => {
+      const quote = quoteShipping({ destination: ontario, weight: 0.8, subtotal: 4000 });
+
+      expect(quote?.zone).toBe('ca-central');
+      expect(quote?.rates.map(({ id, amount }) => [id, amount])).toEqual([
+        ['standard', 1000],
+        ['express', 1800],
+        ['overnight', 3500],
+      ]);
+    });
+
+    it('should add the per-kg rate for each started kilogram over the first', () => {
+      const quote = quoteShipping({ destination: ontario, weight: 2.1, subtotal: 4000 });
+
+      // 1.1 kg over the included kilogram -> 2 extra kilograms
+      expect(quote?.rates[0].amount).toBe(1000 + 2 * 100);
+    });
+
+    it('should not offer methods without a rate for the zone', () => {
+      const quote = quoteShipping({ destination: { country: 'US', region: 'NY' }, weight: 1, subtotal: 4000 });
+
+      expect(quote?.rates.map((rate) => rate.id)).toEqual(['standard', 'express']);
+    });
+
+    it('should waive only the free shipping methods above the threshold', () => {
+      const quote = quoteShipping({ destination: ontario, weight: 5, subtotal: 10000 });
+
+      expect(quote?.rates[0]).toMatchObject({ id: 'standard', amount: 0, free: true });
+      expect(quote?.rates[1]).toMatchObject({ id: 'express', amount: 1800 + 4 * 200, free: false });
+    });
+
+    it('should return null for destinations we do not ship to', () => {
+      expect(quoteShipping({ destination: { country: 'FR', region: '' }, weight: 1, subtotal: 0 })).toBeNull();
+    });
+  });
+
+  describe('fetchShippingWeight', () => {
+    beforeEach(() => {
+      mockGetProduct.mockReset();
+    });
+
+    it('should look up each product once and total the cart', async () => {
+      mockGetProduct.mockImplementation(async (id: number) => ({ id, weight: id * 0.5 }) as DummyProduct);
+
+      const weight = await fetchShippingWeight([
+        { productId: 1, quantity: 2 },
+        { productId: 2, quantity: 1 },
+        { productId: 1, quantity: 1 },
+      ]);
+
+      expect(weight).toBe(2.5);
+      expect(mockGetProduct).toHaveBeenCalledTimes(2);
+    });
+
+    it('should use the default weight when a product cannot be found', async () => {
+      mockGetProduct.mockRejectedValue(new Error('Network error'));
+
+      expect(await fetchShippingWeight([{ productId: 1, quantity: 2 }])).toBe(1);
+    });
+  });
+
+  describe('GET /api/checkout/shipping-rates', () => {
+    beforeEach(() => {
+      mockGetProduct.mockReset();
+    });
+
+    it('should reject more items than a cart can hold without looking any up', async () => {
+      const items = Array.from({ length: 51 }, (_, index) => `${index + 1}:1`).join(',');
+      const request = new NextRequest(`http://localhost/api/checkout/shipping-rates?items=${items}&subtotal=0&country=CA&region=ON`);
+
+      const response = await getShippingRates(request);
+
+      expect(response.status).toBe(400);
+      expect(mockGetProduct).not.toHaveBeenCalled();
+    });
+  });
+});
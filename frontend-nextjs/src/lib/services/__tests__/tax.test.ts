@@ -0,0 +1,132 @@
+/**
+ * Unit tests for Tax Service
+ * Jurisdiction lookup, shipping taxability, exempt categories and breakdowns
+ */
+
+import { describe, it, expect } from 'vitest';
+import { calculateTax, findJurisdiction } from '../tax';
+import type { CartLineItem } from '../../types/cart';
+
+// Helper to create a cart line (price in cents)
+const createLine = (id: number, price: number, quantity: number, category: string): CartLineItem => ({
+  line_id: `line_${id}`,
+  product_id: id,
+  title: `Product ${id}`,
+  price,
+  quantity,
+  stock: 10,
+  category,
+  line_total: price * quantity,
+});
+
+describe('Tax Service', () => {
+  describe('findJurisdiction', () => {
+    it('should match a province by code or name', () => {
+      expect(findJurisdiction({ country: 'CA', region: 'ON' })?.region).toBe('ON');
+      expect(findJurisdiction({ country: 'ca', region: ' quebec ' })?.region).toBe('QC');
+    });
+
+    it('should fall back to the country for regions without their own rates', () => {
+      const jurisdiction = findJurisdiction({ country: 'CA', region: 'AB' });
+
+      expect(jurisdiction?.region).toBeUndefined();
+      expect(jurisdiction?.components.map((component) => component.id)).toEqual(['gst']);
+    });
+
+    it('should return null for countries without tax configuration', () => {
+      expect(findJurisdiction({ country: 'FR', region: 'IDF' })).toBeNull();
+    });
+  });
+
+  describe('calculateTax', () => {
+    const items = [createLine(1, 4000, 1, 'beauty'), createLine(2, 1000, 1, 'groceries')];
+
+    it('should tax goods and shipping at the provincial rate', () => {
+      const tax = calculateTax([createLine(1, 5000, 1, 'beauty')], {
+        address: { country: 'CA', region: 'ON' },
+        shipping: 1000,
+      });
+
+      expect(tax).toEqual({
+        jurisdiction: 'CA-ON',
+        lines: [{ id: 'hst', label: 'HST', rate: 0.13, taxableAmount: 6000, amount: 780 }],
+        exemptAmount: 0,
+        shippingTaxable: true,
+        total: 780,
+      });
+    });
+
+    it('should itemise each tax in the jurisdiction', () => {
+      const tax = calculateTax([createLine(1, 10000, 1, 'beauty')], {
+        address: { country: 'CA', region: 'QC' },
+        shipping: 0,
+      });
+
+      expect(tax.lines.map(({ label, amount }) => [label, amount])).toEqual([
+        ['GST', 500],
+        ['QST', 998], // 9.975% rounded to the cent
+      ]);
+      expect(tax.total).toBe(1498);
+    });
+
+    it('should leave shipping untaxed where the region does not tax it', () => {
+      const tax = calculateTax([createLine(1, 5000, 1, 'beauty')], {
+        address: { country: 'US', region: 'CA' },
+        shipping: 1000,
+      });
+
+      expect(tax.shippingTaxable).toBe(false);
+      expect(tax.lines[0].taxableAmount).toBe(5000);
+      expect(tax.total).toBe(363); // 7.25% of $50
+    });
+
+    it('should not tax exempt categories', () => {
+      const tax = calculateTax(items, { address: { country: 'CA', region: 'ON' }, shipping: 0 });
+
+      expect(tax.exemptAmount).toBe(1000);
+      expect(tax.lines[0].taxableAmount).toBe(4000);
+      expect(tax.total).toBe(520);
+    });
+
+    it('should spread the discount over taxable and exempt goods', () => {
+      // $10 off a $50 cart: $8 comes off the $40 taxable goods, $2 off the groceries
+      const tax = calculateTax(items, { address: { country: 'CA', region: 'ON' }, shipping: 0, discount: 1000 });
+
+      expect(tax.exemptAmount).toBe(800);
+      expect(tax.lines[0].taxableAmount).toBe(3200);
+      expect(tax.total).toBe(416);
+    });
+
+    it('should exempt clothing where the state does', () => {
+      const cart = [createLine(1, 4000, 1, 'beauty'), createLine(2, 6000, 1, 'womens-dresses')];
+
+      const newJersey = calculateTax(cart, { address: { country: 'US', region: 'NJ' }, shipping: 0 });
+      const texas = calculateTax(cart, { address: { country: 'US', region: 'TX' }, shipping: 0 });
+
+      expect(newJersey.exemptAmount).toBe(6000);
+      expect(newJersey.lines[0].taxableAmount).toBe(4000);
+      expect(newJersey.total).toBe(265); // 6.625% of $40
+      expect(texas.exemptAmount).toBe(0);
+    });
+
+    it('should apply local taxes only inside their postal codes', () => {
+      const cart = [createLine(1, 10000, 1, 'beauty')];
+
+      const city = calculateTax(cart, { address: { country: 'US', region: 'NY', postalCode: '10001' }, shipping: 0 });
+      const upstate = calculateTax(cart, { address: { country: 'US', region: 'NY', postalCode: '14201' }, shipping: 0 });
+
+      expect(city.lines.map((line) => line.id)).toEqual(['state', 'nyc']);
+      expect(city.total).toBe(400 + 488);
+      expect(upstate.lines.map((line) => line.id)).toEqual(['state']);
+      expect(upstate.total).toBe(400);
+    });
+
+    it('should return no tax for states without sales tax', () => {
+      const tax = calculateTax(items, { address: { country: 'US', region: 'OR' }, shipping: 1000 });
+
+      expect(tax.jurisdiction).toBe('US');
+      expect(tax.lines).toEqual([]);
+      expect(tax.total).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,470 @@
+/**
+ * Account Service Layer
+ * Accounts, email + password and magic-link sign-in, and sign-in sessions
+ *
+ * Passwords are hashed with scrypt. Magic-link and session tokens are random
+ * and only their SHA-256 hashes are stored, so a copied data file can't be
+ * used to sign in.
+ */
+
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { createStore } from '../storage';
+import { authConfig } from '../config/auth';
+import { EMAIL_PATTERN, readAddress } from './checkout-schema';
+import { sendMail } from './mail';
+import { resolveDefaultAddresses } from '../../utils/addresses';
+import type { Account, AccountFieldErrors, AddressKind, SavedAddress } from '../types/account';
+
+interface StoredAccount extends Account {
+  passwordHash: string | null; // null for accounts created by magic link
+}
+
+interface StoredMagicLink {
+  email: string;
+  expiresAt: string; // ISO timestamp
+}
+
+interface StoredSession {
+  accountId: string;
+  expiresAt: string; // ISO timestamp
+}
+
+const accounts = createStore<StoredAccount>('accounts');
+const accountIdsByEmail = createStore<string>('account-emails');
+const magicLinks = createStore<StoredMagicLink>('magic-links');
+const sessions = createStore<StoredSession>('auth-sessions');
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+
+const ADDRESS_KINDS: AddressKind[] = ['shipping', 'billing'];
+
+/**
+ * Account error with HTTP status and optional field-level errors
+ */
+export class AccountError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public fields?: AccountFieldErrors
+  ) {
+    super(message);
+    this.name = 'AccountError';
+  }
+}
+
+function readInput(body: unknown): Record<string, unknown> {
+  return (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+}
+
+function readString(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+function normalizeEmail(value: unknown): string {
+  return readString(value).toLowerCase();
+}
+
+function validateEmail(email: string, errors: AccountFieldErrors): void {
+  if (!email) {
+    errors.email = 'Email address is required';
+  } else if (!EMAIL_PATTERN.test(email)) {
+    errors.email = 'Enter a valid email address';
+  }
+}
+
+function throwIfInvalid(errors: AccountFieldErrors): void {
+  if (Object.keys(errors).length > 0) {
+    throw new AccountError(400, 'Please correct the highlighted fields', errors);
+  }
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function generateToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+function isExpired(expiresAt: string): boolean {
+  return new Date(expiresAt).getTime() <= Date.now();
+}
+
+function expiresIn(seconds: number): string {
+  return new Date(Date.now() + seconds * 1000).toISOString();
+}
+
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split('$');
+
+  if (scheme !== 'scrypt' || !salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'hex'), expected.length);
+
+  return timingSafeEqual(actual, expected);
+}
+
+/**
+ * Strip credentials before returning an account
+ */
+function toAccount(stored: StoredAccount): Account {
+  const account: Account & { passwordHash?: string | null } = { ...stored };
+  delete account.passwordHash;
+  return account;
+}
+
+async function findByEmail(email: string): Promise<StoredAccount | null> {
+  const accountId = await accountIdsByEmail.get(email);
+  return accountId ? accounts.get(accountId) : null;
+}
+
+async function createAccount(email: string, name: string, passwordHash: string | null): Promise<StoredAccount> {
+  const account: StoredAccount = {
+    id: `acct_${randomBytes(12).toString('hex')}`,
+    email,
+    name,
+    createdAt: new Date().toISOString(),
+    addresses: [],
+    passwordHash,
+  };
+
+  await accounts.set(account.id, account);
+  await accountIdsByEmail.set(email, account.id);
+
+  return account;
+}
+
+async function getStoredAccount(accountId: string): Promise<StoredAccount> {
+  const account = await accounts.get(accountId);
+
+  if (!account) {
+    throw new AccountError(404, 'Account not found');
+  }
+
+  return account;
+}
+
+/**
+ * Create an account with email and password
+ *
+ * @param body - Untrusted request body ({ email, password, name })
+ * @returns Created account
+ * @throws AccountError (400) with field errors, (409) if the email is taken
+ */
+export async function registerAccount(body: unknown): Promise<Account> {
+  const input = readInput(body);
+  const errors: AccountFieldErrors = {};
+
+  const email = normalizeEmail(input.email);
+  validateEmail(email, errors);
+
+  const name = readString(input.name);
+  if (!name) errors.name = 'Name is required';
+
+  const password = typeof input.password === 'string' ? input.password : '';
+  if (password.length < authConfig.passwordMinLength) {
+    errors.password = `Use at least ${authConfig.passwordMinLength} characters`;
+  }
+
+  throwIfInvalid(errors);
+
+  // Includes accounts created by magic link: setting their password here
+  // would let anyone who knows the email take the account over
+  if (await findByEmail(email)) {
+    throw new AccountError(409, 'An account already exists for this email', {
+      email: 'Sign in instead, or use another email address',
+    });
+  }
+
+  return toAccount(await createAccount(email, name, await hashPassword(password)));
+}
+
+/**
+ * Check an email and password
+ *
+ * @param body - Untrusted request body ({ email, password })
+ * @returns Signed-in account
+ * @throws AccountError (400) if fields are missing, (401) if they don't match an account
+ */
+export async function signInWithPassword(body: unknown): Promise<Account> {
+  const input = readInput(body);
+  const errors: AccountFieldErrors = {};
+
+  const email = normalizeEmail(input.email);
+  validateEmail(email, errors);
+
+  const password = typeof input.password === 'string' ? input.password : '';
+  if (!password) errors.password = 'Password is required';
+
+  throwIfInvalid(errors);
+
+  const account = await findByEmail(email);
+
+  if (!account?.passwordHash || !(await verifyPassword(password, account.passwordHash))) {
+    throw new AccountError(401, 'Incorrect email or password');
+  }
+
+  return toAccount(account);
+}
+
+/**
+ * Email a single-use sign-in link
+ * Sent whether or not an account exists (one is created when the link is
+ * used), so the response doesn't reveal which emails are registered.
+ *
+ * @param body - Untrusted request body ({ email, next })
+ * @param baseUrl - Site origin the link points to
+ * @throws AccountError (400) if the email is invalid
+ */
+export async function requestMagicLink(body: unknown, baseUrl: string): Promise<void> {
+  const input = readInput(body);
+  const errors: AccountFieldErrors = {};
+
+  const email = normalizeEmail(input.email);
+  validateEmail(email, errors);
+  throwIfInvalid(errors);
+
+  const token = generateToken();
+  await magicLinks.set(hashToken(token), { email, expiresAt: expiresIn(authConfig.magicLinkMaxAge) });
+
+  const url = new URL('/api/auth/magic-link', baseUrl);
+  url.searchParams.set('token', token);
+
+  const next = readString(input.next);
+  if (next) {
+    url.searchParams.set('next', next);
+  }
+
+  await sendMail({
+    to: email,
+    subject: 'Your sign-in link',
+    text: `Sign in by opening this link within ${authConfig.magicLinkMaxAge / 60} minutes:\n\n${url}\n\nIf you didn't ask to sign in, you can ignore this email.`,
+  });
+}
+
+/**
+ * Use a magic link token, creating the account on first sign-in
+ *
+ * @param token - Token from the emailed link
+ * @returns Signed-in account
+ * @throws AccountError (401) if the token is unknown, used or expired
+ */
+export async function redeemMagicLink(token: string): Promise<Account> {
+  const key = hashToken(token);
+  const link = token ? await magicLinks.get(key) : null;
+
+  if (!link) {
+    throw new AccountError(401, 'This sign-in link is invalid or has already been used');
+  }
+
+  // Single use, even if expired
+  await magicLinks.delete(key);
+
+  if (isExpired(link.expiresAt)) {
+    throw new AccountError(401, 'This sign-in link has expired');
+  }
+
+  const account = (await findByEmail(link.email)) ?? (await createAccount(link.email, '', null));
+
+  return toAccount(account);
+}
+
+/**
+ * Start a sign-in session
+ *
+ * @param accountId - Account signing in
+ * @returns Session token for the auth cookie
+ */
+export async function createSession(accountId: string): Promise<string> {
+  const token = generateToken();
+
+  await sessions.set(hashToken(token), { accountId, expiresAt: expiresIn(authConfig.sessionMaxAge) });
+
+  return token;
+}
+
+/**
+ * Look up the account signed in with a session token
+ *
+ * @param token - Session token from the auth cookie
+ * @returns Account, or null if the session is unknown or expired
+ */
+export async function getSessionAccount(token: string | null): Promise<Account | null> {
+  if (!token) {
+    return null;
+  }
+
+  const key = hashToken(token);
+  const session = await sessions.get(key);
+
+  if (!session) {
+    return null;
+  }
+
+  if (isExpired(session.expiresAt)) {
+    await sessions.delete(key);
+    return null;
+  }
+
+  const account = await accounts.get(session.accountId);
+  return account ? toAccount(account) : null;
+}
+
+/**
+ * End a sign-in session
+ *
+ * @param token - Session token from the auth cookie
+ */
+export async function endSession(token: string | null): Promise<void> {
+  if (token) {
+    await sessions.delete(hashToken(token));
+  }
+}
+
+/**
+ * Update profile details
+ *
+ * @param accountId - Account to update
+ * @param body - Untrusted request body ({ name })
+ * @returns Updated account
+ * @throws AccountError (400) with field errors
+ */
+export async function updateProfile(accountId: string, body: unknown): Promise<Account> {
+  const input = readInput(body);
+  const errors: AccountFieldErrors = {};
+
+  const name = readString(input.name);
+  if (!name) errors.name = 'Name is required';
+
+  throwIfInvalid(errors);
+
+  const account = { ...(await getStoredAccount(accountId)), name };
+  await accounts.set(accountId, account);
+
+  return toAccount(account);
+}
+
+/**
+ * Read the address book fields of an address request
+ * Kind defaults to shipping; isDefault only counts when it's exactly true
+ */
+function readAddressEntry(input: Record<string, unknown>, errors: AccountFieldErrors): Omit<SavedAddress, 'id'> {
+  const kind = (input.kind ?? 'shipping') as AddressKind;
+  if (!ADDRESS_KINDS.includes(kind)) errors['address.kind'] = 'Choose shipping or billing';
+
+  return {
+    ...readAddress(input, 'address', errors),
+    kind,
+    isDefault: input.isDefault === true,
+  };
+}
+
+async function saveAddresses(account: StoredAccount, addresses: SavedAddress[], preferredId?: string): Promise<SavedAddress[]> {
+  const resolved = resolveDefaultAddresses(addresses, preferredId);
+  await accounts.set(account.id, { ...account, addresses: resolved });
+  return resolved;
+}
+
+/**
+ * Save an address to an account
+ * The first address of a kind becomes its default
+ *
+ * @param accountId - Account to update
+ * @param body - Untrusted request body ({ ...address, kind, isDefault })
+ * @returns Saved address (with its assigned ID)
+ * @throws AccountError (400) with field errors
+ */
+export async function addAddress(accountId: string, body: unknown): Promise<SavedAddress> {
+  const errors: AccountFieldErrors = {};
+  const entry = readAddressEntry(readInput(body), errors);
+
+  throwIfInvalid(errors);
+
+  const account = await getStoredAccount(accountId);
+  const address: SavedAddress = { id: `addr_${randomBytes(8).toString('hex')}`, ...entry };
+  const addresses = await saveAddresses(
+    account,
+    [...account.addresses, address],
+    address.isDefault ? address.id : undefined
+  );
+
+  return addresses.find(({ id }) => id === address.id) ?? address;
+}
+
+function findAddress(account: StoredAccount, addressId: string): SavedAddress {
+  const address = account.addresses.find(({ id }) => id === addressId);
+
+  if (!address) {
+    throw new AccountError(404, 'Address not found');
+  }
+
+  return address;
+}
+
+/**
+ * Update a saved address
+ * Fields left out of the body keep their saved values, so { isDefault: true }
+ * alone makes an address the default for its kind
+ *
+ * @param accountId - Account to update
+ * @param addressId - Address to update
+ * @param body - Untrusted request body (any of the address fields, kind, isDefault)
+ * @returns Updated address
+ * @throws AccountError (400) with field errors, (404) if the account has no such address
+ */
+export async function updateAddress(accountId: string, addressId: string, body: unknown): Promise<SavedAddress> {
+  const account = await getStoredAccount(accountId);
+  const current = findAddress(account, addressId);
+  const input = readInput(body);
+  const errors: AccountFieldErrors = {};
+
+  const entry = readAddressEntry({ ...current, ...input, isDefault: input.isDefault ?? current.isDefault }, errors);
+
+  throwIfInvalid(errors);
+
+  // Moving an address to the other kind starts it off as a plain entry there
+  const address: SavedAddress = {
+    id: addressId,
+    ...entry,
+    isDefault: entry.kind === current.kind ? entry.isDefault : input.isDefault === true,
+  };
+  const addresses = await saveAddresses(
+    account,
+    account.addresses.map((saved) => (saved.id === addressId ? address : saved)),
+    address.isDefault ? address.id : undefined
+  );
+
+  return addresses.find(({ id }) => id === addressId) ?? address;
+}
+
+/**
+ * Remove a saved address
+ * Removing a default promotes the oldest remaining address of its kind
+ *
+ * @param accountId - Account to update
+ * @param addressId - Address to remove
+ * @throws AccountError (404) if the account has no such address
+ */
+export async function removeAddress(accountId: string, addressId: string): Promise<void> {
+  const account = await getStoredAccount(accountId);
+
+  findAddress(account, addressId);
+
+  await saveAddresses(
+    account,
+    account.addresses.filter((address) => address.id !== addressId)
+  );
+}
@@ -0,0 +1,121 @@
+/**
+ * Cart Persistence
+ * Durable copies of carts so they outlive the PHP session
+ *
+ * The PHP backend keeps carts in its CodeIgniter session, which expires.
+ * The cart service saves each cart here after every change, keyed by its
+ * owner (a BFF session, or an account once signed in), and restores it into
+ * a fresh backend session when the backend comes back empty.
+ *
+ * Implementations:
+ * - session: nothing is saved; carts live only in the backend session
+ * - memory / file: the storage drivers in lib/storage
+ *
+ * Select explicitly with the CART_STORAGE environment variable; defaults to
+ * the STORAGE_DRIVER choice.
+ */
+
+import { createStore, getStorageDriver, type KeyValueStore, type StorageDriver } from '../storage';
+import type { CartLineItem } from '../types/cart';
+
+export interface SavedCart {
+  owner: string;
+  items: CartLineItem[];
+  updatedAt: string; // ISO timestamp
+}
+
+export interface CartStore {
+  load(owner: string): Promise<SavedCart | null>;
+  save(owner: string, items: CartLineItem[]): Promise<void>;
+  delete(owner: string): Promise<void>;
+}
+
+export type CartStorage = 'session' | StorageDriver;
+
+/**
+ * Owner key for a guest's cart
+ */
+export function sessionCartOwner(sessionId: string): string {
+  return `session:${sessionId}`;
+}
+
+/**
+ * Owner key for a signed-in shopper's cart
+ */
+export function accountCartOwner(accountId: string): string {
+  return `account:${accountId}`;
+}
+
+/**
+ * Resolve the configured cart storage
+ */
+export function getCartStorage(): CartStorage {
+  const storage = process.env.CART_STORAGE;
+
+  if (storage === 'session' || storage === 'memory' || storage === 'file') {
+    return storage;
+  }
+
+  return getStorageDriver();
+}
+
+/**
+ * Session-only storage: the backend session is the only copy
+ */
+function createSessionCartStore(): CartStore {
+  return {
+    async load() {
+      return null;
+    },
+    async save() {},
+    async delete() {},
+  };
+}
+
+/**
+ * Durable storage on top of a key/value store
+ */
+function createKeyValueCartStore(store: KeyValueStore<SavedCart>): CartStore {
+  return {
+    load: (owner) => store.get(owner),
+
+    save: (owner, items) => store.set(owner, { owner, items, updatedAt: new Date().toISOString() }),
+
+    delete: (owner) => store.delete(owner),
+  };
+}
+
+/**
+ * Create a cart store
+ *
+ * @param storage - Storage to use (defaults to the configured storage)
+ * @returns Cart store
+ */
+export function createCartStore(storage: CartStorage = getCartStorage()): CartStore {
+  return storage === 'session'
+    ? createSessionCartStore()
+    : createKeyValueCartStore(createStore<SavedCart>('carts', storage));
+}
+
+/**
+ * Merge a guest's cart lines into an account's saved lines
+ * Quantities of the same product are combined and capped at stock; the
+ * guest's line wins for price and stock since it was seen most recently.
+ * Lines that are out of stock are dropped.
+ *
+ * @param accountItems - Lines saved for the account
+ * @param guestItems - Lines in the guest's cart
+ * @returns Merged lines, account lines first
+ */
+export function mergeCartLines(accountItems: CartLineItem[], guestItems: CartLineItem[]): CartLineItem[] {
+  const merged = new Map<number, CartLineItem>();
+
+  for (const item of [...accountItems, ...guestItems]) {
+    const existing = merged.get(item.product_id);
+    const quantity = Math.min(item.quantity + (existing?.quantity ?? 0), item.stock);
+
+    merged.set(item.product_id, { ...item, quantity, line_total: item.price * quantity });
+  }
+
+  return Array.from(merged.values()).filter((item) => item.quantity > 0);
+}
@@ -1,19 +1,149 @@
 /**
  * Cart Service Layer
  * Domain operations for cart management
+ *
+ * The PHP backend session holds the live cart. When an owner is given, each
+ * change is also saved to the cart store (see cart-store.ts) so the cart can
+ * be restored after the backend session expires.
  */
 
 import { getCart, addToCart, updateCartLine, removeCartLine } from '../clients/backend';
 import type { FetchResult } from '../clients/upstream';
-import type { Cart, AddToCartRequest } from '../types/cart';
+import type { Cart, CartLineItem, AddToCartRequest } from '../types/cart';
 import type { Product } from '../types/products';
+import { applyPromotion, readPromoCode, validatePromoCode, PromoCodeError } from './promotions';
+import { createCartStore, mergeCartLines } from './cart-store';
+
+const cartStore = createCartStore();
+
+/**
+ * Apply the promo code from the browser's cookies to a backend cart
+ */
+async function withPromotion(request: Promise<FetchResult<Cart>>, cookieHeader?: string): Promise<FetchResult<Cart>> {
+  const result = await request;
+  return { ...result, data: applyPromotion(result.data, readPromoCode(cookieHeader)) };
+}
+
+/**
+ * Save the cart for its owner
+ * A failed save is logged rather than failing the cart operation
+ */
+async function persist(result: FetchResult<Cart>, owner?: string): Promise<FetchResult<Cart>> {
+  if (owner) {
+    try {
+      await cartStore.save(owner, result.data.items);
+    } catch (error) {
+      console.error('Error saving cart:', error);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Add Set-Cookie values from a backend response to a cookie header
+ * Keeps follow-up requests on the session the backend just issued
+ */
+function withSetCookies(cookieHeader: string | undefined, headers: Headers): string | undefined {
+  const cookies = new Map<string, string>();
+
+  const addPair = (pair: string) => {
+    const separator = pair.indexOf('=');
+    if (separator > 0) {
+      cookies.set(pair.slice(0, separator).trim(), pair.slice(separator + 1).trim());
+    }
+  };
+
+  cookieHeader?.split(';').forEach(addPair);
+  headers.getSetCookie().forEach((cookie) => addPair(cookie.split(';')[0]));
+
+  return cookies.size > 0
+    ? Array.from(cookies, ([name, value]) => `${name}=${value}`).join('; ')
+    : undefined;
+}
+
+function toAddToCartRequest(item: CartLineItem, quantity: number): AddToCartRequest {
+  return {
+    product_id: item.product_id,
+    quantity,
+    title: item.title,
+    price: item.price / 100, // Backend will convert to cents
+    stock: item.stock,
+    image: item.image,
+    brand: item.brand,
+    category: item.category,
+    sku: item.sku,
+  };
+}
+
+/**
+ * Bring the backend cart in line with the given lines
+ * Requests run in order, each carrying any session cookie the backend issued
+ * before it. Lines the backend rejects (e.g. now out of stock) are skipped.
+ *
+ * @param lines - Lines the cart should contain
+ * @param current - Current backend cart and headers
+ * @param cookieHeader - Optional cookie header to forward to backend
+ * @returns Resulting cart, with every Set-Cookie header the backend sent
+ */
+async function writeLines(lines: CartLineItem[], current: FetchResult<Cart>, cookieHeader?: string): Promise<FetchResult<Cart>> {
+  let cart = current.data;
+  let cookies = withSetCookies(cookieHeader, current.headers);
+  const headers = new Headers();
+  current.headers.getSetCookie().forEach((cookie) => headers.append('Set-Cookie', cookie));
+
+  for (const line of lines) {
+    const existing = cart.items.find((item) => item.product_id === line.product_id);
+    const quantity = Math.min(line.quantity, line.stock);
+
+    if (quantity <= 0 || existing?.quantity === quantity) {
+      continue;
+    }
+
+    try {
+      const result = existing
+        ? await updateCartLine(existing.line_id, quantity, cookies)
+        : await addToCart(toAddToCartRequest(line, quantity), cookies);
+
+      cart = result.data;
+      cookies = withSetCookies(cookies, result.headers);
+      result.headers.getSetCookie().forEach((cookie) => headers.append('Set-Cookie', cookie));
+    } catch (error) {
+      console.warn(`Skipping cart line for product ${line.product_id}:`, error);
+    }
+  }
+
+  return { data: cart, headers };
+}
+
+/**
+ * Fetch the backend cart, restoring the owner's saved cart if the backend
+ * session has lost it
+ */
+async function loadCart(cookieHeader?: string, owner?: string): Promise<FetchResult<Cart>> {
+  const result = await getCart(cookieHeader);
+
+  if (!owner || result.data.items.length > 0) {
+    return result;
+  }
+
+  const saved = await cartStore.load(owner);
+  if (!saved || saved.items.length === 0) {
+    return result;
+  }
+
+  return persist(await writeLines(saved.items, result, cookieHeader), owner);
+}
 
 /**
  * Fetch current cart state
+ * An empty backend cart is refilled from the owner's saved cart
+ *
  * @param cookieHeader - Optional cookie header to forward to backend
+ * @param owner - Cart owner key (see cart-store.ts); omit to skip persistence
  */
-export async function fetchCart(cookieHeader?: string): Promise<FetchResult<Cart>> {
-  return getCart(cookieHeader);
+export async function fetchCart(cookieHeader?: string, owner?: string): Promise<FetchResult<Cart>> {
+  return withPromotion(loadCart(cookieHeader, owner), cookieHeader);
 }
 
 /**
@@ -22,9 +152,15 @@ export async function fetchCart(cookieHeader?: string): Promise<FetchResult<Cart
  * @param product - Product to add
  * @param quantity - Quantity to add
  * @param cookieHeader - Optional cookie header to forward to backend
+ * @param owner - Cart owner key; omit to skip persistence
  * @returns Updated cart state and headers
  */
-export async function addProductToCart(product: Product, quantity: number = 1, cookieHeader?: string): Promise<FetchResult<Cart>> {
+export async function addProductToCart(
+  product: Product,
+  quantity: number = 1,
+  cookieHeader?: string,
+  owner?: string
+): Promise<FetchResult<Cart>> {
   const request: AddToCartRequest = {
     product_id: product.id,
     quantity,
@@ -37,7 +173,7 @@ export async function addProductToCart(product: Product, quantity: number = 1, c
     sku: product.sku,
   };
 
-  return addToCart(request, cookieHeader);
+  return withPromotion(persist(await addToCart(request, cookieHeader), owner), cookieHeader);
 }
 
 /**
@@ -46,10 +182,16 @@ export async function addProductToCart(product: Product, quantity: number = 1, c
  * @param lineId - Line item ID (MD5 hash)
  * @param quantity - New quantity
  * @param cookieHeader - Optional cookie header to forward to backend
+ * @param owner - Cart owner key; omit to skip persistence
  * @returns Updated cart state and headers
  */
-export async function updateCartItemQuantity(lineId: string, quantity: number, cookieHeader?: string): Promise<FetchResult<Cart>> {
-  return updateCartLine(lineId, quantity, cookieHeader);
+export async function updateCartItemQuantity(
+  lineId: string,
+  quantity: number,
+  cookieHeader?: string,
+  owner?: string
+): Promise<FetchResult<Cart>> {
+  return withPromotion(persist(await updateCartLine(lineId, quantity, cookieHeader), owner), cookieHeader);
 }
 
 /**
@@ -57,8 +199,93 @@ export async function updateCartItemQuantity(lineId: string, quantity: number, c
  *
  * @param lineId - Line item ID (MD5 hash)
  * @param cookieHeader - Optional cookie header to forward to backend
+ * @param owner - Cart owner key; omit to skip persistence
  * @returns Updated cart state and headers
  */
-export async function removeCartItem(lineId: string, cookieHeader?: string): Promise<FetchResult<Cart>> {
-  return removeCartLine(lineId, cookieHeader);
+export async function removeCartItem(lineId: string, cookieHeader?: string, owner?: string): Promise<FetchResult<Cart>> {
+  return withPromotion(persist(await removeCartLine(lineId, cookieHeader), owner), cookieHeader);
+}
+
+/**
+ * Validate a promo code against the current cart
+ * The caller is responsible for persisting the code (promo cookie)
+ *
+ * @param code - Code entered by the shopper
+ * @param cookieHeader - Optional cookie header to forward to backend
+ * @param owner - Cart owner key; an empty backend cart is refilled from their saved cart
+ * @returns Cart with the discount applied and headers
+ * @throws PromoCodeError if the code can't be used with this cart
+ */
+export async function applyPromoCode(code: string, cookieHeader?: string, owner?: string): Promise<FetchResult<Cart>> {
+  const result = await loadCart(cookieHeader, owner);
+  const validation = validatePromoCode(code, result.data.items);
+
+  if (!validation.valid) {
+    throw new PromoCodeError(validation.message);
+  }
+
+  return { ...result, data: applyPromotion(result.data, validation.code) };
+}
+
+/**
+ * Fetch the cart without any promo code applied
+ *
+ * @param cookieHeader - Optional cookie header to forward to backend
+ * @param owner - Cart owner key; an empty backend cart is refilled from their saved cart
+ * @returns Cart with no discount and headers
+ */
+export async function removePromoCode(cookieHeader?: string, owner?: string): Promise<FetchResult<Cart>> {
+  const result = await loadCart(cookieHeader, owner);
+  return { ...result, data: applyPromotion(result.data, null) };
+}
+
+/**
+ * Remove every line from the cart
+ * Lines are removed sequentially so each request carries the latest session
+ *
+ * @param cart - Current cart state
+ * @param cookieHeader - Optional cookie header to forward to backend
+ * @param owner - Cart owner key; omit to skip persistence
+ * @returns Emptied cart state and headers from the final request
+ */
+export async function clearCart(cart: Cart, cookieHeader?: string, owner?: string): Promise<FetchResult<Cart>> {
+  let result: FetchResult<Cart> = { data: cart, headers: new Headers() };
+
+  for (const item of cart.items) {
+    result = await removeCartLine(item.line_id, cookieHeader);
+  }
+
+  return persist(result, owner);
+}
+
+/**
+ * Merge a guest's cart into the account's saved cart (on sign-in)
+ * Quantities of the same product are combined and capped at stock. The
+ * merged cart is written to the backend session and saved for the account;
+ * the guest's saved copy is dropped.
+ *
+ * @param accountOwner - Owner key of the account signing in
+ * @param guestOwner - Owner key of the guest session (null if none)
+ * @param cookieHeader - Optional cookie header to forward to backend
+ * @returns Merged cart state and headers
+ */
+export async function mergeGuestCart(
+  accountOwner: string,
+  guestOwner: string | null,
+  cookieHeader?: string
+): Promise<FetchResult<Cart>> {
+  const guest = await loadCart(cookieHeader, guestOwner ?? undefined);
+  const saved = await cartStore.load(accountOwner);
+
+  const merged = mergeCartLines(saved?.items ?? [], guest.data.items);
+  const result = await persist(
+    await writeLines(merged, guest, cookieHeader),
+    accountOwner
+  );
+
+  if (guestOwner) {
+    await cartStore.delete(guestOwner);
+  }
+
+  return withPromotion(Promise.resolve(result), cookieHeader);
 }
@@ -0,0 +1,139 @@
+/**
+ * Checkout Flow
+ * Checkout as a state machine: cart → information → shipping method →
+ * payment → review → confirmation
+ *
+ * A step can only be entered once every step before it is complete, so the
+ * shopper can't reach payment with an empty cart or review an order without
+ * a card. Completeness comes from the checkout schema's outstanding errors,
+ * so the guards and the checkout route agree. Pure, so the checkout page,
+ * its progress bar and resumed sessions all apply the same rules.
+ */
+
+import type { CheckoutFieldErrors } from '../types/checkout';
+
+export const CHECKOUT_STEPS = ['cart', 'information', 'shippingMethod', 'payment', 'review', 'confirmation'] as const;
+
+export type CheckoutStepId = (typeof CHECKOUT_STEPS)[number];
+
+export type CheckoutStepStatus = 'complete' | 'current' | 'upcoming';
+
+export interface CheckoutFlowState {
+  step: CheckoutStepId;
+  orderId: string | null; // set once the order is placed
+}
+
+/**
+ * What the guards check against
+ */
+export interface CheckoutFlowContext {
+  itemCount: number;
+  errors: CheckoutFieldErrors; // outstanding schema errors across the whole form
+}
+
+export type CheckoutFlowEvent =
+  | { type: 'next' }
+  | { type: 'back' }
+  | { type: 'goTo'; step: CheckoutStepId }
+  | { type: 'orderPlaced'; orderId: string };
+
+export const INITIAL_CHECKOUT_FLOW: CheckoutFlowState = { step: 'information', orderId: null };
+
+// Fields each form step collects ("shipping." covers every shipping address field)
+const STEP_FIELDS: Partial<Record<CheckoutStepId, string[]>> = {
+  information: ['email', 'shipping.'],
+  shippingMethod: ['shippingMethod'],
+  payment: ['payment.', 'billing.'],
+};
+
+/**
+ * Whether a field belongs to a step
+ * @example isStepField('information', 'shipping.city') => true
+ */
+export function isStepField(step: CheckoutStepId, path: string): boolean {
+  return (STEP_FIELDS[step] ?? []).some((field) => (field.endsWith('.') ? path.startsWith(field) : path === field));
+}
+
+/**
+ * Whether a step's part of checkout is done
+ */
+export function isStepComplete(step: CheckoutStepId, state: CheckoutFlowState, context: CheckoutFlowContext): boolean {
+  switch (step) {
+    case 'cart':
+      return context.itemCount > 0 || state.orderId !== null;
+    case 'review':
+    case 'confirmation':
+      return state.orderId !== null;
+    default:
+      return !Object.keys(context.errors).some((path) => isStepField(step, path));
+  }
+}
+
+/**
+ * Whether every step before this one is complete
+ */
+export function canEnterStep(step: CheckoutStepId, state: CheckoutFlowState, context: CheckoutFlowContext): boolean {
+  return CHECKOUT_STEPS.slice(0, CHECKOUT_STEPS.indexOf(step)).every((before) => isStepComplete(before, state, context));
+}
+
+/**
+ * Step to show for a requested one: the request if its guard passes,
+ * otherwise the first incomplete step before it
+ */
+export function resolveStep(requested: CheckoutStepId, state: CheckoutFlowState, context: CheckoutFlowContext): CheckoutStepId {
+  const blocking = CHECKOUT_STEPS.slice(0, CHECKOUT_STEPS.indexOf(requested)).find(
+    (before) => !isStepComplete(before, state, context)
+  );
+
+  return blocking ?? requested;
+}
+
+/**
+ * Apply an event
+ * "next" only leaves a complete step; "goTo" can go back freely and forward
+ * only as far as the guards allow. Nothing moves once the order is placed.
+ */
+export function transition(
+  state: CheckoutFlowState,
+  event: CheckoutFlowEvent,
+  context: CheckoutFlowContext
+): CheckoutFlowState {
+  if (state.step === 'confirmation') return state;
+
+  const index = CHECKOUT_STEPS.indexOf(state.step);
+
+  switch (event.type) {
+    case 'next': {
+      const next = CHECKOUT_STEPS[index + 1];
+      if (next === 'confirmation' || !isStepComplete(state.step, state, context)) return state;
+      return { ...state, step: resolveStep(next, state, context) };
+    }
+    case 'back':
+      return { ...state, step: CHECKOUT_STEPS[Math.max(index - 1, 0)] };
+    case 'goTo':
+      return event.step === 'confirmation' ? state : { ...state, step: resolveStep(event.step, state, context) };
+    case 'orderPlaced':
+      return state.step === 'review' ? { step: 'confirmation', orderId: event.orderId } : state;
+  }
+}
+
+/**
+ * Status of each step for the progress bar
+ * Steps the shopper could jump to (everything before them is done and so are
+ * they) show as complete, even ahead of the current step.
+ */
+export function getStepStatuses(
+  state: CheckoutFlowState,
+  context: CheckoutFlowContext
+): Record<CheckoutStepId, CheckoutStepStatus> {
+  const current = CHECKOUT_STEPS.indexOf(state.step);
+
+  return Object.fromEntries(
+    CHECKOUT_STEPS.map((step, index) => {
+      if (index === current) return [step, 'current'];
+      if (index < current) return [step, 'complete'];
+      const reachable = canEnterStep(step, state, context) && isStepComplete(step, state, context);
+      return [step, reachable ? 'complete' : 'upcoming'];
+    })
+  ) as Record<CheckoutStepId, CheckoutStepStatus>;
+}
@@ -0,0 +1,295 @@
+/**
+ * Checkout Schema
+ * Normalizes and validates checkout form data, field by field
+ *
+ * Shared by the checkout page (inline errors, blocking submit) and
+ * POST /api/checkout, so both sides apply the same rules. Kept free of
+ * server-only imports for that reason.
+ *
+ * Card details never reach the BFF: the card fields check them with
+ * validateCardDetails before tokenizing, and the request carries the token.
+ */
+
+import { isSupportedCountry, taxConfig } from '../config/tax';
+import type { CheckoutAddress, CheckoutFieldErrors, CheckoutRequest } from '../types/checkout';
+import type { CardDetails } from '../types/payments';
+
+type AddressField = 'address' | 'country' | 'city' | 'region' | 'postalCode';
+
+/**
+ * Dotted path of a validated field, matching the keys of CheckoutFieldErrors
+ */
+export type CheckoutFieldPath =
+  | 'email'
+  | `shipping.${AddressField}`
+  | 'shippingMethod'
+  | `billing.${AddressField}`
+  | 'payment.nameOnCard'
+  | 'payment.token';
+
+/**
+ * Dotted path of a card field (checked in the browser only)
+ */
+export type CardFieldPath = `payment.${keyof CardDetails}`;
+
+type FieldRule = (request: CheckoutRequest, now: Date) => string | undefined;
+
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function readInput(value: unknown): Record<string, unknown> {
+  return (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+}
+
+function readString(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+/**
+ * Luhn checksum used by card numbers
+ * @example passesLuhn('4242424242424242') => true
+ */
+export function passesLuhn(digits: string): boolean {
+  let sum = 0;
+
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+
+  return digits.length > 0 && sum % 10 === 0;
+}
+
+/**
+ * CVC length for a card: 4 digits for American Express, 3 otherwise
+ */
+export function getCvcLength(cardNumber: string): number {
+  return /^3[47]/.test(cardNumber) ? 4 : 3;
+}
+
+/**
+ * Whether an MM/YY expiry date is still valid (cards work through the end of the month)
+ */
+export function isExpiryInFuture(expirationDate: string, now: Date = new Date()): boolean {
+  const match = expirationDate.match(/^(0[1-9]|1[0-2])\/(\d{2})$/);
+  if (!match) return false;
+
+  const firstDayAfter = new Date(2000 + Number(match[2]), Number(match[1]), 1);
+  return now < firstDayAfter;
+}
+
+/**
+ * Whether a postal code fits the country's format (unknown countries aren't checked)
+ */
+export function isValidPostalCode(country: string, postalCode: string): boolean {
+  const config = taxConfig.countries.find(({ code }) => code === country);
+  return !config || config.postalCodePattern.test(postalCode);
+}
+
+/**
+ * Read an address without validating it
+ */
+export function normalizeAddress(value: unknown): CheckoutAddress {
+  const input = readInput(value);
+
+  return {
+    company: readString(input.company) || undefined,
+    address: readString(input.address),
+    apartment: readString(input.apartment) || undefined,
+    city: readString(input.city),
+    region: readString(input.region),
+    postalCode: readString(input.postalCode).toUpperCase(),
+    country: readString(input.country).toUpperCase(),
+  };
+}
+
+/**
+ * Read a checkout request body without validating it
+ * Trims every field, upper-cases codes and strips card number spacing
+ */
+export function normalizeCheckoutRequest(body: unknown): CheckoutRequest {
+  const input = readInput(body);
+  const billing = readInput(input.billing);
+  const payment = readInput(input.payment);
+  const sameAsShipping = billing.sameAsShipping !== false;
+
+  return {
+    email: readString(input.email),
+    shipping: normalizeAddress(input.shipping),
+    shippingMethod: readString(input.shippingMethod),
+    billing: {
+      sameAsShipping,
+      address: sameAsShipping ? undefined : normalizeAddress(billing.address),
+    },
+    payment: {
+      nameOnCard: readString(payment.nameOnCard),
+      token: readString(payment.token),
+      threeDSecureId: readString(payment.threeDSecureId) || undefined,
+    },
+  };
+}
+
+/**
+ * Read card details without validating them
+ * Strips card number spacing
+ */
+export function normalizeCardDetails(card: CardDetails): CardDetails {
+  return {
+    cardNumber: readString(card.cardNumber).replace(/[\s-]/g, ''),
+    expirationDate: readString(card.expirationDate),
+    cvc: readString(card.cvc),
+  };
+}
+
+const cardRules: Record<CardFieldPath, (card: CardDetails, now: Date) => string | undefined> = {
+  'payment.cardNumber': ({ cardNumber }) =>
+    /^\d{12,19}$/.test(cardNumber) && passesLuhn(cardNumber) ? undefined : 'Enter a valid card number',
+  'payment.expirationDate': ({ expirationDate }, now) => {
+    if (!/^(0[1-9]|1[0-2])\/\d{2}$/.test(expirationDate)) return 'Enter an expiration date as MM/YY';
+    if (!isExpiryInFuture(expirationDate, now)) return 'This card has expired';
+    return undefined;
+  },
+  'payment.cvc': ({ cardNumber, cvc }) => {
+    const length = getCvcLength(cardNumber);
+    return new RegExp(`^\\d{${length}}$`).test(cvc) ? undefined : `Enter the ${length}-digit CVC`;
+  },
+};
+
+/**
+ * Validate normalized card details
+ * @returns Errors keyed by card field path (empty when valid)
+ */
+export function validateCardDetails(card: CardDetails, now: Date = new Date()): CheckoutFieldErrors {
+  const errors: CheckoutFieldErrors = {};
+
+  for (const path of Object.keys(cardRules) as CardFieldPath[]) {
+    const error = cardRules[path](card, now);
+    if (error) errors[path] = error;
+  }
+
+  return errors;
+}
+
+const addressRules: Record<AddressField, (address: CheckoutAddress) => string | undefined> = {
+  address: (address) => (address.address ? undefined : 'Address is required'),
+  country: (address) => (isSupportedCountry(address.country) ? undefined : 'Select a country we ship to'),
+  city: (address) => (address.city ? undefined : 'City is required'),
+  region: (address) => (address.region ? undefined : 'State / Province is required'),
+  postalCode: (address) => {
+    if (!address.postalCode) return 'Postal code is required';
+    if (!isValidPostalCode(address.country, address.postalCode)) {
+      const example = taxConfig.countries.find(({ code }) => code === address.country)?.postalCodeExample;
+      return `Enter a postal code like ${example}`;
+    }
+    return undefined;
+  },
+};
+
+/**
+ * Rules for one address, applied when the request has that address
+ */
+function rulesForAddress(pick: (request: CheckoutRequest) => CheckoutAddress | undefined): Record<AddressField, FieldRule> {
+  const rule = (field: AddressField): FieldRule => (request) => {
+    const address = pick(request);
+    return address ? addressRules[field](address) : undefined;
+  };
+
+  return {
+    address: rule('address'),
+    country: rule('country'),
+    city: rule('city'),
+    region: rule('region'),
+    postalCode: rule('postalCode'),
+  };
+}
+
+const shippingRules = rulesForAddress((request) => request.shipping);
+
+// The billing address is checked only when it differs from shipping
+const billingRules = rulesForAddress((request) =>
+  request.billing.sameAsShipping ? undefined : request.billing.address ?? normalizeAddress(null)
+);
+
+/**
+ * Validation rule per field, in form order
+ */
+export const checkoutSchema: Record<CheckoutFieldPath, FieldRule> = {
+  email: ({ email }) => {
+    if (!email) return 'Email address is required';
+    if (!EMAIL_PATTERN.test(email)) return 'Enter a valid email address';
+    return undefined;
+  },
+  'shipping.address': shippingRules.address,
+  'shipping.country': shippingRules.country,
+  'shipping.city': shippingRules.city,
+  'shipping.region': shippingRules.region,
+  'shipping.postalCode': shippingRules.postalCode,
+  shippingMethod: ({ shippingMethod }) => (shippingMethod ? undefined : 'Select a shipping method'),
+  'billing.address': billingRules.address,
+  'billing.country': billingRules.country,
+  'billing.city': billingRules.city,
+  'billing.region': billingRules.region,
+  'billing.postalCode': billingRules.postalCode,
+  'payment.nameOnCard': ({ payment }) => (payment.nameOnCard ? undefined : 'Name on card is required'),
+  // Set by the card fields once the card has been tokenized
+  'payment.token': ({ payment }) => (payment.token ? undefined : 'Enter your card details'),
+};
+
+/**
+ * Current value of a field, by its dotted path
+ * @example getCheckoutFieldValue(request, 'shipping.city') => 'Toronto'
+ */
+export function getCheckoutFieldValue(request: CheckoutRequest, path: string): string {
+  const [group, field] = path.split('.');
+  const source: Record<string, unknown> | undefined = !field
+    ? request as unknown as Record<string, unknown>
+    : group === 'billing'
+      ? { ...request.billing.address }
+      : (request as unknown as Record<string, Record<string, unknown>>)[group];
+
+  return String(source?.[field ?? group] ?? '');
+}
+
+/**
+ * Validate one field of a normalized request
+ */
+export function validateCheckoutField(
+  request: CheckoutRequest,
+  path: CheckoutFieldPath,
+  now: Date = new Date()
+): string | undefined {
+  return checkoutSchema[path](request, now);
+}
+
+/**
+ * Validate a normalized request
+ * @returns Errors keyed by field path, in form order (empty when valid)
+ */
+export function validateCheckoutForm(request: CheckoutRequest, now: Date = new Date()): CheckoutFieldErrors {
+  const errors: CheckoutFieldErrors = {};
+
+  for (const path of Object.keys(checkoutSchema) as CheckoutFieldPath[]) {
+    const error = validateCheckoutField(request, path, now);
+    if (error) errors[path] = error;
+  }
+
+  return errors;
+}
+
+/**
+ * Read and validate an address, recording errors under `${prefix}.<field>`
+ * Also used for addresses saved to an account
+ */
+export function readAddress(value: unknown, prefix: string, errors: CheckoutFieldErrors): CheckoutAddress {
+  const address = normalizeAddress(value);
+
+  for (const field of Object.keys(addressRules) as AddressField[]) {
+    const error = addressRules[field](address);
+    if (error) errors[`${prefix}.${field}`] = error;
+  }
+
+  return address;
+}
@@ -0,0 +1,274 @@
+/**
+ * Checkout Service Layer
+ * Validates checkout submissions, re-prices the cart, charges the card and
+ * places orders
+ */
+
+import { fetchCart, clearCart } from './cart';
+import { accountCartOwner, sessionCartOwner } from './cart-store';
+import { createOrder } from './orders';
+import { evaluatePromotions } from './promotions';
+import { calculateTax } from './tax';
+import { fetchShippingWeight, quoteShipping } from './shipping';
+import { normalizeCheckoutRequest, validateCheckoutForm } from './checkout-schema';
+import { getPaymentProvider, PaymentError } from '../payments';
+import type { FetchResult } from '../clients/upstream';
+import type { CartLineItem } from '../types/cart';
+import type { CheckoutAddress, CheckoutFieldErrors, CheckoutRequest } from '../types/checkout';
+import type { Order } from '../types/orders';
+import type { AuthorizeResult, Payment, PaymentProvider, ThreeDSecureChallenge } from '../types/payments';
+import type { AppliedPromotion } from '../types/promotions';
+import type { ShippingRate } from '../types/shipping';
+import type { TaxLine } from '../types/tax';
+
+/**
+ * Checkout error with HTTP status and optional field-level errors
+ * Payment failures also carry a code (the decline code, or "requires_action"
+ * with the 3-D Secure challenge to complete)
+ */
+export class CheckoutError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public fields?: CheckoutFieldErrors,
+    public code?: string,
+    public challenge?: ThreeDSecureChallenge
+  ) {
+    super(message);
+    this.name = 'CheckoutError';
+  }
+}
+
+export interface PricedCart {
+  items: CartLineItem[];
+  subtotal: number;
+  discount: number;
+  promotions: AppliedPromotion[];
+  shipping: number;
+  shippingMethod: ShippingRate;
+  tax: number;
+  taxLines: TaxLine[];
+  total: number;
+}
+
+export interface PriceCartOptions {
+  address: CheckoutAddress; // shipping address (decides shipping zone and tax jurisdiction)
+  shippingMethod: string; // shipping method ID
+  weight: number; // total cart weight in kg
+}
+
+/**
+ * Validate and normalize a checkout request body
+ * Applies the checkout schema the checkout page validates against
+ *
+ * @param body - Untrusted request body
+ * @returns Normalized checkout request
+ * @throws CheckoutError (400) with field errors if any field is invalid
+ */
+export function validateCheckoutRequest(body: unknown): CheckoutRequest {
+  const request = normalizeCheckoutRequest(body);
+  const errors = validateCheckoutForm(request);
+
+  if (Object.keys(errors).length > 0) {
+    throw new CheckoutError(400, 'Please correct the highlighted fields', errors);
+  }
+
+  return request;
+}
+
+/**
+ * Re-price cart lines server-side
+ * Line totals, the promo discount and shipping are recomputed rather than trusted
+ *
+ * @param items - Cart line items (prices in cents)
+ * @param options - Shipping address, chosen shipping method and cart weight
+ * @param promoCode - Applied promo code (null if none)
+ * @returns Priced lines with subtotal, discount, shipping, tax and total in cents
+ * @throws CheckoutError (400) if the shipping method isn't offered for the address
+ */
+export function priceCart(items: CartLineItem[], options: PriceCartOptions, promoCode: string | null = null): PricedCart {
+  const { address, shippingMethod, weight } = options;
+
+  const pricedItems = items.map((item) => ({
+    ...item,
+    line_total: item.price * item.quantity,
+  }));
+
+  const subtotal = pricedItems.reduce((sum, item) => sum + item.line_total, 0);
+  const { discount, applied } = evaluatePromotions(pricedItems, { code: promoCode });
+
+  const rate = quoteShipping({ destination: address, weight, subtotal })?.rates.find(
+    (candidate) => candidate.id === shippingMethod
+  );
+  if (!rate) {
+    throw new CheckoutError(400, 'Please choose another shipping method', {
+      shippingMethod: "This shipping method isn't available for your address",
+    });
+  }
+
+  const tax = calculateTax(pricedItems, { address, shipping: rate.amount, discount });
+
+  return {
+    items: pricedItems,
+    subtotal,
+    discount,
+    promotions: applied,
+    shipping: rate.amount,
+    shippingMethod: rate,
+    tax: tax.total,
+    taxLines: tax.lines,
+    total: subtotal - discount + rate.amount + tax.total,
+  };
+}
+
+/**
+ * Surface a payment provider failure to the shopper
+ * Errors other than timeouts and bad tokens are left to become a 500
+ */
+function toCheckoutError(error: unknown): unknown {
+  if (!(error instanceof PaymentError)) return error;
+
+  if (error.code === 'timeout') {
+    return new CheckoutError(504, "We couldn't reach the payment processor. You have not been charged, please try again.");
+  }
+  if (error.code === 'invalid_token') {
+    return new CheckoutError(400, 'Please enter your card details again', {
+      'payment.token': 'Enter your card details again',
+    });
+  }
+
+  return error;
+}
+
+/**
+ * Authorize and capture the order total on the shopper's card
+ * An authorization that fails to capture is voided
+ *
+ * @param provider - Payment provider to charge through
+ * @param request - Validated checkout request (carries the card token)
+ * @param amount - Amount to charge in cents
+ * @param currency - Cart currency
+ * @returns Captured payment
+ * @throws CheckoutError (402) if the card is declined or needs 3-D Secure, (504) if the provider times out
+ */
+async function chargeCard(
+  provider: PaymentProvider,
+  request: CheckoutRequest,
+  amount: number,
+  currency: string
+): Promise<Payment> {
+  let result: AuthorizeResult;
+  try {
+    result = await provider.authorize({
+      token: request.payment.token,
+      amount,
+      currency,
+      threeDSecureId: request.payment.threeDSecureId,
+    });
+  } catch (error) {
+    throw toCheckoutError(error);
+  }
+
+  if (result.status === 'declined') {
+    throw new CheckoutError(402, result.message, { 'payment.token': result.message }, result.declineCode);
+  }
+  if (result.status === 'requires_action') {
+    throw new CheckoutError(402, 'Please confirm this payment with your bank', undefined, 'requires_action', result.challenge);
+  }
+
+  try {
+    return await provider.capture(result.payment.id);
+  } catch (error) {
+    await provider.void(result.payment.id).catch((voidError) => {
+      console.error('Failed to void uncaptured payment:', voidError);
+    });
+    throw toCheckoutError(error);
+  }
+}
+
+/**
+ * Place an order for the current cart
+ * Fetches the session cart, re-prices it (looking up weights for shipping),
+ * charges the card through the payment provider, records the order and
+ * empties the cart. The charge is refunded if the order can't be recorded;
+ * a cart that can't be emptied is logged and the order still returned.
+ *
+ * @param request - Validated checkout request
+ * @param sessionId - BFF session placing the order (owns the order record)
+ * @param cookieHeader - Optional cookie header to forward to backend
+ * @param accountId - Signed-in account placing the order (null for guests)
+ * @returns Created order and headers from the final backend request
+ * @throws CheckoutError (409) if the cart is empty, (400) if the shipping method isn't available,
+ *   (402) if the card is declined or needs 3-D Secure, (504) if the payment provider times out
+ */
+export async function placeOrder(
+  request: CheckoutRequest,
+  sessionId: string,
+  cookieHeader?: string,
+  accountId: string | null = null
+): Promise<FetchResult<Order>> {
+  const cartOwner = accountId ? accountCartOwner(accountId) : sessionCartOwner(sessionId);
+  const { data: cart } = await fetchCart(cookieHeader, cartOwner);
+
+  if (cart.items.length === 0) {
+    throw new CheckoutError(409, 'Your cart is empty');
+  }
+
+  const weight = await fetchShippingWeight(
+    cart.items.map((item) => ({ productId: item.product_id, quantity: item.quantity }))
+  );
+
+  const priced = priceCart(
+    cart.items,
+    { address: request.shipping, shippingMethod: request.shippingMethod, weight },
+    cart.promo_code ?? null
+  );
+
+  const provider = getPaymentProvider();
+  const payment = await chargeCard(provider, request, priced.total, cart.currency);
+
+  let order: Order;
+  try {
+    order = await createOrder({
+      email: request.email,
+      items: priced.items,
+      subtotal: priced.subtotal,
+      shipping: priced.shipping,
+      shippingMethod: priced.shippingMethod,
+      tax: priced.tax,
+      taxLines: priced.taxLines,
+      discount: priced.discount,
+      promoCode: priced.promotions.find((promotion) => promotion.code)?.code ?? null,
+      promotions: priced.promotions,
+      total: priced.total,
+      currency: cart.currency,
+      shippingAddress: request.shipping,
+      billingAddress: request.billing.sameAsShipping || !request.billing.address
+        ? request.shipping
+        : request.billing.address,
+      payment: {
+        nameOnCard: request.payment.nameOnCard,
+        brand: payment.brand,
+        cardLast4: payment.last4,
+        provider: provider.id,
+        paymentId: payment.id,
+      },
+    }, sessionId, accountId);
+  } catch (error) {
+    await provider.refund(payment.id).catch((refundError) => {
+      console.error('Failed to refund payment for unrecorded order:', refundError);
+    });
+    throw error;
+  }
+
+  // The order is placed and paid for either way, so a cart that fails to
+  // empty is logged rather than failing the checkout (and inviting a retry)
+  let headers = new Headers();
+  try {
+    ({ headers } = await clearCart(cart, cookieHeader, cartOwner));
+  } catch (error) {
+    console.error('Error clearing cart after order:', error);
+  }
+
+  return { data: order, headers };
+}
@@ -0,0 +1,102 @@
+/**
+ * Listing Service
+ * Server-side filtering, sorting and offset pagination for listing pages
+ *
+ * Facet counts cover every product in the source (catalog or collection),
+ * not just the page, so the whole source is needed; it's fetched at most
+ * once per catalog revalidation window and shared between requests, and
+ * every page is sliced from that one copy so totals and items agree.
+ */
+
+import { getAllConfiguredCategoryProducts, getProductsByCategory } from '../clients/dummyjson';
+import { cacheConfig } from '../config/cache';
+import { buildFacets, filterProducts } from '../../utils/facets';
+import { parseListingPagination, parseListingParams } from '../../utils/listing-params';
+import { sortProducts } from '../../utils/sort-products';
+import type { ListingPage, ListingSource } from '../types/listing';
+import type { Product } from '../types/products';
+
+// Hide rare tags on the full catalog to keep the sidebar short
+const MIN_TAG_COUNT: Record<ListingSource['type'], number> = {
+  catalog: 3,
+  collection: 1,
+};
+
+// Whole sources by key, refetched at most once per catalog revalidation window
+const sourceCache = new Map<string, { products: Product[]; fetchedAt: number }>();
+const pendingSources = new Map<string, Promise<Product[]>>();
+
+function getSourceKey(source: ListingSource): string {
+  return source.type === 'collection' ? `collection:${source.slug}` : 'catalog';
+}
+
+/**
+ * Get every product in a listing source
+ * Serves a stale copy if a refresh fails, so listings survive upstream hiccups
+ */
+async function getSourceProducts(source: ListingSource): Promise<Product[]> {
+  const key = getSourceKey(source);
+  const cached = sourceCache.get(key);
+  const maxAge = cacheConfig.products.list * 1000;
+
+  if (cached && Date.now() - cached.fetchedAt < maxAge) {
+    return cached.products;
+  }
+
+  // Share one fetch between concurrent requests for the same source
+  let pending = pendingSources.get(key);
+  if (!pending) {
+    const request = source.type === 'collection'
+      ? getProductsByCategory(source.slug)
+      : getAllConfiguredCategoryProducts();
+
+    pending = request
+      .then((response) => {
+        sourceCache.set(key, { products: response.products, fetchedAt: Date.now() });
+        return response.products;
+      })
+      .finally(() => {
+        pendingSources.delete(key);
+      });
+    pendingSources.set(key, pending);
+  }
+
+  try {
+    return await pending;
+  } catch (error) {
+    if (cached) {
+      return cached.products;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Fetch one page of listing results
+ *
+ * @param source - Catalog or collection to list
+ * @param searchParams - Listing filters/sort plus limit and skip
+ * @returns Page of products with total and facets
+ */
+export async function fetchListingPage(
+  source: ListingSource,
+  searchParams: URLSearchParams
+): Promise<ListingPage> {
+  const products = await getSourceProducts(source);
+
+  const params = parseListingParams(searchParams);
+  const { limit, skip } = parseListingPagination(searchParams);
+  const results = sortProducts(filterProducts(products, params), params.sort);
+
+  // Clamp offsets past the end to the last page so stale links still show results
+  const lastPageSkip = results.length > 0 ? Math.floor((results.length - 1) / limit) * limit : 0;
+  const start = Math.min(skip, lastPageSkip);
+
+  return {
+    products: results.slice(start, start + limit),
+    total: results.length,
+    skip: start,
+    limit,
+    facets: buildFacets(products, params, { minTagCount: MIN_TAG_COUNT[source.type] }),
+  };
+}
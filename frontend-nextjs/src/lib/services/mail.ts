@@ -0,0 +1,56 @@
+/**
+ * Mail Service Layer
+ * Local stand-in for a transactional mail provider
+ *
+ * Nothing leaves the machine: messages are written to the "outbox" store
+ * and logged, so sign-in links can be followed during development. Swap
+ * sendMail for a provider client to deliver real mail.
+ */
+
+import { randomBytes } from 'crypto';
+import { createStore } from '../storage';
+
+export interface MailMessage {
+  id: string;
+  to: string;
+  subject: string;
+  text: string;
+  sentAt: string; // ISO timestamp
+}
+
+const outbox = createStore<MailMessage>('outbox');
+
+/**
+ * "Send" an email by writing it to the outbox
+ *
+ * @param message - Recipient, subject and plain-text body
+ * @returns Stored message
+ */
+export async function sendMail(message: Pick<MailMessage, 'to' | 'subject' | 'text'>): Promise<MailMessage> {
+  const mail: MailMessage = {
+    id: `mail_${randomBytes(8).toString('hex')}`,
+    sentAt: new Date().toISOString(),
+    ...message,
+  };
+
+  await outbox.set(mail.id, mail);
+
+  if (process.env.NODE_ENV !== 'test') {
+    console.info(`[mail] To: ${mail.to}\n[mail] Subject: ${mail.subject}\n${mail.text}`);
+  }
+
+  return mail;
+}
+
+/**
+ * Messages sent to an address, newest first
+ *
+ * @param to - Recipient email address
+ */
+export async function listOutbox(to: string): Promise<MailMessage[]> {
+  const messages = await outbox.values();
+
+  return messages
+    .filter((message) => message.to === to)
+    .sort((a, b) => b.sentAt.localeCompare(a.sentAt));
+}
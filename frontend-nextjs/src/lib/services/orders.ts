@@ -0,0 +1,115 @@
+/**
+ * Order Service Layer
+ * Persists orders placed through checkout
+ *
+ * Orders are tied to the BFF session that placed them, and to the account
+ * if the shopper was signed in. They can only be read back by that session
+ * or account.
+ */
+
+import { randomBytes } from 'crypto';
+import { createStore } from '../storage';
+import type { Order } from '../types/orders';
+
+interface StoredOrder extends Order {
+  sessionId: string;
+  accountId?: string | null;
+}
+
+const orders = createStore<StoredOrder>('orders');
+
+/**
+ * Generate a non-guessable order ID
+ */
+function generateOrderId(): string {
+  return `ord_${randomBytes(12).toString('hex')}`;
+}
+
+/**
+ * Strip internal ownership data before returning an order
+ */
+function toOrder(stored: StoredOrder): Order {
+  const order: Order & { sessionId?: string; accountId?: string | null } = { ...stored };
+  delete order.sessionId;
+  delete order.accountId;
+  return order;
+}
+
+/**
+ * Create and persist a new order
+ *
+ * @param details - Order fields (ID and timestamp are assigned here)
+ * @param sessionId - BFF session that placed the order
+ * @param accountId - Signed-in account that placed the order (null for guests)
+ * @returns Persisted order
+ */
+export async function createOrder(
+  details: Omit<Order, 'id' | 'createdAt'>,
+  sessionId: string,
+  accountId: string | null = null
+): Promise<Order> {
+  const order: StoredOrder = {
+    id: generateOrderId(),
+    createdAt: new Date().toISOString(),
+    ...details,
+    sessionId,
+    accountId,
+  };
+
+  await orders.set(order.id, order);
+
+  return toOrder(order);
+}
+
+/**
+ * Fetch an order placed by the given session or account
+ *
+ * @param orderId - Order ID
+ * @param sessionId - BFF session requesting the order
+ * @param accountId - Signed-in account requesting the order (null for guests)
+ * @returns Order, or null if it doesn't exist or belongs to someone else
+ */
+export async function getOrderForSession(
+  orderId: string,
+  sessionId: string | null,
+  accountId: string | null = null
+): Promise<Order | null> {
+  if (!sessionId && !accountId) {
+    return null;
+  }
+
+  const order = await orders.get(orderId);
+
+  if (!order) {
+    return null;
+  }
+
+  const isOwner = (sessionId && order.sessionId === sessionId) || (accountId && order.accountId === accountId);
+
+  return isOwner ? toOrder(order) : null;
+}
+
+/**
+ * Orders placed by an account, newest first
+ *
+ * @param accountId - Signed-in account
+ */
+export async function listOrdersForAccount(accountId: string): Promise<Order[]> {
+  const stored = await orders.values();
+
+  return stored
+    .filter((order) => order.accountId === accountId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .map(toOrder);
+}
+
+/**
+ * Product IDs in every stored order (for "frequently bought together")
+ *
+ * @returns One list of product IDs per order
+ */
+export async function getOrderedProductIds(): Promise<number[][]> {
+  const stored = await orders.values();
+
+  return stored.map((order) => order.items.map((item) => item.product_id));
+}
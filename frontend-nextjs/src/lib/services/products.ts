@@ -4,8 +4,50 @@
  */
 
 import { getProducts, getProduct, searchProducts, getCategories, getProductsByCategory, getAllConfiguredCategoryProducts } from '../clients/dummyjson';
+import { configuredCategories } from '../cms';
+import { cacheConfig } from '../config/cache';
+import { isNotFoundError } from '../clients/upstream';
+import { createSearchIndex, type SearchIndex } from './search-index';
 import type { Product, ProductCategory } from '../types/products';
 
+const storefrontCategories = new Set<string>(configuredCategories);
+
+// Catalog search index, rebuilt at most once per catalog revalidation window
+let catalogIndex: { index: SearchIndex<Product>; builtAt: number } | null = null;
+let pendingCatalogIndex: Promise<SearchIndex<Product>> | null = null;
+
+/**
+ * Get the search index for the configured-category catalog
+ * Serves a stale index if a refresh fails, so search survives upstream hiccups
+ */
+async function getCatalogIndex(): Promise<SearchIndex<Product>> {
+  const maxAge = cacheConfig.products.list * 1000;
+
+  if (catalogIndex && Date.now() - catalogIndex.builtAt < maxAge) {
+    return catalogIndex.index;
+  }
+
+  // Share one catalog fetch between concurrent searches
+  pendingCatalogIndex ??= getAllConfiguredCategoryProducts()
+    .then((response) => {
+      const index = createSearchIndex(response.products);
+      catalogIndex = { index, builtAt: Date.now() };
+      return index;
+    })
+    .finally(() => {
+      pendingCatalogIndex = null;
+    });
+
+  try {
+    return await pendingCatalogIndex;
+  } catch (error) {
+    if (catalogIndex) {
+      return catalogIndex.index;
+    }
+    throw error;
+  }
+}
+
 /**
  * Fetch paginated list of all products
  *
@@ -37,18 +79,63 @@ export async function fetchProductById(id: number): Promise<Product> {
   return getProduct(id);
 }
 
+/**
+ * Fetch several products by ID, in the order requested
+ * Products the upstream no longer has (404) are reported in missingIds so
+ * callers can forget them; other failures are skipped without being reported
+ *
+ * @param ids - Product IDs
+ * @returns Found products and IDs that no longer exist
+ */
+export async function fetchProductsByIds(ids: number[]): Promise<{ products: Product[]; missingIds: number[] }> {
+  const results = await Promise.allSettled(ids.map((id) => getProduct(id)));
+
+  const products: Product[] = [];
+  const missingIds: number[] = [];
+
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      products.push(result.value);
+    } else if (isNotFoundError(result.reason)) {
+      missingIds.push(ids[index]);
+    }
+  });
+
+  return { products, missingIds };
+}
+
 /**
  * Search products by query string
+ * Searches a local index over the configured-category catalog, so results
+ * are typo tolerant and never include off-brand DummyJSON products
+ * (groceries, vehicles, etc.). Falls back to the upstream search endpoint
+ * only when the catalog can't be loaded.
  *
  * @param query - Search query
- * @returns Matching products
+ * @returns Matching products from configured categories, best match first
  */
 export async function searchProductsByQuery(query: string): Promise<{ products: Product[]; total: number }> {
-  const response = await searchProducts(query);
+  let index: SearchIndex<Product>;
+
+  try {
+    index = await getCatalogIndex();
+  } catch (error) {
+    console.error('Search index unavailable, using upstream search:', error);
+
+    const response = await searchProducts(query);
+    const products = response.products.filter((product) => storefrontCategories.has(product.category));
+
+    return {
+      products,
+      total: products.length,
+    };
+  }
+
+  const products = index.search(query);
 
   return {
-    products: response.products,
-    total: response.total,
+    products,
+    total: products.length,
   };
 }
 
@@ -62,29 +149,18 @@ export async function fetchCategories(): Promise<ProductCategory[]> {
 }
 
 /**
- * Fetch products by category with pagination
+ * Fetch every product in a category
+ * Listing pages request single pages instead (see services/listing)
  *
  * @param category - Category slug
- * @param limit - Number of products per page
- * @param skip - Number of products to skip
- * @returns Products in category
+ * @returns All products in category
  */
-export async function fetchProductsByCategory(
-  category: string,
-  limit: number = 12,
-  skip: number = 0
-): Promise<{ products: Product[]; total: number; skip: number; limit: number }> {
+export async function fetchCollectionProducts(category: string): Promise<{ products: Product[]; total: number }> {
   const response = await getProductsByCategory(category);
 
-  // Note: DummyJSON doesn't support pagination for category filtering
-  // We'll simulate it client-side
-  const paginatedProducts = response.products.slice(skip, skip + limit);
-
   return {
-    products: paginatedProducts,
+    products: response.products,
     total: response.total,
-    skip,
-    limit,
   };
 }
 
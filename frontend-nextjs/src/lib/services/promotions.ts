@@ -0,0 +1,364 @@
+/**
+ * Promotion Service Layer
+ * Rules engine that evaluates configured promotions against cart lines
+ *
+ * Each promotion type has a rule that returns the discount it earns and a
+ * shopper-facing explanation. Stacking rules then pick the best valid
+ * combination. Pure functions with no server dependencies, so the client can
+ * recompute discounts during optimistic cart updates using the same rules
+ * as the BFF.
+ */
+
+import { promotions as configuredPromotions } from '../cms/promotions';
+import { categoryDisplayNames } from '../cms/categories';
+import { formatPrice } from '../../utils/format';
+import type { Cart, CartLineItem } from '../types/cart';
+import type {
+  AppliedPromotion,
+  Promotion,
+  PromotionResult,
+  PromotionType,
+} from '../types/promotions';
+
+/**
+ * Cookie holding the applied promo code (set by /api/cart/promo)
+ */
+export const PROMO_COOKIE_NAME = 'luna_promo';
+
+/**
+ * Promo code rejected for the current cart (unknown, expired, minimum not met)
+ */
+export class PromoCodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromoCodeError';
+  }
+}
+
+export type PromoValidation =
+  | { valid: true; code: string }
+  | { valid: false; message: string };
+
+export interface EvaluateOptions {
+  code?: string | null; // promo code entered by the shopper
+  now?: Date; // injectable for tests
+  promotions?: Promotion[]; // defaults to configured promotions
+}
+
+/**
+ * Discount earned by a single promotion rule
+ */
+interface RuleOutcome {
+  amount: number; // in cents
+  explanation: string;
+}
+
+type PromotionRule<P extends Promotion> = (promotion: P, items: CartLineItem[], subtotal: number) => RuleOutcome | null;
+
+type PromotionRules = {
+  [T in PromotionType]: PromotionRule<Extract<Promotion, { type: T }>>;
+};
+
+function formatCategories(categories: string[]): string {
+  const names = categories.map((slug) => categoryDisplayNames[slug] ?? slug);
+  return names.length > 1
+    ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`
+    : names[0];
+}
+
+function pluralize(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Rule implementations, one per promotion type
+ * Add a type to lib/types/promotions.ts and a rule here to extend the engine.
+ */
+const promotionRules: PromotionRules = {
+  percentage: (promotion, _items, subtotal) => ({
+    amount: Math.round(subtotal * (promotion.percentage / 100)),
+    explanation: `${promotion.percentage}% off your order`,
+  }),
+
+  'fixed-amount': (promotion, _items, subtotal) => ({
+    amount: Math.min(subtotal, promotion.amount),
+    explanation: `${formatPrice(promotion.amount)} off your order`,
+  }),
+
+  'buy-x-get-y': (promotion, items) => {
+    const eligible = items.filter(
+      (item) => !promotion.categories || (item.category !== undefined && (promotion.categories as string[]).includes(item.category))
+    );
+
+    // Expand to individual units, most expensive first; in each group of
+    // buy + get units the cheapest `get` units are discounted
+    const unitPrices = eligible
+      .flatMap((item) => Array.from({ length: item.quantity }, () => item.price))
+      .sort((a, b) => b - a);
+
+    const groupSize = promotion.buyQuantity + promotion.getQuantity;
+    const groups = Math.floor(unitPrices.length / groupSize);
+    if (groups === 0) {
+      return null;
+    }
+
+    let amount = 0;
+    for (let group = 0; group < groups; group++) {
+      const groupUnits = unitPrices.slice(group * groupSize, (group + 1) * groupSize);
+      groupUnits.slice(promotion.buyQuantity).forEach((price) => {
+        amount += Math.round(price * (promotion.discountPercentage / 100));
+      });
+    }
+
+    const discountedUnits = groups * promotion.getQuantity;
+    const scope = promotion.categories ? ` on ${formatCategories(promotion.categories)}` : '';
+    const reward = promotion.discountPercentage === 100 ? 'free' : `${promotion.discountPercentage}% off`;
+
+    return {
+      amount,
+      explanation: `Buy ${promotion.buyQuantity}, get ${promotion.getQuantity} ${reward}${scope}: ${pluralize(discountedUnits, 'item')} ${reward}`,
+    };
+  },
+
+  category: (promotion, items) => {
+    const eligible = items.filter(
+      (item) => item.category !== undefined && (promotion.categories as string[]).includes(item.category)
+    );
+    if (eligible.length === 0) {
+      return null;
+    }
+
+    const eligibleTotal = eligible.reduce((sum, item) => sum + item.price * item.quantity, 0);
+    const units = eligible.reduce((sum, item) => sum + item.quantity, 0);
+
+    return {
+      amount: Math.round(eligibleTotal * (promotion.percentage / 100)),
+      explanation: `${promotion.percentage}% off ${formatCategories(promotion.categories)} (${pluralize(units, 'item')})`,
+    };
+  },
+
+  'tiered-spend': (promotion, _items, subtotal) => {
+    const tiers = [...promotion.tiers].sort((a, b) => a.threshold - b.threshold);
+    const reached = tiers.filter((tier) => subtotal >= tier.threshold);
+    const tier = reached[reached.length - 1];
+    if (!tier) {
+      return null;
+    }
+
+    const nextTier = tiers[reached.length];
+    const next = nextTier
+      ? ` (spend ${formatPrice(nextTier.threshold)} for ${formatPrice(nextTier.amount)} off)`
+      : '';
+
+    return {
+      amount: Math.min(subtotal, tier.amount),
+      explanation: `Spent over ${formatPrice(tier.threshold)}: ${formatPrice(tier.amount)} off${next}`,
+    };
+  },
+};
+
+/**
+ * Normalize user-entered codes ("  expecto-20 " -> "EXPECTO-20")
+ */
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+function getSubtotal(items: CartLineItem[]): number {
+  return items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+}
+
+/**
+ * Why a promotion can't currently be used (null if it can)
+ */
+function getIneligibilityReason(promotion: Promotion, subtotal: number, now: Date): string | null {
+  if (promotion.enabled === false) {
+    return 'This promo code is not valid';
+  }
+
+  if (promotion.startsAt && now.getTime() < promotion.startsAt.getTime()) {
+    return 'This promo code is not active yet';
+  }
+
+  if (promotion.expiresAt && now.getTime() > promotion.expiresAt.getTime()) {
+    return 'This promo code has expired';
+  }
+
+  if (promotion.minimumOrder != null && subtotal < promotion.minimumOrder) {
+    return `Spend ${formatPrice(promotion.minimumOrder)} or more to use this code`;
+  }
+
+  return null;
+}
+
+function evaluateRule(promotion: Promotion, items: CartLineItem[], subtotal: number): RuleOutcome | null {
+  const rule = promotionRules[promotion.type] as PromotionRule<Promotion>;
+  return rule(promotion, items, subtotal);
+}
+
+/**
+ * Find the configured promotion for a code
+ */
+function findPromotionByCode(code: string, promotions: Promotion[]): Promotion | undefined {
+  const normalized = normalizePromoCode(code);
+  return promotions.find((promotion) => promotion.code && normalizePromoCode(promotion.code) === normalized);
+}
+
+/**
+ * Choose the best valid combination under the stacking rules
+ * Either every stackable promotion together, or a single exclusive one
+ */
+function selectBestCombination(candidates: AppliedPromotion[], exclusiveIds: Set<string>): AppliedPromotion[] {
+  const total = (applied: AppliedPromotion[]) => applied.reduce((sum, promotion) => sum + promotion.amount, 0);
+
+  const combinations: AppliedPromotion[][] = [
+    candidates.filter((promotion) => !exclusiveIds.has(promotion.id)),
+    ...candidates.filter((promotion) => exclusiveIds.has(promotion.id)).map((promotion) => [promotion]),
+  ];
+
+  // Ties go to the earlier combination (stackable set first)
+  return combinations.reduce((best, combination) => (total(combination) > total(best) ? combination : best), []);
+}
+
+/**
+ * Evaluate promotions against cart lines
+ *
+ * @param items - Cart line items (prices in cents)
+ * @param options - Entered promo code, clock and promotion list
+ * @returns Total discount (never more than the subtotal) and the applied promotions
+ */
+export function evaluatePromotions(items: CartLineItem[], options: EvaluateOptions = {}): PromotionResult {
+  const { code, now = new Date(), promotions = configuredPromotions } = options;
+  const subtotal = getSubtotal(items);
+  const enteredCode = code ? normalizePromoCode(code) : null;
+
+  const candidates: AppliedPromotion[] = [];
+  const exclusiveIds = new Set<string>();
+
+  for (const promotion of promotions) {
+    // Coded promotions only apply when their code is entered
+    if (promotion.code && normalizePromoCode(promotion.code) !== enteredCode) {
+      continue;
+    }
+
+    if (getIneligibilityReason(promotion, subtotal, now)) {
+      continue;
+    }
+
+    const outcome = evaluateRule(promotion, items, subtotal);
+    if (!outcome || outcome.amount <= 0) {
+      continue;
+    }
+
+    if (promotion.stacking === 'exclusive') {
+      exclusiveIds.add(promotion.id);
+    }
+
+    candidates.push({
+      id: promotion.id,
+      label: promotion.label,
+      code: promotion.code ? normalizePromoCode(promotion.code) : undefined,
+      amount: outcome.amount,
+      explanation: outcome.explanation,
+    });
+  }
+
+  // Cap the combined discount at the subtotal, trimming the last promotion
+  let remaining = subtotal;
+  const applied = selectBestCombination(candidates, exclusiveIds)
+    .map((promotion) => {
+      const amount = Math.min(promotion.amount, remaining);
+      remaining -= amount;
+      return { ...promotion, amount };
+    })
+    .filter((promotion) => promotion.amount > 0);
+
+  return {
+    discount: applied.reduce((sum, promotion) => sum + promotion.amount, 0),
+    applied,
+  };
+}
+
+/**
+ * Check that a promo code can be used with the cart
+ *
+ * @param code - Code entered by the shopper
+ * @param items - Cart line items (prices in cents)
+ * @param options - Clock and promotion list
+ * @returns Normalized code, or the reason it was rejected
+ */
+export function validatePromoCode(
+  code: string,
+  items: CartLineItem[],
+  options: Omit<EvaluateOptions, 'code'> = {}
+): PromoValidation {
+  const { now = new Date(), promotions = configuredPromotions } = options;
+  const promotion = findPromotionByCode(code, promotions);
+
+  if (!promotion) {
+    return { valid: false, message: 'This promo code is not valid' };
+  }
+
+  const reason = getIneligibilityReason(promotion, getSubtotal(items), now);
+  if (reason) {
+    return { valid: false, message: reason };
+  }
+
+  const outcome = evaluateRule(promotion, items, getSubtotal(items));
+  if (!outcome || outcome.amount <= 0) {
+    return { valid: false, message: 'This promo code doesn’t apply to the items in your cart' };
+  }
+
+  return { valid: true, code: normalizePromoCode(promotion.code!) };
+}
+
+/**
+ * Calculate the total discount for a cart
+ *
+ * @param code - Applied promo code (null if none)
+ * @param items - Cart line items (prices in cents)
+ * @returns Discount in cents, never more than the subtotal
+ */
+export function calculateDiscount(code: string | null | undefined, items: CartLineItem[]): number {
+  return evaluatePromotions(items, { code }).discount;
+}
+
+/**
+ * Attach the promo code, discount and applied promotions to a cart
+ *
+ * @param cart - Cart from the backend
+ * @param code - Applied promo code (null if none)
+ * @returns Cart with discount, promo_code and promotions set
+ */
+export function applyPromotion(cart: Cart, code: string | null): Cart {
+  const { discount, applied } = evaluatePromotions(cart.items, { code });
+
+  return {
+    ...cart,
+    discount,
+    promo_code: code ? normalizePromoCode(code) : null,
+    promotions: applied,
+  };
+}
+
+/**
+ * Read the applied promo code from a Cookie header
+ *
+ * @param cookieHeader - Raw Cookie header from the browser
+ * @returns Promo code, or null if none is applied
+ */
+export function readPromoCode(cookieHeader?: string): string | null {
+  if (!cookieHeader) {
+    return null;
+  }
+
+  for (const part of cookieHeader.split(';')) {
+    const [name, ...rest] = part.trim().split('=');
+    if (name === PROMO_COOKIE_NAME) {
+      const value = decodeURIComponent(rest.join('='));
+      return value || null;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,256 @@
+/**
+ * Recommendation Service
+ * Ranks catalog products for "You may also like" and "Frequently bought together"
+ *
+ * Similar products are scored against a seed product by shared tags,
+ * brand, price proximity, rating and category. Bought-together ranks by how
+ * often products were ordered alongside the seeds (the product plus the
+ * cart), falling back to similarity when there are no past orders. Cart
+ * suggestions match the cart's categories and tags and favour products that
+ * close the gap to free shipping. Ties are broken by product ID so rankings
+ * are deterministic.
+ */
+
+import { getAllConfiguredCategoryProducts, getProduct } from '../clients/dummyjson';
+import { getOrderedProductIds } from './orders';
+import { cartConfig } from '../config/cart';
+import type { Product, RecommendationMode } from '../types/products';
+
+export const recommendationModes: RecommendationMode[] = ['similar', 'bought-together'];
+
+/**
+ * Relative weight of each signal (each signal is normalized to 0..1)
+ */
+export const recommendationWeights = {
+  tags: 4, // Jaccard overlap of tags
+  brand: 2, // same brand
+  price: 2, // closeness in price
+  rating: 1, // candidate rating out of 5
+  category: 1, // same category
+  boughtTogether: 6, // share of co-purchases (bought-together mode)
+  complementary: 2, // category not already in the cart, outweighing same-category (bought-together mode)
+  closesGap: 3, // reaches the free shipping threshold (cart suggestions)
+};
+
+interface RankOptions {
+  limit: number;
+  excludeIds?: number[];
+}
+
+/**
+ * Jaccard similarity of two tag lists
+ */
+function tagOverlap(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+
+  const setA = new Set(a);
+  const setB = new Set(b);
+  let shared = 0;
+  setA.forEach((tag) => {
+    if (setB.has(tag)) shared++;
+  });
+
+  return shared / (setA.size + setB.size - shared);
+}
+
+/**
+ * Price proximity: 1 for the same price, 0 once one costs at least double the other
+ */
+function priceProximity(a: number, b: number): number {
+  const higher = Math.max(a, b);
+  if (higher <= 0) return 0;
+
+  return Math.max(0, 1 - Math.abs(a - b) / higher);
+}
+
+/**
+ * Score how similar a candidate is to the seed product
+ */
+export function scoreSimilarity(seed: Product, candidate: Product): number {
+  const w = recommendationWeights;
+  const sameBrand = !!seed.brand && seed.brand === candidate.brand;
+
+  return (
+    w.tags * tagOverlap(seed.tags ?? [], candidate.tags ?? []) +
+    w.brand * (sameBrand ? 1 : 0) +
+    w.price * priceProximity(seed.price, candidate.price) +
+    w.rating * Math.min(1, Math.max(0, (candidate.rating ?? 0) / 5)) +
+    w.category * (seed.category === candidate.category ? 1 : 0)
+  );
+}
+
+/**
+ * Sort scored candidates (highest first, then lowest ID) and take the top N
+ */
+function topScored(scored: Array<{ product: Product; score: number }>, limit: number): Product[] {
+  return scored
+    .sort((a, b) => b.score - a.score || a.product.id - b.product.id)
+    .slice(0, limit)
+    .map(({ product }) => product);
+}
+
+/**
+ * Rank candidates by similarity to the seed product
+ */
+export function rankSimilarProducts(seed: Product, candidates: Product[], { limit, excludeIds = [] }: RankOptions): Product[] {
+  const excluded = new Set([seed.id, ...excludeIds]);
+
+  return topScored(
+    candidates
+      .filter((candidate) => !excluded.has(candidate.id))
+      .map((candidate) => ({ product: candidate, score: scoreSimilarity(seed, candidate) })),
+    limit
+  );
+}
+
+/**
+ * Rank candidates to buy alongside the seeds (the product plus the cart)
+ *
+ * @param seeds - Products already chosen
+ * @param candidates - Products that could be recommended
+ * @param orders - Product IDs in each past order
+ */
+export function rankBoughtTogether(
+  seeds: Product[],
+  candidates: Product[],
+  orders: number[][],
+  { limit, excludeIds = [] }: RankOptions
+): Product[] {
+  if (seeds.length === 0) return [];
+
+  const w = recommendationWeights;
+  const seedIds = new Set(seeds.map((seed) => seed.id));
+  const seedCategories = new Set(seeds.map((seed) => seed.category));
+  const excluded = new Set([...seedIds, ...excludeIds]);
+
+  // How many orders contained each product alongside at least one seed
+  const coPurchases = new Map<number, number>();
+  orders.forEach((productIds) => {
+    if (!productIds.some((id) => seedIds.has(id))) return;
+    new Set(productIds).forEach((id) => {
+      if (!seedIds.has(id)) {
+        coPurchases.set(id, (coPurchases.get(id) ?? 0) + 1);
+      }
+    });
+  });
+  const maxCoPurchases = Math.max(0, ...coPurchases.values());
+
+  return topScored(
+    candidates
+      .filter((candidate) => !excluded.has(candidate.id))
+      .map((candidate) => {
+        const similarity = seeds.reduce((sum, seed) => sum + scoreSimilarity(seed, candidate), 0) / seeds.length;
+        const boughtTogether = maxCoPurchases > 0 ? (coPurchases.get(candidate.id) ?? 0) / maxCoPurchases : 0;
+        const complementary = seedCategories.has(candidate.category) ? 0 : 1;
+
+        return {
+          product: candidate,
+          score: similarity + w.boughtTogether * boughtTogether + w.complementary * complementary,
+        };
+      }),
+    limit
+  );
+}
+
+/**
+ * How well a price closes the gap to free shipping
+ * 1 for exactly the gap, less the further it overshoots; products that only
+ * narrow the gap get at most half credit
+ */
+function gapFit(price: number, gap: number): number {
+  if (gap <= 0 || price <= 0) return 0;
+
+  return price >= gap ? gap / price : 0.5 * (price / gap);
+}
+
+/**
+ * Rank suggestions for the whole cart
+ *
+ * @param cartProducts - Products in the cart (empty cart: best rated, gap-closing products)
+ * @param candidates - Products that could be suggested
+ * @param options.gap - Amount left until free shipping, in dollars (0 once reached)
+ */
+export function rankCartSuggestions(
+  cartProducts: Product[],
+  candidates: Product[],
+  { gap, limit, excludeIds = [] }: RankOptions & { gap: number }
+): Product[] {
+  const w = recommendationWeights;
+  const excluded = new Set([...cartProducts.map((product) => product.id), ...excludeIds]);
+  const cartCategories = new Set(cartProducts.map((product) => product.category));
+  const cartTags = [...new Set(cartProducts.flatMap((product) => product.tags ?? []))];
+
+  return topScored(
+    candidates
+      .filter((candidate) => !excluded.has(candidate.id) && candidate.stock !== 0)
+      .map((candidate) => ({
+        product: candidate,
+        score:
+          w.tags * tagOverlap(cartTags, candidate.tags ?? []) +
+          w.category * (cartCategories.has(candidate.category) ? 1 : 0) +
+          w.rating * Math.min(1, Math.max(0, (candidate.rating ?? 0) / 5)) +
+          w.closesGap * gapFit(candidate.price, gap),
+      })),
+    limit
+  );
+}
+
+/**
+ * Fetch suggestions for the cart from the configured-category catalog
+ *
+ * @param options.cartProductIds - Products in the cart
+ * @param options.subtotal - Cart subtotal in cents (pre-discount, like shipping)
+ * @param options.limit - Maximum number of suggestions
+ * @returns Suggested products, best first
+ */
+export async function fetchCartSuggestions({
+  cartProductIds,
+  subtotal,
+  limit = 3,
+}: { cartProductIds: number[]; subtotal: number; limit?: number }): Promise<Product[]> {
+  const catalog = await getAllConfiguredCategoryProducts();
+
+  const cartIds = new Set(cartProductIds);
+  const cartProducts = catalog.products.filter((product) => cartIds.has(product.id));
+
+  const { enabled, threshold } = cartConfig.freeShippingPromo;
+  const gap = enabled ? Math.max(0, threshold - subtotal) / 100 : 0;
+
+  return rankCartSuggestions(cartProducts, catalog.products, { gap, limit, excludeIds: cartProductIds });
+}
+
+/**
+ * Fetch recommendations for a product from the configured-category catalog
+ *
+ * @param productId - Seed product ID
+ * @param options.mode - similar (default) or bought-together
+ * @param options.cartProductIds - Products in the cart (extra seeds for bought-together)
+ * @param options.limit - Maximum number of recommendations
+ * @returns Recommended products, best first
+ */
+export async function fetchRecommendations(
+  productId: number,
+  {
+    mode = 'similar',
+    cartProductIds = [],
+    limit = 4,
+  }: { mode?: RecommendationMode; cartProductIds?: number[]; limit?: number } = {}
+): Promise<Product[]> {
+  const catalog = await getAllConfiguredCategoryProducts();
+
+  // Products outside the configured categories can still be viewed directly
+  const seed = catalog.products.find((product) => product.id === productId) ?? (await getProduct(productId));
+
+  if (mode === 'bought-together') {
+    const cartIds = new Set(cartProductIds);
+    const cartProducts = catalog.products.filter((product) => cartIds.has(product.id) && product.id !== seed.id);
+    const orders = await getOrderedProductIds();
+
+    return rankBoughtTogether([seed, ...cartProducts], catalog.products, orders, {
+      limit,
+      excludeIds: cartProductIds,
+    });
+  }
+
+  return rankSimilarProducts(seed, catalog.products, { limit });
+}
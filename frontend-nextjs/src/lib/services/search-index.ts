@@ -0,0 +1,237 @@
+/**
+ * Product Search Index
+ * In-memory full-text index over the catalog with prefix matching,
+ * typo tolerance and field-weighted ranking
+ *
+ * Pure and framework-free so the same index runs in route handlers and
+ * in the browser (over the React Query product cache).
+ */
+
+import { categoryDisplayNames } from '../cms';
+import type { Product } from '../types/products';
+
+/**
+ * Fields the index reads from each product
+ */
+export type SearchableProduct = Pick<Product, 'id' | 'title' | 'description' | 'category' | 'tags'> & {
+  brand?: string;
+};
+
+type SearchField = 'title' | 'brand' | 'tags' | 'category' | 'description';
+
+/**
+ * Relative importance of a match in each field
+ */
+export const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 10,
+  brand: 6,
+  tags: 5,
+  category: 4,
+  description: 1,
+};
+
+/**
+ * How strongly each kind of term match counts (multiplied by field weight)
+ */
+const MATCH_QUALITY = {
+  exact: 1,
+  prefix: 0.75,
+  typo: 0.6,
+  typoPrefix: 0.45,
+} as const;
+
+// Prefix matching on one letter would match most of the vocabulary
+const MIN_PREFIX_LENGTH = 2;
+
+export interface SearchOptions {
+  limit?: number;
+}
+
+export interface SearchIndex<T extends SearchableProduct> {
+  search(query: string, options?: SearchOptions): T[];
+  size: number;
+}
+
+interface Posting {
+  doc: number;
+  weight: number;
+}
+
+/**
+ * Split text into lowercase, accent-free alphanumeric tokens
+ */
+export function tokenize(text: string | undefined): string[] {
+  if (!text) return [];
+
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Number of typos tolerated for a query token of a given length
+ * Short words must match exactly or "bag" would also find "tag" and "bat"
+ */
+export function maxTypos(length: number): number {
+  if (length <= 3) return 0;
+  if (length <= 7) return 1;
+  return 2;
+}
+
+/**
+ * Edit distance (insertions, deletions, substitutions and adjacent
+ * transpositions) between two strings, bailing out once it exceeds max
+ *
+ * @returns The distance, or max + 1 if it is larger than max
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  if (a === b) return 0;
+
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousPrevious[j - 2] + 1);
+      }
+
+      current[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+
+    if (rowMin > max) return max + 1;
+
+    previousPrevious = previous;
+    previous = current;
+  }
+
+  return previous[b.length] > max ? max + 1 : previous[b.length];
+}
+
+/**
+ * How well a query token matches an indexed term (0 = no match)
+ */
+function matchTerm(token: string, term: string): number {
+  if (token === term) return MATCH_QUALITY.exact;
+
+  if (token.length >= MIN_PREFIX_LENGTH && term.startsWith(token)) {
+    return MATCH_QUALITY.prefix;
+  }
+
+  const typos = maxTypos(token.length);
+  if (typos === 0) return 0;
+
+  if (editDistance(token, term, typos) <= typos) {
+    return MATCH_QUALITY.typo;
+  }
+
+  // Typo in a partially typed word ("perfu" -> "perfume", "prefu" -> "perfume")
+  if (term.length > token.length && editDistance(token, term.slice(0, token.length), typos) <= typos) {
+    return MATCH_QUALITY.typoPrefix;
+  }
+
+  return 0;
+}
+
+/**
+ * Text for each searchable field of a product
+ */
+function getFieldText(product: SearchableProduct): Record<SearchField, string> {
+  return {
+    title: product.title,
+    brand: product.brand ?? '',
+    tags: (product.tags ?? []).join(' '),
+    // Index both the slug ("womens-dresses") and display name ("Dresses")
+    category: `${product.category} ${categoryDisplayNames[product.category] ?? ''}`,
+    description: product.description,
+  };
+}
+
+/**
+ * Build a search index over a list of products
+ *
+ * @param products - Catalog to index
+ * @returns Index whose search() returns products ranked by relevance
+ */
+export function createSearchIndex<T extends SearchableProduct>(products: T[]): SearchIndex<T> {
+  // term -> best field weight per product containing it
+  const postings = new Map<string, Posting[]>();
+
+  products.forEach((product, doc) => {
+    const termWeights = new Map<string, number>();
+    const fields = getFieldText(product);
+
+    (Object.keys(FIELD_WEIGHTS) as SearchField[]).forEach((field) => {
+      tokenize(fields[field]).forEach((term) => {
+        termWeights.set(term, Math.max(termWeights.get(term) ?? 0, FIELD_WEIGHTS[field]));
+      });
+    });
+
+    termWeights.forEach((weight, term) => {
+      const list = postings.get(term) ?? [];
+      list.push({ doc, weight });
+      postings.set(term, list);
+    });
+  });
+
+  const vocabulary = Array.from(postings.keys());
+
+  return {
+    size: products.length,
+
+    search(query, options = {}) {
+      const tokens = Array.from(new Set(tokenize(query)));
+      if (tokens.length === 0) return [];
+
+      let scores: Map<number, number> | null = null;
+
+      for (const token of tokens) {
+        // Best score this token earns in each product
+        const tokenScores = new Map<number, number>();
+
+        for (const term of vocabulary) {
+          const quality = matchTerm(token, term);
+          if (quality === 0) continue;
+
+          for (const { doc, weight } of postings.get(term)!) {
+            const score = quality * weight;
+            if (score > (tokenScores.get(doc) ?? 0)) {
+              tokenScores.set(doc, score);
+            }
+          }
+        }
+
+        // Every query token must match somewhere in the product
+        const nextScores = new Map<number, number>();
+        tokenScores.forEach((score, doc) => {
+          if (scores === null) {
+            nextScores.set(doc, score);
+          } else if (scores.has(doc)) {
+            nextScores.set(doc, scores.get(doc)! + score);
+          }
+        });
+
+        scores = nextScores;
+        if (scores.size === 0) return [];
+      }
+
+      // Highest score first; catalog order breaks ties
+      const ranked = Array.from(scores!.entries())
+        .sort(([docA, scoreA], [docB, scoreB]) => scoreB - scoreA || docA - docB)
+        .map(([doc]) => products[doc]);
+
+      return options.limit !== undefined ? ranked.slice(0, options.limit) : ranked;
+    },
+  };
+}
@@ -0,0 +1,116 @@
+/**
+ * Shipping Service Layer
+ * Prices the configured shipping methods for a cart and destination
+ *
+ * The destination picks a zone, the cart's total weight (from the product
+ * catalog) picks the price within each method's rate for that zone, and the
+ * free shipping threshold waives the methods it covers.
+ */
+
+import { fetchProductsByIds } from './products';
+import { shippingConfig, qualifiesForFreeShipping, type ShippingZone } from '../config/shipping';
+import type { ShippingDestination, ShippingItem, ShippingRate, ShippingRatesResponse } from '../types/shipping';
+
+export interface QuoteShippingOptions {
+  destination: ShippingDestination;
+  weight: number; // total weight in kg
+  subtotal: number; // pre-discount subtotal in cents
+}
+
+function normalize(value: string | undefined): string {
+  return (value ?? '').replace(/\s+/g, '').toUpperCase();
+}
+
+/**
+ * Find the shipping zone for a destination
+ * Zones are checked in configured order, so regional zones win over the country
+ *
+ * @param destination - Shipping country and state/province
+ * @param zones - Zones to search (defaults to configured zones)
+ * @returns Matching zone, or null if we don't ship there
+ */
+export function findShippingZone(
+  destination: ShippingDestination,
+  zones: ShippingZone[] = shippingConfig.zones
+): ShippingZone | null {
+  const country = normalize(destination.country);
+  const region = normalize(destination.region);
+
+  return (
+    zones.find(
+      (zone) =>
+        zone.country === country &&
+        (!zone.regions || zone.regions.some((zoneRegion) => normalize(zoneRegion) === region))
+    ) ?? null
+  );
+}
+
+/**
+ * Total weight of cart lines in kg
+ *
+ * @param items - Product IDs and quantities
+ * @param weights - Product weight in kg by product ID (missing products use the default weight)
+ */
+export function calculateShippingWeight(items: ShippingItem[], weights: Map<number, number>): number {
+  const total = items.reduce(
+    (sum, item) => sum + (weights.get(item.productId) ?? shippingConfig.defaultItemWeightKg) * item.quantity,
+    0
+  );
+
+  // Trim floating point noise so whole-kilogram boundaries stay exact
+  return Math.round(total * 1000) / 1000;
+}
+
+/**
+ * Price every shipping method offered for a destination
+ *
+ * @param options - Destination, cart weight and subtotal
+ * @returns Zone, weight and rates in configured method order, or null if we don't ship there
+ */
+export function quoteShipping({ destination, weight, subtotal }: QuoteShippingOptions): ShippingRatesResponse | null {
+  const zone = findShippingZone(destination);
+
+  if (!zone) {
+    return null;
+  }
+
+  const extraKg = Math.max(0, Math.ceil(weight - shippingConfig.includedKg));
+  const freeShipping = qualifiesForFreeShipping(subtotal);
+
+  const rates: ShippingRate[] = shippingConfig.methods
+    .filter((method) => method.rates[zone.id])
+    .map((method) => {
+      const { base, perKg } = method.rates[zone.id];
+      const free = freeShipping && shippingConfig.freeShipping.methods.includes(method.id);
+
+      return {
+        id: method.id,
+        label: method.label,
+        amount: free ? 0 : base + perKg * extraKg,
+        minDays: method.minDays,
+        maxDays: method.maxDays,
+        free,
+      };
+    });
+
+  return { zone: zone.id, weight, rates };
+}
+
+/**
+ * Look up product weights in the catalog and total them for the cart
+ *
+ * @param items - Product IDs and quantities
+ * @returns Total weight in kg
+ */
+export async function fetchShippingWeight(items: ShippingItem[]): Promise<number> {
+  const productIds = [...new Set(items.map((item) => item.productId))];
+  const { products } = await fetchProductsByIds(productIds);
+
+  const weights = new Map(
+    products
+      .filter((product) => typeof product.weight === 'number' && product.weight > 0)
+      .map((product) => [product.id, product.weight])
+  );
+
+  return calculateShippingWeight(items, weights);
+}
@@ -0,0 +1,100 @@
+/**
+ * Tax Service Layer
+ * Works out sales tax for a cart shipped to a given address
+ *
+ * The shipping address picks a jurisdiction from lib/config/tax.ts, which
+ * supplies the rates, whether shipping is taxed and which categories are
+ * exempt. Pure functions with no server dependencies, so the checkout page
+ * shows the same breakdown the BFF charges.
+ */
+
+import { taxConfig, type TaxJurisdiction } from '../config/tax';
+import type { CartLineItem } from '../types/cart';
+import type { TaxAddress, TaxBreakdown, TaxLine } from '../types/tax';
+
+export interface CalculateTaxOptions {
+  address: TaxAddress;
+  shipping: number; // in cents
+  discount?: number; // promo discount in cents
+  jurisdictions?: TaxJurisdiction[]; // defaults to configured jurisdictions
+}
+
+function normalize(value: string | undefined): string {
+  return (value ?? '').replace(/\s+/g, '').toUpperCase();
+}
+
+/**
+ * Find the jurisdiction for an address
+ * A state/province entry (matched by code or name) wins over the country entry
+ *
+ * @param address - Shipping address
+ * @param jurisdictions - Jurisdictions to search (defaults to configured ones)
+ * @returns Matching jurisdiction, or null if the country isn't configured
+ */
+export function findJurisdiction(
+  address: TaxAddress,
+  jurisdictions: TaxJurisdiction[] = taxConfig.jurisdictions
+): TaxJurisdiction | null {
+  const country = normalize(address.country);
+  const region = normalize(address.region);
+  const inCountry = jurisdictions.filter((jurisdiction) => jurisdiction.country === country);
+
+  const regional = region
+    ? inCountry.find(
+        (jurisdiction) =>
+          jurisdiction.region !== undefined &&
+          (normalize(jurisdiction.region) === region || normalize(jurisdiction.regionName) === region)
+      )
+    : undefined;
+
+  return regional ?? inCountry.find((jurisdiction) => jurisdiction.region === undefined) ?? null;
+}
+
+/**
+ * Calculate tax for cart lines shipped to an address
+ *
+ * The promo discount is spread over taxable and exempt goods in proportion
+ * to their value, and each tax is rounded to the cent on its own line.
+ *
+ * @param items - Cart line items (prices in cents)
+ * @param options - Shipping address, shipping charge and discount
+ * @returns Itemised tax breakdown in cents
+ */
+export function calculateTax(items: CartLineItem[], options: CalculateTaxOptions): TaxBreakdown {
+  const { address, shipping, discount = 0 } = options;
+  const jurisdiction = findJurisdiction(address, options.jurisdictions);
+
+  const subtotal = items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+  const exemptSubtotal = items
+    .filter((item) => item.category !== undefined && jurisdiction?.exemptCategories.includes(item.category))
+    .reduce((sum, item) => sum + item.price * item.quantity, 0);
+
+  const appliedDiscount = Math.min(discount, subtotal);
+  const exemptDiscount = subtotal > 0 ? Math.round(appliedDiscount * (exemptSubtotal / subtotal)) : 0;
+
+  const exemptAmount = exemptSubtotal - exemptDiscount;
+  const taxableGoods = subtotal - exemptSubtotal - (appliedDiscount - exemptDiscount);
+  const shippingTaxable = jurisdiction?.taxShipping ?? false;
+  const taxableAmount = taxableGoods + (shippingTaxable ? shipping : 0);
+
+  const postalCode = normalize(address.postalCode);
+  const lines: TaxLine[] = (jurisdiction?.components ?? [])
+    .filter((component) => !component.postalPrefixes || component.postalPrefixes.some((prefix) => postalCode.startsWith(prefix)))
+    .map((component) => ({
+      id: component.id,
+      label: component.label,
+      rate: component.rate,
+      taxableAmount,
+      amount: Math.round(taxableAmount * component.rate),
+    }));
+
+  return {
+    jurisdiction: jurisdiction
+      ? [jurisdiction.country, jurisdiction.region].filter(Boolean).join('-')
+      : null,
+    lines,
+    exemptAmount,
+    shippingTaxable,
+    total: lines.reduce((sum, line) => sum + line.amount, 0),
+  };
+}
@@ -0,0 +1,50 @@
+/**
+ * Wishlist Service Layer
+ * Domain operations for the saved-for-later wishlist
+ *
+ * The wishlist lives in the backend session next to the cart, so guests
+ * keep it for as long as they keep their cart.
+ */
+
+import { getWishlist, addToWishlist, removeFromWishlist } from '../clients/backend';
+import type { FetchResult } from '../clients/upstream';
+import type { Wishlist, AddToWishlistRequest, WishlistProduct } from '../types/wishlist';
+
+/**
+ * Fetch current wishlist state
+ * @param cookieHeader - Optional cookie header to forward to backend
+ */
+export async function fetchWishlist(cookieHeader?: string): Promise<FetchResult<Wishlist>> {
+  return getWishlist(cookieHeader);
+}
+
+/**
+ * Save a product to the wishlist (converts price from dollars to cents)
+ *
+ * @param product - Product to save
+ * @param cookieHeader - Optional cookie header to forward to backend
+ * @returns Updated wishlist and headers
+ */
+export async function addProductToWishlist(product: WishlistProduct, cookieHeader?: string): Promise<FetchResult<Wishlist>> {
+  const request: AddToWishlistRequest = {
+    product_id: product.id,
+    title: product.title,
+    price: product.price, // Backend will convert to cents
+    image: product.thumbnail,
+    brand: product.brand,
+    category: product.category,
+  };
+
+  return addToWishlist(request, cookieHeader);
+}
+
+/**
+ * Remove a product from the wishlist
+ *
+ * @param productId - Product ID
+ * @param cookieHeader - Optional cookie header to forward to backend
+ * @returns Updated wishlist and headers
+ */
+export async function removeWishlistItem(productId: number, cookieHeader?: string): Promise<FetchResult<Wishlist>> {
+  return removeFromWishlist(productId, cookieHeader);
+}
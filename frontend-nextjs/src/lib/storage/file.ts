@@ -0,0 +1,83 @@
+/**
+ * File Storage Driver
+ * Persists each namespace as a JSON document under DATA_DIR (default: .data)
+ *
+ * Writes are serialized per namespace so concurrent requests can't
+ * interleave a read-modify-write cycle.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { KeyValueStore } from './index';
+
+type Records = Record<string, unknown>;
+
+const writeQueues = new Map<string, Promise<unknown>>();
+
+function getFilePath(namespace: string): string {
+  const dataDir = process.env.DATA_DIR || path.join(process.cwd(), '.data');
+  return path.join(dataDir, `${namespace}.json`);
+}
+
+async function readRecords(filePath: string): Promise<Records> {
+  try {
+    const contents = await fs.readFile(filePath, 'utf8');
+    return JSON.parse(contents) as Records;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return {};
+    }
+    throw error;
+  }
+}
+
+async function writeRecords(filePath: string, records: Records): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+  // Write to a temp file then rename so readers never see a partial file
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(records, null, 2), 'utf8');
+  await fs.rename(tempPath, filePath);
+}
+
+/**
+ * Run a mutation after any pending mutation for the same file
+ */
+function enqueue<R>(filePath: string, task: () => Promise<R>): Promise<R> {
+  const previous = writeQueues.get(filePath) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  writeQueues.set(filePath, next);
+  return next;
+}
+
+export function createFileStore<T>(namespace: string): KeyValueStore<T> {
+  const filePath = getFilePath(namespace);
+
+  return {
+    async get(key) {
+      const records = await readRecords(filePath);
+      return (records[key] as T | undefined) ?? null;
+    },
+
+    async set(key, value) {
+      await enqueue(filePath, async () => {
+        const records = await readRecords(filePath);
+        records[key] = value;
+        await writeRecords(filePath, records);
+      });
+    },
+
+    async delete(key) {
+      await enqueue(filePath, async () => {
+        const records = await readRecords(filePath);
+        delete records[key];
+        await writeRecords(filePath, records);
+      });
+    },
+
+    async values() {
+      const records = await readRecords(filePath);
+      return Object.values(records) as T[];
+    },
+  };
+}
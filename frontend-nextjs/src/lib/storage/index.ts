@@ -0,0 +1,48 @@
+/**
+ * Server-Side Key/Value Storage
+ * Small persistence abstraction for records the BFF owns (orders, etc.)
+ *
+ * Drivers:
+ * - memory: process-local Map (default under test)
+ * - file: one JSON file per namespace in DATA_DIR (default elsewhere)
+ *
+ * Select explicitly with the STORAGE_DRIVER environment variable.
+ */
+
+import { createMemoryStore } from './memory';
+import { createFileStore } from './file';
+
+export interface KeyValueStore<T> {
+  get(key: string): Promise<T | null>;
+  set(key: string, value: T): Promise<void>;
+  delete(key: string): Promise<void>;
+  values(): Promise<T[]>;
+}
+
+export type StorageDriver = 'memory' | 'file';
+
+/**
+ * Resolve the configured storage driver
+ */
+export function getStorageDriver(): StorageDriver {
+  const driver = process.env.STORAGE_DRIVER;
+
+  if (driver === 'memory' || driver === 'file') {
+    return driver;
+  }
+
+  return process.env.NODE_ENV === 'test' ? 'memory' : 'file';
+}
+
+/**
+ * Create a store for a namespace using the configured driver
+ *
+ * @param namespace - Logical collection name (e.g. "orders")
+ * @param driver - Driver to use (defaults to the configured driver)
+ * @returns Key/value store scoped to the namespace
+ */
+export function createStore<T>(namespace: string, driver: StorageDriver = getStorageDriver()): KeyValueStore<T> {
+  return driver === 'file'
+    ? createFileStore<T>(namespace)
+    : createMemoryStore<T>(namespace);
+}
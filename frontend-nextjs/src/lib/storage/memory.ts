@@ -0,0 +1,46 @@
+/**
+ * In-Memory Storage Driver
+ * Process-local storage; data is lost on restart
+ */
+
+import type { KeyValueStore } from './index';
+
+// Kept on globalThis so dev-server hot reloads don't drop data
+const globalForStorage = globalThis as unknown as {
+  __lunaMemoryStorage?: Map<string, Map<string, unknown>>;
+};
+
+function getNamespace(namespace: string): Map<string, unknown> {
+  if (!globalForStorage.__lunaMemoryStorage) {
+    globalForStorage.__lunaMemoryStorage = new Map();
+  }
+
+  const storage = globalForStorage.__lunaMemoryStorage;
+  if (!storage.has(namespace)) {
+    storage.set(namespace, new Map());
+  }
+
+  return storage.get(namespace)!;
+}
+
+export function createMemoryStore<T>(namespace: string): KeyValueStore<T> {
+  return {
+    async get(key) {
+      const value = getNamespace(namespace).get(key);
+      // Return a copy so callers can't mutate stored records
+      return value === undefined ? null : structuredClone(value as T);
+    },
+
+    async set(key, value) {
+      getNamespace(namespace).set(key, structuredClone(value));
+    },
+
+    async delete(key) {
+      getNamespace(namespace).delete(key);
+    },
+
+    async values() {
+      return Array.from(getNamespace(namespace).values()).map((value) => structuredClone(value as T));
+    },
+  };
+}
@@ -0,0 +1,48 @@
+/**
+ * Currency Store Unit Tests
+ * Tests currency selection and restoring the persisted choice
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useCurrencyStore } from '../currency';
+import { currencyConfig } from '../../config/currency';
+
+describe('Currency Store', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    useCurrencyStore.setState({ currency: currencyConfig.defaultCurrency });
+  });
+
+  it('should start in the default currency', () => {
+    expect(useCurrencyStore.getState().currency).toBe(currencyConfig.defaultCurrency);
+  });
+
+  it('should switch to a supported currency and persist it', () => {
+    useCurrencyStore.getState().setCurrency('EUR');
+
+    expect(useCurrencyStore.getState().currency).toBe('EUR');
+    expect(JSON.parse(localStorage.getItem('currency')!).state.currency).toBe('EUR');
+  });
+
+  it('should ignore currencies without a rate', () => {
+    useCurrencyStore.getState().setCurrency('XYZ');
+
+    expect(useCurrencyStore.getState().currency).toBe(currencyConfig.defaultCurrency);
+  });
+
+  it('should drop a stored currency that is no longer configured', async () => {
+    localStorage.setItem('currency', JSON.stringify({ state: { currency: 'XYZ' }, version: 0 }));
+
+    await useCurrencyStore.persist.rehydrate();
+
+    expect(useCurrencyStore.getState().currency).toBe(currencyConfig.defaultCurrency);
+  });
+
+  it('should restore a stored supported currency', async () => {
+    localStorage.setItem('currency', JSON.stringify({ state: { currency: 'GBP' }, version: 0 }));
+
+    await useCurrencyStore.persist.rehydrate();
+
+    expect(useCurrencyStore.getState().currency).toBe('GBP');
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Recently Viewed Store Unit Tests
+ * Tests for the bounded, deduplicated view history
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useRecentlyViewedStore, MAX_RECENTLY_VIEWED } from '../recently-viewed';
+
+describe('Recently Viewed Store', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    useRecentlyViewedStore.getState().clearHistory();
+  });
+
+  it('should list the most recent view first', () => {
+    const { recordView } = useRecentlyViewedStore.getState();
+
+    recordView(1);
+    recordView(2);
+    recordView(3);
+
+    expect(useRecentlyViewedStore.getState().productIds).toEqual([3, 2, 1]);
+  });
+
+  it('should move a product viewed again to the front without duplicating it', () => {
+    const { recordView } = useRecentlyViewedStore.getState();
+
+    recordView(1);
+    recordView(2);
+    recordView(1);
+
+    expect(useRecentlyViewedStore.getState().productIds).toEqual([1, 2]);
+  });
+
+  it('should drop the oldest views beyond the limit', () => {
+    const { recordView } = useRecentlyViewedStore.getState();
+
+    for (let id = 1; id <= MAX_RECENTLY_VIEWED + 2; id++) {
+      recordView(id);
+    }
+
+    const { productIds } = useRecentlyViewedStore.getState();
+    expect(productIds).toHaveLength(MAX_RECENTLY_VIEWED);
+    expect(productIds[0]).toBe(MAX_RECENTLY_VIEWED + 2);
+    expect(productIds).not.toContain(1);
+    expect(productIds).not.toContain(2);
+  });
+
+  it('should forget products that no longer exist', () => {
+    const { recordView, forgetProducts } = useRecentlyViewedStore.getState();
+
+    recordView(1);
+    recordView(2);
+    recordView(3);
+    forgetProducts([2, 99]);
+
+    expect(useRecentlyViewedStore.getState().productIds).toEqual([3, 1]);
+  });
+
+  it('should persist the history to localStorage', () => {
+    useRecentlyViewedStore.getState().recordView(7);
+
+    const stored = JSON.parse(localStorage.getItem('recently-viewed') ?? '{}');
+    expect(stored.state.productIds).toEqual([7]);
+  });
+});
@@ -5,6 +5,7 @@
 
 import { create } from 'zustand';
 import type { Cart, CartLineItem } from '../types/cart';
+import type { AppliedPromotion } from '../types/promotions';
 
 /**
  * Snapshot of cart state for rollback (includes version)
@@ -12,6 +13,9 @@ import type { Cart, CartLineItem } from '../types/cart';
 interface CartSnapshot {
   items: CartLineItem[];
   subtotal: number;
+  discount: number;
+  promoCode: string | null;
+  promotions: AppliedPromotion[];
   currency: string;
   stateVersion: number;
 }
@@ -24,6 +28,9 @@ export interface CartState {
   // Cart data
   items: CartLineItem[];
   subtotal: number;
+  discount: number; // promo discount in cents
+  promoCode: string | null;
+  promotions: AppliedPromotion[]; // promotions making up the discount
   currency: string;
 
   // UI state
@@ -63,6 +70,9 @@ export const useCartStore = create<CartState>((set, get) => ({
   // Initial state
   items: [],
   subtotal: 0,
+  discount: 0,
+  promoCode: null,
+  promotions: [],
   currency: 'USD',
   isLoading: false,
   loadingItems: new Set<string>(),
@@ -76,6 +86,9 @@ export const useCartStore = create<CartState>((set, get) => ({
     set((state) => ({
       items: cart.items,
       subtotal: cart.subtotal,
+      discount: cart.discount ?? 0,
+      promoCode: cart.promo_code ?? null,
+      promotions: cart.promotions ?? [],
       currency: cart.currency,
       error: null,
       stateVersion: state.stateVersion + 1,
@@ -100,6 +113,9 @@ export const useCartStore = create<CartState>((set, get) => ({
       return {
         items: cart.items,
         subtotal: cart.subtotal,
+        discount: cart.discount ?? 0,
+        promoCode: cart.promo_code ?? null,
+        promotions: cart.promotions ?? [],
         currency: cart.currency,
         error: null,
       };
@@ -126,6 +142,9 @@ export const useCartStore = create<CartState>((set, get) => ({
     set({
       items: [],
       subtotal: 0,
+      discount: 0,
+      promoCode: null,
+      promotions: [],
       currency: 'USD',
       error: null,
       loadingItems: new Set<string>(),
@@ -158,6 +177,9 @@ export const useCartStore = create<CartState>((set, get) => ({
       previousState: {
         items: state.items,
         subtotal: state.subtotal,
+        discount: state.discount,
+        promoCode: state.promoCode,
+        promotions: state.promotions,
         currency: state.currency,
         stateVersion: state.stateVersion,
       },
@@ -169,6 +191,9 @@ export const useCartStore = create<CartState>((set, get) => ({
       return {
         items: state.previousState.items,
         subtotal: state.previousState.subtotal,
+        discount: state.previousState.discount,
+        promoCode: state.previousState.promoCode,
+        promotions: state.previousState.promotions,
         currency: state.previousState.currency,
         stateVersion: state.previousState.stateVersion,
         previousState: null,
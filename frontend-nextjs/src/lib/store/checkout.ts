@@ -0,0 +1,66 @@
+/**
+ * Zustand Checkout Store
+ * Checkout progress persisted in sessionStorage, so a reload resumes at the
+ * same step with the details entered so far
+ *
+ * Only what the shopper typed or picked is kept, and for the card only its
+ * provider token: card numbers and CVCs are never stored. Progress is per
+ * tab and ends with the browser session.
+ */
+
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import { INITIAL_CHECKOUT_FLOW, type CheckoutFlowState } from '../services/checkout-flow';
+import type { CheckoutAddressesState } from '../types/checkout';
+import type { CardToken } from '../types/payments';
+
+/**
+ * Checkout details to restore when resuming
+ */
+export interface CheckoutDraft {
+  email: string;
+  nameOnCard: string;
+  cardToken: CardToken | null;
+  addresses: CheckoutAddressesState;
+  shippingMethodId: string | null;
+}
+
+/**
+ * Checkout Store State Interface
+ * Exported for testing and type inference
+ */
+export interface CheckoutState {
+  flow: CheckoutFlowState;
+  draft: CheckoutDraft | null;
+
+  // Actions
+  setFlow: (flow: CheckoutFlowState) => void;
+  saveDraft: (draft: CheckoutDraft) => void;
+  clearDraft: () => void;
+  reset: () => void;
+}
+
+export const useCheckoutStore = create<CheckoutState>()(
+  persist(
+    (set) => ({
+      // Initial state
+      flow: INITIAL_CHECKOUT_FLOW,
+      draft: null,
+
+      setFlow: (flow: CheckoutFlowState) => set({ flow }),
+
+      saveDraft: (draft: CheckoutDraft) => set({ draft }),
+
+      clearDraft: () => set({ draft: null }),
+
+      // Start over (after an order is placed)
+      reset: () => set({ flow: INITIAL_CHECKOUT_FLOW, draft: null }),
+    }),
+    {
+      name: 'checkout',
+      storage: createJSONStorage(() => sessionStorage),
+      // Rehydrated after mount (see useCheckoutFlow) so server and client first renders match
+      skipHydration: true,
+    }
+  )
+);
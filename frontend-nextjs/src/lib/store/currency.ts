@@ -0,0 +1,48 @@
+/**
+ * Zustand Currency Store
+ * Display currency chosen by the shopper, persisted in localStorage
+ *
+ * Only affects how prices are shown; the cart and checkout still settle in
+ * the base currency.
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { currencyConfig, isSupportedCurrency } from '../config/currency';
+
+/**
+ * Currency Store State Interface
+ * Exported for testing and type inference
+ */
+export interface CurrencyState {
+  currency: string;
+
+  // Actions
+  setCurrency: (currency: string) => void;
+}
+
+export const useCurrencyStore = create<CurrencyState>()(
+  persist(
+    (set) => ({
+      // Initial state
+      currency: currencyConfig.defaultCurrency,
+
+      // Ignore currencies without a configured rate
+      setCurrency: (currency: string) => {
+        if (isSupportedCurrency(currency)) {
+          set({ currency });
+        }
+      },
+    }),
+    {
+      name: 'currency',
+      // Rehydrated after mount (see useCurrency) so server and client first renders match
+      skipHydration: true,
+      // Drop a stored currency that is no longer configured
+      merge: (persisted, current) => {
+        const stored = (persisted as Partial<CurrencyState> | undefined)?.currency;
+        return stored && isSupportedCurrency(stored) ? { ...current, currency: stored } : current;
+      },
+    }
+  )
+);
@@ -0,0 +1,56 @@
+/**
+ * Zustand Recently Viewed Store
+ * Product view history persisted in localStorage (newest first, deduplicated)
+ *
+ * Only product IDs are stored; the rail looks products up so prices and
+ * stock are always current.
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+/**
+ * Maximum number of products remembered
+ */
+export const MAX_RECENTLY_VIEWED = 12;
+
+/**
+ * Recently Viewed Store State Interface
+ * Exported for testing and type inference
+ */
+export interface RecentlyViewedState {
+  productIds: number[];
+
+  // Actions
+  recordView: (productId: number) => void;
+  forgetProducts: (productIds: number[]) => void;
+  clearHistory: () => void;
+}
+
+export const useRecentlyViewedStore = create<RecentlyViewedState>()(
+  persist(
+    (set) => ({
+      // Initial state
+      productIds: [],
+
+      // Move product to the front, dropping the oldest beyond the limit
+      recordView: (productId: number) =>
+        set((state) => ({
+          productIds: [productId, ...state.productIds.filter((id) => id !== productId)].slice(0, MAX_RECENTLY_VIEWED),
+        })),
+
+      // Remove products that no longer exist upstream
+      forgetProducts: (productIds: number[]) =>
+        set((state) => ({
+          productIds: state.productIds.filter((id) => !productIds.includes(id)),
+        })),
+
+      clearHistory: () => set({ productIds: [] }),
+    }),
+    {
+      name: 'recently-viewed',
+      // Rehydrated after mount (see useRecentlyViewed) so server and client first renders match
+      skipHydration: true,
+    }
+  )
+);
@@ -0,0 +1,111 @@
+/**
+ * Zustand Wishlist Store
+ * Client-side wishlist state shared by every heart toggle on the page
+ */
+
+import { create } from 'zustand';
+import type { Wishlist, WishlistItem } from '../types/wishlist';
+
+/**
+ * Wishlist Store State Interface
+ * Exported for testing and type inference
+ */
+export interface WishlistState {
+  // Wishlist data
+  items: WishlistItem[];
+
+  // UI state
+  isLoading: boolean;
+  hasLoaded: boolean; // Fetched once per page load, however many hearts are mounted
+  pendingIds: Set<number>; // Per-product loading states (product_id)
+  error: string | null;
+
+  // Version tracking for optimistic updates
+  stateVersion: number; // Increments on each optimistic change so older server responses are ignored
+
+  // Actions
+  setWishlist: (wishlist: Wishlist) => void;
+  setLoading: (loading: boolean) => void;
+  setError: (error: string | null) => void;
+  clearWishlist: () => void;
+
+  // Optimistic updates (rolled back per product, so concurrent toggles don't clobber each other)
+  insertItem: (item: WishlistItem) => void;
+  deleteItem: (productId: number) => void;
+
+  // Per-product loading management
+  addPendingId: (productId: number) => void;
+  removePendingId: (productId: number) => void;
+  isPending: (productId: number) => boolean;
+}
+
+export const useWishlistStore = create<WishlistState>((set, get) => ({
+  // Initial state
+  items: [],
+  isLoading: false,
+  hasLoaded: false,
+  pendingIds: new Set<number>(),
+  error: null,
+  stateVersion: 0,
+
+  // Update wishlist from API response
+  setWishlist: (wishlist: Wishlist) =>
+    set({
+      items: wishlist.items,
+      hasLoaded: true,
+      error: null,
+    }),
+
+  // Loading state
+  setLoading: (loading: boolean) =>
+    set({ isLoading: loading }),
+
+  // Error state
+  setError: (error: string | null) =>
+    set({ error, isLoading: false }),
+
+  // Clear wishlist
+  clearWishlist: () =>
+    set({
+      items: [],
+      isLoading: false,
+      hasLoaded: false,
+      pendingIds: new Set<number>(),
+      error: null,
+      stateVersion: 0,
+    }),
+
+  // Insert keeping newest first, so a rolled-back removal returns to its old spot
+  // (no-op if already saved, matching the backend)
+  insertItem: (item: WishlistItem) =>
+    set((state) => {
+      if (state.items.some((i) => i.product_id === item.product_id)) return {};
+      const items = [...state.items, item].sort((a, b) => Date.parse(b.added_at) - Date.parse(a.added_at));
+      return { items, stateVersion: state.stateVersion + 1 };
+    }),
+
+  deleteItem: (productId: number) =>
+    set((state) => ({
+      items: state.items.filter((i) => i.product_id !== productId),
+      stateVersion: state.stateVersion + 1,
+    })),
+
+  // Per-product loading management
+  addPendingId: (productId: number) =>
+    set((state) => {
+      const newPendingIds = new Set(state.pendingIds);
+      newPendingIds.add(productId);
+      return { pendingIds: newPendingIds };
+    }),
+
+  removePendingId: (productId: number) =>
+    set((state) => {
+      const newPendingIds = new Set(state.pendingIds);
+      newPendingIds.delete(productId);
+      return { pendingIds: newPendingIds };
+    }),
+
+  isPending: (productId: number) => {
+    return get().pendingIds.has(productId);
+  },
+}));
@@ -0,0 +1,58 @@
+/**
+ * TypeScript interfaces for Accounts
+ * Signed-in shoppers, their saved addresses and sign-in requests
+ */
+
+import type { CheckoutAddress } from './checkout';
+
+export type AddressKind = 'shipping' | 'billing';
+
+/**
+ * Address in an account's address book
+ * Each kind has exactly one default once the account has an address of that kind
+ */
+export interface SavedAddress extends CheckoutAddress {
+  id: string;
+  kind: AddressKind;
+  isDefault: boolean;
+}
+
+/**
+ * Request body for saving an address (PATCH accepts any subset of it)
+ */
+export interface SaveAddressRequest extends CheckoutAddress {
+  kind: AddressKind;
+  isDefault?: boolean;
+}
+
+/**
+ * Account as returned by the BFF (credentials are never included)
+ */
+export interface Account {
+  id: string;
+  email: string;
+  name: string;
+  createdAt: string; // ISO timestamp
+  addresses: SavedAddress[];
+}
+
+export interface RegisterRequest {
+  email: string;
+  password: string;
+  name: string;
+}
+
+export interface SignInRequest {
+  email: string;
+  password: string;
+}
+
+export interface MagicLinkRequest {
+  email: string;
+  next?: string; // path to land on after signing in
+}
+
+/**
+ * Field-level validation errors keyed by field name (e.g. "email")
+ */
+export type AccountFieldErrors = Record<string, string>;
@@ -3,6 +3,8 @@
  * Matches the PHP backend CartController response structure
  */
 
+import type { AppliedPromotion } from './promotions';
+
 export interface CartLineItem {
   line_id: string; // MD5 hash of product_id
   product_id: number;
@@ -20,6 +22,9 @@ export interface CartLineItem {
 export interface Cart {
   items: CartLineItem[];
   subtotal: number; // in cents
+  discount?: number; // in cents, from the applied promo code (added by BFF)
+  promo_code?: string | null; // applied promo code (added by BFF)
+  promotions?: AppliedPromotion[]; // promotions making up the discount (added by BFF)
   currency: string; // e.g., "USD"
 }
 
@@ -53,5 +58,6 @@ export interface ApiResponse<T> {
   error?: {
     message: string;
     code?: string;
+    fields?: Record<string, string>; // field-level validation errors
   };
 }
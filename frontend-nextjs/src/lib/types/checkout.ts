@@ -0,0 +1,71 @@
+/**
+ * TypeScript interfaces for Checkout API
+ * Request body posted by the checkout form to /api/checkout
+ */
+
+import type { ThreeDSecureChallenge } from './payments';
+
+export interface CheckoutAddress {
+  company?: string;
+  address: string;
+  apartment?: string;
+  city: string;
+  region: string;
+  postalCode: string;
+  country: string; // ISO 3166-1 alpha-2, e.g. "CA"
+}
+
+/**
+ * Address chosen at checkout: a saved address, or a new one typed in
+ */
+export interface CheckoutAddressEntry {
+  savedId: string | null; // saved address in use; null for a new address
+  address: CheckoutAddress; // what the order ships or bills to
+  isEditing: boolean; // saved address open for inline editing
+  saveToBook: boolean; // save the new address once the order is placed
+}
+
+export interface CheckoutAddressesState {
+  shipping: CheckoutAddressEntry;
+  billing: CheckoutAddressEntry;
+  billingSameAsShipping: boolean;
+}
+
+/**
+ * Payment details; the card itself is only ever sent as a provider token
+ */
+export interface CheckoutPayment {
+  nameOnCard: string;
+  token: string; // card token from the payment provider's card fields
+  threeDSecureId?: string; // completed 3-D Secure challenge, when retrying after one
+}
+
+/**
+ * Request body for placing an order
+ */
+export interface CheckoutRequest {
+  email: string;
+  shipping: CheckoutAddress;
+  shippingMethod: string; // shipping method ID, e.g. "express"
+  billing: {
+    sameAsShipping: boolean;
+    address?: CheckoutAddress; // required when sameAsShipping is false
+  };
+  payment: CheckoutPayment;
+}
+
+/**
+ * Field-level validation errors keyed by dotted path (e.g. "shipping.city")
+ */
+export type CheckoutFieldErrors = Record<string, string>;
+
+/**
+ * Error body returned by POST /api/checkout
+ * A 402 with code "requires_action" carries the 3-D Secure challenge to complete
+ */
+export interface CheckoutErrorBody {
+  message: string;
+  code?: string;
+  fields?: CheckoutFieldErrors;
+  challenge?: ThreeDSecureChallenge;
+}
@@ -0,0 +1,25 @@
+/**
+ * TypeScript interfaces for paginated listing pages
+ * Shared by the listing API routes and the useListing hook
+ */
+
+import type { Product } from './products';
+import type { Facet } from '../../utils/facets';
+
+/**
+ * Where listing products come from
+ * catalog = every configured category, collection = one category
+ */
+export type ListingSource = { type: 'catalog' } | { type: 'collection'; slug: string };
+
+/**
+ * One page of filtered, sorted listing results
+ * Facets are counted over the whole source, not just this page
+ */
+export interface ListingPage {
+  products: Product[];
+  total: number;
+  skip: number;
+  limit: number;
+  facets: Facet[];
+}
@@ -0,0 +1,39 @@
+/**
+ * TypeScript interfaces for Orders
+ * Orders are created by the BFF at checkout; totals are frozen at placement
+ */
+
+import type { CartLineItem } from './cart';
+import type { CheckoutAddress } from './checkout';
+import type { CardBrand } from './payments';
+import type { AppliedPromotion } from './promotions';
+import type { ShippingRate } from './shipping';
+import type { TaxLine } from './tax';
+
+export interface OrderPayment {
+  nameOnCard: string;
+  brand: CardBrand;
+  cardLast4: string; // full card number and CVC never reach the BFF
+  provider: string; // payment provider ID, e.g. "fake"
+  paymentId: string; // provider's ID for the captured payment
+}
+
+export interface Order {
+  id: string;
+  createdAt: string; // ISO timestamp
+  email: string;
+  items: CartLineItem[];
+  subtotal: number; // in cents
+  shipping: number; // in cents
+  shippingMethod: ShippingRate; // method chosen at checkout, priced at placement
+  tax: number; // in cents
+  taxLines: TaxLine[]; // itemised tax making up `tax`
+  discount: number; // in cents
+  promoCode: string | null;
+  promotions: AppliedPromotion[];
+  total: number; // in cents
+  currency: string;
+  shippingAddress: CheckoutAddress;
+  billingAddress: CheckoutAddress;
+  payment: OrderPayment;
+}
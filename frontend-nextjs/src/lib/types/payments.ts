@@ -0,0 +1,88 @@
+/**
+ * TypeScript interfaces for Payments
+ * Card tokens, payments and the provider interface checkout charges through
+ *
+ * Card numbers and CVCs only exist inside the card fields; everything past
+ * tokenization (the checkout request, the BFF, orders) sees a token.
+ */
+
+export type CardBrand = 'visa' | 'mastercard' | 'amex' | 'discover' | 'unknown';
+
+/**
+ * Raw card entry, handed straight from the card fields to the tokenizer
+ */
+export interface CardDetails {
+  cardNumber: string;
+  expirationDate: string; // MM/YY
+  cvc: string;
+}
+
+/**
+ * Reference to a card, with the details safe to display
+ */
+export interface CardToken {
+  token: string;
+  brand: CardBrand;
+  last4: string;
+  expMonth: number;
+  expYear: number; // four digits
+}
+
+/**
+ * Turns card details into a token (runs in the browser)
+ */
+export interface CardTokenizer {
+  tokenize(card: CardDetails): Promise<CardToken>;
+}
+
+export type PaymentStatus = 'authorized' | 'captured' | 'voided' | 'refunded' | 'partially_refunded';
+
+/**
+ * Payment as the provider reports it (amounts in minor units)
+ */
+export interface Payment {
+  id: string;
+  status: PaymentStatus;
+  amount: number; // authorized
+  capturedAmount: number;
+  refundedAmount: number;
+  currency: string;
+  brand: CardBrand;
+  last4: string;
+}
+
+export interface AuthorizeRequest {
+  token: string;
+  amount: number; // in minor units
+  currency: string;
+  threeDSecureId?: string; // completed 3-D Secure challenge, when retrying after one
+}
+
+/**
+ * 3-D Secure challenge the cardholder must complete with their bank
+ */
+export interface ThreeDSecureChallenge {
+  id: string;
+  brand: CardBrand;
+  last4: string;
+}
+
+export type AuthorizeResult =
+  | { status: 'authorized'; payment: Payment }
+  | { status: 'requires_action'; challenge: ThreeDSecureChallenge }
+  | { status: 'declined'; declineCode: string; message: string };
+
+/**
+ * Payment provider the BFF charges through
+ * Operations reject with PaymentError (e.g. on timeouts or invalid state)
+ */
+export interface PaymentProvider {
+  id: string;
+  authorize(request: AuthorizeRequest): Promise<AuthorizeResult>;
+  // Amount defaults to the full authorized amount
+  capture(paymentId: string, amount?: number): Promise<Payment>;
+  // Amount defaults to everything captured and not yet refunded
+  refund(paymentId: string, amount?: number): Promise<Payment>;
+  // Releases an authorization that was never captured
+  void(paymentId: string): Promise<Payment>;
+}
@@ -75,3 +75,10 @@ export interface ProductCategory {
   name: string;
   url: string;
 }
+
+/**
+ * How product recommendations are ranked
+ * similar: like the product (tags, brand, price, rating)
+ * bought-together: ordered alongside the product and the cart items
+ */
+export type RecommendationMode = 'similar' | 'bought-together';
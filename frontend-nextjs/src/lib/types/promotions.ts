@@ -0,0 +1,102 @@
+/**
+ * TypeScript interfaces for Promotions
+ * Promotion rules are configured in lib/cms/promotions.ts and evaluated
+ * against cart lines by lib/services/promotions.ts
+ */
+
+import type { configuredCategories } from '../cms/categories';
+
+export type CategorySlug = (typeof configuredCategories)[number];
+
+/**
+ * Stacking behaviour
+ * - exclusive: never combined with another promotion
+ * - stackable: combined with every other applicable stackable promotion
+ */
+export type StackingRule = 'exclusive' | 'stackable';
+
+interface PromotionBase {
+  id: string;
+  label: string; // shopper-facing name, e.g. "20% off your order"
+  code?: string; // omit for automatic promotions
+  enabled?: boolean; // defaults to true
+  startsAt?: Date | null;
+  expiresAt?: Date | null;
+  minimumOrder?: number | null; // cart subtotal in cents
+  stacking: StackingRule;
+}
+
+/**
+ * Percentage off the whole cart
+ */
+export interface PercentagePromotion extends PromotionBase {
+  type: 'percentage';
+  percentage: number; // 0-100
+}
+
+/**
+ * Fixed amount off the whole cart
+ */
+export interface FixedAmountPromotion extends PromotionBase {
+  type: 'fixed-amount';
+  amount: number; // in cents
+}
+
+/**
+ * Buy X, get Y discounted (cheapest eligible units are discounted)
+ */
+export interface BuyXGetYPromotion extends PromotionBase {
+  type: 'buy-x-get-y';
+  buyQuantity: number;
+  getQuantity: number;
+  discountPercentage: number; // 100 = free
+  categories?: CategorySlug[]; // omit for all categories
+}
+
+/**
+ * Percentage off items in specific categories
+ */
+export interface CategoryPromotion extends PromotionBase {
+  type: 'category';
+  categories: CategorySlug[];
+  percentage: number; // 0-100
+}
+
+/**
+ * Amount off once the subtotal reaches a threshold; highest tier reached wins
+ */
+export interface TieredSpendPromotion extends PromotionBase {
+  type: 'tiered-spend';
+  tiers: {
+    threshold: number; // subtotal in cents
+    amount: number; // discount in cents
+  }[];
+}
+
+export type Promotion =
+  | PercentagePromotion
+  | FixedAmountPromotion
+  | BuyXGetYPromotion
+  | CategoryPromotion
+  | TieredSpendPromotion;
+
+export type PromotionType = Promotion['type'];
+
+/**
+ * A promotion applied to a cart, with a shopper-facing explanation
+ */
+export interface AppliedPromotion {
+  id: string;
+  label: string;
+  code?: string;
+  amount: number; // discount in cents
+  explanation: string; // e.g. "Buy 2, get 1 free on Beauty: 1 item free"
+}
+
+/**
+ * Result of evaluating promotions against a cart
+ */
+export interface PromotionResult {
+  discount: number; // total discount in cents
+  applied: AppliedPromotion[];
+}
@@ -0,0 +1,42 @@
+/**
+ * TypeScript interfaces for Shipping
+ * Zones and methods are configured in lib/config/shipping.ts and priced
+ * by lib/services/shipping.ts
+ */
+
+/**
+ * Address fields that decide the shipping zone
+ */
+export interface ShippingDestination {
+  country: string; // ISO 3166-1 alpha-2, e.g. "CA"
+  region: string; // state/province code or name
+}
+
+/**
+ * Cart line as far as shipping is concerned
+ */
+export interface ShippingItem {
+  productId: number;
+  quantity: number;
+}
+
+/**
+ * A shipping method priced for a cart and destination
+ */
+export interface ShippingRate {
+  id: string; // method ID, e.g. "express"
+  label: string;
+  amount: number; // in cents, 0 when free
+  minDays: number; // business days in transit
+  maxDays: number;
+  free: boolean; // waived by the free shipping threshold
+}
+
+/**
+ * Response from GET /api/checkout/shipping-rates
+ */
+export interface ShippingRatesResponse {
+  zone: string; // zone ID, e.g. "ca-central"
+  weight: number; // total cart weight in kg
+  rates: ShippingRate[];
+}
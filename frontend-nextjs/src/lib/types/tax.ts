@@ -0,0 +1,33 @@
+/**
+ * TypeScript interfaces for Tax
+ * Jurisdictions and rates are configured in lib/config/tax.ts and applied
+ * by lib/services/tax.ts
+ */
+
+/**
+ * Address fields that decide which taxes apply
+ */
+export interface TaxAddress {
+  country: string; // ISO 3166-1 alpha-2, e.g. "CA"
+  region: string; // state/province code or name
+  postalCode?: string;
+}
+
+/**
+ * One tax in the breakdown, e.g. GST and QST are separate lines
+ */
+export interface TaxLine {
+  id: string;
+  label: string;
+  rate: number; // decimal, e.g. 0.13
+  taxableAmount: number; // in cents
+  amount: number; // in cents
+}
+
+export interface TaxBreakdown {
+  jurisdiction: string | null; // e.g. "CA-ON", null if no jurisdiction matched
+  lines: TaxLine[];
+  exemptAmount: number; // goods sold tax-free, in cents (after discount)
+  shippingTaxable: boolean;
+  total: number; // in cents
+}
@@ -0,0 +1,39 @@
+/**
+ * TypeScript interfaces for Wishlist API
+ * Matches the PHP backend WishlistController response structure
+ */
+
+import type { Product } from './products';
+
+export interface WishlistItem {
+  product_id: number;
+  title: string;
+  price: number; // in cents (from backend), as of when the item was saved
+  image?: string;
+  brand?: string;
+  category?: string;
+  added_at: string; // ISO timestamp
+}
+
+export interface Wishlist {
+  items: WishlistItem[]; // newest first
+  count: number;
+}
+
+/**
+ * Request body for saving a product to the wishlist
+ */
+export interface AddToWishlistRequest {
+  product_id: number;
+  title: string;
+  price: number; // in dollars (backend converts to cents)
+  image?: string;
+  brand?: string;
+  category?: string;
+}
+
+/**
+ * Product fields needed to save it to the wishlist
+ * A full Product satisfies this; cart lines are mapped to it when saved for later
+ */
+export type WishlistProduct = Pick<Product, 'id' | 'title' | 'price' | 'thumbnail' | 'brand' | 'category'>;
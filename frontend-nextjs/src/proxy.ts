@@ -0,0 +1,50 @@
+/**
+ * Locale Routing and Sign-In Proxy
+ * Maps URLs onto the app/[locale] routes, and keeps signed-out shoppers out
+ * of account pages
+ *
+ * /fr/products  -> served as is
+ * /products     -> rewritten to /en/products (default locale has no prefix)
+ * /en/products  -> redirected to /products so each page has one URL
+ * /fr/account   -> redirected to /fr/sign-in?next=/fr/account without a sign-in cookie
+ *
+ * Only the cookie's presence is checked here; the account pages and API
+ * routes verify the session itself.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { i18nConfig } from '@/lib/i18n/config';
+import { localizePath, splitLocale } from '@/lib/i18n/paths';
+import { authConfig, isProtectedPath } from '@/lib/config/auth';
+
+export function proxy(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+  const { locale, pathname: unprefixed, hasPrefix } = splitLocale(pathname);
+
+  if (isProtectedPath(unprefixed) && !request.cookies.has(authConfig.cookieName)) {
+    const url = request.nextUrl.clone();
+    url.pathname = localizePath(authConfig.signInPath, locale);
+    url.search = '';
+    url.searchParams.set('next', `${localizePath(unprefixed, locale)}${request.nextUrl.search}`);
+    return NextResponse.redirect(url);
+  }
+
+  if (hasPrefix && locale === i18nConfig.defaultLocale) {
+    const url = request.nextUrl.clone();
+    url.pathname = unprefixed;
+    return NextResponse.redirect(url);
+  }
+
+  if (hasPrefix) {
+    return NextResponse.next();
+  }
+
+  const url = request.nextUrl.clone();
+  url.pathname = `/${i18nConfig.defaultLocale}${pathname === '/' ? '' : pathname}`;
+  return NextResponse.rewrite(url);
+}
+
+export const config = {
+  // Pages only: skip API routes, Next.js internals and files with an extension
+  matcher: ['/((?!api|_next|.*\\..*).*)'],
+};
@@ -0,0 +1,73 @@
+/**
+ * Tests for address utilities
+ */
+
+import { describe, it, expect } from 'vitest'
+import { getAddressesOfKind, getDefaultAddress, isSameAddress, resolveDefaultAddresses } from '../addresses'
+import type { SavedAddress } from '@/lib/types/account'
+
+function saved(id: string, overrides: Partial<SavedAddress> = {}): SavedAddress {
+  return {
+    id,
+    address: `${id} Main St`,
+    city: 'Toronto',
+    region: 'ON',
+    postalCode: 'M5V 2T6',
+    country: 'CA',
+    kind: 'shipping',
+    isDefault: false,
+    ...overrides,
+  }
+}
+
+describe('resolveDefaultAddresses', () => {
+  it('makes the oldest address of each kind the default when none is set', () => {
+    const resolved = resolveDefaultAddresses([saved('a'), saved('b'), saved('c', { kind: 'billing' })])
+
+    expect(resolved.map((address) => address.isDefault)).toEqual([true, false, true])
+  })
+
+  it('keeps an existing default', () => {
+    const resolved = resolveDefaultAddresses([saved('a'), saved('b', { isDefault: true })])
+
+    expect(getDefaultAddress(resolved, 'shipping')?.id).toBe('b')
+  })
+
+  it('lets the preferred address take over its kind only', () => {
+    const addresses = [
+      saved('a', { isDefault: true }),
+      saved('b', { isDefault: true }),
+      saved('c', { kind: 'billing', isDefault: true }),
+    ]
+
+    const resolved = resolveDefaultAddresses(addresses, 'b')
+
+    expect(resolved.filter((address) => address.isDefault).map(({ id }) => id)).toEqual(['b', 'c'])
+  })
+
+  it('returns unchanged addresses as the same objects', () => {
+    const addresses = [saved('a', { isDefault: true }), saved('b')]
+
+    expect(resolveDefaultAddresses(addresses)).toEqual(addresses)
+    expect(resolveDefaultAddresses(addresses)[1]).toBe(addresses[1])
+  })
+})
+
+describe('getAddressesOfKind', () => {
+  it('lists the default first', () => {
+    const addresses = [saved('a'), saved('b', { kind: 'billing' }), saved('c', { isDefault: true })]
+
+    expect(getAddressesOfKind(addresses, 'shipping').map(({ id }) => id)).toEqual(['c', 'a'])
+  })
+})
+
+describe('isSameAddress', () => {
+  it('ignores case, surrounding spaces and blank optional fields', () => {
+    expect(isSameAddress(saved('a'), { ...saved('a'), city: ' toronto ', apartment: '' })).toBe(true)
+  })
+
+  it('tells different addresses apart', () => {
+    expect(isSameAddress(saved('a'), saved('b'))).toBe(false)
+    expect(isSameAddress(saved('a'), { ...saved('a'), apartment: 'Suite 4' })).toBe(false)
+  })
+})
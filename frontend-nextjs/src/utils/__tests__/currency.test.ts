@@ -0,0 +1,80 @@
+/**
+ * Currency Utilities Tests
+ * Tests rounding rules, conversion through the base currency and formatting
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { convertAmount, roundHalfAwayFromZero, toMinorUnits } from '../currency'
+import { formatDollars, formatPrice } from '../format'
+
+// Fixed rates so the tests don't follow rate refreshes
+vi.mock('@/lib/config/currency-rates.json', () => ({
+  default: {
+    base: 'USD',
+    updatedAt: '2026-01-01',
+    rates: { USD: 1, EUR: 0.9, GBP: 0.8, JPY: 150 },
+  },
+}))
+
+describe('roundHalfAwayFromZero', () => {
+  it('should round halves away from zero', () => {
+    expect(roundHalfAwayFromZero(2.5)).toBe(3)
+    expect(roundHalfAwayFromZero(-2.5)).toBe(-3)
+    expect(roundHalfAwayFromZero(2.49)).toBe(2)
+  })
+
+  it('should ignore floating point noise', () => {
+    // 1.005 * 100 is 100.49999999999999 in floating point
+    expect(roundHalfAwayFromZero(1.005 * 100)).toBe(101)
+  })
+
+  it('should never return negative zero', () => {
+    expect(Object.is(roundHalfAwayFromZero(-0.2), 0)).toBe(true)
+  })
+})
+
+describe('toMinorUnits', () => {
+  it('should convert major amounts using the currency minor digits', () => {
+    expect(toMinorUnits(9.99, 'USD')).toBe(999)
+    expect(toMinorUnits(1495.4, 'JPY')).toBe(1495)
+  })
+})
+
+describe('convertAmount', () => {
+  it('should leave amounts in the same currency untouched', () => {
+    expect(convertAmount(999, 'USD', 'USD')).toBe(999)
+  })
+
+  it('should convert from the base currency and round once', () => {
+    expect(convertAmount(1000, 'USD', 'EUR')).toBe(900)
+    expect(convertAmount(999, 'USD', 'EUR')).toBe(899) // 899.1
+    expect(convertAmount(1005, 'USD', 'GBP')).toBe(804)
+  })
+
+  it('should convert between currencies with different minor digits', () => {
+    expect(convertAmount(999, 'USD', 'JPY')).toBe(1499) // 1498.5 rounds up
+    expect(convertAmount(1500, 'JPY', 'USD')).toBe(1000)
+  })
+
+  it('should convert between two non-base currencies through the base', () => {
+    expect(convertAmount(900, 'EUR', 'GBP')).toBe(800)
+  })
+
+  it('should throw for currencies without a rate', () => {
+    expect(() => convertAmount(100, 'USD', 'XYZ')).toThrow('No exchange rate for XYZ')
+  })
+})
+
+describe('formatPrice', () => {
+  it('should format minor units with the currency locale', () => {
+    expect(formatPrice(999)).toBe('$9.99')
+    expect(formatPrice(999, 'EUR')).toBe('€9.99')
+    expect(formatPrice(999, 'GBP')).toBe('£9.99')
+    expect(formatPrice(1495, 'JPY')).toBe('￥1,495')
+  })
+
+  it('should keep the currency minor digits for major amounts', () => {
+    expect(formatDollars(10)).toBe('$10.00')
+    expect(formatDollars(1495, 'JPY')).toBe('￥1,495')
+  })
+})
@@ -0,0 +1,166 @@
+/**
+ * Facet Utilities Tests
+ * Tests facet filtering, live counts, toggles and active filter badges
+ */
+
+import { describe, it, expect } from 'vitest'
+import type { Product } from '@/lib/types/products'
+import { getDefaultListingParams } from '../listing-params'
+import {
+  buildFacets,
+  filterProducts,
+  getActiveFilterBadges,
+  getPriceBucketValue,
+  toggleFacetValue,
+  type FacetFilters,
+} from '../facets'
+
+const createProduct = (id: number, overrides: Partial<Product> = {}): Product => ({
+  id,
+  title: `Product ${id}`,
+  description: `Description for product ${id}`,
+  category: 'beauty',
+  price: 10,
+  discountPercentage: 0,
+  rating: 4.5,
+  stock: 10,
+  tags: [],
+  brand: 'Essence',
+  sku: `SKU${id}`,
+  weight: 1,
+  dimensions: { width: 10, height: 10, depth: 10 },
+  warrantyInformation: 'Test warranty',
+  shippingInformation: 'Test shipping',
+  availabilityStatus: 'In Stock',
+  reviews: [],
+  returnPolicy: 'Test return policy',
+  minimumOrderQuantity: 1,
+  meta: {
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+    barcode: '1234567890',
+    qrCode: 'test-qr',
+  },
+  images: [],
+  thumbnail: '',
+  ...overrides,
+})
+
+const products = [
+  createProduct(1, { brand: 'Essence', tags: ['beauty', 'mascara'], price: 9.99, rating: 4.8 }),
+  createProduct(2, { brand: 'Essence', tags: ['beauty'], price: 19.99, rating: 3.2, discountPercentage: 15 }),
+  createProduct(3, { brand: 'Glamour', tags: ['beauty', 'lipstick'], price: 39.99, rating: 2.5, stock: 0, availabilityStatus: 'Out of Stock' }),
+  createProduct(4, { brand: 'Glamour', tags: ['lipstick'], price: 120, rating: 4.1, discountPercentage: 25 }),
+]
+
+const withFilters = (filters: Partial<FacetFilters>): FacetFilters => ({ ...getDefaultListingParams(), ...filters })
+
+const ids = (list: Product[]) => list.map((product) => product.id)
+
+describe('Facet Utilities', () => {
+  describe('filterProducts', () => {
+    it('should return every product without filters', () => {
+      expect(ids(filterProducts(products, withFilters({})))).toEqual([1, 2, 3, 4])
+    })
+
+    it('should match any selected tag by default and every tag in "all" mode', () => {
+      const tags = new Set(['mascara', 'lipstick'])
+
+      expect(ids(filterProducts(products, withFilters({ tags })))).toEqual([1, 3, 4])
+      expect(ids(filterProducts(products, withFilters({ tags: new Set(['beauty', 'lipstick']), tagMode: 'all' })))).toEqual([3])
+    })
+
+    it('should combine brand, rating, discount and availability with AND', () => {
+      expect(ids(filterProducts(products, withFilters({ brands: new Set(['Glamour']), inStock: true })))).toEqual([4])
+      expect(ids(filterProducts(products, withFilters({ minRating: 3, minDiscount: 10 })))).toEqual([2, 4])
+    })
+  })
+
+  describe('buildFacets', () => {
+    it('should count each facet against the other facets only', () => {
+      const facets = buildFacets(products, withFilters({ brands: new Set(['Essence']) }))
+      const brand = facets.find((facet) => facet.id === 'brand')!
+      const tags = facets.find((facet) => facet.id === 'tags')!
+
+      // Own selection doesn't narrow brand counts
+      expect(brand.options.map(({ value, count, checked }) => [value, count, checked])).toEqual([
+        ['Essence', 2, true],
+        ['Glamour', 2, false],
+      ])
+      // Other facets are narrowed to Essence products
+      expect(tags.options.find((option) => option.value === 'lipstick')?.count).toBe(0)
+      expect(tags.options.find((option) => option.value === 'beauty')?.count).toBe(2)
+    })
+
+    it('should narrow tag counts as tags are added in "all" mode', () => {
+      const tags = new Set(['beauty'])
+      const anyCounts = buildFacets(products, withFilters({ tags }))[0].options
+      const allCounts = buildFacets(products, withFilters({ tags, tagMode: 'all' }))[0].options
+
+      expect(anyCounts.find((option) => option.value === 'lipstick')?.count).toBe(2)
+      expect(allCounts.find((option) => option.value === 'lipstick')?.count).toBe(1)
+    })
+
+    it('should hide rare tags unless selected', () => {
+      const facets = buildFacets(products, withFilters({ tags: new Set(['mascara']) }), { minTagCount: 2 })
+
+      expect(facets[0].options.map((option) => option.value)).toEqual(['beauty', 'lipstick', 'mascara'])
+      expect(buildFacets(products, withFilters({}), { minTagCount: 2 })[0].options).toHaveLength(2)
+    })
+
+    it('should only offer price buckets and thresholds that contain products', () => {
+      const facets = buildFacets(products, withFilters({}))
+      const price = facets.find((facet) => facet.id === 'price')!
+      const discount = facets.find((facet) => facet.id === 'discount')!
+
+      expect(price.options.map((option) => option.label)).toEqual(['Under $25', '$25 – $50', '$100 – $250'])
+      expect(discount.options.map((option) => [option.value, option.count])).toEqual([
+        ['10', 2],
+        ['20', 1],
+      ])
+    })
+
+    it('should return no facets for an empty list', () => {
+      expect(buildFacets([], withFilters({}))).toEqual([])
+    })
+  })
+
+  describe('toggleFacetValue', () => {
+    it('should add and remove multi-select values', () => {
+      expect(toggleFacetValue(withFilters({}), 'brand', 'Essence')).toEqual({ brands: new Set(['Essence']) })
+      expect(toggleFacetValue(withFilters({ tags: new Set(['beauty']) }), 'tags', 'beauty')).toEqual({ tags: new Set() })
+    })
+
+    it('should select and unselect a price bucket', () => {
+      const value = getPriceBucketValue({ min: 25, max: 50 })
+
+      expect(toggleFacetValue(withFilters({}), 'price', value)).toEqual({ minPrice: 25, maxPrice: 50 })
+      expect(toggleFacetValue(withFilters({ minPrice: 25, maxPrice: 50 }), 'price', value)).toEqual({
+        minPrice: null,
+        maxPrice: null,
+      })
+    })
+
+    it('should treat thresholds like radios that can be unchecked', () => {
+      expect(toggleFacetValue(withFilters({ minRating: 3 }), 'rating', '4')).toEqual({ minRating: 4 })
+      expect(toggleFacetValue(withFilters({ minRating: 4 }), 'rating', '4')).toEqual({ minRating: null })
+      expect(toggleFacetValue(withFilters({}), 'availability', 'in-stock')).toEqual({ inStock: true })
+    })
+  })
+
+  describe('getActiveFilterBadges', () => {
+    it('should list brand, rating, discount and availability selections', () => {
+      const badges = getActiveFilterBadges(
+        withFilters({ brands: new Set(['Glamour', 'Essence']), minRating: 4, minDiscount: 20, inStock: true })
+      )
+
+      expect(badges.map((badge) => badge.label)).toEqual([
+        'Essence',
+        'Glamour',
+        '4★ & up',
+        '20% off or more',
+        'In stock only',
+      ])
+    })
+  })
+})
@@ -0,0 +1,148 @@
+/**
+ * Listing Params Utilities Tests
+ * Tests round-tripping listing state through URL search params
+ */
+
+import { describe, it, expect } from 'vitest'
+import { siteConfig } from '@/lib/config/site'
+import {
+  getDefaultListingParams,
+  isInPriceRange,
+  MAX_PAGE_SIZE,
+  parseListingPagination,
+  parseListingParams,
+  serializeListingParams,
+} from '../listing-params'
+
+describe('Listing Params Utilities', () => {
+  describe('parseListingParams', () => {
+    it('should return defaults for an empty query', () => {
+      expect(parseListingParams(new URLSearchParams())).toEqual(getDefaultListingParams())
+    })
+
+    it('should read tags, sort, price range and page', () => {
+      const params = parseListingParams(
+        new URLSearchParams('tags=beauty,lipstick&sort=price-low&minPrice=10&maxPrice=49.99&page=3')
+      )
+
+      expect(params).toEqual({
+        ...getDefaultListingParams(),
+        tags: new Set(['beauty', 'lipstick']),
+        sort: 'price-low',
+        minPrice: 10,
+        maxPrice: 49.99,
+        page: 3,
+      })
+    })
+
+    it('should read match mode, brands, rating, discount and availability', () => {
+      const params = parseListingParams(
+        new URLSearchParams('tags=a,b&tagMode=all&brands=Chanel,Dior&rating=4&discount=20&inStock=1')
+      )
+
+      expect(params.tagMode).toBe('all')
+      expect(params.brands).toEqual(new Set(['Chanel', 'Dior']))
+      expect(params.minRating).toBe(4)
+      expect(params.minDiscount).toBe(20)
+      expect(params.inStock).toBe(true)
+    })
+
+    it('should fall back to "any" for an unknown match mode', () => {
+      expect(parseListingParams(new URLSearchParams('tagMode=some')).tagMode).toBe('any')
+    })
+
+    it('should keep tags that contain spaces', () => {
+      const params = parseListingParams(new URLSearchParams('tags=fashion%20accessories,earrings'))
+
+      expect(params.tags).toEqual(new Set(['fashion accessories', 'earrings']))
+    })
+
+    it('should ignore unknown sorts, malformed prices and invalid pages', () => {
+      const params = parseListingParams(
+        new URLSearchParams('sort=cheapest&minPrice=abc&maxPrice=-5&page=0')
+      )
+
+      expect(params).toEqual(getDefaultListingParams())
+      expect(parseListingParams(new URLSearchParams('page=2.5')).page).toBe(1)
+    })
+
+    it('should swap a reversed price range', () => {
+      const params = parseListingParams(new URLSearchParams('minPrice=100&maxPrice=20'))
+
+      expect(params.minPrice).toBe(20)
+      expect(params.maxPrice).toBe(100)
+    })
+  })
+
+  describe('serializeListingParams', () => {
+    it('should omit defaults', () => {
+      expect(serializeListingParams(getDefaultListingParams())).toBe('')
+    })
+
+    it('should write tags in a stable order', () => {
+      const query = serializeListingParams({
+        ...getDefaultListingParams(),
+        tags: new Set(['lipstick', 'beauty']),
+        sort: 'rating-high',
+        maxPrice: 50,
+        page: 2,
+      })
+
+      expect(query).toBe('tags=beauty%2Clipstick&sort=rating-high&maxPrice=50&page=2')
+    })
+
+    it('should preserve unrelated params and replace listing params', () => {
+      const current = new URLSearchParams('utm_source=newsletter&tags=old&page=4')
+      const query = serializeListingParams({ ...getDefaultListingParams(), sort: 'price-high' }, current)
+
+      expect(query).toBe('utm_source=newsletter&sort=price-high')
+    })
+
+    it('should round-trip through parseListingParams', () => {
+      const params = {
+        tags: new Set(['fashion accessories', 'earrings']),
+        tagMode: 'all' as const,
+        brands: new Set(['Essence']),
+        sort: 'discount-high' as const,
+        minPrice: 5,
+        maxPrice: 25,
+        minRating: 4,
+        minDiscount: 10,
+        inStock: true,
+        page: 2,
+      }
+
+      expect(parseListingParams(new URLSearchParams(serializeListingParams(params)))).toEqual(params)
+    })
+  })
+
+  describe('isInPriceRange', () => {
+    it('should include prices on the range boundaries', () => {
+      const range = { minPrice: 10, maxPrice: 50 }
+
+      expect(isInPriceRange(10, range)).toBe(true)
+      expect(isInPriceRange(50, range)).toBe(true)
+      expect(isInPriceRange(9.99, range)).toBe(false)
+      expect(isInPriceRange(50.01, range)).toBe(false)
+    })
+
+    it('should treat a missing bound as open-ended', () => {
+      expect(isInPriceRange(1000, { minPrice: 10, maxPrice: null })).toBe(true)
+      expect(isInPriceRange(1, { minPrice: null, maxPrice: null })).toBe(true)
+    })
+  })
+
+  describe('parseListingPagination', () => {
+    it('should read limit and skip', () => {
+      expect(parseListingPagination(new URLSearchParams('limit=24&skip=48'))).toEqual({ limit: 24, skip: 48 })
+    })
+
+    it('should fall back to the configured page size and first page', () => {
+      expect(parseListingPagination(new URLSearchParams('limit=abc&skip=-3'))).toEqual({ limit: siteConfig.productsPerPage, skip: 0 })
+    })
+
+    it('should cap the page size', () => {
+      expect(parseListingPagination(new URLSearchParams('limit=5000')).limit).toBe(MAX_PAGE_SIZE)
+    })
+  })
+})
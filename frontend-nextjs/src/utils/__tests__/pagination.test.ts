@@ -0,0 +1,32 @@
+/**
+ * Pagination Utilities Tests
+ * Tests page number windows and ellipsis placement
+ */
+
+import { describe, it, expect } from 'vitest'
+import { getPageItems } from '../pagination'
+
+describe('getPageItems', () => {
+  it('should show every page when there are only a few', () => {
+    expect(getPageItems(1, 1)).toEqual([1])
+    expect(getPageItems(2, 5)).toEqual([1, 2, 3, 4, 5])
+  })
+
+  it('should collapse gaps on both sides of the current page', () => {
+    expect(getPageItems(6, 20)).toEqual([1, 'ellipsis', 5, 6, 7, 'ellipsis', 20])
+  })
+
+  it('should show a single skipped page instead of an ellipsis', () => {
+    expect(getPageItems(4, 20)).toEqual([1, 2, 3, 4, 5, 'ellipsis', 20])
+    expect(getPageItems(17, 20)).toEqual([1, 'ellipsis', 16, 17, 18, 19, 20])
+  })
+
+  it('should handle the first and last page', () => {
+    expect(getPageItems(1, 10)).toEqual([1, 2, 'ellipsis', 10])
+    expect(getPageItems(10, 10)).toEqual([1, 'ellipsis', 9, 10])
+  })
+
+  it('should widen the window with more siblings', () => {
+    expect(getPageItems(10, 20, 2)).toEqual([1, 'ellipsis', 8, 9, 10, 11, 12, 'ellipsis', 20])
+  })
+})
@@ -0,0 +1,41 @@
+/**
+ * Product Sorting Utilities Tests
+ * Tests each sort order and that the input is left untouched
+ */
+
+import { describe, it, expect } from 'vitest'
+import type { Product } from '@/lib/types/products'
+import { sortProducts } from '../sort-products'
+
+const createProduct = (id: number, price: number, rating: number, discountPercentage?: number) =>
+  ({ id, price, rating, discountPercentage }) as Product
+
+const products = [
+  createProduct(1, 20, 3.5, 10),
+  createProduct(2, 5, 4.9),
+  createProduct(3, 50, 4.1, 30),
+]
+
+const ids = (list: Product[]) => list.map((product) => product.id)
+
+describe('sortProducts', () => {
+  it('should keep the incoming order for "Featured"', () => {
+    expect(sortProducts(products, 'default')).toBe(products)
+  })
+
+  it('should sort by price in both directions', () => {
+    expect(ids(sortProducts(products, 'price-low'))).toEqual([2, 1, 3])
+    expect(ids(sortProducts(products, 'price-high'))).toEqual([3, 1, 2])
+  })
+
+  it('should sort by rating and by discount (missing discount last)', () => {
+    expect(ids(sortProducts(products, 'rating-high'))).toEqual([2, 3, 1])
+    expect(ids(sortProducts(products, 'discount-high'))).toEqual([3, 1, 2])
+  })
+
+  it('should not mutate the input array', () => {
+    sortProducts(products, 'price-low')
+
+    expect(ids(products)).toEqual([1, 2, 3])
+  })
+})
@@ -0,0 +1,72 @@
+/**
+ * Address Utilities
+ * Address book rules shared by the account service and checkout
+ */
+
+import type { AddressKind, SavedAddress } from '@/lib/types/account'
+import type { CheckoutAddress } from '@/lib/types/checkout'
+
+/**
+ * Blank address for a new form
+ */
+export function emptyAddress(country: string): CheckoutAddress {
+  return { company: '', address: '', apartment: '', city: '', region: '', postalCode: '', country }
+}
+
+/**
+ * Address fields of a saved address, without its book entry details
+ */
+export function toCheckoutAddress({ company, address, apartment, city, region, postalCode, country }: CheckoutAddress): CheckoutAddress {
+  return { company: company ?? '', address, apartment: apartment ?? '', city, region, postalCode, country }
+}
+
+/**
+ * Whether two addresses point at the same place
+ * Compares trimmed, case-insensitive fields; blank optional fields match missing ones
+ */
+export function isSameAddress(a: CheckoutAddress, b: CheckoutAddress): boolean {
+  const keys: (keyof CheckoutAddress)[] = ['company', 'address', 'apartment', 'city', 'region', 'postalCode', 'country']
+  const normalize = (value: string | undefined) => (value ?? '').trim().toLowerCase()
+
+  return keys.every((key) => normalize(a[key]) === normalize(b[key]))
+}
+
+/**
+ * Saved addresses of one kind, default first
+ */
+export function getAddressesOfKind(addresses: SavedAddress[], kind: AddressKind): SavedAddress[] {
+  return addresses
+    .filter((address) => address.kind === kind)
+    .sort((a, b) => Number(b.isDefault) - Number(a.isDefault))
+}
+
+export function getDefaultAddress(addresses: SavedAddress[], kind: AddressKind): SavedAddress | null {
+  return addresses.find((address) => address.kind === kind && address.isDefault) ?? null
+}
+
+/**
+ * Settle which address is the default for each kind
+ * The preferred address (just saved as default) wins its kind; otherwise an
+ * existing default is kept, falling back to the oldest address of the kind.
+ *
+ * @example resolveDefaultAddresses(addresses, saved.id)
+ */
+export function resolveDefaultAddresses(addresses: SavedAddress[], preferredId?: string): SavedAddress[] {
+  const defaults = new Map<AddressKind, string>()
+  const preferred = addresses.find((address) => address.id === preferredId)
+
+  if (preferred) defaults.set(preferred.kind, preferred.id)
+
+  for (const address of addresses) {
+    if (address.isDefault && !defaults.has(address.kind)) defaults.set(address.kind, address.id)
+  }
+
+  for (const address of addresses) {
+    if (!defaults.has(address.kind)) defaults.set(address.kind, address.id)
+  }
+
+  return addresses.map((address) => {
+    const isDefault = defaults.get(address.kind) === address.id
+    return address.isDefault === isDefault ? address : { ...address, isDefault }
+  })
+}
@@ -0,0 +1,62 @@
+/**
+ * Currency Utilities
+ * Conversion between currencies, with amounts in minor units (cents, pence, yen)
+ *
+ * Rounding rules:
+ * - Amounts are always whole minor units of their currency
+ * - A conversion goes through the base currency at full precision and is
+ *   rounded once, half away from zero, to the target currency's minor unit
+ * - Every displayed amount (unit price, line total, subtotal, discount,
+ *   shipping, tax, total) is converted from its own base amount. The base
+ *   amounts are what the backend charges, so converted rows may differ from
+ *   the converted total by a minor unit.
+ */
+
+import { currencyConfig, getCurrency } from '@/lib/config/currency'
+
+/**
+ * Round to the nearest integer, halves away from zero
+ * Trims floating point noise first so 1.005 * 100 rounds to 101
+ * @example roundHalfAwayFromZero(2.5) => 3
+ * @example roundHalfAwayFromZero(-2.5) => -3
+ */
+export function roundHalfAwayFromZero(value: number): number {
+  const rounded = Math.round(Number(Math.abs(value).toPrecision(12)))
+  return value < 0 && rounded !== 0 ? -rounded : rounded
+}
+
+/**
+ * Minor units per major unit
+ * @example minorUnitFactor('USD') => 100
+ * @example minorUnitFactor('JPY') => 1
+ */
+export function minorUnitFactor(currency: string): number {
+  return 10 ** getCurrency(currency).minorDigits
+}
+
+/**
+ * Convert a major amount (e.g. a product price in dollars) to minor units
+ * @example toMinorUnits(9.99, 'USD') => 999
+ */
+export function toMinorUnits(amount: number, currency: string): number {
+  return roundHalfAwayFromZero(amount * minorUnitFactor(currency))
+}
+
+/**
+ * Convert an amount in minor units between currencies
+ * @example convertAmount(1000, 'USD', 'EUR') => 920 (at 0.92)
+ * @example convertAmount(1000, 'USD', 'JPY') => 1495 (at 149.5)
+ */
+export function convertAmount(amount: number, from: string, to: string): number {
+  if (from === to) return amount
+
+  const fromRate = currencyConfig.rates[from]
+  const toRate = currencyConfig.rates[to]
+
+  if (!fromRate || !toRate) {
+    throw new Error(`No exchange rate for ${fromRate ? to : from}`)
+  }
+
+  const baseAmount = amount / minorUnitFactor(from) / fromRate
+  return roundHalfAwayFromZero(baseAmount * toRate * minorUnitFactor(to))
+}
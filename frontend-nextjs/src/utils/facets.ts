@@ -0,0 +1,338 @@
+/**
+ * Facet Utilities
+ * Faceted filtering over listing products: tags, brand, price buckets,
+ * rating and discount thresholds, and availability
+ *
+ * Facet counts are "what you'd get if you picked this": each facet is
+ * counted against products filtered by every *other* facet, so counts
+ * update as other filters change without collapsing the facet itself.
+ */
+
+import type { Product } from '@/lib/types/products'
+import { toTitleCase } from './format'
+import { isInPriceRange, type FacetMatchMode, type ListingParams } from './listing-params'
+
+export type FacetId = 'tags' | 'brand' | 'price' | 'rating' | 'discount' | 'availability'
+
+export type FacetFilters = Pick<
+  ListingParams,
+  'tags' | 'tagMode' | 'brands' | 'minPrice' | 'maxPrice' | 'minRating' | 'minDiscount' | 'inStock'
+>
+
+export interface FacetOption {
+  value: string
+  label: string
+  count: number
+  checked: boolean
+}
+
+export interface Facet {
+  id: FacetId
+  name: string
+  options: FacetOption[]
+  // Only set for facets where a product can carry several values (tags)
+  matchMode?: FacetMatchMode
+}
+
+export interface PriceBucket {
+  min: number | null
+  max: number | null
+  label: string
+}
+
+/**
+ * Price buckets in dollars (bounds are inclusive, matching isInPriceRange)
+ */
+export const priceBuckets: PriceBucket[] = [
+  { min: null, max: 25, label: 'Under $25' },
+  { min: 25, max: 50, label: '$25 – $50' },
+  { min: 50, max: 100, label: '$50 – $100' },
+  { min: 100, max: 250, label: '$100 – $250' },
+  { min: 250, max: null, label: '$250+' },
+]
+
+/**
+ * Minimum star ratings offered as "N & up"
+ */
+export const ratingThresholds = [4, 3, 2]
+
+/**
+ * Minimum discount percentages offered as "N% off or more"
+ */
+export const discountThresholds = [10, 20, 30]
+
+export const IN_STOCK_VALUE = 'in-stock'
+
+interface BuildFacetsOptions {
+  // Hide tags used by fewer products than this (across the unfiltered list)
+  minTagCount?: number
+}
+
+/**
+ * URL-safe value for a price bucket, e.g. "25-50", "-25", "250-"
+ */
+export function getPriceBucketValue(bucket: Pick<PriceBucket, 'min' | 'max'>): string {
+  return `${bucket.min ?? ''}-${bucket.max ?? ''}`
+}
+
+/**
+ * Find the price bucket for a value produced by getPriceBucketValue
+ */
+export function findPriceBucket(value: string): PriceBucket | undefined {
+  return priceBuckets.find((bucket) => getPriceBucketValue(bucket) === value)
+}
+
+/**
+ * Whether a product can currently be bought
+ */
+export function isInStock(product: Pick<Product, 'stock' | 'availabilityStatus'>): boolean {
+  return product.stock > 0 && product.availabilityStatus !== 'Out of Stock'
+}
+
+/**
+ * Whether a product carries the selected tags under the given match mode
+ */
+function matchesTags(product: Product, tags: Set<string>, mode: FacetMatchMode): boolean {
+  if (tags.size === 0) return true
+  const productTags = product.tags ?? []
+  const selected = Array.from(tags)
+
+  return mode === 'all'
+    ? selected.every((tag) => productTags.includes(tag))
+    : selected.some((tag) => productTags.includes(tag))
+}
+
+/**
+ * Whether a product passes one facet's current selection
+ */
+function matchesFacet(product: Product, facet: FacetId, filters: FacetFilters): boolean {
+  switch (facet) {
+    case 'tags':
+      return matchesTags(product, filters.tags, filters.tagMode)
+    case 'brand':
+      // A product has a single brand, so selected brands always combine with OR
+      return filters.brands.size === 0 || (!!product.brand && filters.brands.has(product.brand))
+    case 'price':
+      return isInPriceRange(product.price, filters)
+    case 'rating':
+      return filters.minRating === null || product.rating >= filters.minRating
+    case 'discount':
+      return filters.minDiscount === null || (product.discountPercentage || 0) >= filters.minDiscount
+    case 'availability':
+      return !filters.inStock || isInStock(product)
+  }
+}
+
+const FACET_IDS: FacetId[] = ['tags', 'brand', 'price', 'rating', 'discount', 'availability']
+
+/**
+ * Filter products by every facet (facets combine with AND)
+ *
+ * @param products - Products to filter
+ * @param filters - Current facet selections
+ * @param except - Facet to ignore (used for that facet's own counts)
+ * @returns Products matching all facets
+ */
+export function filterProducts(products: Product[], filters: FacetFilters, except?: FacetId): Product[] {
+  const facets = FACET_IDS.filter((facet) => facet !== except)
+  return products.filter((product) => facets.every((facet) => matchesFacet(product, facet, filters)))
+}
+
+/**
+ * Count occurrences of each value across products
+ */
+function countValues(products: Product[], getValues: (product: Product) => string[]): Map<string, number> {
+  const counts = new Map<string, number>()
+  products.forEach((product) => {
+    getValues(product).forEach((value) => {
+      counts.set(value, (counts.get(value) || 0) + 1)
+    })
+  })
+  return counts
+}
+
+/**
+ * Build filter sections with live counts
+ * Options come from the unfiltered list so they don't disappear while
+ * filtering; facets with nothing to choose from are omitted.
+ *
+ * @param products - Unfiltered listing products
+ * @param filters - Current facet selections
+ * @returns Facets in display order
+ */
+export function buildFacets(
+  products: Product[],
+  filters: FacetFilters,
+  { minTagCount = 1 }: BuildFacetsOptions = {}
+): Facet[] {
+  const facets: Facet[] = []
+
+  // Products passing every other facet, computed once per facet
+  const remaining = new Map<FacetId, Product[]>()
+  const countOthers = (facet: FacetId, predicate: (product: Product) => boolean) => {
+    if (!remaining.has(facet)) {
+      remaining.set(facet, filterProducts(products, filters, facet))
+    }
+    return remaining.get(facet)!.filter(predicate).length
+  }
+
+  // Tags - counts respect the match mode (AND counts narrow as tags are added)
+  const allTagCounts = countValues(products, (product) => product.tags ?? [])
+  const tagOptions = Array.from(allTagCounts.entries())
+    .filter(([tag, count]) => count >= minTagCount || filters.tags.has(tag))
+    .map(([tag]) => tag)
+    .sort()
+    .map((tag) => {
+      const selected = filters.tagMode === 'all' ? new Set([...filters.tags, tag]) : new Set([tag])
+      return {
+        value: tag,
+        label: toTitleCase(tag),
+        count: countOthers('tags', (product) => matchesTags(product, selected, filters.tagMode)),
+        checked: filters.tags.has(tag),
+      }
+    })
+  if (tagOptions.length > 0) {
+    facets.push({ id: 'tags', name: 'Tags', options: tagOptions, matchMode: filters.tagMode })
+  }
+
+  // Brand
+  const brands = Array.from(countValues(products, (product) => (product.brand ? [product.brand] : [])).keys()).sort()
+  if (brands.length > 0) {
+    facets.push({
+      id: 'brand',
+      name: 'Brand',
+      options: brands.map((brand) => ({
+        value: brand,
+        label: brand,
+        count: countOthers('brand', (product) => product.brand === brand),
+        checked: filters.brands.has(brand),
+      })),
+    })
+  }
+
+  // Price buckets that contain at least one product
+  const priceOptions = priceBuckets
+    .filter((bucket) => products.some((product) => isInPriceRange(product.price, { minPrice: bucket.min, maxPrice: bucket.max })))
+    .map((bucket) => ({
+      value: getPriceBucketValue(bucket),
+      label: bucket.label,
+      count: countOthers('price', (product) => isInPriceRange(product.price, { minPrice: bucket.min, maxPrice: bucket.max })),
+      checked: filters.minPrice === bucket.min && filters.maxPrice === bucket.max,
+    }))
+  if (priceOptions.length > 1) {
+    facets.push({ id: 'price', name: 'Price', options: priceOptions })
+  }
+
+  // Rating thresholds
+  const ratingOptions = ratingThresholds
+    .filter((threshold) => products.some((product) => product.rating >= threshold))
+    .map((threshold) => ({
+      value: String(threshold),
+      label: `${threshold}★ & up`,
+      count: countOthers('rating', (product) => product.rating >= threshold),
+      checked: filters.minRating === threshold,
+    }))
+  if (ratingOptions.length > 0) {
+    facets.push({ id: 'rating', name: 'Rating', options: ratingOptions })
+  }
+
+  // Discount thresholds
+  const discountOptions = discountThresholds
+    .filter((threshold) => products.some((product) => (product.discountPercentage || 0) >= threshold))
+    .map((threshold) => ({
+      value: String(threshold),
+      label: `${threshold}% off or more`,
+      count: countOthers('discount', (product) => (product.discountPercentage || 0) >= threshold),
+      checked: filters.minDiscount === threshold,
+    }))
+  if (discountOptions.length > 0) {
+    facets.push({ id: 'discount', name: 'Discount', options: discountOptions })
+  }
+
+  // Availability toggle
+  if (products.length > 0) {
+    facets.push({
+      id: 'availability',
+      name: 'Availability',
+      options: [
+        {
+          value: IN_STOCK_VALUE,
+          label: 'In stock only',
+          count: countOthers('availability', isInStock),
+          checked: filters.inStock,
+        },
+      ],
+    })
+  }
+
+  return facets
+}
+
+/**
+ * Listing param changes for toggling one facet option
+ * Multi-select facets add/remove the value; threshold facets and price
+ * buckets behave like radios that can be unchecked.
+ */
+export function toggleFacetValue(filters: FacetFilters, facet: FacetId, value: string): Partial<FacetFilters> {
+  const toggleInSet = (set: Set<string>) => {
+    const next = new Set(set)
+    if (next.has(value)) {
+      next.delete(value)
+    } else {
+      next.add(value)
+    }
+    return next
+  }
+
+  switch (facet) {
+    case 'tags':
+      return { tags: toggleInSet(filters.tags) }
+    case 'brand':
+      return { brands: toggleInSet(filters.brands) }
+    case 'price': {
+      const bucket = findPriceBucket(value)
+      const isChecked = !!bucket && filters.minPrice === bucket.min && filters.maxPrice === bucket.max
+      return isChecked || !bucket
+        ? { minPrice: null, maxPrice: null }
+        : { minPrice: bucket.min, maxPrice: bucket.max }
+    }
+    case 'rating': {
+      const threshold = Number(value)
+      return { minRating: filters.minRating === threshold ? null : threshold }
+    }
+    case 'discount': {
+      const threshold = Number(value)
+      return { minDiscount: filters.minDiscount === threshold ? null : threshold }
+    }
+    case 'availability':
+      return { inStock: !filters.inStock }
+  }
+}
+
+export interface ActiveFilterBadge {
+  facet: FacetId
+  value: string
+  label: string
+}
+
+/**
+ * Badges for every active selection except tags and price range
+ * (ActiveFilters renders those from its dedicated props)
+ */
+export function getActiveFilterBadges(filters: FacetFilters): ActiveFilterBadge[] {
+  const badges: ActiveFilterBadge[] = Array.from(filters.brands)
+    .sort()
+    .map((brand): ActiveFilterBadge => ({ facet: 'brand', value: brand, label: brand }))
+
+  if (filters.minRating !== null) {
+    badges.push({ facet: 'rating', value: String(filters.minRating), label: `${filters.minRating}★ & up` })
+  }
+  if (filters.minDiscount !== null) {
+    badges.push({ facet: 'discount', value: String(filters.minDiscount), label: `${filters.minDiscount}% off or more` })
+  }
+  if (filters.inStock) {
+    badges.push({ facet: 'availability', value: IN_STOCK_VALUE, label: 'In stock only' })
+  }
+
+  return badges
+}
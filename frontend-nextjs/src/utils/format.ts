@@ -3,6 +3,9 @@
  * Helpers for formatting strings, numbers, etc.
  */
 
+import { getCurrency } from '@/lib/config/currency'
+import type { CardBrand } from '@/lib/types/payments'
+
 /**
  * Convert kebab-case to Title Case
  * @example kebabToTitleCase('beauty') => 'Beauty'
@@ -35,28 +38,32 @@ export function centsToDollars(cents: number): number {
 }
 
 /**
- * Format price in cents to currency string
+ * Format an amount in minor units (cents) as a currency string
+ * Uses the currency's minor digits, and its configured locale unless one is given
  * @example formatPrice(999) => '$9.99'
  * @example formatPrice(999, 'EUR') => '€9.99'
+ * @example formatPrice(999, 'EUR', 'fr-FR') => '9,99 €'
+ * @example formatPrice(1495, 'JPY') => '￥1,495'
  */
-export function formatPrice(cents: number, currency: string = 'USD'): string {
-  const dollars = centsToDollars(cents)
+export function formatPrice(amount: number, currency: string = 'USD', locale?: string): string {
+  const { minorDigits } = getCurrency(currency)
 
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency,
-  }).format(dollars)
+  return formatDollars(amount / 10 ** minorDigits, currency, locale)
 }
 
 /**
- * Format price in dollars to currency string
+ * Format a major amount (e.g. dollars) as a currency string
  * @example formatDollars(9.99) => '$9.99'
  * @example formatDollars(9.99, 'EUR') => '€9.99'
  */
-export function formatDollars(dollars: number, currency: string = 'USD'): string {
-  return new Intl.NumberFormat('en-US', {
+export function formatDollars(dollars: number, currency: string = 'USD', locale?: string): string {
+  const { locale: currencyLocale, minorDigits } = getCurrency(currency)
+
+  return new Intl.NumberFormat(locale ?? currencyLocale, {
     style: 'currency',
     currency,
+    minimumFractionDigits: minorDigits,
+    maximumFractionDigits: minorDigits,
   }).format(dollars)
 }
 
@@ -71,3 +78,19 @@ export function toTitleCase(str: string): string {
     .map((word) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
     .join(' ')
 }
+
+const CARD_BRAND_NAMES: Partial<Record<CardBrand, string>> = {
+  visa: 'Visa',
+  mastercard: 'Mastercard',
+  amex: 'American Express',
+  discover: 'Discover',
+}
+
+/**
+ * Display name of a card brand
+ * @example formatCardBrand('amex') => 'American Express'
+ * @example formatCardBrand('unknown') => 'Card'
+ */
+export function formatCardBrand(brand: CardBrand | undefined): string {
+  return (brand && CARD_BRAND_NAMES[brand]) ?? 'Card'
+}
@@ -0,0 +1,200 @@
+/**
+ * Listing Params Utilities
+ * Parse and serialize listing filter/sort/page state to URL search params
+ *
+ * URL format (defaults are omitted to keep URLs short):
+ *   ?tags=beauty,lipstick&tagMode=all&brands=Chanel&sort=price-low
+ *    &minPrice=10&maxPrice=50&rating=4&discount=10&inStock=1&page=2
+ */
+
+import { siteConfig } from '@/lib/config/site'
+import { sortOptions, type SortOption } from './sort-products'
+
+/**
+ * How multiple selected values within one facet combine
+ * any = OR (match at least one), all = AND (match every one)
+ */
+export type FacetMatchMode = 'any' | 'all'
+
+export interface ListingParams {
+  tags: Set<string>
+  tagMode: FacetMatchMode
+  brands: Set<string>
+  sort: SortOption
+  minPrice: number | null
+  maxPrice: number | null
+  minRating: number | null
+  minDiscount: number | null
+  inStock: boolean
+  page: number
+}
+
+/**
+ * Search param keys owned by listing pages
+ * Anything else in the URL (e.g. utm_* params) is left untouched
+ */
+export const LISTING_PARAM_KEYS = [
+  'tags',
+  'tagMode',
+  'brands',
+  'sort',
+  'minPrice',
+  'maxPrice',
+  'rating',
+  'discount',
+  'inStock',
+  'page',
+] as const
+
+const LIST_SEPARATOR = ','
+
+/**
+ * Largest page a listing API will return
+ */
+export const MAX_PAGE_SIZE = 100
+
+type SearchParamsLike = Pick<URLSearchParams, 'get' | 'toString'>
+
+/**
+ * Default listing state (no filters, featured sort, first page)
+ */
+export function getDefaultListingParams(): ListingParams {
+  return {
+    tags: new Set(),
+    tagMode: 'any',
+    brands: new Set(),
+    sort: 'default',
+    minPrice: null,
+    maxPrice: null,
+    minRating: null,
+    minDiscount: null,
+    inStock: false,
+    page: 1,
+  }
+}
+
+/**
+ * Parse a non-negative number, ignoring anything malformed
+ */
+function parseNumber(value: string | null): number | null {
+  if (value === null || value.trim() === '') return null
+  const number = Number(value)
+  return Number.isFinite(number) && number >= 0 ? number : null
+}
+
+/**
+ * Parse a comma-separated list into a set of trimmed values
+ */
+function parseList(value: string | null): Set<string> {
+  return new Set(
+    (value ?? '')
+      .split(LIST_SEPARATOR)
+      .map((item) => item.trim())
+      .filter(Boolean)
+  )
+}
+
+/**
+ * Read listing state from URL search params
+ * Unknown sort values, malformed prices and invalid pages fall back to defaults
+ */
+export function parseListingParams(searchParams: SearchParamsLike): ListingParams {
+  const defaults = getDefaultListingParams()
+
+  const tags = parseList(searchParams.get('tags'))
+  const tagMode: FacetMatchMode = searchParams.get('tagMode') === 'all' ? 'all' : 'any'
+  const brands = parseList(searchParams.get('brands'))
+
+  const sortParam = searchParams.get('sort')
+  const sort = sortOptions.some((option) => option.value === sortParam)
+    ? (sortParam as SortOption)
+    : defaults.sort
+
+  let minPrice = parseNumber(searchParams.get('minPrice'))
+  let maxPrice = parseNumber(searchParams.get('maxPrice'))
+
+  // Accept a reversed range rather than showing nothing
+  if (minPrice !== null && maxPrice !== null && minPrice > maxPrice) {
+    [minPrice, maxPrice] = [maxPrice, minPrice]
+  }
+
+  const minRating = parseNumber(searchParams.get('rating'))
+  const minDiscount = parseNumber(searchParams.get('discount'))
+  const inStock = searchParams.get('inStock') === '1'
+
+  const pageParam = Number(searchParams.get('page'))
+  const page = Number.isInteger(pageParam) && pageParam > 1 ? pageParam : defaults.page
+
+  return { tags, tagMode, brands, sort, minPrice, maxPrice, minRating, minDiscount, inStock, page }
+}
+
+/**
+ * Write listing state to a query string, preserving unrelated params
+ *
+ * @param params - Listing state to serialize
+ * @param current - Current search params (non-listing keys are kept)
+ * @returns Query string without the leading "?" (empty when at defaults)
+ */
+export function serializeListingParams(params: ListingParams, current?: SearchParamsLike): string {
+  const searchParams = new URLSearchParams(current?.toString())
+  LISTING_PARAM_KEYS.forEach((key) => searchParams.delete(key))
+
+  if (params.tags.size > 0) {
+    searchParams.set('tags', Array.from(params.tags).sort().join(LIST_SEPARATOR))
+  }
+  if (params.tagMode === 'all') {
+    searchParams.set('tagMode', 'all')
+  }
+  if (params.brands.size > 0) {
+    searchParams.set('brands', Array.from(params.brands).sort().join(LIST_SEPARATOR))
+  }
+  if (params.sort !== 'default') {
+    searchParams.set('sort', params.sort)
+  }
+  if (params.minPrice !== null) {
+    searchParams.set('minPrice', String(params.minPrice))
+  }
+  if (params.maxPrice !== null) {
+    searchParams.set('maxPrice', String(params.maxPrice))
+  }
+  if (params.minRating !== null) {
+    searchParams.set('rating', String(params.minRating))
+  }
+  if (params.minDiscount !== null) {
+    searchParams.set('discount', String(params.minDiscount))
+  }
+  if (params.inStock) {
+    searchParams.set('inStock', '1')
+  }
+  if (params.page > 1) {
+    searchParams.set('page', String(params.page))
+  }
+
+  return searchParams.toString()
+}
+
+/**
+ * Whether a product price falls inside the selected range (inclusive)
+ */
+export function isInPriceRange(price: number, params: Pick<ListingParams, 'minPrice' | 'maxPrice'>): boolean {
+  if (params.minPrice !== null && price < params.minPrice) return false
+  if (params.maxPrice !== null && price > params.maxPrice) return false
+  return true
+}
+
+/**
+ * Read offset pagination (?limit&skip) for the listing API
+ * Missing or malformed values fall back to the configured page size and
+ * the first page; limit is capped at MAX_PAGE_SIZE
+ */
+export function parseListingPagination(searchParams: Pick<URLSearchParams, 'get'>): { limit: number; skip: number } {
+  const limitParam = Number(searchParams.get('limit'))
+  const skipParam = Number(searchParams.get('skip'))
+
+  const limit = Number.isInteger(limitParam) && limitParam > 0
+    ? Math.min(limitParam, MAX_PAGE_SIZE)
+    : siteConfig.productsPerPage
+  const skip = Number.isInteger(skipParam) && skipParam > 0 ? skipParam : 0
+
+  return { limit, skip }
+}
@@ -5,12 +5,19 @@
 
 import type { Metadata } from 'next'
 import { siteConfig } from '@/lib/config/site'
-import { brand } from '@/lib/cms'
+import { brand, getBrand } from '@/lib/cms'
+import { i18nConfig, type Locale } from '@/lib/i18n/config'
+import { localizePath } from '@/lib/i18n/paths'
 import type { DummyProduct } from '@/lib/types/products'
 
+interface DefaultMetadataOptions {
+  locale?: Locale
+}
+
 interface ProductMetadataOptions {
   product: DummyProduct
   url?: string
+  locale?: Locale
 }
 
 interface CollectionMetadataOptions {
@@ -18,13 +25,36 @@ interface CollectionMetadataOptions {
   description: string
   slug: string
   productCount?: number
+  locale?: Locale
+}
+
+/**
+ * Absolute URL of an internal path in a locale
+ */
+function localizedUrl(path: string, locale: Locale): string {
+  return `${siteConfig.url}${localizePath(path, locale)}`
+}
+
+/**
+ * Canonical URL plus hreflang alternates for every locale of a path
+ * x-default points at the unprefixed (default locale) URL
+ */
+export function generateAlternates(path: string, locale: Locale = i18nConfig.defaultLocale): NonNullable<Metadata['alternates']> {
+  return {
+    canonical: localizedUrl(path, locale),
+    languages: {
+      ...Object.fromEntries(i18nConfig.locales.map((alternate) => [alternate, localizedUrl(path, alternate)])),
+      'x-default': localizedUrl(path, i18nConfig.defaultLocale),
+    },
+  }
 }
 
 /**
  * Generate metadata for product detail pages
  */
-export function generateProductMetadata({ product, url }: ProductMetadataOptions): Metadata {
-  const pageUrl = url || `${siteConfig.url}/products/${product.id}`
+export function generateProductMetadata({ product, url, locale = i18nConfig.defaultLocale }: ProductMetadataOptions): Metadata {
+  const path = url ? url.replace(siteConfig.url, '') : `/products/${product.id}`
+  const pageUrl = localizedUrl(path, locale)
   const productTitle = `${product.title} | ${brand.name}`
   const productDescription = product.description || `Shop ${product.title} at ${brand.name}. ${brand.tagline}`
 
@@ -56,9 +86,7 @@ export function generateProductMetadata({ product, url }: ProductMetadataOptions
       description: productDescription,
       images: [imageUrl],
     },
-    alternates: {
-      canonical: pageUrl,
-    },
+    alternates: generateAlternates(path, locale),
     other: {
       'product:price:amount': product.price.toString(),
       'product:price:currency': 'USD',
@@ -78,8 +106,10 @@ export function generateCollectionMetadata({
   description,
   slug,
   productCount,
+  locale = i18nConfig.defaultLocale,
 }: CollectionMetadataOptions): Metadata {
-  const pageUrl = `${siteConfig.url}/collections/${slug}`
+  const path = `/collections/${slug}`
+  const pageUrl = localizedUrl(path, locale)
   const pageTitle = `${title} | ${brand.name}`
   const pageDescription = productCount
     ? `${description} Browse ${productCount} products in our ${title} collection.`
@@ -100,16 +130,20 @@ export function generateCollectionMetadata({
       title: pageTitle,
       description: pageDescription,
     },
-    alternates: {
-      canonical: pageUrl,
-    },
+    alternates: generateAlternates(path, locale),
   }
 }
 
 /**
  * Generate default/fallback metadata for the site
+ * No canonical or hreflang alternates: every page inherits these, so each
+ * page builds its own from its path (see generateAlternates)
  */
-export function generateDefaultMetadata(): Metadata {
+export function generateDefaultMetadata({
+  locale = i18nConfig.defaultLocale,
+}: DefaultMetadataOptions = {}): Metadata {
+  const brand = getBrand(locale)
+
   return {
     title: `${brand.name} - ${brand.tagline}`,
     description: brand.tagline,
@@ -125,8 +159,8 @@ export function generateDefaultMetadata(): Metadata {
     authors: [{ name: brand.name }],
     openGraph: {
       type: 'website',
-      locale: 'en_US',
-      url: siteConfig.url,
+      locale: i18nConfig.intlLocales[locale].replace('-', '_'),
+      url: localizedUrl('/', locale),
       siteName: brand.name,
       title: `${brand.name} - ${brand.tagline}`,
       description: brand.tagline,
@@ -0,0 +1,45 @@
+/**
+ * Pagination Utilities
+ * Page number windows for numbered pagination controls
+ */
+
+export type PageItem = number | 'ellipsis'
+
+/**
+ * Page numbers to show around the current page
+ * Always includes the first and last page; gaps collapse to an ellipsis,
+ * e.g. page 6 of 20 -> [1, 'ellipsis', 5, 6, 7, 'ellipsis', 20]
+ *
+ * @param currentPage - Current page (1-based)
+ * @param totalPages - Total number of pages
+ * @param siblings - Pages to show on each side of the current page
+ * @returns Page numbers and ellipsis markers in display order
+ */
+export function getPageItems(currentPage: number, totalPages: number, siblings: number = 1): PageItem[] {
+  const start = Math.max(2, currentPage - siblings)
+  const end = Math.min(totalPages - 1, currentPage + siblings)
+  const items: PageItem[] = [1]
+
+  // A gap of one page shows the page instead of an ellipsis
+  if (start > 3) {
+    items.push('ellipsis')
+  } else if (start === 3) {
+    items.push(2)
+  }
+
+  for (let page = start; page <= end; page++) {
+    items.push(page)
+  }
+
+  if (end < totalPages - 2) {
+    items.push('ellipsis')
+  } else if (end === totalPages - 2) {
+    items.push(totalPages - 1)
+  }
+
+  if (totalPages > 1) {
+    items.push(totalPages)
+  }
+
+  return items
+}
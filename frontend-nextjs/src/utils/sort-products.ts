@@ -0,0 +1,54 @@
+/**
+ * Product Sorting Utilities
+ * Shared sort orders for listing and search results
+ */
+
+import type { Product } from '@/lib/types/products'
+
+export type SortOption = 'default' | 'price-low' | 'price-high' | 'rating-high' | 'discount-high'
+
+interface SortConfig {
+  value: SortOption
+  label: string
+}
+
+/**
+ * Sort options in menu order
+ * Kept out of the sort menu component so server code can validate sort params
+ */
+export const sortOptions: SortConfig[] = [
+  { value: 'default', label: 'Featured' },
+  { value: 'price-low', label: 'Price: Low to High' },
+  { value: 'price-high', label: 'Price: High to Low' },
+  { value: 'rating-high', label: 'Best Rating' },
+  { value: 'discount-high', label: 'Best Discount' },
+]
+
+/**
+ * Sort products by the selected option
+ * "Featured" keeps the incoming order; the input array is never mutated
+ *
+ * @param products - Products to sort
+ * @param sort - Selected sort option
+ * @returns Sorted copy (or the same array for the default order)
+ */
+export function sortProducts(products: Product[], sort: SortOption): Product[] {
+  if (sort === 'default') {
+    return products
+  }
+
+  return [...products].sort((a, b) => {
+    switch (sort) {
+      case 'price-low':
+        return a.price - b.price
+      case 'price-high':
+        return b.price - a.price
+      case 'rating-high':
+        return b.rating - a.rating
+      case 'discount-high':
+        return (b.discountPercentage || 0) - (a.discountPercentage || 0)
+      default:
+        return 0
+    }
+  })
+}